@@ -0,0 +1,304 @@
+// Seals protected customer fields for signed-in operators, so the key never reaches the browser.
+// Deployed as a Blink edge function; FIELD_ENCRYPTION_KEY (base64 of 32 random bytes) is a project
+// secret and ALLOWED_ORIGINS a comma-separated list of the dashboard's origins. Derivation and
+// format match what src/lib/fieldCrypto.ts wrote when it held the key itself, so existing
+// ciphertext and blind indexes stay valid.
+//
+// Values are only opened by a reveal: for one customer of the caller, with the access log written
+// here before anything is returned. The one other thing that opens is a contract's fields, sealed
+// as a whole under CONTRACT_FIELD, again only for the caller's customer and logged the same way.
+//
+// What a reveal opens is whatever ciphertext that customer's row holds, and the ciphertext is
+// bound to the field name only, not to the row or its owner. An operator who gets hold of another
+// row's sealed phone number can write it into the phone column of their own customer and open it
+// there, logged against their customer. So the guarantee is that every opening is logged and made
+// by a signed-in operator, and that sealed values do not open from the wrong column; keeping other
+// operators' ciphertext out of reach is left to the database's access rules.
+
+import { createClient } from 'npm:@blinkdotnew/sdk'
+
+const PREFIX = 'enc:v1:'
+const PROJECT_ID = 'brytt-ai-agentic-telecom-platform-wxq0tvx6'
+// Keeps one request from holding a worker for long; the client splits bigger batches
+const MAX_ITEMS = 500
+
+type FieldOperation = 'encrypt' | 'index'
+
+type RevealField = 'identificationNumber' | 'phone' | 'address'
+
+// Same reasons as RevealReason in src/lib/customers.ts
+const REVEAL_REASONS = ['view', 'edit', 'merge', 'agent', 'migration', 'contract']
+const REVEAL_FIELDS: RevealField[] = ['identificationNumber', 'phone', 'address']
+
+// Same name as in src/lib/contracts.ts; a contract holds the address and phone in full
+const CONTRACT_FIELD = 'contractFields'
+const CONTRACT_REVEAL_FIELDS: RevealField[] = ['address', 'phone']
+
+interface FieldItem {
+  op: FieldOperation
+  field: string
+  value: string
+}
+
+interface RevealRequest {
+  customerId: string
+  fields: RevealField[]
+  reason: string
+}
+
+interface ContractRequest {
+  customerId: string
+  sealed: string
+}
+
+interface Operator {
+  id: string
+  email: string
+}
+
+interface FieldKeys {
+  encryption: CryptoKey
+  index: CryptoKey
+}
+
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') || '').split(',').map(origin => origin.trim()).filter(Boolean)
+
+// Other sites get no CORS headers, so browsers keep them from reading the response
+const corsHeaders = (request: Request): Record<string, string> => {
+  const origin = request.headers.get('Origin') || ''
+  if (!ALLOWED_ORIGINS.includes(origin)) return {}
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Headers': 'authorization, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    Vary: 'Origin'
+  }
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0))
+
+const deriveKeys = async (secret: string): Promise<FieldKeys> => {
+  const master = await crypto.subtle.importKey('raw', fromBase64(secret), 'HKDF', false, ['deriveKey'])
+  const derive = (info: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]) =>
+    crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: encoder.encode(info) },
+      master,
+      algorithm,
+      false,
+      usages
+    )
+  return {
+    encryption: await derive('customer-fields', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+    index: await derive('customer-blind-index', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign'])
+  }
+}
+
+let keys: Promise<FieldKeys> | null = null
+
+const loadKeys = () => {
+  const secret = Deno.env.get('FIELD_ENCRYPTION_KEY')
+  if (!secret) throw new Error('FIELD_ENCRYPTION_KEY is not set')
+  keys ??= deriveKeys(secret)
+  return keys
+}
+
+// `field` is bound into the ciphertext, so a value copied into another column fails to decrypt
+const encrypt = async ({ encryption }: FieldKeys, value: string, field: string) => {
+  if (!value || value.startsWith(PREFIX)) return value
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(field) },
+    encryption,
+    encoder.encode(value)
+  )
+  return `${PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(sealed))}`
+}
+
+const decrypt = async ({ encryption }: FieldKeys, value: string, field: string) => {
+  if (!value.startsWith(PREFIX)) return value
+  const [iv, sealed] = value.slice(PREFIX.length).split(':')
+  const opened = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: encoder.encode(field) },
+    encryption,
+    fromBase64(sealed)
+  )
+  return decoder.decode(opened)
+}
+
+const index = async ({ index: key }: FieldKeys, value: string, field: string) => {
+  if (!value) return ''
+  const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(`${field}:${value}`))
+  return toBase64(new Uint8Array(mac))
+}
+
+const OPERATIONS: Record<FieldOperation, (keys: FieldKeys, value: string, field: string) => Promise<string>> = {
+  encrypt,
+  index
+}
+
+// The caller's client, so every read and write below runs with their access and no more
+const connect = async (request: Request) => {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+  try {
+    const blink = createClient({ projectId: PROJECT_ID, authRequired: false })
+    await blink.auth.setToken(token, false)
+    const user = await blink.auth.me()
+    return user?.id ? { blink, operator: { id: user.id, email: user.email || '' } as Operator } : null
+  } catch {
+    return null
+  }
+}
+
+const isFieldItem = (item: unknown): item is FieldItem =>
+  !!item &&
+  typeof item === 'object' &&
+  Object.keys(OPERATIONS).includes((item as FieldItem).op) &&
+  typeof (item as FieldItem).field === 'string' &&
+  typeof (item as FieldItem).value === 'string'
+
+const isRevealRequest = (value: unknown): value is RevealRequest =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as RevealRequest).customerId === 'string' &&
+  REVEAL_REASONS.includes((value as RevealRequest).reason) &&
+  Array.isArray((value as RevealRequest).fields) &&
+  (value as RevealRequest).fields.length > 0 &&
+  (value as RevealRequest).fields.every(field => REVEAL_FIELDS.includes(field))
+
+const isContractRequest = (value: unknown): value is ContractRequest =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as ContractRequest).customerId === 'string' &&
+  typeof (value as ContractRequest).sealed === 'string'
+
+// One value that cannot be processed fails on its own
+const runItems = (fieldKeys: FieldKeys, items: FieldItem[]) =>
+  Promise.all(items.map(async ({ op, field, value }) => {
+    try {
+      return { value: await OPERATIONS[op](fieldKeys, value, field) }
+    } catch {
+      return { error: `Cannot ${op} ${field}` }
+    }
+  }))
+
+type Client = ReturnType<typeof createClient>
+
+const getOwnCustomer = async (blink: Client, operator: Operator, customerId: string) => {
+  const customer = await blink.db.table<Record<string, string>>('customers').get(customerId)
+  return customer && customer.userId === operator.id ? customer : null
+}
+
+const logReveal = (blink: Client, operator: Operator, customerId: string, fields: RevealField[], reason: string) => {
+  const createdAt = new Date().toISOString()
+  return blink.db.table('customerReveals').createMany(fields.map(field => ({
+    id: `reveal_${crypto.randomUUID()}`,
+    customerId,
+    userId: operator.id,
+    actor: `user:${operator.id}`,
+    actorName: operator.email,
+    field,
+    reason,
+    createdAt
+  })))
+}
+
+// Opens fields of one of the caller's customers. The access log is written first; if it cannot
+// be, nothing is returned.
+const reveal = async (blink: Client, operator: Operator, fieldKeys: FieldKeys, { customerId, fields, reason }: RevealRequest) => {
+  const customer = await getOwnCustomer(blink, operator, customerId)
+  if (!customer) return null
+
+  const requested = [...new Set(fields)]
+  await logReveal(blink, operator, customerId, requested, reason)
+
+  const values: Partial<Record<RevealField, string>> = {}
+  for (const field of requested) {
+    const value = customer[field] || ''
+    try {
+      values[field] = value ? await decrypt(fieldKeys, value, field) : ''
+    } catch {
+      // A value that cannot be opened, e.g. copied from another column, reads as blank
+      console.error(`Cannot open ${field} of customer ${customerId}`)
+      values[field] = ''
+    }
+  }
+  return values
+}
+
+// Opens a contract's fields for one of the caller's customers, logged as a reveal of what the
+// contract holds in full. A contract sealed for another customer does not open.
+const openContract = async (blink: Client, operator: Operator, fieldKeys: FieldKeys, { customerId, sealed }: ContractRequest) => {
+  if (!(await getOwnCustomer(blink, operator, customerId))) return null
+  let fields: { customerId?: string }
+  try {
+    fields = JSON.parse(await decrypt(fieldKeys, sealed, CONTRACT_FIELD))
+  } catch {
+    return null
+  }
+  if (fields?.customerId !== customerId) return null
+
+  await logReveal(blink, operator, customerId, CONTRACT_REVEAL_FIELDS, 'contract')
+  return fields
+}
+
+Deno.serve(async (request) => {
+  const cors = corsHeaders(request)
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...cors, 'Content-Type': 'application/json' } })
+
+  if (request.method === 'OPTIONS') return new Response(null, { headers: cors })
+  if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+  const session = await connect(request)
+  if (!session) return json({ error: 'Not signed in' }, 401)
+
+  let body: { items?: unknown; reveal?: unknown; contract?: unknown } | null
+  try {
+    body = await request.json()
+  } catch {
+    return json({ error: 'Body must be JSON' }, 400)
+  }
+
+  let fieldKeys: FieldKeys
+  try {
+    fieldKeys = await loadKeys()
+  } catch (error) {
+    console.error('Field keys unavailable:', error)
+    return json({ error: 'Field encryption is not configured' }, 503)
+  }
+
+  if (body?.reveal !== undefined) {
+    if (!isRevealRequest(body.reveal)) {
+      return json({ error: `reveal must be { customerId, fields, reason } with fields from ${REVEAL_FIELDS.join(', ')}` }, 400)
+    }
+    try {
+      const values = await reveal(session.blink, session.operator, fieldKeys, body.reveal)
+      return values ? json({ values }) : json({ error: 'Customer not found' }, 404)
+    } catch (error) {
+      console.error('Reveal failed:', error)
+      return json({ error: 'Could not log the reveal' }, 500)
+    }
+  }
+
+  if (body?.contract !== undefined) {
+    if (!isContractRequest(body.contract)) return json({ error: 'contract must be { customerId, sealed }' }, 400)
+    try {
+      const fields = await openContract(session.blink, session.operator, fieldKeys, body.contract)
+      return fields ? json({ fields }) : json({ error: 'Contract not found' }, 404)
+    } catch (error) {
+      console.error('Opening the contract failed:', error)
+      return json({ error: 'Could not log the reveal' }, 500)
+    }
+  }
+
+  const items = body?.items
+  if (!Array.isArray(items) || items.length > MAX_ITEMS || !items.every(isFieldItem)) {
+    return json({ error: `items must be at most ${MAX_ITEMS} { op, field, value } entries` }, 400)
+  }
+  return json({ results: await runItems(fieldKeys, items) })
+})
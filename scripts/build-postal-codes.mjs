@@ -0,0 +1,170 @@
+// Converts Japan Post's postal code list into the files src/lib/postalCodes.ts reads.
+//
+// The committed files come from the copies of that list in two npm packages:
+//
+//   npm run postal-codes
+//
+// jp-postal has every area of each code, with the municipality and town run together;
+// japan-postal-code (the older ajaxzip3 data) keeps them apart, which gives most municipality
+// names to split on, and adds the codes of large businesses. For the latest list straight from Japan Post:
+//
+//   1. Download utf_ken_all.zip from
+//      https://www.post.japanpost.jp/zipcode/download.html (UTF-8 version of KEN_ALL)
+//   2. Unzip it and run: npm run postal-codes -- path/to/utf_ken_all.csv
+//
+// Writes src/data/postal/NNN.json per first three digits, replacing what is there.
+
+import { createReadStream } from 'node:fs'
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import { createInterface } from 'node:readline'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const OUTPUT_DIR = join(dirname(fileURLToPath(import.meta.url)), '../src/data/postal')
+
+// KEN_ALL columns used here
+const POSTAL_CODE = 2
+const PREFECTURE = 6
+const MUNICIPALITY = 7
+const TOWN = 8
+
+const parseLine = line => [...line.matchAll(/"([^"]*)"|([^,]+)|(?<=,|^)(?=,|$)/g)].map(match => match[1] ?? match[2] ?? '')
+
+// Town names in KEN_ALL carry notes for humans: what the code covers when no town matches,
+// buildings excluded from it, floors of a building. Only the town itself is kept.
+const cleanTown = town => {
+  if (town === '以下に掲載がない場合' || /の次に番地がくる場合$/.test(town)) return ''
+  if (/^.+一円$/.test(town)) return ''
+  return town.replace(/（.*?）/g, '').replace(/（.*$/, '').trim()
+}
+
+// Prefecture codes used by the ajaxzip3 data (JIS X 0401)
+const PREFECTURES = [
+  '北海道', '青森県', '岩手県', '宮城県', '秋田県', '山形県', '福島県',
+  '茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県',
+  '新潟県', '富山県', '石川県', '福井県', '山梨県', '長野県', '岐阜県',
+  '静岡県', '愛知県', '三重県', '滋賀県', '京都府', '大阪府', '兵庫県',
+  '奈良県', '和歌山県', '鳥取県', '島根県', '岡山県', '広島県', '山口県',
+  '徳島県', '香川県', '愛媛県', '高知県', '福岡県', '佐賀県', '長崎県',
+  '熊本県', '大分県', '宮崎県', '鹿児島県', '沖縄県'
+]
+
+const readKenAll = async (input, add) => {
+  // A long town note can continue over several rows with the same code
+  let pending = null
+  const lines = createInterface({ input: createReadStream(input, 'utf8'), crlfDelay: Infinity })
+  for await (const line of lines) {
+    if (!line.trim()) continue
+    const columns = parseLine(line.replace(/^\uFEFF/, ''))
+    const code = columns[POSTAL_CODE]
+    if (!/^\d{7}$/.test(code)) continue
+
+    if (pending && pending.code === code) {
+      pending.town += columns[TOWN]
+    } else {
+      pending = { code, prefecture: columns[PREFECTURE], municipality: columns[MUNICIPALITY], town: columns[TOWN] }
+    }
+    if (pending.town.includes('（') && !pending.town.includes('）')) continue
+    add(pending.code, pending.prefecture, pending.municipality, cleanTown(pending.town))
+    pending = null
+  }
+}
+
+// Each ajaxzip3 file is JSONP: zipdata({"1500002":[13,"渋谷区","渋谷",""], ...});
+const readAjaxZip = async () => {
+  const require = createRequire(import.meta.url)
+  const dir = join(dirname(require.resolve('japan-postal-code/package.json')), 'zipdata')
+  const entries = new Map()
+  for (const name of await readdir(dir)) {
+    const text = await readFile(join(dir, name), 'utf8')
+    const data = JSON.parse(text.slice(text.indexOf('(') + 1, text.lastIndexOf(')')))
+    for (const [code, [prefecture, municipality, town]] of Object.entries(data)) {
+      entries.set(code, { prefecture: PREFECTURES[prefecture - 1], municipality, town })
+    }
+  }
+  return entries
+}
+
+const readPackages = async (add) => {
+  const { default: postal } = await import('jp-postal')
+  const ajaxZip = await readAjaxZip()
+
+  const known = new Map()
+  const addKnown = (prefecture, municipality) => {
+    if (!known.has(prefecture)) known.set(prefecture, new Set())
+    known.get(prefecture).add(municipality)
+  }
+  for (const { prefecture, municipality } of ajaxZip.values()) addKnown(prefecture, municipality)
+
+  // The ajaxzip3 data predates some renames (篠山市 → 丹波篠山市, 那珂川町 → 那珂川市). KEN_ALL
+  // lists each municipality on its own under a code ending in 00 (以下に掲載がない場合); such a
+  // name is new when no known municipality is the start of it, which rules out towns.
+  for (const [code, byPrefecture] of Object.entries(postal)) {
+    if (!code.endsWith('00')) continue
+    for (const [prefecture, areas] of Object.entries(byPrefecture)) {
+      for (const area of areas) {
+        const names = [...(known.get(prefecture) || [])]
+        if (/[市区町村]$/.test(area) && !names.some(name => area.startsWith(name))) addKnown(prefecture, area)
+      }
+    }
+  }
+
+  // Longest first, so 札幌市中央区 is matched before a shorter name it starts with
+  const municipalities = new Map(
+    [...known].map(([prefecture, names]) => [prefecture, [...names].sort((a, b) => b.length - a.length)])
+  )
+
+  const current = new Set()
+  let unsplit = 0
+  for (const [code, byPrefecture] of Object.entries(postal)) {
+    for (const [prefecture, areas] of Object.entries(byPrefecture)) {
+      for (const area of areas) {
+        const municipality = municipalities.get(prefecture)?.find(name => area.startsWith(name))
+        if (municipality) {
+          add(code, prefecture, municipality, cleanTown(area.slice(municipality.length)))
+          current.add(`${prefecture}${municipality}`)
+        } else {
+          unsplit++
+        }
+      }
+    }
+  }
+
+  // Codes of large businesses, which KEN_ALL leaves out; skipped where the municipality has
+  // since been renamed or merged
+  for (const [code, { prefecture, municipality, town }] of ajaxZip) {
+    if (!postal[code] && current.has(`${prefecture}${municipality}`)) add(code, prefecture, municipality, cleanTown(town))
+  }
+  if (unsplit > 0) console.warn(`Skipped ${unsplit} areas with no known municipality`)
+}
+
+const main = async () => {
+  const input = process.argv[2]
+
+  const files = new Map()
+  const add = (code, prefecture, municipality, town) => {
+    const prefix = code.slice(0, 3)
+    if (!files.has(prefix)) files.set(prefix, {})
+    const file = files.get(prefix)
+    const areas = file[code.slice(3)] ||= []
+    if (!areas.some(area => area[1] === municipality && area[2] === town)) areas.push([prefecture, municipality, town])
+  }
+
+  if (input) await readKenAll(input, add)
+  else await readPackages(add)
+
+  await mkdir(OUTPUT_DIR, { recursive: true })
+  for (const name of await readdir(OUTPUT_DIR)) {
+    if (name.endsWith('.json')) await rm(join(OUTPUT_DIR, name))
+  }
+  for (const [prefix, file] of files) {
+    await writeFile(join(OUTPUT_DIR, `${prefix}.json`), JSON.stringify(file))
+  }
+  console.log(`Wrote ${files.size} files to ${OUTPUT_DIR}`)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,44 @@
+import React from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { splitAddress, type AddressParts } from '../lib/address'
+
+interface AddressPreviewProps {
+  address: string
+  language: 'ja' | 'en'
+}
+
+const PART_LABELS: Record<Exclude<keyof AddressParts, 'postalCode'>, { ja: string; en: string }> = {
+  prefecture: { ja: '都道府県', en: 'Prefecture' },
+  municipality: { ja: '市区町村', en: 'City' },
+  town: { ja: '町域', en: 'Town' },
+  addressLine: { ja: '丁目・番地', en: 'Block' },
+  building: { ja: '建物', en: 'Building' }
+}
+
+// How the address will be split for contracts and dispatch, so a misread can be fixed before saving
+const AddressPreview: React.FC<AddressPreviewProps> = ({ address, language }) => {
+  if (!address.trim()) return null
+  const parts = splitAddress(address)
+
+  if (!parts.prefecture && !parts.municipality) {
+    return (
+      <p className={`flex items-center text-xs text-amber-600 mt-1 ${language === 'ja' ? 'japanese' : ''}`}>
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        {language === 'ja' ? '都道府県・市区町村を読み取れません' : 'No prefecture or city found in this address'}
+      </p>
+    )
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 mt-1 text-xs">
+      {(Object.keys(PART_LABELS) as (keyof typeof PART_LABELS)[]).map(part => (
+        <React.Fragment key={part}>
+          <dt className={`text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>{PART_LABELS[part][language]}</dt>
+          <dd className="japanese">{parts[part] || '-'}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  )
+}
+
+export default AddressPreview
@@ -3,12 +3,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Progress } from './ui/progress'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
 import { 
   UserCheck, 
   Mail, 
   Wrench, 
   Play, 
-  Pause, 
   CheckCircle,
   AlertCircle,
   Clock,
@@ -17,16 +19,36 @@ import {
   MapPin
 } from 'lucide-react'
 import { blink } from '../blink/client'
+import { AGENT_IDS, MAX_CONCURRENCY, enqueueAgentTask, type AgentId, type QueueSnapshot, type TaskDispatcher } from '../lib/agents'
+import OnboardingWizard from './OnboardingWizard'
+import VisitLogForm from './VisitLogForm'
+import CustomerPicker from './CustomerPicker'
 
 interface AgentCardsProps {
+  userId: string
   language: 'ja' | 'en'
   keigoMode: 'formal' | 'casual'
+  // Target customer, shared with the voice agent so its conversations are linked too
+  customerId: string
+  onCustomerChange: (customerId: string) => void
+  dispatcher: TaskDispatcher
+  queue: QueueSnapshot
   onTaskCreated: () => void
 }
 
-const AgentCards: React.FC<AgentCardsProps> = ({ language, keigoMode, onTaskCreated }) => {
-  const [activeAgent, setActiveAgent] = useState<string | null>(null)
-  const [agentProgress, setAgentProgress] = useState<Record<string, number>>({})
+const AgentCards: React.FC<AgentCardsProps> = ({
+  userId,
+  language,
+  keigoMode,
+  customerId,
+  onCustomerChange,
+  dispatcher,
+  queue,
+  onTaskCreated
+}) => {
+  const [enqueuingAgent, setEnqueuingAgent] = useState<string | null>(null)
+  const [isWizardOpen, setIsWizardOpen] = useState(false)
+  const [isVisitLogOpen, setIsVisitLogOpen] = useState(false)
 
   const agents = [
     {
@@ -76,104 +98,127 @@ const AgentCards: React.FC<AgentCardsProps> = ({ language, keigoMode, onTaskCrea
     }
   ]
 
-  const executeAgent = async (agentId: string) => {
-    setActiveAgent(agentId)
-    setAgentProgress(prev => ({ ...prev, [agentId]: 0 }))
+  const executeAgent = async (agentId: AgentId) => {
+    setEnqueuingAgent(agentId)
     
     try {
       const user = await blink.auth.me()
       const agent = agents.find(a => a.id === agentId)
       
-      // Create task
-      const taskId = `task_${agentId}_${Date.now()}`
-      await blink.db.tasks.create({
-        id: taskId,
+      // Queue the task; the dispatcher runs it once a slot is free
+      await enqueueAgentTask({
         userId: user.id,
-        agentType: agentId,
+        agentId,
         taskName: `${agent?.name} Execution`,
-        status: 'processing',
-        lastAction: 'Agent started',
-        inputData: JSON.stringify({ agentId, language, keigoMode }),
+        input: { agentId, customerId, language, keigoMode },
+        customerId,
         language,
         keigoMode
       })
 
-      // Simulate agent execution with progress
-      for (let i = 0; i <= 100; i += 10) {
-        setAgentProgress(prev => ({ ...prev, [agentId]: i }))
-        await new Promise(resolve => setTimeout(resolve, 200))
-        
-        // Update task progress
-        if (i === 50) {
-          await blink.db.tasks.update(taskId, {
-            lastAction: `${agent?.name} processing...`
-          })
-        }
-      }
-
-      // Complete task
-      await blink.db.tasks.update(taskId, {
-        status: 'completed',
-        lastAction: `${agent?.name} completed successfully`,
-        outputData: JSON.stringify({ 
-          result: 'success',
-          completedTasks: agent?.tasks || []
-        })
-      })
-
+      dispatcher.poke()
       onTaskCreated()
-      
     } catch (error) {
-      console.error('Agent execution error:', error)
+      console.error('Failed to queue agent task:', error)
     } finally {
-      setActiveAgent(null)
-      setAgentProgress(prev => ({ ...prev, [agentId]: 0 }))
+      setEnqueuingAgent(null)
     }
   }
 
-  const getStatusIcon = (agentId: string) => {
-    if (activeAgent === agentId) {
+  const getRunningProgress = (agentId: AgentId) =>
+    Object.values(queue.progress).filter(progress => progress.agentId === agentId)
+
+  const getStatusIcon = (agentId: AgentId) => {
+    if (queue.running[agentId] > 0) {
       return <Clock className="h-4 w-4 text-primary animate-spin" />
     }
     return <CheckCircle className="h-4 w-4 text-green-500" />
   }
 
-  const getActionButton = (agentId: string) => {
-    const isActive = activeAgent === agentId
-    const progress = agentProgress[agentId] || 0
+  const getActionButton = (agentId: AgentId) => {
+    const runs = getRunningProgress(agentId)
+    const error = queue.lastErrors[agentId]
     
     return (
       <div className="space-y-2">
-        {isActive && (
-          <div className="space-y-1">
-            <Progress value={progress} className="h-2" />
+        {runs.map((run) => (
+          <div key={run.taskId} className="space-y-1">
+            <Progress value={run.progress} className="h-2" />
             <p className="text-xs text-muted-foreground text-center">
-              {progress}% {language === 'ja' ? '完了' : 'Complete'}
+              {run.progress}% {language === 'ja' ? '完了' : 'Complete'} · {run.stepLabel}
             </p>
           </div>
+        ))}
+        {error && (
+          <div className="flex items-start text-xs text-destructive">
+            <AlertCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>
+            {language === 'ja' ? '実行中' : 'Running'} {queue.running[agentId]}/{queue.limits[agentId]}
+          </span>
+          <span>
+            {language === 'ja' ? '待機' : 'Queued'} {queue.queued[agentId]}
+          </span>
+        </div>
+        {agentId === 'onboard' ? (
+          // Onboarding needs ID and plan input, so it always goes through the wizard
+          <Button onClick={() => setIsWizardOpen(true)} className="w-full">
+            <UserCheck className="h-4 w-4 mr-2" />
+            {language === 'ja' ? 'オンボーディング開始' : 'Start Onboarding'}
+          </Button>
+        ) : agentId === 'ops' ? (
+          <Button onClick={() => setIsVisitLogOpen(true)} className="w-full">
+            <Wrench className="h-4 w-4 mr-2" />
+            {language === 'ja' ? '訪問ログ作成' : 'New Visit Log'}
+          </Button>
+        ) : (
+          <Button
+            onClick={() => executeAgent(agentId)}
+            disabled={enqueuingAgent === agentId || !customerId}
+            className="w-full"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            {language === 'ja' ? 'キューに追加' : 'Queue Run'}
+          </Button>
         )}
-        <Button
-          onClick={() => executeAgent(agentId)}
-          disabled={isActive}
-          className="w-full"
-          variant={isActive ? 'secondary' : 'default'}
-        >
-          {isActive ? (
-            <>
-              <Pause className="h-4 w-4 mr-2" />
-              {language === 'ja' ? '実行中...' : 'Running...'}
-            </>
-          ) : (
-            <>
-              <Play className="h-4 w-4 mr-2" />
-              {language === 'ja' ? '実行' : 'Execute'}
-            </>
-          )}
-        </Button>
       </div>
     )
   }
 
+  const getConcurrencyConfig = (agentId: AgentId) => (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex-1">
+          <Send className="h-3 w-3 mr-1" />
+          {language === 'ja' ? '設定' : 'Config'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 space-y-2">
+        <Label htmlFor={`concurrency-${agentId}`} className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
+          {language === 'ja' ? '同時実行数の上限' : 'Concurrency limit'}
+        </Label>
+        <Input
+          id={`concurrency-${agentId}`}
+          type="number"
+          min={0}
+          max={MAX_CONCURRENCY}
+          value={queue.limits[agentId]}
+          onChange={(e) => dispatcher.setLimit(agentId, Number(e.target.value))}
+        />
+      </PopoverContent>
+    </Popover>
+  )
+
+  const totals = AGENT_IDS.reduce((acc, agentId) => {
+    acc.running += queue.running[agentId]
+    acc.queued += queue.queued[agentId]
+    acc.idle += Math.max(0, queue.limits[agentId] - queue.running[agentId])
+    return acc
+  }, { running: 0, queued: 0, idle: 0 })
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -185,10 +230,19 @@ const AgentCards: React.FC<AgentCardsProps> = ({ language, keigoMode, onTaskCrea
         </Badge>
       </div>
 
+      {/* Target Customer */}
+      <CustomerPicker
+        userId={userId}
+        language={language}
+        value={customerId}
+        onChange={customer => onCustomerChange(customer.id)}
+        placeholder={language === 'ja' ? '対象顧客を選択...' : 'Select a customer...'}
+      />
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {agents.map((agent) => {
           const IconComponent = agent.icon
-          const isActive = activeAgent === agent.id
+          const isActive = queue.running[agent.id as AgentId] > 0
           
           return (
             <Card 
@@ -202,7 +256,7 @@ const AgentCards: React.FC<AgentCardsProps> = ({ language, keigoMode, onTaskCrea
                   <div className={`p-2 rounded-lg ${agent.color} bg-opacity-10`}>
                     <IconComponent className={`h-5 w-5 text-white`} style={{ color: agent.color.replace('bg-', '').replace('-500', '') }} />
                   </div>
-                  {getStatusIcon(agent.id)}
+                  {getStatusIcon(agent.id as AgentId)}
                 </div>
                 <CardTitle className={`text-base ${language === 'ja' ? 'japanese' : ''}`}>
                   {agent.name}
@@ -229,7 +283,7 @@ const AgentCards: React.FC<AgentCardsProps> = ({ language, keigoMode, onTaskCrea
                 </div>
 
                 {/* Action Button */}
-                {getActionButton(agent.id)}
+                {getActionButton(agent.id as AgentId)}
 
                 {/* Quick Actions */}
                 <div className="flex space-x-2">
@@ -237,10 +291,7 @@ const AgentCards: React.FC<AgentCardsProps> = ({ language, keigoMode, onTaskCrea
                     <FileText className="h-3 w-3 mr-1" />
                     {language === 'ja' ? 'ログ' : 'Logs'}
                   </Button>
-                  <Button variant="outline" size="sm" className="flex-1">
-                    <Send className="h-3 w-3 mr-1" />
-                    {language === 'ja' ? '設定' : 'Config'}
-                  </Button>
+                  {getConcurrencyConfig(agent.id as AgentId)}
                 </div>
               </CardContent>
             </Card>
@@ -248,6 +299,27 @@ const AgentCards: React.FC<AgentCardsProps> = ({ language, keigoMode, onTaskCrea
         })}
       </div>
 
+      <OnboardingWizard
+        open={isWizardOpen}
+        onOpenChange={setIsWizardOpen}
+        language={language}
+        keigoMode={keigoMode}
+        userId={userId}
+        dispatcher={dispatcher}
+        onTaskCreated={onTaskCreated}
+      />
+
+      <VisitLogForm
+        open={isVisitLogOpen}
+        onOpenChange={setIsVisitLogOpen}
+        language={language}
+        keigoMode={keigoMode}
+        userId={userId}
+        customerId={customerId}
+        dispatcher={dispatcher}
+        onTaskCreated={onTaskCreated}
+      />
+
       {/* Agent Mesh Status */}
       <Card className="border-accent/20">
         <CardHeader className="pb-3">
@@ -259,23 +331,21 @@ const AgentCards: React.FC<AgentCardsProps> = ({ language, keigoMode, onTaskCrea
         <CardContent>
           <div className="grid grid-cols-3 gap-4 text-center">
             <div>
-              <div className="text-2xl font-bold text-green-500">3</div>
+              <div className="text-2xl font-bold text-primary">{totals.running}</div>
               <div className={`text-xs text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
-                {language === 'ja' ? 'アクティブ' : 'Active'}
+                {language === 'ja' ? '実行中' : 'Running'}
               </div>
             </div>
             <div>
-              <div className="text-2xl font-bold text-primary">
-                {activeAgent ? '1' : '0'}
-              </div>
+              <div className="text-2xl font-bold text-accent">{totals.queued}</div>
               <div className={`text-xs text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
-                {language === 'ja' ? '実行中' : 'Running'}
+                {language === 'ja' ? 'キューイング' : 'Queued'}
               </div>
             </div>
             <div>
-              <div className="text-2xl font-bold text-accent">∞</div>
+              <div className="text-2xl font-bold text-green-500">{totals.idle}</div>
               <div className={`text-xs text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
-                {language === 'ja' ? 'キューイング' : 'Queued'}
+                {language === 'ja' ? 'アイドル' : 'Idle'}
               </div>
             </div>
           </div>
@@ -5,6 +5,11 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Switch } from './ui/switch'
 import { blink } from '../blink/client'
+import { dispatchDictation, hasDictationTarget } from '../lib/dictation'
+import { describePlansForPrompt, listPlans } from '../lib/plans'
+import { createTask, getVoiceConversationName, updateTask } from '../lib/tasks'
+import { recordTaskEvent } from '../lib/taskEvents'
+import type { TaskAiExchange } from '../types/task'
 
 interface ConversationTurn {
   id: string
@@ -25,13 +30,17 @@ interface TaskContext {
   currentStep: number
   customerInfo?: any
   progress: number
+  // Prompt and reply of every turn, saved on the task row
+  ai: TaskAiExchange[]
 }
 
 interface AutonomousVoiceAgentProps {
+  // Customer selected on the dashboard; conversations started while it is set are linked to it
+  customerId?: string
   onTaskComplete?: (task: TaskContext) => void
 }
 
-export default function AutonomousVoiceAgent({ onTaskComplete }: AutonomousVoiceAgentProps) {
+export default function AutonomousVoiceAgent({ customerId, onTaskComplete }: AutonomousVoiceAgentProps) {
   const [isActive, setIsActive] = useState(false)
   const [isListening, setIsListening] = useState(false)
   const [isSpeaking, setIsSpeaking] = useState(false)
@@ -144,7 +153,8 @@ export default function AutonomousVoiceAgent({ onTaskComplete }: AutonomousVoice
   }, [])
 
   // Update task context based on conversation
-  const updateTaskContext = useCallback(async (input: string, response: string, lang: 'ja' | 'en') => {
+  const updateTaskContext = useCallback(async (input: string, prompt: string, response: string, lang: 'ja' | 'en') => {
+    const exchange: TaskAiExchange = { prompt, response, createdAt: new Date().toISOString() }
     try {
       // Determine task type from input
       const taskType = determineTaskType(input)
@@ -152,31 +162,45 @@ export default function AutonomousVoiceAgent({ onTaskComplete }: AutonomousVoice
       if (taskType && !currentTask) {
         // Create new task
         const newTask: TaskContext = {
-          id: Date.now().toString(),
+          id: `task_voice_agent_${crypto.randomUUID()}`,
           type: taskType,
           status: 'active',
           steps: getTaskSteps(taskType, lang),
           currentStep: 0,
-          progress: 0
+          progress: 0,
+          ai: [exchange]
         }
         setCurrentTask(newTask)
 
         // Save to database
-        await blink.db.tasks.create({
+        const userId = (await blink.auth.me()).id
+        await createTask({
           id: newTask.id,
-          taskType: newTask.type,
-          status: newTask.status,
+          userId,
+          agentType: 'voice_agent',
+          taskName: getVoiceConversationName(newTask.type, lang),
+          status: 'processing',
+          lastAction: newTask.steps[0],
+          input: { conversationType: newTask.type, transcript: input },
+          customerId,
+          output: { ai: newTask.ai },
           currentStep: newTask.currentStep,
           totalSteps: newTask.steps.length,
           progress: newTask.progress,
           language: lang,
-          keigoMode,
-          createdAt: new Date(),
-          userId: (await blink.auth.me()).id
+          keigoMode: keigoMode ? 'formal' : 'casual'
+        }, 'voice')
+        await recordTaskEvent({
+          taskId: newTask.id,
+          userId,
+          type: 'ai_call',
+          actor: 'voice',
+          message: 'Conversation turn',
+          data: exchange
         })
       } else if (currentTask) {
         // Update existing task
-        const updatedTask = { ...currentTask }
+        const updatedTask = { ...currentTask, ai: [...currentTask.ai, exchange] }
         updatedTask.currentStep = Math.min(updatedTask.currentStep + 1, updatedTask.steps.length - 1)
         updatedTask.progress = (updatedTask.currentStep / updatedTask.steps.length) * 100
 
@@ -190,17 +214,31 @@ export default function AutonomousVoiceAgent({ onTaskComplete }: AutonomousVoice
         setCurrentTask(updatedTask)
 
         // Update in database
-        await blink.db.tasks.update(updatedTask.id, {
+        await updateTask(updatedTask.id, {
           currentStep: updatedTask.currentStep,
           progress: updatedTask.progress,
-          status: updatedTask.status,
-          updatedAt: new Date()
+          status: updatedTask.status === 'completed' ? 'completed' : 'processing',
+          lastAction: updatedTask.steps[updatedTask.currentStep],
+          output: { ai: updatedTask.ai }
         })
+
+        const userId = (await blink.auth.me()).id
+        const event = { taskId: updatedTask.id, userId, actor: 'voice' }
+        await recordTaskEvent({ ...event, type: 'ai_call', message: 'Conversation turn', data: exchange })
+        await recordTaskEvent({
+          ...event,
+          type: 'step_completed',
+          message: currentTask.steps[currentTask.currentStep],
+          data: { stepIndex: currentTask.currentStep, progress: updatedTask.progress }
+        })
+        if (updatedTask.status === 'completed') {
+          await recordTaskEvent({ ...event, type: 'status_changed', message: 'completed', data: { status: 'completed' } })
+        }
       }
     } catch (error) {
       console.error('Error updating task context:', error)
     }
-  }, [currentTask, keigoMode, onTaskComplete])
+  }, [currentTask, customerId, keigoMode, onTaskComplete])
 
   // Continue task flow automatically
   const continueTaskFlow = useCallback(async () => {
@@ -239,9 +277,31 @@ export default function AutonomousVoiceAgent({ onTaskComplete }: AutonomousVoice
     setConversation(prev => [...prev, userTurn])
 
     try {
+      // An open form (e.g. the visit log) takes dictation instead of the conversation
+      if (hasDictationTarget()) {
+        setAgentThinking('入力中... / Filling in...')
+        const acknowledgement = await dispatchDictation(input, userTurn.language)
+        setAgentThinking('')
+        if (acknowledgement) {
+          setConversation(prev => [...prev, {
+            id: (Date.now() + 1).toString(),
+            type: 'agent',
+            content: acknowledgement,
+            timestamp: new Date(),
+            language: userTurn.language,
+            reasoning: 'Dictation routed to open form'
+          }])
+          await speakResponse(acknowledgement, userTurn.language)
+        }
+        return
+      }
+
       // Show agent thinking
       setAgentThinking('分析中... / Analyzing...')
 
+      // Ground plan recommendations in the live catalog
+      const planCatalog = describePlansForPrompt(await listPlans(), userTurn.language)
+
       // Process with AI for context understanding and reasoning
       const contextPrompt = `
 You are BRYTT AI, a multilingual agentic platform for telecom operations in Japan.
@@ -249,6 +309,9 @@ You are BRYTT AI, a multilingual agentic platform for telecom operations in Japa
 Current conversation context:
 ${conversation.map(turn => `${turn.type}: ${turn.content}`).join('\n')}
 
+Available plans (only recommend these):
+${planCatalog}
+
 Current task: ${currentTask ? `${currentTask.type} (Step ${currentTask.currentStep}/${currentTask.steps.length})` : 'None'}
 
 User input: "${input}"
@@ -287,7 +350,7 @@ Keep responses concise and actionable.
       setConversation(prev => [...prev, agentTurn])
 
       // Determine if we need to create or update a task
-      await updateTaskContext(input, aiResponse, userTurn.language)
+      await updateTaskContext(input, contextPrompt, aiResponse, userTurn.language)
 
       // Speak the response automatically
       await speakResponse(aiResponse, userTurn.language)
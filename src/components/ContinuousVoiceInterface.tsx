@@ -1,10 +1,29 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
-import { Mic, MicOff, Volume2, VolumeX, Settings, Zap, Brain, MessageSquare } from 'lucide-react'
+import { Mic, MicOff, Volume2, VolumeX, Settings, Zap, Brain, MessageSquare, UserPlus } from 'lucide-react'
 import { Button } from './ui/button'
 import { Card, CardContent } from './ui/card'
 import { Badge } from './ui/badge'
 import { Switch } from './ui/switch'
 import { blink } from '../blink/client'
+import { enqueueAgentTask, type AgentId } from '../lib/agents'
+import { recordTaskEvent, userActor } from '../lib/taskEvents'
+import {
+  DEFAULT_MESSAGE_TEMPLATES,
+  listMessageTemplates,
+  pickVariant,
+  renderTemplateVariant,
+  type MessageTemplate,
+  type TemplateVariables
+} from '../lib/messageTemplates'
+import {
+  CUSTOMER_EXTRACTION_INSTRUCTIONS,
+  CUSTOMER_EXTRACTION_SCHEMA,
+  hasExtractedFields,
+  isLowConfidence,
+  normalizeCustomerExtraction,
+  type CustomerExtraction,
+  type CustomerExtractionField
+} from '../lib/customerExtraction'
 
 interface VoiceOption {
   id: string
@@ -15,15 +34,41 @@ interface VoiceOption {
   priority: 'high' | 'medium' | 'low'
 }
 
+// The agent each suggested option is handed to
+const OPTION_AGENTS: Record<VoiceOption['agent'], AgentId> = {
+  OnboardBot: 'onboard',
+  FollowUpAgent: 'followup',
+  OpsLogger: 'ops'
+}
+
 interface VoiceContext {
   transcript: string
   language: 'ja' | 'en'
   intent: string
   entities: string[]
   confidence: number
+  customer: CustomerExtraction
+}
+
+interface ContinuousVoiceInterfaceProps {
+  userId: string
+  // Customer selected on the dashboard; executed options are linked to it
+  customerId?: string
+  // Opens the Add New Customer dialog pre-filled with what was heard
+  onCustomerDraft?: (draft: CustomerExtraction) => void
+}
+
+const CUSTOMER_FIELD_LABELS: Record<CustomerExtractionField, string> = {
+  name: 'Name',
+  furigana: 'Furigana',
+  phone: 'Phone',
+  email: 'Email',
+  address: 'Address',
+  identificationType: 'ID Type',
+  identificationNumber: 'ID Number'
 }
 
-export default function ContinuousVoiceInterface() {
+export default function ContinuousVoiceInterface({ userId, customerId, onCustomerDraft }: ContinuousVoiceInterfaceProps) {
   const [isListening, setIsListening] = useState(false)
   const [transcript, setTranscript] = useState('')
   const [isProcessing, setIsProcessing] = useState(false)
@@ -33,6 +78,7 @@ export default function ContinuousVoiceInterface() {
   const [keigoMode, setKeigoMode] = useState(true)
   const [autoSpeak, setAutoSpeak] = useState(true)
   const [language, setLanguage] = useState<'ja' | 'en' | 'auto'>('auto')
+  const [templates, setTemplates] = useState<MessageTemplate[]>(DEFAULT_MESSAGE_TEMPLATES)
 
   const recognitionRef = useRef<SpeechRecognition | null>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
@@ -41,6 +87,19 @@ export default function ContinuousVoiceInterface() {
   const processingTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const lastTranscriptRef = useRef('')
 
+  useEffect(() => {
+    listMessageTemplates(userId)
+      .then(setTemplates)
+      .catch(error => console.error('Failed to load message templates:', error))
+  }, [userId])
+
+  // Spoken replies come from the template library so keigo wording is managed in one place
+  const renderVoiceReply = useCallback((key: string, lang: 'ja' | 'en', variables: TemplateVariables) => {
+    const template = templates.find(t => t.key === key) || DEFAULT_MESSAGE_TEMPLATES.find(t => t.key === key)
+    if (!template) return ''
+    return renderTemplateVariant(template, pickVariant(lang, keigoMode ? 'formal' : 'casual'), null, variables).body
+  }, [templates, keigoMode])
+
   // Text-to-speech function
   const speakResponse = useCallback((text: string, lang: 'ja' | 'en') => {
     if ('speechSynthesis' in window) {
@@ -81,6 +140,7 @@ export default function ContinuousVoiceInterface() {
         3. Entities (customer names, phone numbers, contract types, etc.)
         4. Confidence level (0-1)
         5. Suggested actions for OnboardBot, FollowUpAgent, and OpsLogger agents
+        6. Customer details for registration, in "customer". ${CUSTOMER_EXTRACTION_INSTRUCTIONS}
         
         Consider Japanese keigo context and telecom industry terminology.`,
         schema: {
@@ -90,6 +150,7 @@ export default function ContinuousVoiceInterface() {
             intent: { type: 'string' },
             entities: { type: 'array', items: { type: 'string' } },
             confidence: { type: 'number' },
+            customer: CUSTOMER_EXTRACTION_SCHEMA,
             suggestedActions: {
               type: 'array',
               items: {
@@ -114,7 +175,8 @@ export default function ContinuousVoiceInterface() {
         language: analysis.language as 'ja' | 'en',
         intent: analysis.intent,
         entities: analysis.entities,
-        confidence: analysis.confidence
+        confidence: analysis.confidence,
+        customer: normalizeCustomerExtraction(analysis.customer)
       })
 
       // Set voice options
@@ -130,11 +192,10 @@ export default function ContinuousVoiceInterface() {
       // Auto-speak response if enabled
       if (autoSpeak && analysis.suggestedActions.length > 0) {
         const topAction = analysis.suggestedActions[0]
-        const responseText = analysis.language === 'ja' 
-          ? (keigoMode 
-              ? `承知いたしました。${topAction.text}を実行いたします。`
-              : `わかった。${topAction.text}をやるね。`)
-          : `Understood. I'll ${topAction.action}.`
+        const responseText = renderVoiceReply('voice_action_ack', analysis.language, {
+          actionText: topAction.text,
+          action: topAction.action
+        })
         
         speakResponse(responseText, analysis.language)
       }
@@ -144,7 +205,7 @@ export default function ContinuousVoiceInterface() {
     } finally {
       setIsProcessing(false)
     }
-  }, [isProcessing, keigoMode, autoSpeak, speakResponse])
+  }, [isProcessing, autoSpeak, speakResponse, renderVoiceReply])
 
   // Initialize continuous speech recognition
   const initializeSpeechRecognition = useCallback(() => {
@@ -255,23 +316,31 @@ export default function ContinuousVoiceInterface() {
   // Execute selected option
   const executeOption = useCallback(async (option: VoiceOption) => {
     try {
-      // Create task in database
+      // Queued for the chosen agent; the dispatcher runs it and the task shows how it went
       const user = await blink.auth.me()
-      await blink.db.tasks.create({
+      const taskId = await enqueueAgentTask({
         userId: user.id,
-        agentType: option.agent,
+        agentId: OPTION_AGENTS[option.agent],
         taskName: option.text,
-        status: 'processing',
-        input: transcript,
-        createdAt: new Date().toISOString()
+        input: { transcript, agent: option.agent, action: option.action, notes: option.action },
+        customerId,
+        language: context?.language || 'en',
+        keigoMode: keigoMode ? 'formal' : 'casual'
+      })
+      await recordTaskEvent({
+        taskId,
+        userId: user.id,
+        type: 'user_action',
+        actor: userActor(user.id),
+        message: `Selected voice option: ${option.text}`,
+        data: { optionId: option.id, agent: option.agent, priority: option.priority, confidence: option.confidence }
       })
 
       // Provide feedback
-      const feedbackText = context?.language === 'ja'
-        ? (keigoMode 
-            ? `${option.text}を開始いたします。`
-            : `${option.text}を始めるよ。`)
-        : `Starting ${option.action}...`
+      const feedbackText = renderVoiceReply('voice_action_start', context?.language || 'en', {
+        actionText: option.text,
+        action: option.action
+      })
       
       if (autoSpeak) {
         speakResponse(feedbackText, context?.language || 'en')
@@ -287,7 +356,7 @@ export default function ContinuousVoiceInterface() {
     } catch (error) {
       console.error('Error executing option:', error)
     }
-  }, [transcript, context, keigoMode, autoSpeak, speakResponse])
+  }, [transcript, customerId, context, keigoMode, autoSpeak, speakResponse, renderVoiceReply])
 
   // Toggle continuous listening
   const toggleListening = useCallback(() => {
@@ -423,6 +492,48 @@ export default function ContinuousVoiceInterface() {
         </Card>
       )}
 
+      {/* Customer details heard in the utterance */}
+      {context && hasExtractedFields(context.customer) && (
+        <Card className="border-l-4 border-l-green-500">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-semibold text-gray-900 flex items-center space-x-2">
+                <UserPlus className="w-5 h-5 text-green-600" />
+                <span>Customer Details Heard</span>
+              </h4>
+              {onCustomerDraft && (
+                <Button size="sm" onClick={() => onCustomerDraft(context.customer)}>
+                  Review &amp; Add Customer
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {(Object.keys(CUSTOMER_FIELD_LABELS) as CustomerExtractionField[])
+                .filter(field => context.customer[field])
+                .map(field => {
+                  const extracted = context.customer[field]!
+                  return (
+                    <div key={field} className="flex items-center justify-between rounded-md bg-gray-50 px-2 py-1">
+                      <div className="min-w-0">
+                        <span className="text-gray-600">{CUSTOMER_FIELD_LABELS[field]}:</span>
+                        <span className="ml-2 font-medium break-all">{extracted.value}</span>
+                      </div>
+                      <Badge
+                        variant="outline"
+                        className={`text-xs ml-2 flex-shrink-0 ${
+                          isLowConfidence(extracted) ? 'text-yellow-600 border-yellow-300' : 'text-green-600 border-green-300'
+                        }`}
+                      >
+                        {Math.round(extracted.confidence * 100)}%
+                      </Badge>
+                    </div>
+                  )
+                })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Intelligent Options */}
       {voiceOptions.length > 0 && (
         <div className="space-y-3">
@@ -1,94 +1,205 @@
-import React, { useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Input } from './ui/input'
 import { Label } from './ui/label'
 import { Textarea } from './ui/textarea'
-import { ScrollArea } from './ui/scroll-area'
 import { Separator } from './ui/separator'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import ExportDialog from './ExportDialog'
+import CustomerImportDialog from './CustomerImportDialog'
+import CustomerEditDialog from './CustomerEditDialog'
+import CustomerDirectory, { type CustomerDirectoryQuery } from './CustomerDirectory'
+import CustomerMergeDialog from './CustomerMergeDialog'
+import MaskedValue from './MaskedValue'
+import CustomerTimeline from './CustomerTimeline'
+import PhoneNumberHint from './PhoneNumberHint'
+import PostalCodeInput from './PostalCodeInput'
+import AddressPreview from './AddressPreview'
 import { 
   Users, 
   Plus, 
   Edit, 
-  Phone, 
-  Mail, 
   MapPin, 
   CreditCard,
-  Calendar,
   MessageSquare,
-  Eye,
-  UserPlus
+  UserPlus,
+  Mic,
+  AlertTriangle,
+  GitMerge
 } from 'lucide-react'
-import { blink } from '../blink/client'
-
-interface Customer {
-  id: string
-  name: string
-  email?: string
-  phone?: string
-  address?: string
-  identificationType?: string
-  identificationNumber?: string
-  preferredLanguage: string
-  keigoPreference: string
-  createdAt: string
-}
+import { IDENTIFICATION_TYPES, getIdentificationTypeLabel } from '../lib/identification'
+import { registerDictationTarget } from '../lib/dictation'
+import { getRangeBounds } from '../lib/analytics'
+import {
+  DUPLICATE_REASON_LABELS,
+  createCustomer,
+  findDuplicateCustomers,
+  listAllCustomers,
+  listCustomersCreatedBetween,
+  normalizeCustomerEditValues,
+  validateCustomerEditValues,
+  type CustomerDuplicate,
+  type CustomerValidationErrors
+} from '../lib/customers'
+import { CUSTOMER_EXPORT_COLUMNS } from '../lib/export'
+import { PHONE_TYPE_LABELS, type PhoneType } from '../lib/phone'
+import {
+  EMPTY_CUSTOMER_FORM,
+  applyCustomerExtraction,
+  countExtractedFields,
+  extractCustomerFields,
+  isLowConfidence,
+  type CustomerExtraction,
+  type CustomerExtractionField
+} from '../lib/customerExtraction'
+import type { Customer } from '../types/customer'
 
 interface CustomerContextProps {
+  userId: string
+  // Recently added customers, for the memory summary
   customers: Customer[]
   language: 'ja' | 'en'
   keigoMode: 'formal' | 'casual'
   onCustomerUpdate: () => void
+  // Bumped whenever customers may have changed; reloads the directory
+  refreshKey: number
+  // Details heard by the voice interface; opens the Add dialog pre-filled
+  draft?: CustomerExtraction | null
+  onDraftConsumed?: () => void
+}
+
+interface ConfidenceHintProps {
+  field: CustomerExtractionField
+  extraction: CustomerExtraction
+  language: 'ja' | 'en'
+}
+
+// Marks fields that came from voice so the operator knows what to check before saving
+const ConfidenceHint: React.FC<ConfidenceHintProps> = ({ field, extraction, language }) => {
+  const extracted = extraction[field]
+  if (!extracted) return null
+
+  const percent = `${Math.round(extracted.confidence * 100)}%`
+  return isLowConfidence(extracted) ? (
+    <Badge variant="outline" className="ml-2 text-xs text-amber-600 border-amber-300">
+      <Mic className="h-3 w-3 mr-1" />
+      {language === 'ja' ? `要確認 ${percent}` : `Check ${percent}`}
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="ml-2 text-xs text-green-600 border-green-300">
+      <Mic className="h-3 w-3 mr-1" />
+      {percent}
+    </Badge>
+  )
 }
 
+const FieldError: React.FC<{ error?: { ja: string; en: string }; language: 'ja' | 'en' }> = ({ error, language }) =>
+  error ? <p className={`text-xs text-destructive mt-1 ${language === 'ja' ? 'japanese' : ''}`}>{error[language]}</p> : null
+
 const CustomerContext: React.FC<CustomerContextProps> = ({ 
+  userId,
   customers, 
   language, 
   keigoMode, 
-  onCustomerUpdate 
+  onCustomerUpdate,
+  refreshKey,
+  draft,
+  onDraftConsumed
 }) => {
   const [isAddingCustomer, setIsAddingCustomer] = useState(false)
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
-  const [newCustomer, setNewCustomer] = useState({
-    name: '',
-    email: '',
-    phone: '',
-    address: '',
-    identificationType: 'drivers_license',
-    identificationNumber: ''
-  })
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null)
+  const [mergingCustomer, setMergingCustomer] = useState<Customer | null>(null)
+  // Existing customers that look like the one being added; a second Add saves anyway
+  const [duplicates, setDuplicates] = useState<CustomerDuplicate[]>([])
+  const [directoryQuery, setDirectoryQuery] = useState<CustomerDirectoryQuery>({})
+  const [newCustomer, setNewCustomer] = useState(EMPTY_CUSTOMER_FORM)
+  const [formErrors, setFormErrors] = useState<CustomerValidationErrors>({})
+  // Which fields were filled from voice, with their confidence
+  const [extraction, setExtraction] = useState<CustomerExtraction>({})
+  const [isExtracting, setIsExtracting] = useState(false)
+
+  const newCustomerRef = useRef(newCustomer)
+  newCustomerRef.current = newCustomer
+
+  useEffect(() => {
+    if (!draft) return
+    setNewCustomer(applyCustomerExtraction(EMPTY_CUSTOMER_FORM, draft))
+    setExtraction(draft)
+    setIsAddingCustomer(true)
+    onDraftConsumed?.()
+  }, [draft, onDraftConsumed])
+
+  // While the dialog is open, dictation to the voice agent fills it in
+  useEffect(() => {
+    if (!isAddingCustomer) return
+    return registerDictationTarget(async (text, lang) => {
+      setIsExtracting(true)
+      try {
+        const heard = await extractCustomerFields(text, lang)
+        setNewCustomer(applyCustomerExtraction(newCustomerRef.current, heard))
+        setExtraction(prev => ({ ...prev, ...heard }))
+        const filled = countExtractedFields(heard)
+        return lang === 'ja'
+          ? (filled > 0 ? `顧客情報に${filled}項目を記入しました。ご確認ください。` : '記入できる項目が見つかりませんでした。')
+          : (filled > 0 ? `Filled ${filled} customer field${filled === 1 ? '' : 's'}. Please check them.` : 'I could not find anything to fill in.')
+      } finally {
+        setIsExtracting(false)
+      }
+    })
+  }, [isAddingCustomer])
+
+  const updateField = (field: keyof typeof newCustomer, value: string) => {
+    setNewCustomer(prev => ({ ...prev, [field]: value }))
+    setDuplicates([])
+    setFormErrors(prev => {
+      const { [field]: _fixed, ...rest } = prev
+      return rest
+    })
+    // A value the operator typed no longer needs checking
+    setExtraction(prev => {
+      const { [field as CustomerExtractionField]: _edited, ...rest } = prev
+      return rest
+    })
+  }
+
+  const closeAddDialog = (open: boolean) => {
+    setIsAddingCustomer(open)
+    if (!open) {
+      setNewCustomer(EMPTY_CUSTOMER_FORM)
+      setExtraction({})
+      setDuplicates([])
+      setFormErrors({})
+    }
+  }
 
   const handleAddCustomer = async () => {
+    const fields = normalizeCustomerEditValues({
+      ...newCustomer,
+      preferredLanguage: language,
+      keigoPreference: keigoMode
+    })
+    const found = validateCustomerEditValues(fields)
+    const { preferredLanguage: _language, keigoPreference: _keigo, ...form } = fields
+    setNewCustomer(form)
+    setFormErrors(found)
+    if (Object.keys(found).length > 0) return
+
     try {
-      const user = await blink.auth.me()
-      const customerId = `customer_${Date.now()}`
-      
-      await blink.db.customers.create({
-        id: customerId,
-        userId: user.id,
-        name: newCustomer.name,
-        email: newCustomer.email,
-        phone: newCustomer.phone,
-        address: newCustomer.address,
-        identificationType: newCustomer.identificationType,
-        identificationNumber: newCustomer.identificationNumber,
-        preferredLanguage: language,
-        keigoPreference: keigoMode
-      })
+      if (duplicates.length === 0) {
+        const matches = await findDuplicateCustomers(userId, fields)
+        if (matches.length > 0) {
+          setDuplicates(matches)
+          return
+        }
+      }
+      await createCustomer(userId, fields)
 
-      // Reset form
-      setNewCustomer({
-        name: '',
-        email: '',
-        phone: '',
-        address: '',
-        identificationType: 'drivers_license',
-        identificationNumber: ''
-      })
-      
-      setIsAddingCustomer(false)
+      closeAddDialog(false)
       onCustomerUpdate()
     } catch (error) {
       console.error('Failed to add customer:', error)
@@ -104,16 +215,6 @@ const CustomerContext: React.FC<CustomerContextProps> = ({
     })
   }
 
-  const getIdentificationTypeLabel = (type: string) => {
-    const labels = {
-      drivers_license: language === 'ja' ? '運転免許証' : 'Driver\'s License',
-      passport: language === 'ja' ? 'パスポート' : 'Passport',
-      national_id: language === 'ja' ? '国民ID' : 'National ID',
-      residence_card: language === 'ja' ? '在留カード' : 'Residence Card'
-    }
-    return labels[type as keyof typeof labels] || type
-  }
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -121,198 +222,216 @@ const CustomerContext: React.FC<CustomerContextProps> = ({
         <h3 className={`text-lg font-semibold ${language === 'ja' ? 'japanese' : ''}`}>
           {language === 'ja' ? '顧客コンテキスト' : 'Customer Context'}
         </h3>
-        <Dialog open={isAddingCustomer} onOpenChange={setIsAddingCustomer}>
-          <DialogTrigger asChild>
-            <Button size="sm">
-              <Plus className="h-4 w-4 mr-2" />
-              {language === 'ja' ? '新規顧客' : 'New Customer'}
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-md">
-            <DialogHeader>
-              <DialogTitle className={language === 'ja' ? 'japanese' : ''}>
-                {language === 'ja' ? '新規顧客登録' : 'Add New Customer'}
-              </DialogTitle>
-              <DialogDescription className={language === 'ja' ? 'japanese' : ''}>
-                {language === 'ja' 
-                  ? '顧客情報を入力してください'
-                  : 'Enter customer information'
-                }
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="name" className={language === 'ja' ? 'japanese' : ''}>
-                  {language === 'ja' ? '氏名' : 'Name'} *
-                </Label>
-                <Input
-                  id="name"
-                  value={newCustomer.name}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, name: e.target.value }))}
-                  placeholder={language === 'ja' ? '田中太郎' : 'John Doe'}
-                  className={language === 'ja' ? 'japanese' : ''}
-                />
-              </div>
-              <div>
-                <Label htmlFor="email" className={language === 'ja' ? 'japanese' : ''}>
-                  {language === 'ja' ? 'メールアドレス' : 'Email'}
-                </Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={newCustomer.email}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, email: e.target.value }))}
-                  placeholder="customer@example.com"
-                />
-              </div>
-              <div>
-                <Label htmlFor="phone" className={language === 'ja' ? 'japanese' : ''}>
-                  {language === 'ja' ? '電話番号' : 'Phone'}
-                </Label>
-                <Input
-                  id="phone"
-                  value={newCustomer.phone}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, phone: e.target.value }))}
-                  placeholder={language === 'ja' ? '090-1234-5678' : '+81-90-1234-5678'}
-                />
-              </div>
-              <div>
-                <Label htmlFor="address" className={language === 'ja' ? 'japanese' : ''}>
-                  {language === 'ja' ? '住所' : 'Address'}
-                </Label>
-                <Textarea
-                  id="address"
-                  value={newCustomer.address}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, address: e.target.value }))}
-                  placeholder={language === 'ja' ? '東京都渋谷区...' : 'Tokyo, Shibuya...'}
-                  className={`min-h-[60px] ${language === 'ja' ? 'japanese' : ''}`}
-                />
-              </div>
-              <div>
-                <Label htmlFor="idNumber" className={language === 'ja' ? 'japanese' : ''}>
-                  {language === 'ja' ? '身分証明書番号' : 'ID Number'}
-                </Label>
-                <Input
-                  id="idNumber"
-                  value={newCustomer.identificationNumber}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, identificationNumber: e.target.value }))}
-                  placeholder="123456789"
-                />
-              </div>
-              <div className="flex space-x-2">
-                <Button onClick={handleAddCustomer} className="flex-1">
-                  <UserPlus className="h-4 w-4 mr-2" />
-                  {language === 'ja' ? '登録' : 'Add'}
-                </Button>
-                <Button variant="outline" onClick={() => setIsAddingCustomer(false)} className="flex-1">
-                  {language === 'ja' ? 'キャンセル' : 'Cancel'}
-                </Button>
-              </div>
-            </div>
-          </DialogContent>
-        </Dialog>
-      </div>
-
-      {/* Customer List */}
-      <Card>
-        <CardHeader className="pb-3">
-          <CardTitle className={`text-base flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
-            <Users className="h-4 w-4 mr-2 text-primary" />
-            {language === 'ja' ? '最近の顧客' : 'Recent Customers'}
-          </CardTitle>
-          <CardDescription className={language === 'ja' ? 'japanese' : ''}>
-            {language === 'ja' 
-              ? 'エージェントメッシュメモリに保存された顧客情報'
-              : 'Customer information stored in agent mesh memory'
-            }
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <ScrollArea className="h-[300px] w-full">
-            {customers.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                <Users className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                <p className={language === 'ja' ? 'japanese' : ''}>
-                  {language === 'ja' ? '顧客情報がありません' : 'No customers found'}
-                </p>
-                <p className={`text-sm mt-1 ${language === 'ja' ? 'japanese' : ''}`}>
+        <div className="flex items-center gap-2">
+          <CustomerImportDialog userId={userId} language={language} onImported={onCustomerUpdate} />
+          <ExportDialog
+            language={language}
+            title={{ ja: '顧客データのエクスポート', en: 'Export Customers' }}
+            columns={CUSTOMER_EXPORT_COLUMNS}
+            fileBaseName="customers"
+            loadView={() => listAllCustomers(userId, directoryQuery)}
+            loadRange={(range) => {
+              const { from, to } = getRangeBounds(range)
+              return listCustomersCreatedBetween(userId, from, to)
+            }}
+          />
+          <Dialog open={isAddingCustomer} onOpenChange={closeAddDialog}>
+            <DialogTrigger asChild>
+              <Button size="sm">
+                <Plus className="h-4 w-4 mr-2" />
+                {language === 'ja' ? '新規顧客' : 'New Customer'}
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle className={language === 'ja' ? 'japanese' : ''}>
+                  {language === 'ja' ? '新規顧客登録' : 'Add New Customer'}
+                </DialogTitle>
+                <DialogDescription className={language === 'ja' ? 'japanese' : ''}>
                   {language === 'ja' 
-                    ? '新規顧客を追加してください'
-                    : 'Add a new customer to get started'
+                    ? '顧客情報を入力してください'
+                    : 'Enter customer information'
                   }
-                </p>
-              </div>
-            ) : (
-              <div className="space-y-3">
-                {customers.map((customer, index) => (
-                  <div key={customer.id}>
-                    <div className="flex items-start space-x-3 p-3 rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
-                         onClick={() => setSelectedCustomer(customer)}>
-                      {/* Avatar */}
-                      <div className="flex-shrink-0">
-                        <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
-                          <span className="text-sm font-medium text-primary">
-                            {customer.name.charAt(0).toUpperCase()}
-                          </span>
-                        </div>
-                      </div>
-
-                      {/* Customer Info */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center justify-between mb-1">
-                          <h4 className={`font-medium text-sm truncate ${language === 'ja' ? 'japanese' : ''}`}>
-                            {customer.name}
-                          </h4>
-                          <div className="flex items-center space-x-1 flex-shrink-0 ml-2">
-                            <Badge variant="outline" className="text-xs">
-                              {customer.preferredLanguage === 'ja' ? '日本語' : 'English'}
-                            </Badge>
-                            {customer.preferredLanguage === 'ja' && (
-                              <Badge variant="outline" className="text-xs">
-                                {customer.keigoPreference === 'formal' ? '敬語' : 'カジュアル'}
-                              </Badge>
-                            )}
-                          </div>
-                        </div>
-
-                        <div className="space-y-1">
-                          {customer.email && (
-                            <div className="flex items-center text-xs text-muted-foreground">
-                              <Mail className="h-3 w-3 mr-1 flex-shrink-0" />
-                              <span className="truncate">{customer.email}</span>
-                            </div>
-                          )}
-                          {customer.phone && (
-                            <div className="flex items-center text-xs text-muted-foreground">
-                              <Phone className="h-3 w-3 mr-1 flex-shrink-0" />
-                              <span>{customer.phone}</span>
-                            </div>
-                          )}
-                          <div className="flex items-center text-xs text-muted-foreground">
-                            <Calendar className="h-3 w-3 mr-1 flex-shrink-0" />
-                            <span>{formatDate(customer.createdAt)}</span>
-                          </div>
+                  {isExtracting && (
+                    <span className="block text-xs text-primary mt-1">
+                      {language === 'ja' ? '音声から入力中...' : 'Filling in from voice...'}
+                    </span>
+                  )}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="name" className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? '氏名' : 'Name'} *
+                    <ConfidenceHint field="name" extraction={extraction} language={language} />
+                  </Label>
+                  <Input
+                    id="name"
+                    value={newCustomer.name}
+                    onChange={(e) => updateField('name', e.target.value)}
+                    placeholder={language === 'ja' ? '田中太郎' : 'John Doe'}
+                    className={language === 'ja' ? 'japanese' : ''}
+                  />
+                  <FieldError error={formErrors.name} language={language} />
+                </div>
+                <div>
+                  <Label htmlFor="furigana" className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? 'フリガナ' : 'Furigana'}
+                    <ConfidenceHint field="furigana" extraction={extraction} language={language} />
+                  </Label>
+                  <Input
+                    id="furigana"
+                    value={newCustomer.furigana}
+                    onChange={(e) => updateField('furigana', e.target.value)}
+                    placeholder="タナカタロウ"
+                    className="japanese"
+                  />
+                  <FieldError error={formErrors.furigana} language={language} />
+                </div>
+                <div>
+                  <Label htmlFor="email" className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? 'メールアドレス' : 'Email'}
+                    <ConfidenceHint field="email" extraction={extraction} language={language} />
+                  </Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={newCustomer.email}
+                    onChange={(e) => updateField('email', e.target.value)}
+                    placeholder="customer@example.com"
+                  />
+                  <FieldError error={formErrors.email} language={language} />
+                </div>
+                <div>
+                  <Label htmlFor="phone" className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? '電話番号' : 'Phone'}
+                    <ConfidenceHint field="phone" extraction={extraction} language={language} />
+                  </Label>
+                  <Input
+                    id="phone"
+                    value={newCustomer.phone}
+                    onChange={(e) => updateField('phone', e.target.value)}
+                    placeholder={language === 'ja' ? '090-1234-5678' : '+81-90-1234-5678'}
+                  />
+                  <PhoneNumberHint phone={newCustomer.phone} language={language} />
+                  <FieldError error={formErrors.phone} language={language} />
+                </div>
+                <div>
+                  <Label htmlFor="postalCode" className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? '郵便番号' : 'Postal Code'}
+                  </Label>
+                  <PostalCodeInput
+                    id="postalCode"
+                    value={newCustomer.postalCode}
+                    address={newCustomer.address}
+                    language={language}
+                    onChange={(value) => updateField('postalCode', value)}
+                    onAddressChange={(address) => updateField('address', address)}
+                  />
+                  <FieldError error={formErrors.postalCode} language={language} />
+                </div>
+                <div>
+                  <Label htmlFor="address" className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? '住所' : 'Address'}
+                    <ConfidenceHint field="address" extraction={extraction} language={language} />
+                  </Label>
+                  <Textarea
+                    id="address"
+                    value={newCustomer.address}
+                    onChange={(e) => updateField('address', e.target.value)}
+                    placeholder={language === 'ja' ? '東京都渋谷区...' : 'Tokyo, Shibuya...'}
+                    className={`min-h-[60px] ${language === 'ja' ? 'japanese' : ''}`}
+                  />
+                  <AddressPreview address={newCustomer.address} language={language} />
+                </div>
+                <div>
+                  <Label className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? '身分証明書の種類' : 'ID Type'}
+                    <ConfidenceHint field="identificationType" extraction={extraction} language={language} />
+                  </Label>
+                  <Select
+                    value={newCustomer.identificationType}
+                    onValueChange={(value) => updateField('identificationType', value)}
+                  >
+                    <SelectTrigger className={language === 'ja' ? 'japanese' : ''}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IDENTIFICATION_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>
+                          {getIdentificationTypeLabel(type, language)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="idNumber" className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? '身分証明書番号' : 'ID Number'}
+                    <ConfidenceHint field="identificationNumber" extraction={extraction} language={language} />
+                  </Label>
+                  <Input
+                    id="idNumber"
+                    value={newCustomer.identificationNumber}
+                    onChange={(e) => updateField('identificationNumber', e.target.value)}
+                    placeholder="123456789"
+                  />
+                  <FieldError error={formErrors.identificationNumber} language={language} />
+                </div>
+                {duplicates.length > 0 && (
+                  <div className="rounded-md border border-amber-300 bg-amber-50 p-3 space-y-2">
+                    <p className={`flex items-center text-sm font-medium text-amber-700 ${language === 'ja' ? 'japanese' : ''}`}>
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                      {language === 'ja' ? '登録済みの顧客と重複している可能性があります' : 'This customer may already exist'}
+                    </p>
+                    {duplicates.map(({ customer, reasons }) => (
+                      <div key={customer.id} className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className={`text-sm truncate ${language === 'ja' ? 'japanese' : ''}`}>{customer.name}</p>
+                          <p className={`text-xs text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
+                            {reasons.map(reason => DUPLICATE_REASON_LABELS[reason][language]).join(' · ')}
+                          </p>
                         </div>
-                      </div>
-
-                      {/* Actions */}
-                      <div className="flex items-center space-x-1 flex-shrink-0">
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                          <Eye className="h-3 w-3" />
-                        </Button>
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                          <Edit className="h-3 w-3" />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            closeAddDialog(false)
+                            setSelectedCustomer(customer)
+                          }}
+                        >
+                          {language === 'ja' ? '開く' : 'Open'}
                         </Button>
                       </div>
-                    </div>
-                    {index < customers.length - 1 && <Separator />}
+                    ))}
                   </div>
-                ))}
+                )}
+                <div className="flex space-x-2">
+                  <Button onClick={handleAddCustomer} className="flex-1">
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    {duplicates.length > 0
+                      ? (language === 'ja' ? '別人として登録' : 'Add anyway')
+                      : (language === 'ja' ? '登録' : 'Add')}
+                  </Button>
+                  <Button variant="outline" onClick={() => closeAddDialog(false)} className="flex-1">
+                    {language === 'ja' ? 'キャンセル' : 'Cancel'}
+                  </Button>
+                </div>
               </div>
-            )}
-          </ScrollArea>
-        </CardContent>
-      </Card>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {/* Customer Directory */}
+      <CustomerDirectory
+        userId={userId}
+        language={language}
+        refreshKey={refreshKey}
+        onSelect={setSelectedCustomer}
+        onEdit={setEditingCustomer}
+        onQueryChange={setDirectoryQuery}
+      />
 
       {/* Agent Memory */}
       <Card className="border-accent/20">
@@ -381,87 +500,157 @@ const CustomerContext: React.FC<CustomerContextProps> = ({
       {/* Customer Detail Dialog */}
       {selectedCustomer && (
         <Dialog open={!!selectedCustomer} onOpenChange={() => setSelectedCustomer(null)}>
-          <DialogContent className="max-w-md">
+          <DialogContent className="max-w-lg">
             <DialogHeader>
               <DialogTitle className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
                 <Users className="h-4 w-4 mr-2" />
                 {selectedCustomer.name}
               </DialogTitle>
               <DialogDescription className={language === 'ja' ? 'japanese' : ''}>
-                {language === 'ja' ? '顧客詳細情報' : 'Customer Details'}
+                {selectedCustomer.furigana
+                  ? `${selectedCustomer.furigana} · ${language === 'ja' ? '顧客詳細情報' : 'Customer Details'}`
+                  : (language === 'ja' ? '顧客詳細情報' : 'Customer Details')}
               </DialogDescription>
             </DialogHeader>
-            <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
-                    {language === 'ja' ? '言語設定' : 'Language'}
-                  </Label>
-                  <Badge variant="outline" className="mt-1">
-                    {selectedCustomer.preferredLanguage === 'ja' ? '日本語' : 'English'}
-                  </Badge>
-                </div>
-                <div>
-                  <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
-                    {language === 'ja' ? '敬語設定' : 'Keigo Mode'}
-                  </Label>
-                  <Badge variant="outline" className="mt-1">
-                    {selectedCustomer.keigoPreference === 'formal' ? '敬語' : 'カジュアル'}
-                  </Badge>
+            <Tabs defaultValue="details">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="details">{language === 'ja' ? '詳細' : 'Details'}</TabsTrigger>
+                <TabsTrigger value="timeline">{language === 'ja' ? '対応履歴' : 'Timeline'}</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="details" className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
+                      {language === 'ja' ? '言語設定' : 'Language'}
+                    </Label>
+                    <Badge variant="outline" className="mt-1">
+                      {selectedCustomer.preferredLanguage === 'ja' ? '日本語' : 'English'}
+                    </Badge>
+                  </div>
+                  <div>
+                    <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
+                      {language === 'ja' ? '敬語設定' : 'Keigo Mode'}
+                    </Label>
+                    <Badge variant="outline" className="mt-1">
+                      {selectedCustomer.keigoPreference === 'formal' ? '敬語' : 'カジュアル'}
+                    </Badge>
+                  </div>
                 </div>
-              </div>
               
-              {selectedCustomer.email && (
-                <div>
-                  <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
-                    {language === 'ja' ? 'メールアドレス' : 'Email'}
-                  </Label>
-                  <p className="text-sm mt-1">{selectedCustomer.email}</p>
-                </div>
-              )}
+                {selectedCustomer.email && (
+                  <div>
+                    <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
+                      {language === 'ja' ? 'メールアドレス' : 'Email'}
+                    </Label>
+                    <p className="text-sm mt-1">{selectedCustomer.email}</p>
+                  </div>
+                )}
               
-              {selectedCustomer.phone && (
-                <div>
-                  <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
-                    {language === 'ja' ? '電話番号' : 'Phone'}
-                  </Label>
-                  <p className="text-sm mt-1">{selectedCustomer.phone}</p>
-                </div>
-              )}
+                {selectedCustomer.phone && (
+                  <div>
+                    <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
+                      {language === 'ja' ? '電話番号' : 'Phone'}
+                    </Label>
+                    <p className="text-sm mt-1">
+                      <MaskedValue customer={selectedCustomer} field="phone" language={language} />
+                      {PHONE_TYPE_LABELS[selectedCustomer.phoneType as PhoneType] && (
+                        <Badge variant="outline" className="ml-2 text-[10px] px-1 py-0">
+                          {PHONE_TYPE_LABELS[selectedCustomer.phoneType as PhoneType][language]}
+                        </Badge>
+                      )}
+                    </p>
+                  </div>
+                )}
               
-              {selectedCustomer.address && (
-                <div>
-                  <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
-                    {language === 'ja' ? '住所' : 'Address'}
-                  </Label>
-                  <p className={`text-sm mt-1 ${language === 'ja' ? 'japanese' : ''}`}>
-                    {selectedCustomer.address}
-                  </p>
-                </div>
-              )}
+                {selectedCustomer.address && (
+                  <div>
+                    <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
+                      {language === 'ja' ? '住所' : 'Address'}
+                    </Label>
+                    <p className={`text-sm mt-1 ${language === 'ja' ? 'japanese' : ''}`}>
+                      {selectedCustomer.postalCode && <span className="mr-2">〒{selectedCustomer.postalCode}</span>}
+                      <MaskedValue customer={selectedCustomer} field="address" language={language} />
+                    </p>
+                  </div>
+                )}
+              
+                {selectedCustomer.identificationType && (
+                  <div>
+                    <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
+                      {language === 'ja' ? '身分証明書' : 'Identification'}
+                    </Label>
+                    <p className={`text-sm mt-1 ${language === 'ja' ? 'japanese' : ''}`}>
+                      {getIdentificationTypeLabel(selectedCustomer.identificationType, language)}
+                      {selectedCustomer.identificationNumber && (
+                        <>
+                          {' - '}
+                          <MaskedValue customer={selectedCustomer} field="identificationNumber" language={language} />
+                        </>
+                      )}
+                    </p>
+                  </div>
+                )}
               
-              {selectedCustomer.identificationType && (
                 <div>
                   <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
-                    {language === 'ja' ? '身分証明書' : 'Identification'}
+                    {language === 'ja' ? '登録日' : 'Created'}
                   </Label>
-                  <p className={`text-sm mt-1 ${language === 'ja' ? 'japanese' : ''}`}>
-                    {getIdentificationTypeLabel(selectedCustomer.identificationType)}
-                    {selectedCustomer.identificationNumber && ` - ${selectedCustomer.identificationNumber}`}
-                  </p>
+                  <p className="text-sm mt-1">{formatDate(selectedCustomer.createdAt)}</p>
                 </div>
-              )}
-              
-              <div>
-                <Label className={`text-xs ${language === 'ja' ? 'japanese' : ''}`}>
-                  {language === 'ja' ? '登録日' : 'Created'}
-                </Label>
-                <p className="text-sm mt-1">{formatDate(selectedCustomer.createdAt)}</p>
-              </div>
-            </div>
+
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => {
+                      setEditingCustomer(selectedCustomer)
+                      setSelectedCustomer(null)
+                    }}
+                  >
+                    <Edit className="h-4 w-4 mr-2" />
+                    {language === 'ja' ? '編集・変更履歴' : 'Edit & History'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => {
+                      setMergingCustomer(selectedCustomer)
+                      setSelectedCustomer(null)
+                    }}
+                  >
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    {language === 'ja' ? '重複を統合' : 'Merge Duplicate'}
+                  </Button>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="timeline">
+                <CustomerTimeline userId={userId} customer={selectedCustomer} language={language} />
+              </TabsContent>
+            </Tabs>
           </DialogContent>
         </Dialog>
       )}
+
+      <CustomerEditDialog
+        customer={editingCustomer}
+        language={language}
+        onOpenChange={(open) => {
+          if (!open) setEditingCustomer(null)
+        }}
+        onSaved={onCustomerUpdate}
+      />
+
+      <CustomerMergeDialog
+        userId={userId}
+        customer={mergingCustomer}
+        language={language}
+        onOpenChange={(open) => {
+          if (!open) setMergingCustomer(null)
+        }}
+        onMerged={onCustomerUpdate}
+      />
     </div>
   )
 }
@@ -0,0 +1,322 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { ScrollArea } from './ui/scroll-area'
+import { Separator } from './ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import MaskedValue from './MaskedValue'
+import { ArrowDown, ArrowUp, Calendar, Edit, Eye, Loader2, Mail, Phone, Search, Users } from 'lucide-react'
+import { keepIfUnchanged } from '../lib/liveUpdates'
+import {
+  countCustomers,
+  getReadingRow,
+  listCustomers,
+  type CustomerSortField,
+  type ListCustomersOptions
+} from '../lib/customers'
+import type { Customer } from '../types/customer'
+
+const PAGE_SIZE = 30
+const SEARCH_DEBOUNCE_MS = 300
+
+export type CustomerDirectoryQuery = Pick<ListCustomersOptions, 'search' | 'sortBy' | 'order'>
+
+interface CustomerDirectoryProps {
+  userId: string
+  language: 'ja' | 'en'
+  // Bumped whenever customers may have changed; reloads the pages already shown
+  refreshKey: number
+  onSelect: (customer: Customer) => void
+  onEdit: (customer: Customer) => void
+  // Reports the search and sort in effect, e.g. for exporting the current view
+  onQueryChange?: (query: CustomerDirectoryQuery) => void
+}
+
+const CustomerDirectory: React.FC<CustomerDirectoryProps> = ({
+  userId,
+  language,
+  refreshKey,
+  onSelect,
+  onEdit,
+  onQueryChange
+}) => {
+  const [searchTerm, setSearchTerm] = useState('')
+  const [search, setSearch] = useState('')
+  const [sortBy, setSortBy] = useState<CustomerSortField>('reading')
+  const [order, setOrder] = useState<'asc' | 'desc'>('asc')
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const hasMore = customers.length < total
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  const query = useMemo(() => ({ search, sortBy, order }), [search, sortBy, order])
+
+  useEffect(() => {
+    onQueryChange?.(query)
+  }, [query, onQueryChange])
+
+  // Responses for an older query or refresh are dropped
+  const requestRef = useRef(0)
+  const queryRef = useRef(query)
+  const loadedCountRef = useRef(0)
+  loadedCountRef.current = customers.length
+
+  // A new query starts again from the first page; a refresh reloads every page already shown
+  useEffect(() => {
+    const request = ++requestRef.current
+    const isNewQuery = queryRef.current !== query
+    queryRef.current = query
+    if (isNewQuery) setCustomers([])
+    setIsLoading(true)
+
+    const limit = isNewQuery ? PAGE_SIZE : Math.max(loadedCountRef.current, PAGE_SIZE)
+    Promise.all([listCustomers(userId, { ...query, limit }), countCustomers(userId, query)])
+      .then(([rows, count]) => {
+        if (request !== requestRef.current) return
+        setCustomers(previous => keepIfUnchanged(previous, rows))
+        setTotal(count)
+      })
+      .catch(error => console.error('Failed to load customers:', error))
+      .finally(() => {
+        if (request === requestRef.current) setIsLoading(false)
+      })
+  }, [userId, query, refreshKey])
+
+  const loadMore = useCallback(async () => {
+    if (isLoading || !hasMore) return
+    const request = requestRef.current
+    setIsLoading(true)
+    try {
+      const rows = await listCustomers(userId, { ...query, limit: PAGE_SIZE, offset: customers.length })
+      if (request !== requestRef.current) return
+      // Customers added since the first page shift offsets, so a row can come back twice
+      setCustomers(previous => [...previous, ...rows.filter(row => !previous.some(customer => customer.id === row.id))])
+      if (rows.length < PAGE_SIZE) setTotal(customers.length + rows.length)
+    } catch (error) {
+      console.error('Failed to load more customers:', error)
+    } finally {
+      if (request === requestRef.current) setIsLoading(false)
+    }
+  }, [userId, query, customers.length, isLoading, hasMore])
+
+  // Infinite scroll: the next page loads when the end of the list scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const loadMoreRef = useRef(loadMore)
+  loadMoreRef.current = loadMore
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMoreRef.current()
+    })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore])
+
+  // Each sort starts in its natural direction: あ to ん, or newest first
+  const changeSort = (value: CustomerSortField) => {
+    setSortBy(value)
+    setOrder(value === 'reading' ? 'asc' : 'desc')
+  }
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString)
+    return date.toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  const getRowLabel = (customer: Customer) => {
+    const row = getReadingRow(customer)
+    if (row) return language === 'ja' ? `${row}行` : row
+    return language === 'ja' ? 'その他' : 'Other'
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className={`text-base flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+          <Users className="h-4 w-4 mr-2 text-primary" />
+          {language === 'ja' ? '顧客一覧' : 'Customer Directory'}
+        </CardTitle>
+        <CardDescription className={language === 'ja' ? 'japanese' : ''}>
+          {language === 'ja'
+            ? 'エージェントメッシュメモリに保存された顧客情報'
+            : 'Customer information stored in agent mesh memory'
+          }
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* Filters */}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={language === 'ja' ? '氏名・フリガナ・電話・メール・書類番号' : 'Name, reading, phone, email or ID number'}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className={`pl-10 ${language === 'ja' ? 'japanese' : ''}`}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Select value={sortBy} onValueChange={(value) => changeSort(value as CustomerSortField)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="reading">
+                {language === 'ja' ? 'フリガナ順（あいうえお）' : 'Reading (kana order)'}
+              </SelectItem>
+              <SelectItem value="createdAt">
+                {language === 'ja' ? '登録日' : 'Registered'}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            className="flex-shrink-0"
+            onClick={() => setOrder(order === 'desc' ? 'asc' : 'desc')}
+            title={order === 'desc'
+              ? (language === 'ja' ? '降順' : 'Descending')
+              : (language === 'ja' ? '昇順' : 'Ascending')}
+          >
+            {order === 'desc' ? <ArrowDown className="h-4 w-4" /> : <ArrowUp className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[360px] w-full">
+          {customers.length === 0 && isLoading ? (
+            <div className="flex justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : customers.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Users className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p className={language === 'ja' ? 'japanese' : ''}>
+                {language === 'ja' ? '顧客情報がありません' : 'No customers found'}
+              </p>
+              <p className={`text-sm mt-1 ${language === 'ja' ? 'japanese' : ''}`}>
+                {search
+                  ? (language === 'ja' ? '検索条件を変えてお試しください' : 'Try a different search')
+                  : (language === 'ja' ? '新規顧客を追加してください' : 'Add a new customer to get started')
+                }
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {customers.map((customer, index) => (
+                <div key={customer.id}>
+                  {/* Kana row heading, like the index tabs of a paper directory */}
+                  {sortBy === 'reading' && (index === 0 || getRowLabel(customers[index - 1]) !== getRowLabel(customer)) && (
+                    <div className="text-xs font-semibold text-muted-foreground px-3 pt-1 japanese">
+                      {getRowLabel(customer)}
+                    </div>
+                  )}
+                  <div className="flex items-start space-x-3 p-3 rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
+                       onClick={() => onSelect(customer)}>
+                    {/* Avatar */}
+                    <div className="flex-shrink-0">
+                      <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                        <span className="text-sm font-medium text-primary">
+                          {customer.name.charAt(0).toUpperCase()}
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* Customer Info */}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between mb-1">
+                        <div className="min-w-0">
+                          <h4 className={`font-medium text-sm truncate ${language === 'ja' ? 'japanese' : ''}`}>
+                            {customer.name}
+                          </h4>
+                          {customer.furigana && (
+                            <p className="text-xs text-muted-foreground truncate japanese">{customer.furigana}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-1 flex-shrink-0 ml-2">
+                          <Badge variant="outline" className="text-xs">
+                            {customer.preferredLanguage === 'ja' ? '日本語' : 'English'}
+                          </Badge>
+                          {customer.preferredLanguage === 'ja' && (
+                            <Badge variant="outline" className="text-xs">
+                              {customer.keigoPreference === 'formal' ? '敬語' : 'カジュアル'}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="space-y-1">
+                        {customer.email && (
+                          <div className="flex items-center text-xs text-muted-foreground">
+                            <Mail className="h-3 w-3 mr-1 flex-shrink-0" />
+                            <span className="truncate">{customer.email}</span>
+                          </div>
+                        )}
+                        {customer.phone && (
+                          <div className="flex items-center text-xs text-muted-foreground">
+                            <Phone className="h-3 w-3 mr-1 flex-shrink-0" />
+                            <MaskedValue customer={customer} field="phone" language={language} />
+                          </div>
+                        )}
+                        <div className="flex items-center text-xs text-muted-foreground">
+                          <Calendar className="h-3 w-3 mr-1 flex-shrink-0" />
+                          <span>{formatDate(customer.createdAt)}</span>
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center space-x-1 flex-shrink-0">
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                        <Eye className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onEdit(customer)
+                        }}
+                      >
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  {index < customers.length - 1 && <Separator />}
+                </div>
+              ))}
+            </div>
+          )}
+          {hasMore && (
+            <div ref={sentinelRef} className="flex justify-center py-3 text-muted-foreground">
+              {isLoading && customers.length > 0 && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+          )}
+        </ScrollArea>
+
+        {total > 0 && (
+          <div className={`text-sm text-muted-foreground pt-2 border-t ${language === 'ja' ? 'japanese' : ''}`}>
+            {language === 'ja'
+              ? `${customers.length}件を表示（全${total}件中）`
+              : `Showing ${customers.length} of ${total} customers`
+            }
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default CustomerDirectory
@@ -0,0 +1,442 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import PhoneNumberHint from './PhoneNumberHint'
+import PostalCodeInput from './PostalCodeInput'
+import AddressPreview from './AddressPreview'
+import { ArrowRight, Edit, Eye, History, Loader2, Save } from 'lucide-react'
+import { IDENTIFICATION_TYPES, getIdentificationTypeLabel } from '../lib/identification'
+import { CUSTOMER_PII_FIELDS, maskPii } from '../lib/pii'
+import {
+  PROTECTED_CUSTOMER_FIELDS,
+  REVEAL_REASON_LABELS,
+  isProtectedField,
+  listCustomerHistory,
+  listCustomerReveals,
+  normalizeCustomerEditValues,
+  revealCustomerFields,
+  saveCustomerEdit,
+  toCustomerEditValues,
+  validateCustomerEditValues,
+  type CustomerEditValues,
+  type CustomerFieldChange,
+  type CustomerHistoryEntry,
+  type CustomerReveal,
+  type CustomerValidationErrors
+} from '../lib/customers'
+import type { Customer } from '../types/customer'
+
+interface CustomerEditDialogProps {
+  customer: Customer | null
+  language: 'ja' | 'en'
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+const FIELD_LABELS: Record<CustomerFieldChange['field'], { ja: string; en: string }> = {
+  name: { ja: '氏名', en: 'Name' },
+  furigana: { ja: 'フリガナ', en: 'Furigana' },
+  email: { ja: 'メールアドレス', en: 'Email' },
+  phone: { ja: '電話番号', en: 'Phone' },
+  postalCode: { ja: '郵便番号', en: 'Postal code' },
+  address: { ja: '住所', en: 'Address' },
+  identificationType: { ja: '身分証明書の種類', en: 'ID Type' },
+  identificationNumber: { ja: '身分証明書番号', en: 'ID Number' },
+  preferredLanguage: { ja: '言語設定', en: 'Language' },
+  keigoPreference: { ja: '敬語設定', en: 'Keigo Mode' },
+  birthDate: { ja: '生年月日', en: 'Birth Date' },
+  residenceCardExpiry: { ja: '在留期限', en: 'Residence Card Expiry' },
+  mergedFrom: { ja: '重複の統合', en: 'Merged duplicate' }
+}
+
+const FieldError: React.FC<{ error?: { ja: string; en: string }; language: 'ja' | 'en' }> = ({ error, language }) =>
+  error ? <p className={`text-xs text-destructive mt-1 ${language === 'ja' ? 'japanese' : ''}`}>{error[language]}</p> : null
+
+const CustomerEditDialog: React.FC<CustomerEditDialogProps> = ({ customer, language, onOpenChange, onSaved }) => {
+  // The customer with its protected fields opened; edits are saved against it, not the sealed prop
+  const [opened, setOpened] = useState<Customer | null>(null)
+  const [values, setValues] = useState<CustomerEditValues | null>(null)
+  const [errors, setErrors] = useState<CustomerValidationErrors>({})
+  const [history, setHistory] = useState<CustomerHistoryEntry[]>([])
+  const [reveals, setReveals] = useState<CustomerReveal[]>([])
+  const [loadError, setLoadError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState('')
+  const customerId = customer?.id
+  const isUnlocked = values !== null
+  // The form is reset only when another customer is opened; live updates of the same row must not wipe it
+  const latest = useRef({ customer, language })
+  latest.current = { customer, language }
+
+  // The form shows protected values in full, so they are opened through a logged reveal; if that fails the form stays closed
+  useEffect(() => {
+    let cancelled = false
+    setOpened(null)
+    setValues(null)
+    setErrors({})
+    setMessage('')
+    setLoadError('')
+    const { customer, language } = latest.current
+    if (!customer) return
+    const shown = PROTECTED_CUSTOMER_FIELDS.filter(field => customer[field])
+    revealCustomerFields(customer, shown, 'edit')
+      .then(revealed => {
+        if (cancelled) return
+        setOpened(revealed)
+        setValues(toCustomerEditValues(revealed))
+      })
+      .catch(error => {
+        console.error('Failed to log the reveal:', error)
+        if (!cancelled) {
+          setLoadError(language === 'ja'
+            ? '閲覧記録を保存できなかったため、編集画面を開けません'
+            : 'Could not log access to this customer, so the form cannot be opened')
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [customerId])
+
+  useEffect(() => {
+    setHistory([])
+    if (!customerId) return
+    listCustomerHistory(customerId)
+      .then(setHistory)
+      .catch(error => console.error('Failed to load customer history:', error))
+  }, [customerId, customer?.updatedAt])
+
+  useEffect(() => {
+    setReveals([])
+    if (!customerId || !isUnlocked) return
+    listCustomerReveals(customerId)
+      .then(setReveals)
+      .catch(error => console.error('Failed to load reveal log:', error))
+  }, [customerId, isUnlocked])
+
+  const updateField = (field: keyof CustomerEditValues, value: string) => {
+    setValues(prev => prev && { ...prev, [field]: value })
+    setErrors(prev => {
+      const { [field]: _fixed, ...rest } = prev
+      return rest
+    })
+  }
+
+  const handleSave = async () => {
+    if (!opened || !values) return
+    const normalized = normalizeCustomerEditValues(values)
+    const found = validateCustomerEditValues(normalized)
+    setValues(normalized)
+    setErrors(found)
+    if (Object.keys(found).length > 0) return
+
+    setIsSaving(true)
+    setMessage('')
+    try {
+      const changes = await saveCustomerEdit(opened, normalized)
+      if (changes.length === 0) {
+        setMessage(language === 'ja' ? '変更はありません' : 'Nothing changed')
+        return
+      }
+      onSaved()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to update customer:', error)
+      setMessage(language === 'ja' ? '保存に失敗しました' : 'Could not save the changes')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+
+  const formatValue = (field: CustomerFieldChange['field'], value: string) => {
+    if (!value) return language === 'ja' ? '（空欄）' : '(empty)'
+    if (field === 'identificationType') return getIdentificationTypeLabel(value, language)
+    if (isProtectedField(field)) return maskPii(CUSTOMER_PII_FIELDS[field], value)
+    return value
+  }
+
+  const getActorLabel = (entry: CustomerHistoryEntry | CustomerReveal) => entry.actorName || entry.actor
+
+  return (
+    <Dialog open={!!customer} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+            <Edit className="h-4 w-4 mr-2" />
+            {language === 'ja' ? '顧客情報の編集' : 'Edit Customer'}
+          </DialogTitle>
+          <DialogDescription className={language === 'ja' ? 'japanese' : ''}>
+            {customer?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError && <p className={`text-sm text-destructive ${language === 'ja' ? 'japanese' : ''}`}>{loadError}</p>}
+
+        {!values && !loadError && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {values && (
+          <Tabs defaultValue="edit">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="edit">{language === 'ja' ? '編集' : 'Edit'}</TabsTrigger>
+              <TabsTrigger value="history">
+                <History className="h-3 w-3 mr-1" />
+                {language === 'ja' ? `変更履歴 (${history.length})` : `History (${history.length})`}
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="edit">
+              <ScrollArea className="h-[420px] pr-3">
+                <div className="space-y-4 p-1">
+                  <div>
+                    <Label htmlFor="edit-name" className={language === 'ja' ? 'japanese' : ''}>
+                      {language === 'ja' ? '氏名' : 'Name'} *
+                    </Label>
+                    <Input
+                      id="edit-name"
+                      value={values.name}
+                      onChange={(e) => updateField('name', e.target.value)}
+                      className={language === 'ja' ? 'japanese' : ''}
+                    />
+                    <FieldError error={errors.name} language={language} />
+                  </div>
+                  <div>
+                    <Label htmlFor="edit-furigana" className={language === 'ja' ? 'japanese' : ''}>
+                      {language === 'ja' ? 'フリガナ' : 'Furigana'}
+                    </Label>
+                    <Input
+                      id="edit-furigana"
+                      value={values.furigana}
+                      onChange={(e) => updateField('furigana', e.target.value)}
+                      placeholder="タナカタロウ"
+                      className="japanese"
+                    />
+                    <FieldError error={errors.furigana} language={language} />
+                  </div>
+                  <div>
+                    <Label htmlFor="edit-email" className={language === 'ja' ? 'japanese' : ''}>
+                      {language === 'ja' ? 'メールアドレス' : 'Email'}
+                    </Label>
+                    <Input
+                      id="edit-email"
+                      type="email"
+                      value={values.email}
+                      onChange={(e) => updateField('email', e.target.value)}
+                    />
+                    <FieldError error={errors.email} language={language} />
+                  </div>
+                  <div>
+                    <Label htmlFor="edit-phone" className={language === 'ja' ? 'japanese' : ''}>
+                      {language === 'ja' ? '電話番号' : 'Phone'}
+                    </Label>
+                    <Input
+                      id="edit-phone"
+                      value={values.phone}
+                      onChange={(e) => updateField('phone', e.target.value)}
+                    />
+                    <PhoneNumberHint phone={values.phone} language={language} />
+                    <FieldError error={errors.phone} language={language} />
+                  </div>
+                  <div>
+                    <Label htmlFor="edit-postalCode" className={language === 'ja' ? 'japanese' : ''}>
+                      {language === 'ja' ? '郵便番号' : 'Postal Code'}
+                    </Label>
+                    <PostalCodeInput
+                      id="edit-postalCode"
+                      value={values.postalCode}
+                      address={values.address}
+                      language={language}
+                      onChange={(value) => updateField('postalCode', value)}
+                      onAddressChange={(address) => updateField('address', address)}
+                    />
+                    <FieldError error={errors.postalCode} language={language} />
+                  </div>
+                  <div>
+                    <Label htmlFor="edit-address" className={language === 'ja' ? 'japanese' : ''}>
+                      {language === 'ja' ? '住所' : 'Address'}
+                    </Label>
+                    <Textarea
+                      id="edit-address"
+                      value={values.address}
+                      onChange={(e) => updateField('address', e.target.value)}
+                      className={`min-h-[60px] ${language === 'ja' ? 'japanese' : ''}`}
+                    />
+                    <AddressPreview address={values.address} language={language} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className={language === 'ja' ? 'japanese' : ''}>
+                        {language === 'ja' ? '身分証明書の種類' : 'ID Type'}
+                      </Label>
+                      <Select
+                        value={values.identificationType}
+                        onValueChange={(value) => updateField('identificationType', value)}
+                      >
+                        <SelectTrigger className={language === 'ja' ? 'japanese' : ''}>
+                          <SelectValue placeholder={language === 'ja' ? '未選択' : 'Not set'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {IDENTIFICATION_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>
+                              {getIdentificationTypeLabel(type, language)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="edit-idNumber" className={language === 'ja' ? 'japanese' : ''}>
+                        {language === 'ja' ? '身分証明書番号' : 'ID Number'}
+                      </Label>
+                      <Input
+                        id="edit-idNumber"
+                        value={values.identificationNumber}
+                        onChange={(e) => updateField('identificationNumber', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <FieldError error={errors.identificationNumber} language={language} />
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className={language === 'ja' ? 'japanese' : ''}>
+                        {language === 'ja' ? '言語設定' : 'Language'}
+                      </Label>
+                      <Select
+                        value={values.preferredLanguage}
+                        onValueChange={(value) => updateField('preferredLanguage', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ja">日本語</SelectItem>
+                          <SelectItem value="en">English</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className={language === 'ja' ? 'japanese' : ''}>
+                        {language === 'ja' ? '敬語設定' : 'Keigo Mode'}
+                      </Label>
+                      <Select
+                        value={values.keigoPreference}
+                        onValueChange={(value) => updateField('keigoPreference', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="formal">敬語 (Formal)</SelectItem>
+                          <SelectItem value="casual">カジュアル (Casual)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+              </ScrollArea>
+
+              {message && <p className="text-sm text-muted-foreground mt-2">{message}</p>}
+
+              <div className="flex space-x-2 mt-4">
+                <Button onClick={handleSave} disabled={isSaving} className="flex-1">
+                  {isSaving
+                    ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    : <Save className="h-4 w-4 mr-2" />}
+                  {language === 'ja' ? '保存' : 'Save'}
+                </Button>
+                <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+                  {language === 'ja' ? 'キャンセル' : 'Cancel'}
+                </Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="history">
+              <ScrollArea className="h-[460px] pr-3">
+                {history.length === 0 && reveals.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                    <p className={language === 'ja' ? 'japanese' : ''}>
+                      {language === 'ja' ? '変更履歴はありません' : 'No changes recorded yet'}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-4 p-1">
+                    {history.map(entry => (
+                      <div key={entry.id} className="border-l-2 border-primary/30 pl-3">
+                        <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                          <span className="font-medium text-foreground truncate">{getActorLabel(entry)}</span>
+                          <span className="flex-shrink-0 ml-2">{formatDateTime(entry.createdAt)}</span>
+                        </div>
+                        <div className="space-y-1">
+                          {entry.changes.map(change => (
+                            <div key={change.field} className="text-xs">
+                              <span className={`font-medium ${language === 'ja' ? 'japanese' : ''}`}>
+                                {FIELD_LABELS[change.field]?.[language] || change.field}
+                              </span>
+                              {change.field === 'mergedFrom' ? (
+                                <div className="text-muted-foreground break-all">
+                                  {change.to} ({change.from})
+                                </div>
+                              ) : (
+                                <div className="flex items-center gap-1 text-muted-foreground break-all">
+                                  <span className="line-through">{formatValue(change.field, change.from)}</span>
+                                  <ArrowRight className="h-3 w-3 flex-shrink-0" />
+                                  <span className="text-foreground">{formatValue(change.field, change.to)}</span>
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                    {reveals.length > 0 && (
+                      <div className="space-y-1 pt-2 border-t">
+                        <p className={`text-xs font-medium ${language === 'ja' ? 'japanese' : ''}`}>
+                          {language === 'ja' ? '閲覧記録' : 'Access log'}
+                        </p>
+                        {reveals.map(reveal => (
+                          <div key={reveal.id} className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span className="flex items-center truncate">
+                              <Eye className="h-3 w-3 mr-1 flex-shrink-0" />
+                              <span className="truncate">
+                                {getActorLabel(reveal)} · {FIELD_LABELS[reveal.field][language]}
+                                {reveal.reason !== 'view' && (language === 'ja'
+                                  ? `（${REVEAL_REASON_LABELS[reveal.reason].ja}）`
+                                  : ` (${REVEAL_REASON_LABELS[reveal.reason].en})`)}
+                              </span>
+                            </span>
+                            <span className="flex-shrink-0 ml-2">{formatDateTime(reveal.createdAt)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CustomerEditDialog
@@ -0,0 +1,370 @@
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Progress } from './ui/progress'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { AlertTriangle, CheckCircle, FileSpreadsheet, Loader2, Upload, XCircle } from 'lucide-react'
+import { DUPLICATE_REASON_LABELS, type CustomerEditableField } from '../lib/customers'
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  buildImportReport,
+  commitImport,
+  guessImportMapping,
+  readImportFile,
+  type ImportColumnMapping,
+  type ImportCommitResult,
+  type ImportRowResult,
+  type ImportTable
+} from '../lib/customerImport'
+
+interface CustomerImportDialogProps {
+  userId: string
+  language: 'ja' | 'en'
+  onImported: () => void
+}
+
+type ImportStep = 'file' | 'mapping' | 'report' | 'done'
+
+// Radix Select does not allow an empty value
+const UNMAPPED = 'none'
+
+const FIELD_LABELS: Record<CustomerEditableField, { ja: string; en: string }> = {
+  name: { ja: '氏名', en: 'Name' },
+  furigana: { ja: 'フリガナ', en: 'Furigana' },
+  email: { ja: 'メールアドレス', en: 'Email' },
+  phone: { ja: '電話番号', en: 'Phone' },
+  postalCode: { ja: '郵便番号', en: 'Postal code' },
+  address: { ja: '住所', en: 'Address' },
+  identificationType: { ja: '身分証明書の種類', en: 'ID Type' },
+  identificationNumber: { ja: '身分証明書番号', en: 'ID Number' },
+  preferredLanguage: { ja: '言語設定', en: 'Language' },
+  keigoPreference: { ja: '敬語設定', en: 'Keigo Mode' }
+}
+
+const CustomerImportDialog: React.FC<CustomerImportDialogProps> = ({ userId, language, onImported }) => {
+  const [open, setOpen] = useState(false)
+  const [step, setStep] = useState<ImportStep>('file')
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [mapping, setMapping] = useState<ImportColumnMapping>({})
+  const [report, setReport] = useState<ImportRowResult[]>([])
+  const [includeDuplicates, setIncludeDuplicates] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [result, setResult] = useState<ImportCommitResult | null>(null)
+  const [message, setMessage] = useState('')
+
+  const reset = () => {
+    setStep('file')
+    setTable(null)
+    setMapping({})
+    setReport([])
+    setIncludeDuplicates(false)
+    setProgress(null)
+    setResult(null)
+    setMessage('')
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setMessage('')
+    try {
+      const read = await readImportFile(file)
+      if (read.rows.length === 0) {
+        setMessage(language === 'ja' ? 'データ行が見つかりません' : 'The file has no data rows')
+        return
+      }
+      if (read.rows.length > MAX_IMPORT_ROWS) {
+        setMessage(language === 'ja'
+          ? `一度に取り込めるのは${MAX_IMPORT_ROWS}行までです。ファイルを分割してください`
+          : `Up to ${MAX_IMPORT_ROWS} rows can be imported at once; split the file first`)
+        return
+      }
+      setTable(read)
+      setMapping(guessImportMapping(read.headers))
+      setStep('mapping')
+    } catch (error) {
+      console.error('Failed to read import file:', error)
+      setMessage(language === 'ja' ? 'ファイルを読み込めませんでした' : 'Could not read the file')
+    }
+  }
+
+  const updateMapping = (field: CustomerEditableField, value: string) => {
+    setMapping(prev => {
+      const { [field]: _previous, ...rest } = prev
+      return value === UNMAPPED ? rest : { ...rest, [field]: Number(value) }
+    })
+  }
+
+  const handleCheck = async () => {
+    if (!table) return
+    setMessage('')
+    setProgress({ done: 0, total: table.rows.length })
+    try {
+      setReport(await buildImportReport(userId, table, mapping, (done, total) => setProgress({ done, total })))
+      setStep('report')
+    } catch (error) {
+      console.error('Failed to check import rows:', error)
+      setMessage(language === 'ja' ? 'チェックに失敗しました' : 'Checking the rows failed')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleCommit = async () => {
+    setMessage('')
+    setProgress({ done: 0, total: 0 })
+    try {
+      const committed = await commitImport(userId, report, {
+        includeDuplicates,
+        onProgress: (done, total) => setProgress({ done, total })
+      })
+      setResult(committed)
+      setStep('done')
+      if (committed.created > 0) onImported()
+    } catch (error) {
+      console.error('Failed to import customers:', error)
+      setMessage(language === 'ja' ? '取り込みに失敗しました' : 'The import failed')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const counts = {
+    ready: report.filter(row => row.status === 'ready').length,
+    duplicate: report.filter(row => row.status === 'duplicate').length,
+    invalid: report.filter(row => row.status === 'invalid').length
+  }
+  const toImport = counts.ready + (includeDuplicates ? counts.duplicate : 0)
+  const problems = report.filter(row => row.status !== 'ready')
+
+  const renderProblem = (row: ImportRowResult) => (
+    <div key={row.rowNumber} className="rounded-md border p-2 text-xs space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className={`font-medium truncate ${language === 'ja' ? 'japanese' : ''}`}>
+          {language === 'ja' ? `${row.rowNumber}行目` : `Row ${row.rowNumber}`}
+          {row.values.name && ` · ${row.values.name}`}
+        </span>
+        {row.status === 'invalid'
+          ? <Badge variant="destructive" className="text-[10px] px-1 py-0">{language === 'ja' ? 'エラー' : 'Error'}</Badge>
+          : <Badge variant="outline" className="text-[10px] px-1 py-0 text-amber-600 border-amber-300">{language === 'ja' ? '重複' : 'Duplicate'}</Badge>}
+      </div>
+      {(Object.keys(row.errors) as CustomerEditableField[]).map(field => (
+        <p key={field} className={`text-destructive ${language === 'ja' ? 'japanese' : ''}`}>
+          {FIELD_LABELS[field][language]}: {row.errors[field]?.[language]}
+        </p>
+      ))}
+      {row.duplicateOfRow && (
+        <p className={`text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
+          {language === 'ja' ? `${row.duplicateOfRow}行目と同じ連絡先です` : `Same contact details as row ${row.duplicateOfRow}`}
+        </p>
+      )}
+      {row.duplicates.map(({ customer, reasons }) => (
+        <p key={customer.id} className={`text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
+          {language === 'ja' ? `既存: ${customer.name}` : `Existing: ${customer.name}`}
+          {' ('}{reasons.map(reason => DUPLICATE_REASON_LABELS[reason][language]).join(', ')}{')'}
+        </p>
+      ))}
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => {
+      // A running import is not interrupted by closing the dialog
+      if (progress) return
+      setOpen(next)
+      if (!next) reset()
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          {language === 'ja' ? 'インポート' : 'Import'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            {language === 'ja' ? '顧客データのインポート' : 'Import Customers'}
+          </DialogTitle>
+          <DialogDescription className={language === 'ja' ? 'japanese' : ''}>
+            {language === 'ja'
+              ? 'CSV（UTF-8・Shift_JIS）またはExcel（.xlsx）から取り込みます'
+              : 'Reads CSV (UTF-8 or Shift_JIS) and Excel (.xlsx) files'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file" className={language === 'ja' ? 'japanese' : ''}>
+              {language === 'ja' ? 'ファイル' : 'File'}
+            </Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <p className={`text-xs text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
+              {language === 'ja' ? '1行目を見出しとして扱います' : 'The first row is read as the header'}
+            </p>
+          </div>
+        )}
+
+        {step === 'mapping' && table && (
+          <ScrollArea className="h-[380px] pr-3">
+            <div className="space-y-3 p-1">
+              <p className={`text-sm text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
+                {language === 'ja'
+                  ? `${table.fileName}（${table.rows.length}行）の列を項目に割り当ててください`
+                  : `Match the columns of ${table.fileName} (${table.rows.length} rows) to customer fields`}
+              </p>
+              {IMPORT_FIELDS.map(field => (
+                <div key={field} className="grid grid-cols-2 gap-3 items-center">
+                  <Label className={language === 'ja' ? 'japanese' : ''}>
+                    {FIELD_LABELS[field][language]}{field === 'name' && ' *'}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? UNMAPPED : String(mapping[field])}
+                    onValueChange={(value) => updateMapping(field, value)}
+                  >
+                    <SelectTrigger className={language === 'ja' ? 'japanese' : ''}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>{language === 'ja' ? '取り込まない' : 'Do not import'}</SelectItem>
+                      {table.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || (language === 'ja' ? `列${index + 1}` : `Column ${index + 1}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {step === 'report' && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="rounded-md border p-2">
+                <div className="text-lg font-bold text-green-600">{counts.ready}</div>
+                <div className={`text-xs text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
+                  {language === 'ja' ? '取り込み可' : 'Ready'}
+                </div>
+              </div>
+              <div className="rounded-md border p-2">
+                <div className="text-lg font-bold text-amber-600">{counts.duplicate}</div>
+                <div className={`text-xs text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
+                  {language === 'ja' ? '重複の可能性' : 'Duplicates'}
+                </div>
+              </div>
+              <div className="rounded-md border p-2">
+                <div className="text-lg font-bold text-destructive">{counts.invalid}</div>
+                <div className={`text-xs text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
+                  {language === 'ja' ? 'エラー' : 'Errors'}
+                </div>
+              </div>
+            </div>
+            {problems.length > 0 && (
+              <ScrollArea className="h-[260px] pr-3">
+                <div className="space-y-2 p-1">{problems.map(renderProblem)}</div>
+              </ScrollArea>
+            )}
+            {counts.duplicate > 0 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="import-duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                />
+                <Label htmlFor="import-duplicates" className={`text-sm font-normal ${language === 'ja' ? 'japanese' : ''}`}>
+                  {language === 'ja' ? '重複の可能性がある行も取り込む' : 'Import possible duplicates as well'}
+                </Label>
+              </div>
+            )}
+            {counts.invalid > 0 && (
+              <div className="flex items-start text-xs text-muted-foreground">
+                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0 text-amber-500" />
+                <span className={language === 'ja' ? 'japanese' : ''}>
+                  {language === 'ja'
+                    ? 'エラーの行は取り込まれません。ファイルを修正して再度インポートしてください'
+                    : 'Rows with errors are skipped; fix them in the file and import it again'}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-2 text-sm">
+            <p className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+              <CheckCircle className="h-4 w-4 mr-2 text-green-500" />
+              {language === 'ja' ? `${result.created}件の顧客を登録しました` : `Imported ${result.created} customers`}
+            </p>
+            {result.failedRows.length > 0 && (
+              <p className={`flex items-start text-destructive ${language === 'ja' ? 'japanese' : ''}`}>
+                <XCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                {language === 'ja'
+                  ? `次の行は保存できませんでした: ${result.failedRows.join(', ')}`
+                  : `These rows could not be saved: ${result.failedRows.join(', ')}`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {progress && (
+          <div className="space-y-1">
+            <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+            <p className="text-xs text-muted-foreground text-right">{progress.done} / {progress.total}</p>
+          </div>
+        )}
+
+        {message && <p className={`text-sm text-destructive ${language === 'ja' ? 'japanese' : ''}`}>{message}</p>}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={!!progress}>
+                {language === 'ja' ? '戻る' : 'Back'}
+              </Button>
+              <Button onClick={handleCheck} disabled={!!progress || mapping.name === undefined}>
+                {progress && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {language === 'ja' ? 'チェック（ドライラン）' : 'Check (dry run)'}
+              </Button>
+            </>
+          )}
+          {step === 'report' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={!!progress}>
+                {language === 'ja' ? '戻る' : 'Back'}
+              </Button>
+              <Button onClick={handleCommit} disabled={!!progress || toImport === 0}>
+                {progress
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <Upload className="h-4 w-4 mr-2" />}
+                {language === 'ja' ? `${toImport}件を取り込む` : `Import ${toImport} rows`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => {
+              setOpen(false)
+              reset()
+            }}>
+              {language === 'ja' ? '閉じる' : 'Close'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CustomerImportDialog
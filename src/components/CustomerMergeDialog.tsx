@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { ScrollArea } from './ui/scroll-area'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { AlertTriangle, GitMerge, Loader2, Search } from 'lucide-react'
+import { isEncrypted } from '../lib/fieldCrypto'
+import { getIdentificationTypeLabel } from '../lib/identification'
+import { CUSTOMER_PII_FIELDS, maskPii } from '../lib/pii'
+import {
+  DUPLICATE_REASON_LABELS,
+  PROTECTED_CUSTOMER_FIELDS,
+  findDuplicateCustomers,
+  isProtectedField,
+  listCustomers,
+  maskCustomerField,
+  revealCustomerFields,
+  type CustomerDuplicate,
+  type CustomerEditValues,
+  type DuplicateReason
+} from '../lib/customers'
+import { buildMergeValues, getConflictingFields, mergeCustomers } from '../lib/customerMerge'
+import type { Customer } from '../types/customer'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+const FIELD_LABELS: Record<keyof CustomerEditValues, { ja: string; en: string }> = {
+  name: { ja: '氏名', en: 'Name' },
+  furigana: { ja: 'フリガナ', en: 'Furigana' },
+  email: { ja: 'メールアドレス', en: 'Email' },
+  phone: { ja: '電話番号', en: 'Phone' },
+  postalCode: { ja: '郵便番号', en: 'Postal code' },
+  address: { ja: '住所', en: 'Address' },
+  identificationType: { ja: '身分証明書の種類', en: 'ID Type' },
+  identificationNumber: { ja: '身分証明書番号', en: 'ID Number' },
+  preferredLanguage: { ja: '言語設定', en: 'Language' },
+  keigoPreference: { ja: '敬語設定', en: 'Keigo Mode' }
+}
+
+interface CustomerMergeDialogProps {
+  userId: string
+  // The customer the merge was started from; null while closed
+  customer: Customer | null
+  language: 'ja' | 'en'
+  onOpenChange: (open: boolean) => void
+  onMerged: () => void
+}
+
+const CustomerMergeDialog: React.FC<CustomerMergeDialogProps> = ({ userId, customer, language, onOpenChange, onMerged }) => {
+  const [duplicates, setDuplicates] = useState<CustomerDuplicate[]>([])
+  const [searchTerm, setSearchTerm] = useState('')
+  const [searchResults, setSearchResults] = useState<Customer[]>([])
+  // Both records with their protected fields opened, so conflicts compare and merge real values
+  const [opened, setOpened] = useState<Customer | null>(null)
+  const [other, setOther] = useState<Customer | null>(null)
+  const [pickingId, setPickingId] = useState('')
+  const [survivorId, setSurvivorId] = useState('')
+  const [values, setValues] = useState<CustomerEditValues | null>(null)
+  const [isMerging, setIsMerging] = useState(false)
+  const [message, setMessage] = useState('')
+  const customerId = customer?.id
+  // Duplicates are looked up only when another customer is opened, not on live updates of the same row
+  const latest = useRef(customer)
+  latest.current = customer
+
+  useEffect(() => {
+    setDuplicates([])
+    setSearchTerm('')
+    setSearchResults([])
+    setOpened(null)
+    setOther(null)
+    setMessage('')
+    const opened = latest.current
+    if (!opened) return
+    findDuplicateCustomers(userId, opened, opened.id)
+      .then(setDuplicates)
+      .catch(error => console.error('Failed to look for duplicates:', error))
+  }, [userId, customerId])
+
+  useEffect(() => {
+    if (!searchTerm.trim()) {
+      setSearchResults([])
+      return
+    }
+    const timer = setTimeout(() => {
+      listCustomers(userId, { search: searchTerm, limit: 10 })
+        .then(rows => setSearchResults(rows.filter(row => row.id !== customerId)))
+        .catch(error => console.error('Failed to search customers:', error))
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [userId, customerId, searchTerm])
+
+  const survivor = other && opened ? (survivorId === other.id ? other : opened) : null
+  const duplicate = other && opened ? (survivorId === other.id ? opened : other) : null
+  const conflicts = useMemo(() => (opened && other ? getConflictingFields(opened, other) : []), [opened, other])
+
+  const openForMerge = (record: Customer) =>
+    revealCustomerFields(record, PROTECTED_CUSTOMER_FIELDS.filter(field => record[field]), 'merge')
+
+  // The older record survives by default; it is the one most tasks and messages point at.
+  // Both are opened through a logged reveal first; if that fails nothing is picked.
+  const selectOther = async (picked: Customer) => {
+    if (!customer) return
+    setPickingId(picked.id)
+    setMessage('')
+    try {
+      const [current, candidate] = await Promise.all([openForMerge(customer), openForMerge(picked)])
+      const keep = candidate.createdAt < current.createdAt ? candidate : current
+      setOpened(current)
+      setOther(candidate)
+      setSurvivorId(keep.id)
+      setValues(buildMergeValues(keep, keep === candidate ? current : candidate))
+    } catch (error) {
+      console.error('Failed to open the customers for merging:', error)
+      setMessage(language === 'ja'
+        ? '顧客情報を開けませんでした。もう一度お試しください。'
+        : 'Could not open the customers. Please try again.')
+    } finally {
+      setPickingId('')
+    }
+  }
+
+  const changeSurvivor = (id: string) => {
+    if (!opened || !other) return
+    const keep = id === other.id ? other : opened
+    setSurvivorId(id)
+    setValues(buildMergeValues(keep, keep === other ? opened : other))
+  }
+
+  const handleMerge = async () => {
+    if (!survivor || !duplicate || !values) return
+    setIsMerging(true)
+    setMessage('')
+    try {
+      await mergeCustomers(survivor, duplicate, values)
+      onMerged()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to merge customers:', error)
+      setMessage(language === 'ja'
+        ? '統合に失敗しました。もう一度実行すると続きから再開します。'
+        : 'The merge failed. Running it again picks up where it stopped.')
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  const formatValue = (field: keyof CustomerEditValues, value: string) => {
+    if (field === 'identificationType') return getIdentificationTypeLabel(value, language)
+    if (field === 'preferredLanguage') return value === 'ja' ? '日本語' : 'English'
+    if (field === 'keigoPreference') return value === 'formal' ? '敬語' : 'カジュアル'
+    if (isProtectedField(field)) return maskPii(CUSTOMER_PII_FIELDS[field], value)
+    return value
+  }
+
+  const renderCandidate = (candidate: Customer, reasons: DuplicateReason[] = []) => (
+    <button
+      key={candidate.id}
+      type="button"
+      onClick={() => selectOther(candidate)}
+      disabled={!!pickingId}
+      className={`w-full text-left rounded-md border p-2 hover:bg-muted/50 transition-colors ${
+        other?.id === candidate.id ? 'border-primary bg-primary/5' : ''
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className={`text-sm font-medium truncate ${language === 'ja' ? 'japanese' : ''}`}>{candidate.name}</span>
+        <span className="text-xs text-muted-foreground flex-shrink-0">
+          {pickingId === candidate.id
+            ? <Loader2 className="h-3 w-3 animate-spin" />
+            : candidate.phone
+              ? isEncrypted(candidate.phone) ? maskCustomerField(candidate, 'phone') : formatValue('phone', candidate.phone)
+              : candidate.email}
+        </span>
+      </div>
+      {reasons.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {reasons.map(reason => (
+            <Badge key={reason} variant="outline" className="text-[10px] px-1 py-0 text-amber-600 border-amber-300">
+              {DUPLICATE_REASON_LABELS[reason][language]}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </button>
+  )
+
+  return (
+    <Dialog open={!!customer} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            {language === 'ja' ? '顧客の統合' : 'Merge Customers'}
+          </DialogTitle>
+          <DialogDescription className={language === 'ja' ? 'japanese' : ''}>
+            {language === 'ja'
+              ? `${customer?.name || ''} と同一人物の顧客を選んでください`
+              : `Pick the record that is the same person as ${customer?.name || ''}`
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[460px] pr-3">
+          <div className="space-y-4 p-1">
+            {/* Candidates */}
+            {duplicates.length > 0 && (
+              <div className="space-y-2">
+                <Label className={language === 'ja' ? 'japanese' : ''}>
+                  {language === 'ja' ? '重複の可能性' : 'Possible duplicates'}
+                </Label>
+                {duplicates.map(({ customer: candidate, reasons }) => renderCandidate(candidate, reasons))}
+              </div>
+            )}
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder={language === 'ja' ? '他の顧客を検索...' : 'Search other customers...'}
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              {searchResults.map(candidate => renderCandidate(candidate))}
+            </div>
+
+            {other && opened && values && (
+              <>
+                {/* Surviving record */}
+                <div className="space-y-2">
+                  <Label className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? '残す顧客' : 'Keep'}
+                  </Label>
+                  <RadioGroup value={survivorId} onValueChange={changeSurvivor}>
+                    {[opened, other].map(record => (
+                      <div key={record.id} className="flex items-center space-x-2">
+                        <RadioGroupItem value={record.id} id={`merge-keep-${record.id}`} />
+                        <Label htmlFor={`merge-keep-${record.id}`} className={`font-normal ${language === 'ja' ? 'japanese' : ''}`}>
+                          {record.name}
+                          <span className="text-xs text-muted-foreground ml-2">
+                            {new Date(record.createdAt).toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US')}
+                          </span>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+
+                {/* Conflicting values */}
+                {conflicts.length > 0 && (
+                  <div className="space-y-3">
+                    <Label className={language === 'ja' ? 'japanese' : ''}>
+                      {language === 'ja' ? '異なる項目' : 'Conflicting fields'}
+                    </Label>
+                    {conflicts.map(field => (
+                      <div key={field} className="rounded-md border p-2">
+                        <p className={`text-xs font-medium mb-1 ${language === 'ja' ? 'japanese' : ''}`}>
+                          {FIELD_LABELS[field][language]}
+                        </p>
+                        <RadioGroup
+                          value={values[field]}
+                          onValueChange={(value) => setValues(prev => prev && { ...prev, [field]: value })}
+                        >
+                          {[...new Set([opened[field] || '', other[field] || ''])].map(value => (
+                            <div key={value} className="flex items-center space-x-2">
+                              <RadioGroupItem value={value} id={`merge-${field}-${value}`} />
+                              <Label htmlFor={`merge-${field}-${value}`} className="text-sm font-normal break-all">
+                                {formatValue(field, value)}
+                              </Label>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex items-start text-xs text-muted-foreground">
+                  <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0 text-amber-500" />
+                  <span className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja'
+                      ? `タスク・メッセージ・フォローアップ・訪問ログ・メモ・変更履歴は「${survivor?.name}」に移され、「${duplicate?.name}」は削除されます。空欄の項目は統合元から補完します。`
+                      : `Tasks, messages, follow-ups, visit logs, notes and history move to "${survivor?.name}" and "${duplicate?.name}" is deleted. Blank fields are filled from the merged record.`
+                    }
+                  </span>
+                </div>
+              </>
+            )}
+
+            {message && <p className="text-sm text-destructive">{message}</p>}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {language === 'ja' ? 'キャンセル' : 'Cancel'}
+          </Button>
+          <Button onClick={handleMerge} disabled={!other || isMerging}>
+            {isMerging
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <GitMerge className="h-4 w-4 mr-2" />}
+            {language === 'ja' ? '統合する' : 'Merge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CustomerMergeDialog
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { ChevronsUpDown, Loader2, Search } from 'lucide-react'
+import { getCustomerById, listCustomers } from '../lib/customers'
+import type { Customer } from '../types/customer'
+
+const RESULT_LIMIT = 20
+const SEARCH_DEBOUNCE_MS = 300
+
+interface CustomerPickerProps {
+  userId: string
+  language: 'ja' | 'en'
+  // Id of the selected customer; loaded by id, so it need not be among the results
+  value: string
+  onChange: (customer: Customer) => void
+  placeholder?: string
+}
+
+// Picks any of the operator's customers by searching the directory; with no search it offers the
+// newest ones
+const CustomerPicker: React.FC<CustomerPickerProps> = ({ userId, language, value, onChange, placeholder }) => {
+  const [open, setOpen] = useState(false)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [search, setSearch] = useState('')
+  const [results, setResults] = useState<Customer[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [selected, setSelected] = useState<Customer | null>(null)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setIsLoading(true)
+    listCustomers(userId, search ? { search, limit: RESULT_LIMIT } : { sortBy: 'createdAt', limit: RESULT_LIMIT })
+      .then(rows => {
+        if (!cancelled) setResults(rows)
+      })
+      .catch(error => console.error('Failed to search customers:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, search, open])
+
+  // A customer chosen elsewhere (e.g. on the dashboard) is shown by name too
+  useEffect(() => {
+    if (!value) {
+      setSelected(null)
+      return
+    }
+    if (selected?.id === value) return
+    let cancelled = false
+    getCustomerById(value)
+      .then(customer => {
+        if (!cancelled) setSelected(customer)
+      })
+      .catch(error => console.error(`Failed to load customer ${value}:`, error))
+    return () => {
+      cancelled = true
+    }
+  }, [value, selected?.id])
+
+  const choose = (customer: Customer) => {
+    setSelected(customer)
+    setOpen(false)
+    setSearchTerm('')
+    onChange(customer)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal">
+          <span className={`truncate ${selected ? '' : 'text-muted-foreground'} ${language === 'ja' ? 'japanese' : ''}`}>
+            {selected?.name || placeholder || (language === 'ja' ? '顧客を選択...' : 'Select a customer...')}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 ml-2 opacity-50 flex-shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-64 p-2 space-y-2" align="start">
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder={language === 'ja' ? '名前・フリガナ・電話・メールで検索' : 'Search name, reading, phone or email'}
+            className={`pl-8 ${language === 'ja' ? 'japanese' : ''}`}
+          />
+        </div>
+        <div className="max-h-64 overflow-y-auto">
+          {isLoading && results.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className={`text-sm text-muted-foreground text-center py-4 ${language === 'ja' ? 'japanese' : ''}`}>
+              {language === 'ja' ? '該当する顧客はいません' : 'No matching customers'}
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {results.map(customer => (
+                <button
+                  key={customer.id}
+                  type="button"
+                  onClick={() => choose(customer)}
+                  className={`w-full text-left rounded-md px-2 py-1.5 text-sm hover:bg-muted ${
+                    customer.id === value ? 'bg-muted font-medium' : ''
+                  }`}
+                >
+                  <span className={language === 'ja' ? 'japanese' : ''}>{customer.name}</span>
+                  {customer.furigana && (
+                    <span className="ml-2 text-xs text-muted-foreground">{customer.furigana}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default CustomerPicker
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Textarea } from './ui/textarea'
+import { ScrollArea } from './ui/scroll-area'
+import TaskDetailSheet from './TaskDetailSheet'
+import { Bot, Clock, Loader2, Mic, Send, StickyNote, Wrench } from 'lucide-react'
+import {
+  addCustomerNote,
+  getCustomerTimeline,
+  type CustomerTimelineEntry,
+  type CustomerTimelineKind
+} from '../lib/customerTimeline'
+import type { Customer } from '../types/customer'
+import type { Task } from '../types/task'
+
+interface CustomerTimelineProps {
+  userId: string
+  customer: Customer
+  language: 'ja' | 'en'
+}
+
+const KIND_LABELS: Record<CustomerTimelineKind, { ja: string; en: string }> = {
+  task: { ja: 'タスク', en: 'Tasks' },
+  voice: { ja: '音声会話', en: 'Voice' },
+  message: { ja: 'メッセージ', en: 'Messages' },
+  visitLog: { ja: '訪問', en: 'Visits' },
+  note: { ja: 'メモ', en: 'Notes' }
+}
+
+const KIND_ICONS: Record<CustomerTimelineKind, React.ElementType> = {
+  task: Bot,
+  voice: Mic,
+  message: Send,
+  visitLog: Wrench,
+  note: StickyNote
+}
+
+const STATUS_LABELS: Record<string, { ja: string; en: string }> = {
+  pending: { ja: '待機中', en: 'Pending' },
+  processing: { ja: '処理中', en: 'Processing' },
+  completed: { ja: '完了', en: 'Completed' },
+  failed: { ja: '失敗', en: 'Failed' },
+  cancelled: { ja: 'キャンセル', en: 'Cancelled' },
+  queued: { ja: '送信待ち', en: 'Queued' },
+  sent: { ja: '送信済み', en: 'Sent' },
+  bounced: { ja: '不達', en: 'Bounced' }
+}
+
+const AGENT_NAMES: Record<Task['agentType'], { ja: string; en: string }> = {
+  onboard: { ja: 'オンボードボット', en: 'OnboardBot' },
+  followup: { ja: 'フォローアップエージェント', en: 'FollowUpAgent' },
+  ops: { ja: 'オペレーションロガー', en: 'OpsLogger' },
+  voice_command: { ja: '音声コマンド', en: 'Voice Command' },
+  voice_agent: { ja: '音声エージェント', en: 'Voice Agent' }
+}
+
+const CustomerTimeline: React.FC<CustomerTimelineProps> = ({ userId, customer, language }) => {
+  const [entries, setEntries] = useState<CustomerTimelineEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [kinds, setKinds] = useState<CustomerTimelineKind[]>([])
+  const [note, setNote] = useState('')
+  const [isSavingNote, setIsSavingNote] = useState(false)
+  const [noteError, setNoteError] = useState('')
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null)
+
+  const loadTimeline = useCallback(async () => {
+    try {
+      setEntries(await getCustomerTimeline(userId, customer.id))
+    } catch (error) {
+      console.error('Failed to load customer timeline:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId, customer.id])
+
+  useEffect(() => {
+    setIsLoading(true)
+    setEntries([])
+    setKinds([])
+    loadTimeline()
+  }, [loadTimeline])
+
+  const handleAddNote = async () => {
+    if (!note.trim()) return
+    setIsSavingNote(true)
+    setNoteError('')
+    try {
+      await addCustomerNote(customer, note)
+      setNote('')
+      await loadTimeline()
+    } catch (error) {
+      console.error('Failed to add note:', error)
+      setNoteError(language === 'ja' ? 'メモを保存できませんでした' : 'Could not save the note')
+    } finally {
+      setIsSavingNote(false)
+    }
+  }
+
+  // No kind selected shows everything
+  const toggleKind = (kind: CustomerTimelineKind) =>
+    setKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind])
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+
+  const getStatusLabel = (status: string) => STATUS_LABELS[status]?.[language] || status
+
+  const renderBody = (entry: CustomerTimelineEntry) => {
+    switch (entry.kind) {
+      case 'task':
+      case 'voice':
+        return (
+          <button type="button" onClick={() => setSelectedTask(entry.task)} className="text-left w-full hover:underline">
+            <p className={`text-sm font-medium truncate ${language === 'ja' ? 'japanese' : ''}`}>{entry.task.taskName}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {AGENT_NAMES[entry.task.agentType][language]}
+              {entry.task.lastAction && ` · ${entry.task.lastAction}`}
+            </p>
+          </button>
+        )
+      case 'message':
+        return (
+          <div>
+            <p className={`text-sm font-medium truncate ${language === 'ja' ? 'japanese' : ''}`}>
+              {entry.message.subject || entry.message.templateKey || entry.message.channel}
+            </p>
+            <p className={`text-xs text-muted-foreground line-clamp-2 ${language === 'ja' ? 'japanese' : ''}`}>
+              {entry.message.channel.toUpperCase()} · {entry.message.body}
+            </p>
+          </div>
+        )
+      case 'visitLog':
+        return (
+          <div>
+            <p className={`text-sm font-medium truncate ${language === 'ja' ? 'japanese' : ''}`}>
+              {entry.visitLog.technician}
+            </p>
+            <p className={`text-xs text-muted-foreground line-clamp-2 ${language === 'ja' ? 'japanese' : ''}`}>
+              {entry.visitLog.workPerformed}
+            </p>
+          </div>
+        )
+      case 'note':
+        return (
+          <div>
+            <p className={`text-sm whitespace-pre-wrap ${language === 'ja' ? 'japanese' : ''}`}>{entry.note.body}</p>
+            <p className="text-xs text-muted-foreground truncate">{entry.note.actorName || entry.note.actor}</p>
+          </div>
+        )
+    }
+  }
+
+  const getStatus = (entry: CustomerTimelineEntry) => {
+    if (entry.kind === 'task' || entry.kind === 'voice') return entry.task.status
+    if (entry.kind === 'message') return entry.message.status
+    if (entry.kind === 'visitLog') return entry.visitLog.signedOffAt ? 'completed' : ''
+    return ''
+  }
+
+  const shown = kinds.length > 0 ? entries.filter(entry => kinds.includes(entry.kind)) : entries
+
+  return (
+    <div className="space-y-3">
+      {/* Add note */}
+      <div className="space-y-2">
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={language === 'ja' ? 'メモを追加...' : 'Add a note...'}
+          className={`min-h-[60px] ${language === 'ja' ? 'japanese' : ''}`}
+        />
+        <div className="flex items-center justify-between">
+          {noteError ? <p className="text-xs text-destructive">{noteError}</p> : <span />}
+          <Button size="sm" onClick={handleAddNote} disabled={isSavingNote || !note.trim()}>
+            {isSavingNote
+              ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              : <StickyNote className="h-3 w-3 mr-1" />}
+            {language === 'ja' ? 'メモを保存' : 'Save Note'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Kind filter */}
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(KIND_LABELS) as CustomerTimelineKind[]).map(kind => (
+          <Badge
+            key={kind}
+            variant={kinds.includes(kind) ? 'default' : 'outline'}
+            className="cursor-pointer text-xs"
+            onClick={() => toggleKind(kind)}
+          >
+            {KIND_LABELS[kind][language]}
+            <span className="ml-1 opacity-70">{entries.filter(entry => entry.kind === kind).length}</span>
+          </Badge>
+        ))}
+      </div>
+
+      <ScrollArea className="h-[320px] pr-3">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : shown.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Clock className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className={language === 'ja' ? 'japanese' : ''}>
+              {language === 'ja' ? 'まだ記録はありません' : 'Nothing recorded yet'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3 p-1">
+            {shown.map(entry => {
+              const Icon = KIND_ICONS[entry.kind]
+              const status = getStatus(entry)
+              return (
+                <div key={`${entry.kind}-${entry.id}`} className="flex items-start gap-2 border-l-2 border-primary/30 pl-3">
+                  <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between text-xs text-muted-foreground mb-0.5">
+                      <span>{formatDateTime(entry.at)}</span>
+                      {status && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">
+                          {getStatusLabel(status)}
+                        </Badge>
+                      )}
+                    </div>
+                    {renderBody(entry)}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </ScrollArea>
+
+      <TaskDetailSheet
+        task={selectedTask}
+        agentName={selectedTask ? AGENT_NAMES[selectedTask.agentType][language] : ''}
+        language={language}
+        onOpenChange={(open) => {
+          if (!open) setSelectedTask(null)
+        }}
+      />
+    </div>
+  )
+}
+
+export default CustomerTimeline
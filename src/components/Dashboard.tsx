@@ -4,6 +4,7 @@ import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Switch } from './ui/switch'
 import { Separator } from './ui/separator'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { 
   Mic, 
   MicOff, 
@@ -19,10 +20,23 @@ import {
   Zap
 } from 'lucide-react'
 import AutonomousVoiceAgent from './AutonomousVoiceAgent'
+import ContinuousVoiceInterface from './ContinuousVoiceInterface'
 import AgentCards from './AgentCards'
 import TaskLogs from './TaskLogs'
 import CustomerContext from './CustomerContext'
+import PlanCatalog from './PlanCatalog'
+import MessageTemplates from './MessageTemplates'
+import ScheduledSends from './ScheduledSends'
+import OperationsAnalytics from './OperationsAnalytics'
 import { blink } from '../blink/client'
+import { useTaskDispatcher } from '../hooks/use-task-dispatcher'
+import { useFollowUpScheduler } from '../hooks/use-follow-up-scheduler'
+import { useLiveUpdates } from '../hooks/use-live-updates'
+import type { CustomerExtraction } from '../lib/customerExtraction'
+import { keepIfUnchanged } from '../lib/liveUpdates'
+import { countTasks, migrateLegacyTasks } from '../lib/tasks'
+import { countCustomers, listCustomers, migrateLegacyCustomers } from '../lib/customers'
+import type { Customer } from '../types/customer'
 
 interface User {
   id: string
@@ -38,30 +52,48 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
   const [keigoMode, setKeigoMode] = useState<'formal' | 'casual'>('formal')
   const [language, setLanguage] = useState<'ja' | 'en'>('ja')
   const [isVoiceActive, setIsVoiceActive] = useState(false)
-  const [tasks, setTasks] = useState([])
-  const [customers, setCustomers] = useState([])
+  const [statusCounts, setStatusCounts] = useState({ pending: 0, processing: 0, completed: 0 })
+  const [customerCount, setCustomerCount] = useState(0)
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [scheduleVersion, setScheduleVersion] = useState(0)
+  const [taskVersion, setTaskVersion] = useState(0)
+  const [customerVersion, setCustomerVersion] = useState(0)
+  const [activeTab, setActiveTab] = useState('operations')
+  const [customerDraft, setCustomerDraft] = useState<CustomerExtraction | null>(null)
+  const [activeCustomerId, setActiveCustomerId] = useState('')
 
+  // Counter intake hands heard details to the Add New Customer dialog on the operations tab
+  const handleCustomerDraft = useCallback((draft: CustomerExtraction) => {
+    setCustomerDraft(draft)
+    setActiveTab('operations')
+  }, [])
+
+  const clearCustomerDraft = useCallback(() => setCustomerDraft(null), [])
+
+  // The overview cards count every task, not just the ones the task log has loaded
   const loadTasks = useCallback(async () => {
     try {
-      const taskData = await blink.db.tasks.list({
-        where: { userId: user.id },
-        orderBy: { createdAt: 'desc' },
-        limit: 10
-      })
-      setTasks(taskData)
+      const [pending, processing, completed] = await Promise.all([
+        countTasks(user.id, { status: 'pending' }),
+        countTasks(user.id, { status: 'processing' }),
+        countTasks(user.id, { status: 'completed' })
+      ])
+      setStatusCounts(previous =>
+        previous.pending === pending && previous.processing === processing && previous.completed === completed
+          ? previous
+          : { pending, processing, completed }
+      )
     } catch (error) {
-      console.error('Failed to load tasks:', error)
+      console.error('Failed to count tasks:', error)
     }
   }, [user.id])
 
+  // The newest few, for the customer summary; pickers search the whole directory themselves
   const loadCustomers = useCallback(async () => {
     try {
-      const customerData = await blink.db.customers.list({
-        where: { userId: user.id },
-        orderBy: { createdAt: 'desc' },
-        limit: 5
-      })
-      setCustomers(customerData)
+      const customerData = await listCustomers(user.id, { sortBy: 'createdAt', limit: 5 })
+      setCustomers(previous => keepIfUnchanged(previous, customerData))
+      setCustomerCount(await countCustomers(user.id))
     } catch (error) {
       console.error('Failed to load customers:', error)
     }
@@ -72,6 +104,55 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     loadCustomers()
   }, [loadTasks, loadCustomers])
 
+  // The task log pages through its own query; bumping the version reloads what it shows
+  const refreshTasks = useCallback(() => {
+    loadTasks()
+    setTaskVersion(version => version + 1)
+  }, [loadTasks])
+
+  // The customer directory pages through its own query; bumping the version reloads what it shows
+  const refreshCustomers = useCallback(() => {
+    loadCustomers()
+    setCustomerVersion(version => version + 1)
+  }, [loadCustomers])
+
+  // Old rows are readable as-is, but queue queries filter on the canonical and search columns
+  useEffect(() => {
+    migrateLegacyTasks(user.id)
+      .then(migrated => {
+        if (migrated > 0) refreshTasks()
+      })
+      .catch(error => console.error('Failed to migrate tasks:', error))
+  }, [user.id, refreshTasks])
+
+  // Customers from before the directory have no search or reading columns yet
+  useEffect(() => {
+    migrateLegacyCustomers(user.id)
+      .then(migrated => {
+        if (migrated > 0) refreshCustomers()
+      })
+      .catch(error => console.error('Failed to migrate customers:', error))
+  }, [user.id, refreshCustomers])
+
+  // Finished onboarding runs schedule follow-ups, so the schedule is refreshed with the task list
+  const handleTaskChanged = useCallback(() => {
+    refreshTasks()
+    setScheduleVersion(version => version + 1)
+  }, [refreshTasks])
+
+  const { dispatcher, snapshot: queue } = useTaskDispatcher(user.id, handleTaskChanged)
+
+  useFollowUpScheduler(user.id, () => {
+    dispatcher.poke()
+    handleTaskChanged()
+  })
+
+  // Picks up rows changed by other operators, other tabs and background agents
+  const { connected: isLive } = useLiveUpdates(user.id, topic => {
+    if (topic === 'tasks') refreshTasks()
+    else refreshCustomers()
+  })
+
   const handleSignOut = () => {
     blink.auth.logout()
   }
@@ -85,15 +166,6 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     return 'Welcome to the BRYTT AI Platform'
   }
 
-  const getStatusCounts = () => {
-    const pending = tasks.filter(task => task.status === 'pending').length
-    const processing = tasks.filter(task => task.status === 'processing').length
-    const completed = tasks.filter(task => task.status === 'completed').length
-    return { pending, processing, completed }
-  }
-
-  const statusCounts = getStatusCounts()
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -215,49 +287,99 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
               <Users className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{customers.length}</div>
+              <div className="text-2xl font-bold">{customerCount}</div>
             </CardContent>
           </Card>
         </div>
 
-        {/* Main Grid */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* Left Column - Voice Interface & Agents */}
-          <div className="lg:col-span-2 space-y-8">
-            {/* Autonomous Voice Agent */}
-            <AutonomousVoiceAgent
-              onTaskComplete={(task) => {
-                console.log('Task completed:', task)
-                // Refresh task logs
-                loadTasks()
-              }}
-            />
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="mb-6">
+            <TabsTrigger value="operations">{language === 'ja' ? 'オペレーション' : 'Operations'}</TabsTrigger>
+            <TabsTrigger value="intake">{language === 'ja' ? '店頭受付' : 'Counter Intake'}</TabsTrigger>
+            <TabsTrigger value="analytics">{language === 'ja' ? '分析' : 'Analytics'}</TabsTrigger>
+            <TabsTrigger value="plans">{language === 'ja' ? '料金プラン' : 'Plans'}</TabsTrigger>
+            <TabsTrigger value="templates">{language === 'ja' ? 'テンプレート' : 'Templates'}</TabsTrigger>
+          </TabsList>
 
-            {/* Agent Cards */}
-            <AgentCards
-              language={language}
-              keigoMode={keigoMode}
-              onTaskCreated={loadTasks}
-            />
+          <TabsContent value="operations">
+            {/* Main Grid */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              {/* Left Column - Voice Interface & Agents */}
+              <div className="lg:col-span-2 space-y-8">
+                {/* Autonomous Voice Agent */}
+                <AutonomousVoiceAgent
+                  customerId={activeCustomerId || undefined}
+                  onTaskComplete={(task) => {
+                    console.log('Task completed:', task)
+                    // Refresh task logs
+                    refreshTasks()
+                  }}
+                />
 
-            {/* Task Logs */}
-            <TaskLogs
-              tasks={tasks}
-              language={language}
-              onTaskUpdate={loadTasks}
-            />
-          </div>
+                {/* Agent Cards */}
+                <AgentCards
+                  userId={user.id}
+                  language={language}
+                  keigoMode={keigoMode}
+                  customerId={activeCustomerId}
+                  onCustomerChange={setActiveCustomerId}
+                  dispatcher={dispatcher}
+                  queue={queue}
+                  onTaskCreated={refreshTasks}
+                />
+
+                {/* Task Logs */}
+                <TaskLogs
+                  userId={user.id}
+                  language={language}
+                  refreshKey={taskVersion}
+                  onTaskUpdate={refreshTasks}
+                  isLive={isLive}
+                />
+              </div>
 
-          {/* Right Column - Customer Context */}
-          <div className="space-y-8">
-            <CustomerContext
-              customers={customers}
+              {/* Right Column - Customer Context */}
+              <div className="space-y-8">
+                <CustomerContext
+                  userId={user.id}
+                  customers={customers}
+                  language={language}
+                  keigoMode={keigoMode}
+                  onCustomerUpdate={refreshCustomers}
+                  refreshKey={customerVersion}
+                  draft={customerDraft}
+                  onDraftConsumed={clearCustomerDraft}
+                />
+                <ScheduledSends
+                  userId={user.id}
+                  language={language}
+                  refreshKey={scheduleVersion}
+                />
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="intake">
+            <ContinuousVoiceInterface userId={user.id} customerId={activeCustomerId || undefined} onCustomerDraft={handleCustomerDraft} />
+          </TabsContent>
+
+          <TabsContent value="analytics">
+            <OperationsAnalytics
+              userId={user.id}
+              userEmail={user.email}
               language={language}
-              keigoMode={keigoMode}
-              onCustomerUpdate={loadCustomers}
+              refreshKey={taskVersion}
             />
-          </div>
-        </div>
+          </TabsContent>
+
+          <TabsContent value="plans">
+            <PlanCatalog language={language} />
+          </TabsContent>
+
+          <TabsContent value="templates">
+            <MessageTemplates userId={user.id} language={language} keigoMode={keigoMode} />
+          </TabsContent>
+        </Tabs>
       </main>
     </div>
   )
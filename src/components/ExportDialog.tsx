@@ -0,0 +1,194 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Download, Loader2, ShieldCheck } from 'lucide-react'
+import { getRecentRange, type AnalyticsRange } from '../lib/analytics'
+import {
+  buildExport,
+  downloadBlob,
+  getExportFileName,
+  type ExportColumn,
+  type ExportFormat
+} from '../lib/export'
+
+interface ExportDialogProps<T> {
+  language: 'ja' | 'en'
+  title: { ja: string; en: string }
+  columns: ExportColumn<T>[]
+  // File name prefix and XLSX sheet name
+  fileBaseName: string
+  // Rows of the view the operator is looking at, with its filters applied
+  loadView: () => Promise<T[]>
+  // Rows created in a date range, ignoring the view's filters
+  loadRange: (range: AnalyticsRange) => Promise<T[]>
+}
+
+const ExportDialog = <T,>({ language, title, columns, fileBaseName, loadView, loadRange }: ExportDialogProps<T>) => {
+  const [open, setOpen] = useState(false)
+  const [scope, setScope] = useState<'view' | 'range'>('view')
+  const [range, setRange] = useState<AnalyticsRange>(() => getRecentRange(30))
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(() => columns.map(column => column.key))
+  const [isExporting, setIsExporting] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelectedKeys(prev => checked ? [...prev, key] : prev.filter(selected => selected !== key))
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setMessage('')
+    try {
+      const rows = scope === 'view' ? await loadView() : await loadRange(range)
+      // Keeps the column order of the definition, not the order they were ticked
+      const selectedColumns = columns.filter(column => selectedKeys.includes(column.key))
+      downloadBlob(
+        buildExport(rows, selectedColumns, format, language, fileBaseName),
+        getExportFileName(fileBaseName, format)
+      )
+      setMessage(language === 'ja' ? `${rows.length}件をエクスポートしました` : `Exported ${rows.length} rows`)
+    } catch (error) {
+      console.error('Export failed:', error)
+      setMessage(language === 'ja' ? 'エクスポートに失敗しました' : 'Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const hasPii = columns.some(column => column.pii && selectedKeys.includes(column.key))
+  const isRangeValid = !!range.from && !!range.to && range.from <= range.to
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => {
+      setOpen(next)
+      if (!next) setMessage('')
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          {language === 'ja' ? 'エクスポート' : 'Export'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className={language === 'ja' ? 'japanese' : ''}>{title[language]}</DialogTitle>
+          <DialogDescription className={language === 'ja' ? 'japanese' : ''}>
+            {language === 'ja'
+              ? '個人情報の列はマスクして出力されます'
+              : 'Personal data columns are exported masked'
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Scope */}
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as 'view' | 'range')}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="view" id="export-scope-view" />
+              <Label htmlFor="export-scope-view" className={language === 'ja' ? 'japanese' : ''}>
+                {language === 'ja' ? '現在の表示（フィルター適用）' : 'Current view (with filters)'}
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="range" id="export-scope-range" />
+              <Label htmlFor="export-scope-range" className={language === 'ja' ? 'japanese' : ''}>
+                {language === 'ja' ? '期間を指定' : 'Date range'}
+              </Label>
+            </div>
+          </RadioGroup>
+          {scope === 'range' && (
+            <div className="flex items-center gap-2 pl-6">
+              <Input
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+              />
+              <span className="text-muted-foreground">〜</span>
+              <Input
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+          )}
+
+          {/* Format */}
+          <div className="space-y-2">
+            <Label>{language === 'ja' ? '形式' : 'Format'}</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV (Excel)</SelectItem>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="jsonl">JSON Lines</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Columns */}
+          <div className="space-y-2">
+            <Label>{language === 'ja' ? '出力する列' : 'Columns'}</Label>
+            <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto rounded-md border p-3">
+              {columns.map(column => (
+                <div key={column.key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export-column-${column.key}`}
+                    checked={selectedKeys.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`export-column-${column.key}`} className={`text-sm font-normal ${language === 'ja' ? 'japanese' : ''}`}>
+                    {column.label[language]}
+                  </Label>
+                  {column.pii && (
+                    <Badge variant="outline" className="text-[10px] px-1 py-0">
+                      {language === 'ja' ? 'マスク' : 'masked'}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {hasPii && (
+            <div className="flex items-start text-xs text-muted-foreground">
+              <ShieldCheck className="h-4 w-4 mr-2 flex-shrink-0 text-green-600" />
+              <span className={language === 'ja' ? 'japanese' : ''}>
+                {language === 'ja'
+                  ? '氏名・連絡先・住所・書類番号は一部のみ出力されます。タスク名等に含まれる顧客情報も伏せ字になります。'
+                  : 'Names, contact details, addresses and ID numbers are partly hidden, including where they appear in task text.'
+                }
+              </span>
+            </div>
+          )}
+
+          {message && <p className="text-sm text-muted-foreground">{message}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || selectedKeys.length === 0 || (scope === 'range' && !isRangeValid)}
+          >
+            {isExporting
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Download className="h-4 w-4 mr-2" />}
+            {language === 'ja' ? 'ダウンロード' : 'Download'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ExportDialog
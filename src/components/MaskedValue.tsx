@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react'
+import { Eye, EyeOff, Loader2 } from 'lucide-react'
+import { isEncrypted } from '../lib/fieldCrypto'
+import { isProtectedField, maskCustomerField, revealCustomerFields, type ProtectedCustomerField } from '../lib/customers'
+import type { Customer } from '../types/customer'
+
+interface MaskedValueProps {
+  customer: Customer
+  field: ProtectedCustomerField
+  language: 'ja' | 'en'
+  className?: string
+}
+
+// Shows a protected customer field masked, e.g. ＊＊＊＊6789. The full value is fetched on reveal,
+// which is logged first; if the log cannot be written the value stays masked. It is dropped
+// again when hidden.
+const MaskedValue: React.FC<MaskedValueProps> = ({ customer, field, language, className = '' }) => {
+  const [revealed, setRevealed] = useState<string | null>(null)
+  const [isRevealing, setIsRevealing] = useState(false)
+  const value = customer[field] || ''
+
+  useEffect(() => {
+    setRevealed(null)
+  }, [customer.id, field, value])
+
+  if (!value) return null
+  if (!isProtectedField(field) && !isEncrypted(value)) return <span className={className}>{value}</span>
+
+  const toggle = async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (revealed !== null) {
+      setRevealed(null)
+      return
+    }
+    setIsRevealing(true)
+    try {
+      const opened = await revealCustomerFields(customer, [field], 'view')
+      setRevealed(opened[field] || '')
+    } catch (error) {
+      console.error('Failed to reveal; keeping the value masked:', error)
+    } finally {
+      setIsRevealing(false)
+    }
+  }
+
+  return (
+    <span className={`inline-flex items-center gap-1 ${className}`}>
+      <span>{revealed ?? maskCustomerField(customer, field)}</span>
+      <button
+        type="button"
+        onClick={toggle}
+        disabled={isRevealing}
+        className="text-muted-foreground hover:text-foreground"
+        title={revealed !== null
+          ? (language === 'ja' ? '隠す' : 'Hide')
+          : (language === 'ja' ? '表示する（記録されます）' : 'Show (this is logged)')}
+      >
+        {isRevealing
+          ? <Loader2 className="h-3 w-3 animate-spin" />
+          : revealed !== null ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+      </button>
+    </span>
+  )
+}
+
+export default MaskedValue
@@ -0,0 +1,287 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import CustomerPicker from './CustomerPicker'
+import { AlertCircle, Eye, FileText, Save } from 'lucide-react'
+import {
+  CUSTOMER_PLACEHOLDERS,
+  TEMPLATE_VARIANTS,
+  getVariantLabel,
+  listPlaceholders,
+  listTemplateVersions,
+  renderTemplateVariant,
+  saveMessageTemplate,
+  selectVariant,
+  type MessageTemplate,
+  type TemplateVariant
+} from '../lib/messageTemplates'
+import type { Customer } from '../types/customer'
+
+interface MessageTemplatesProps {
+  userId: string
+  language: 'ja' | 'en'
+  keigoMode: 'formal' | 'casual'
+}
+
+// Japanese SMS fits 70 characters per segment
+const SMS_SEGMENT_LENGTH = 70
+
+const MessageTemplates: React.FC<MessageTemplatesProps> = ({ userId, language, keigoMode }) => {
+  const [versions, setVersions] = useState<MessageTemplate[]>([])
+  const [selectedKey, setSelectedKey] = useState('')
+  const [draft, setDraft] = useState<MessageTemplate | null>(null)
+  const [activeVariant, setActiveVariant] = useState<TemplateVariant>('formal')
+  const [previewCustomer, setPreviewCustomer] = useState<Customer | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setVersions(await listTemplateVersions(userId))
+    } catch (error) {
+      console.error('Failed to load message templates:', error)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
+
+  // Latest version per key; versions arrive newest first
+  const templates = useMemo(() => {
+    const latest = new Map<string, MessageTemplate>()
+    versions.forEach(template => {
+      if (!latest.has(template.key)) latest.set(template.key, template)
+    })
+    return Array.from(latest.values()).sort((a, b) => a.key.localeCompare(b.key))
+  }, [versions])
+
+  const history = versions.filter(template => template.key === selectedKey)
+
+  const selectTemplate = (template: MessageTemplate) => {
+    setSelectedKey(template.key)
+    setDraft(template)
+  }
+
+  const updateVariant = (variant: TemplateVariant, changes: Partial<MessageTemplate['variants'][TemplateVariant]>) => {
+    setDraft(prev => prev
+      ? { ...prev, variants: { ...prev.variants, [variant]: { ...prev.variants[variant], ...changes } } }
+      : prev)
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    setIsSaving(true)
+    try {
+      const saved = await saveMessageTemplate(userId, {
+        key: draft.key,
+        channel: draft.channel,
+        name: draft.name,
+        variants: draft.variants
+      })
+      await loadTemplates()
+      setDraft(saved)
+    } catch (error) {
+      console.error('Failed to save message template:', error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const previewVariant = previewCustomer
+    ? selectVariant(previewCustomer, { language, keigoMode })
+    : activeVariant
+  const preview = draft
+    ? renderTemplateVariant(draft, previewVariant, previewCustomer || { name: language === 'ja' ? '山田 太郎' : 'Taro Yamada' })
+    : null
+  // Restoring an older version also counts as a change against the latest one
+  const isDirty = !!draft && !!history[0] && JSON.stringify(draft.variants) !== JSON.stringify(history[0].variants)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+            <FileText className="h-5 w-5 mr-2 text-primary" />
+            {language === 'ja' ? 'メッセージテンプレート' : 'Message Templates'}
+          </CardTitle>
+          <CardDescription className={language === 'ja' ? 'japanese' : ''}>
+            {language === 'ja' ? '敬語・カジュアル・英語の3種類' : 'Formal, casual and English variants'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {templates.map(template => (
+            <button
+              key={template.key}
+              type="button"
+              onClick={() => selectTemplate(template)}
+              className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                template.key === selectedKey ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className={`text-sm font-medium ${language === 'ja' ? 'japanese' : ''}`}>{template.name[language]}</span>
+                <div className="flex items-center space-x-1">
+                  <Badge variant="outline" className="text-xs">{template.channel.toUpperCase()}</Badge>
+                  <Badge variant="secondary" className="text-xs">v{template.version}</Badge>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground font-mono mt-1">{template.key}</p>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-8">
+        {draft ? (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className={`text-base ${language === 'ja' ? 'japanese' : ''}`}>{draft.name[language]}</CardTitle>
+                  <div className="flex items-center space-x-2">
+                    <Select
+                      value={String(draft.version)}
+                      onValueChange={(value) => {
+                        const version = history.find(template => template.version === Number(value))
+                        if (version) setDraft(version)
+                      }}
+                    >
+                      <SelectTrigger className="w-28 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {history.map(template => (
+                          <SelectItem key={template.version} value={String(template.version)}>
+                            v{template.version}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+                      <Save className="h-4 w-4 mr-2" />
+                      {language === 'ja' ? '新バージョンとして保存' : 'Save as New Version'}
+                    </Button>
+                  </div>
+                </div>
+                <CardDescription>
+                  {language === 'ja' ? '使用可能な変数' : 'Available placeholders'}:{' '}
+                  <span className="font-mono text-xs">
+                    {CUSTOMER_PLACEHOLDERS.map(field => `{{customer.${field}}}`).join(' ')}
+                  </span>
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs value={activeVariant} onValueChange={(value) => setActiveVariant(value as TemplateVariant)}>
+                  <TabsList>
+                    {TEMPLATE_VARIANTS.map(variant => (
+                      <TabsTrigger key={variant} value={variant}>{getVariantLabel(variant, language)}</TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {TEMPLATE_VARIANTS.map(variant => (
+                    <TabsContent key={variant} value={variant} className="space-y-3">
+                      {draft.channel === 'email' && (
+                        <div>
+                          <Label htmlFor={`subject-${variant}`}>{language === 'ja' ? '件名' : 'Subject'}</Label>
+                          <Input
+                            id={`subject-${variant}`}
+                            value={draft.variants[variant].subject}
+                            onChange={(e) => updateVariant(variant, { subject: e.target.value })}
+                            className={variant !== 'en' ? 'japanese' : ''}
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <Label htmlFor={`body-${variant}`}>{language === 'ja' ? '本文' : 'Body'}</Label>
+                        <Textarea
+                          id={`body-${variant}`}
+                          rows={draft.channel === 'email' ? 8 : 3}
+                          value={draft.variants[variant].body}
+                          onChange={(e) => updateVariant(variant, { body: e.target.value })}
+                          className={variant !== 'en' ? 'japanese' : ''}
+                        />
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {listPlaceholders(draft.variants[variant]).map(placeholder => (
+                          <Badge key={placeholder} variant="outline" className="text-xs font-mono">{placeholder}</Badge>
+                        ))}
+                      </div>
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className={`text-base flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+                    <Eye className="h-4 w-4 mr-2 text-primary" />
+                    {language === 'ja' ? 'プレビュー' : 'Preview'}
+                  </CardTitle>
+                  <div className="flex items-center space-x-2">
+                    <div className="w-48">
+                      <CustomerPicker
+                        userId={userId}
+                        language={language}
+                        value={previewCustomer?.id || ''}
+                        onChange={setPreviewCustomer}
+                        placeholder={language === 'ja' ? '顧客を選択' : 'Select customer'}
+                      />
+                    </div>
+                    <Badge variant="secondary" className="text-xs">{getVariantLabel(previewVariant, language)}</Badge>
+                  </div>
+                </div>
+                {previewCustomer && (
+                  <CardDescription className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja'
+                      ? '顧客の言語・敬語設定からバリエーションを自動選択しています'
+                      : 'Variant picked from the customer\'s language and keigo preference'}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              {preview && (
+                <CardContent className="space-y-2">
+                  {preview.channel === 'email' && (
+                    <p className={`text-sm font-medium ${previewVariant !== 'en' ? 'japanese' : ''}`}>{preview.subject}</p>
+                  )}
+                  <div className={`text-sm whitespace-pre-wrap rounded-md border p-3 bg-muted/30 ${previewVariant !== 'en' ? 'japanese' : ''}`}>
+                    {preview.body}
+                  </div>
+                  {preview.channel === 'sms' && (
+                    <p className="text-xs text-muted-foreground">
+                      {preview.body.length} / {SMS_SEGMENT_LENGTH}
+                      {preview.body.length > SMS_SEGMENT_LENGTH &&
+                        ` (${Math.ceil(preview.body.length / SMS_SEGMENT_LENGTH)} ${language === 'ja' ? '通に分割' : 'segments'})`}
+                    </p>
+                  )}
+                  {preview.missing.length > 0 && (
+                    <div className="flex items-start text-xs text-amber-600">
+                      <AlertCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                      <span>
+                        {language === 'ja' ? '値のない変数' : 'Placeholders without a value'}: {preview.missing.join(', ')}
+                      </span>
+                    </div>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+          </>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              {language === 'ja' ? 'テンプレートを選択してください' : 'Select a template to edit and preview'}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default MessageTemplates
@@ -0,0 +1,567 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Checkbox } from './ui/checkbox'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Progress } from './ui/progress'
+import { ScrollArea } from './ui/scroll-area'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import MaskedValue from './MaskedValue'
+import CustomerPicker from './CustomerPicker'
+import { AlertCircle, CheckCircle, ChevronLeft, ChevronRight, Download, FileText, Printer, RefreshCw } from 'lucide-react'
+import { blink } from '../blink/client'
+import { enqueueAgentTask, type TaskDispatcher } from '../lib/agents'
+import {
+  IDENTIFICATION_TYPES,
+  getIdentificationTypeLabel,
+  validateIdentification
+} from '../lib/identification'
+import {
+  calculatePricing,
+  checkEligibility,
+  formatDataAllowance,
+  formatPrice,
+  listPlans,
+  type Plan
+} from '../lib/plans'
+import { CONTRACT_TEMPLATES, getContractFileUrl, renderContract, type ContractDocument } from '../lib/contracts'
+import { maskCustomerField, updateCustomer } from '../lib/customers'
+import { maskPii } from '../lib/pii'
+import { userActor } from '../lib/taskEvents'
+import { getTask } from '../lib/tasks'
+import type { Customer } from '../types/customer'
+
+type WizardStep = 'customer' | 'identification' | 'plan' | 'review' | 'result'
+
+const STEPS: WizardStep[] = ['customer', 'identification', 'plan', 'review', 'result']
+
+interface OnboardingWizardProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  language: 'ja' | 'en'
+  keigoMode: 'formal' | 'casual'
+  userId: string
+  dispatcher: TaskDispatcher
+  onTaskCreated: () => void
+}
+
+const OnboardingWizard: React.FC<OnboardingWizardProps> = ({
+  open,
+  onOpenChange,
+  language,
+  keigoMode,
+  userId,
+  dispatcher,
+  onTaskCreated
+}) => {
+  const [step, setStep] = useState<WizardStep>('customer')
+  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [identificationType, setIdentificationType] = useState('drivers_license')
+  const [identificationNumber, setIdentificationNumber] = useState('')
+  // The ID number on file stays sealed and is checked by the agent, not copied into the task
+  const [useIdOnFile, setUseIdOnFile] = useState(false)
+  const [birthDate, setBirthDate] = useState('')
+  const [residenceCardExpiry, setResidenceCardExpiry] = useState('')
+  const [plans, setPlans] = useState<Plan[]>([])
+  const [planId, setPlanId] = useState('')
+  const [optionIds, setOptionIds] = useState<string[]>([])
+  const [familyLines, setFamilyLines] = useState(1)
+  const [taskId, setTaskId] = useState<string | null>(null)
+  const [taskStatus, setTaskStatus] = useState<string>('pending')
+  const [taskProgress, setTaskProgress] = useState(0)
+  const [taskError, setTaskError] = useState('')
+  const [contract, setContract] = useState<ContractDocument | null>(null)
+  const [contractLinks, setContractLinks] = useState<{ pdf: string; html: string } | null>(null)
+
+  const customerId = customer?.id || ''
+  const plan = plans.find(p => p.id === planId)
+  const identification = validateIdentification(identificationType, identificationNumber)
+  // Eligibility is checked against what was entered in the wizard, not only what is on file
+  const eligibilityProfile = { ...customer, identificationType, birthDate, residenceCardExpiry }
+  const pricing = plan ? calculatePricing(plan, { familyLines, optionIds }) : null
+
+  useEffect(() => {
+    if (!open) return
+    listPlans()
+      .then(setPlans)
+      .catch(error => console.error('Failed to load plans:', error))
+  }, [open])
+
+  const reset = () => {
+    setStep('customer')
+    setCustomer(null)
+    setIdentificationType('drivers_license')
+    setIdentificationNumber('')
+    setUseIdOnFile(false)
+    setBirthDate('')
+    setResidenceCardExpiry('')
+    setPlanId('')
+    setOptionIds([])
+    setFamilyLines(1)
+    setTaskId(null)
+    setTaskStatus('pending')
+    setTaskProgress(0)
+    setTaskError('')
+    setContract(null)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const selectCustomer = (selected: Customer) => {
+    setCustomer(selected)
+    setIdentificationType(selected.identificationType || 'drivers_license')
+    setIdentificationNumber('')
+    setUseIdOnFile(!!selected.identificationNumber)
+    setBirthDate(selected.birthDate || '')
+    setResidenceCardExpiry(selected.residenceCardExpiry || '')
+  }
+
+  const selectPlan = (id: string) => {
+    setPlanId(id)
+    setOptionIds([])
+    setFamilyLines(1)
+  }
+
+  const toggleOption = (optionId: string, checked: boolean) => {
+    setOptionIds(prev => checked ? [...prev, optionId] : prev.filter(id => id !== optionId))
+  }
+
+  const canContinue = () => {
+    switch (step) {
+      case 'customer': return !!customer
+      case 'identification': return useIdOnFile || identification.valid
+      case 'plan': return !!plan && checkEligibility(plan, eligibilityProfile).eligible
+      default: return true
+    }
+  }
+
+  const goTo = (offset: number) => {
+    const index = STEPS.indexOf(step) + offset
+    setStep(STEPS[Math.min(Math.max(index, 0), STEPS.length - 1)])
+  }
+
+  const handleSubmit = async () => {
+    if (!customer || !plan) return
+
+    try {
+      const user = await blink.auth.me()
+      // A new number goes onto the customer, sealed, so the task only names the customer
+      if (!useIdOnFile) {
+        await updateCustomer(
+          { userId: user.id, ...customer },
+          { identificationNumber: identification.normalized },
+          userActor(user.id),
+          user.email || ''
+        )
+      }
+      const id = await enqueueAgentTask({
+        userId: user.id,
+        agentId: 'onboard',
+        taskName: `${language === 'ja' ? 'オンボーディング' : 'Onboarding'}: ${customer.name}`,
+        input: {
+          agentId: 'onboard',
+          customerId: customer.id,
+          identificationType,
+          birthDate: birthDate || undefined,
+          residenceCardExpiry: residenceCardExpiry || undefined,
+          planId: plan.id,
+          optionIds,
+          familyLines,
+          language,
+          keigoMode
+        },
+        language,
+        keigoMode
+      })
+      setTaskId(id)
+      setStep('result')
+      dispatcher.poke()
+      onTaskCreated()
+    } catch (error) {
+      console.error('Failed to start onboarding:', error)
+      setTaskError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  // Follow the queued task until the agent has produced the contract
+  useEffect(() => {
+    if (!taskId) return
+
+    const interval = setInterval(async () => {
+      try {
+        const task = await getTask(taskId)
+        if (!task) return
+
+        setTaskStatus(task.status)
+        setTaskProgress(task.progress)
+
+        if (task.status === 'completed' || task.status === 'failed' || task.status === 'cancelled') {
+          clearInterval(interval)
+          if (task.status === 'completed') {
+            setContract(task.output?.steps?.generateContract || null)
+          } else {
+            setTaskError(task.output?.error || task.lastAction)
+          }
+          onTaskCreated()
+        }
+      } catch (error) {
+        console.error('Failed to load onboarding task:', error)
+      }
+    }, 2000)
+
+    return () => clearInterval(interval)
+  }, [taskId, onTaskCreated])
+
+  // Contract files have no public link; these are made for this view and expire on their own
+  const pdfPath = contract?.pdfPath
+  const htmlPath = contract?.htmlPath
+  useEffect(() => {
+    setContractLinks(null)
+    if (!pdfPath || !htmlPath) return
+    let cancelled = false
+    Promise.all([getContractFileUrl(pdfPath), getContractFileUrl(htmlPath)])
+      .then(([pdf, html]) => {
+        if (!cancelled) setContractLinks({ pdf, html })
+      })
+      .catch(error => console.error('Failed to get contract links:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [pdfPath, htmlPath])
+
+  const stepTitles: Record<WizardStep, string> = {
+    customer: language === 'ja' ? '顧客選択' : 'Customer',
+    identification: language === 'ja' ? 'ID確認' : 'ID Verification',
+    plan: language === 'ja' ? 'プラン選択' : 'Plan Selection',
+    review: language === 'ja' ? '確認' : 'Review',
+    result: language === 'ja' ? 'SIM契約書' : 'SIM Contract'
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className={language === 'ja' ? 'japanese' : ''}>
+            {language === 'ja' ? 'オンボーディング' : 'Customer Onboarding'}
+          </DialogTitle>
+          <DialogDescription className={language === 'ja' ? 'japanese' : ''}>
+            {STEPS.indexOf(step) + 1}/{STEPS.length} · {stepTitles[step]}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {step === 'customer' && (
+            <div className="space-y-2">
+              <Label className={language === 'ja' ? 'japanese' : ''}>
+                {language === 'ja' ? '顧客' : 'Customer'}
+              </Label>
+              <CustomerPicker userId={userId} language={language} value={customerId} onChange={selectCustomer} />
+              {customer && (
+                <div className="text-xs text-muted-foreground space-y-1">
+                  {customer.phone && <p><MaskedValue customer={customer} field="phone" language={language} /></p>}
+                  {customer.email && <p>{customer.email}</p>}
+                  {customer.address && (
+                    <p className={language === 'ja' ? 'japanese' : ''}>
+                      <MaskedValue customer={customer} field="address" language={language} />
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'identification' && (
+            <div className="space-y-4">
+              <div>
+                <Label className={language === 'ja' ? 'japanese' : ''}>
+                  {language === 'ja' ? '身分証明書の種類' : 'Identification type'}
+                </Label>
+                <Select value={identificationType} onValueChange={setIdentificationType}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {IDENTIFICATION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {getIdentificationTypeLabel(type, language)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="onboardingIdNumber" className={language === 'ja' ? 'japanese' : ''}>
+                  {language === 'ja' ? '身分証明書番号' : 'ID Number'}
+                </Label>
+                {useIdOnFile && customer ? (
+                  <div className="flex items-center justify-between mt-1 rounded-md border px-3 py-2 text-sm">
+                    <MaskedValue customer={customer} field="identificationNumber" language={language} />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className={`h-7 text-xs ${language === 'ja' ? 'japanese' : ''}`}
+                      onClick={() => setUseIdOnFile(false)}
+                    >
+                      {language === 'ja' ? '別の番号を入力' : 'Enter a different number'}
+                    </Button>
+                  </div>
+                ) : (
+                  <Input
+                    id="onboardingIdNumber"
+                    value={identificationNumber}
+                    onChange={(e) => setIdentificationNumber(e.target.value)}
+                    className="mt-1"
+                  />
+                )}
+                {!useIdOnFile && identificationNumber && (
+                  <p className={`text-xs mt-1 flex items-center ${identification.valid ? 'text-green-600' : 'text-destructive'}`}>
+                    {identification.valid
+                      ? <CheckCircle className="h-3 w-3 mr-1" />
+                      : <AlertCircle className="h-3 w-3 mr-1" />}
+                    {identification.valid
+                      ? (language === 'ja' ? '形式が確認されました' : 'Format verified')
+                      : identification.error?.[language]}
+                  </p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="onboardingBirthDate" className={language === 'ja' ? 'japanese' : ''}>
+                    {language === 'ja' ? '生年月日' : 'Date of birth'}
+                  </Label>
+                  <Input
+                    id="onboardingBirthDate"
+                    type="date"
+                    value={birthDate}
+                    onChange={(e) => setBirthDate(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                {identificationType === 'residence_card' && (
+                  <div>
+                    <Label htmlFor="onboardingResidenceExpiry" className={language === 'ja' ? 'japanese' : ''}>
+                      {language === 'ja' ? '在留期限' : 'Stay expires'}
+                    </Label>
+                    <Input
+                      id="onboardingResidenceExpiry"
+                      type="date"
+                      value={residenceCardExpiry}
+                      onChange={(e) => setResidenceCardExpiry(e.target.value)}
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'plan' && (
+            <div className="space-y-3">
+              <ScrollArea className="h-[240px]">
+                <div className="space-y-2 pr-3">
+                  {plans.map((p) => {
+                    const eligibility = checkEligibility(p, eligibilityProfile)
+                    return (
+                      <button
+                        key={p.id}
+                        type="button"
+                        onClick={() => selectPlan(p.id)}
+                        disabled={!eligibility.eligible}
+                        className={`w-full text-left p-3 rounded-lg border transition-colors disabled:opacity-60 ${
+                          planId === p.id ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className={`font-medium text-sm ${language === 'ja' ? 'japanese' : ''}`}>{p.name[language]}</span>
+                          <span className="text-sm font-semibold">{formatPrice(p.monthlyPrice)}</span>
+                        </div>
+                        <p className={`text-xs text-muted-foreground mt-1 ${language === 'ja' ? 'japanese' : ''}`}>
+                          {formatDataAllowance(p, language)} · {p.description[language]}
+                        </p>
+                        {eligibility.reasons.map((reason, index) => (
+                          <p key={index} className="text-xs text-destructive mt-1 flex items-center">
+                            <AlertCircle className="h-3 w-3 mr-1" />
+                            {reason[language]}
+                          </p>
+                        ))}
+                      </button>
+                    )
+                  })}
+                </div>
+              </ScrollArea>
+
+              {plan && (
+                <div className="space-y-2 border-t pt-3">
+                  {plan.options.map((option) => (
+                    <div key={option.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`option-${option.id}`}
+                        checked={optionIds.includes(option.id)}
+                        onCheckedChange={(checked) => toggleOption(option.id, checked === true)}
+                      />
+                      <Label htmlFor={`option-${option.id}`} className={`text-sm ${language === 'ja' ? 'japanese' : ''}`}>
+                        {option.name[language]} (+{formatPrice(option.monthlyPrice)})
+                      </Label>
+                    </div>
+                  ))}
+                  {plan.maxFamilyLines > 1 && (
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="familyLines" className={`text-sm ${language === 'ja' ? 'japanese' : ''}`}>
+                        {language === 'ja' ? '家族回線数' : 'Family lines'}
+                      </Label>
+                      <Input
+                        id="familyLines"
+                        type="number"
+                        min={1}
+                        max={plan.maxFamilyLines}
+                        value={familyLines}
+                        onChange={(e) => setFamilyLines(Number(e.target.value) || 1)}
+                        className="w-20"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'review' && customer && plan && pricing && (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{stepTitles.customer}</span>
+                <span>{customer.name}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{stepTitles.identification}</span>
+                <span>
+                  {getIdentificationTypeLabel(identificationType, language)} · {useIdOnFile
+                    ? maskCustomerField(customer, 'identificationNumber')
+                    : maskPii('identificationNumber', identification.normalized)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{stepTitles.plan}</span>
+                <span>{plan.name[language]}</span>
+              </div>
+              {pricing.optionsPrice > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{language === 'ja' ? 'オプション' : 'Options'}</span>
+                  <span>+{formatPrice(pricing.optionsPrice)}</span>
+                </div>
+              )}
+              {pricing.familyDiscount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{language === 'ja' ? '家族割' : 'Family discount'}</span>
+                  <span>-{formatPrice(pricing.familyDiscount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold border-t pt-2">
+                <span>{language === 'ja' ? '月額合計' : 'Monthly total'}</span>
+                <span>{formatPrice(pricing.monthlyTotal)}</span>
+              </div>
+            </div>
+          )}
+
+          {step === 'result' && (
+            <div className="space-y-3">
+              {!contract && !taskError && (
+                <div className="space-y-1">
+                  <Progress value={taskProgress} className="h-2" />
+                  <p className="text-xs text-muted-foreground text-center flex items-center justify-center">
+                    <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+                    {taskStatus === 'pending'
+                      ? (language === 'ja' ? 'キューで待機中...' : 'Waiting in queue...')
+                      : (language === 'ja' ? '契約書を生成中...' : 'Generating contract...')}
+                  </p>
+                </div>
+              )}
+              {taskError && (
+                <div className="flex items-start text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <span>{taskError}</span>
+                </div>
+              )}
+              {contract && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className={`font-medium flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+                      <FileText className="h-4 w-4 mr-2 text-primary" />
+                      {contract.title[language]}
+                    </span>
+                    <Badge variant="outline" className="text-xs">{contract.contractNumber}</Badge>
+                  </div>
+                  <ScrollArea className="h-[200px] rounded-md border p-3">
+                    {renderContract(contract.fields, CONTRACT_TEMPLATES[contract.templateVersion]).sections.map((section, sectionIndex) => (
+                      <div key={sectionIndex} className="mb-2">
+                        <div className="grid grid-cols-2 gap-3 text-xs font-medium border-b pb-1 mb-1">
+                          <span className="japanese">{section.heading.ja}</span>
+                          <span>{section.heading.en}</span>
+                        </div>
+                        {section.rows.map((row, rowIndex) => (
+                          <div key={rowIndex} className="grid grid-cols-2 gap-3 text-xs py-0.5">
+                            <span className="japanese"><span className="text-muted-foreground">{row.label.ja}: </span>{row.value.ja}</span>
+                            <span><span className="text-muted-foreground">{row.label.en}: </span>{row.value.en}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </ScrollArea>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" className="flex-1" disabled={!contractLinks} asChild={!!contractLinks}>
+                      <a href={contractLinks?.pdf} target="_blank" rel="noopener noreferrer">
+                        <Download className="h-3 w-3 mr-1" />
+                        PDF
+                      </a>
+                    </Button>
+                    <Button variant="outline" size="sm" className="flex-1" disabled={!contractLinks} asChild={!!contractLinks}>
+                      <a href={contractLinks?.html} target="_blank" rel="noopener noreferrer">
+                        <Printer className="h-3 w-3 mr-1" />
+                        {language === 'ja' ? '印刷用HTML' : 'Printable HTML'}
+                      </a>
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono truncate" title={contract.contentHash}>
+                    SHA-256 {contract.contentHash}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Navigation */}
+          <div className="flex space-x-2">
+            {step !== 'customer' && step !== 'result' && (
+              <Button variant="outline" onClick={() => goTo(-1)} className="flex-1">
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                {language === 'ja' ? '戻る' : 'Back'}
+              </Button>
+            )}
+            {step === 'review' ? (
+              <Button onClick={handleSubmit} className="flex-1">
+                <FileText className="h-4 w-4 mr-2" />
+                {language === 'ja' ? '契約書を作成' : 'Create Contract'}
+              </Button>
+            ) : step === 'result' ? (
+              <Button variant="outline" onClick={() => handleOpenChange(false)} className="flex-1">
+                {language === 'ja' ? '閉じる' : 'Close'}
+              </Button>
+            ) : (
+              <Button onClick={() => goTo(1)} disabled={!canContinue()} className="flex-1">
+                {language === 'ja' ? '次へ' : 'Next'}
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default OnboardingWizard
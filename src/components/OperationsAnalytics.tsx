@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from './ui/chart'
+import { BarChart3, CheckCircle, Loader2, Mic, Timer } from 'lucide-react'
+import {
+  ANALYTICS_AGENT_TYPES,
+  buildTaskAnalytics,
+  formatDuration,
+  getRecentRange,
+  loadTasksForAnalytics,
+  type AnalyticsRange
+} from '../lib/analytics'
+import type { Task, TaskAgentType } from '../types/task'
+
+interface OperationsAnalyticsProps {
+  userId: string
+  userEmail: string
+  language: 'ja' | 'en'
+  // Bumped by the dashboard whenever tasks may have changed
+  refreshKey: number
+}
+
+const RANGE_PRESETS = [7, 30, 90]
+
+const AGENT_LABELS: Record<TaskAgentType, { ja: string; en: string }> = {
+  onboard: { ja: 'オンボード', en: 'OnboardBot' },
+  followup: { ja: 'フォローアップ', en: 'FollowUpAgent' },
+  ops: { ja: 'オペレーション', en: 'OpsLogger' },
+  voice_command: { ja: '音声コマンド', en: 'Voice Command' },
+  voice_agent: { ja: '音声エージェント', en: 'Voice Agent' }
+}
+
+const AGENT_COLORS: Record<TaskAgentType, string> = {
+  onboard: '#2563EB',
+  followup: '#10B981',
+  ops: '#F59E0B',
+  voice_command: '#8B5CF6',
+  voice_agent: '#EC4899'
+}
+
+const OperationsAnalytics: React.FC<OperationsAnalyticsProps> = ({ userId, userEmail, language, refreshKey }) => {
+  const [range, setRange] = useState<AnalyticsRange>(() => getRecentRange(7))
+  const [operatorId, setOperatorId] = useState('all')
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!range.from || !range.to || range.from > range.to) return
+    let cancelled = false
+    setIsLoading(true)
+    loadTasksForAnalytics(range)
+      .then(rows => {
+        if (!cancelled) setTasks(rows)
+      })
+      .catch(error => console.error('Failed to load task analytics:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [range, refreshKey])
+
+  const analytics = useMemo(
+    () => buildTaskAnalytics(tasks, range, operatorId === 'all' ? undefined : operatorId),
+    [tasks, range, operatorId]
+  )
+
+  const agentConfig = useMemo(() => Object.fromEntries(
+    ANALYTICS_AGENT_TYPES.map(agentType => [agentType, {
+      label: AGENT_LABELS[agentType][language],
+      color: AGENT_COLORS[agentType]
+    }])
+  ) satisfies ChartConfig, [language])
+
+  const outcomeConfig = {
+    completed: { label: language === 'ja' ? '成功' : 'Succeeded', color: '#16A34A' },
+    failed: { label: language === 'ja' ? '失敗' : 'Failed', color: '#DC2626' },
+    cancelled: { label: language === 'ja' ? 'キャンセル' : 'Cancelled', color: '#9CA3AF' }
+  } satisfies ChartConfig
+
+  const voiceConfig = {
+    conversations: { label: language === 'ja' ? '音声会話' : 'Conversations', color: AGENT_COLORS.voice_agent },
+    commands: { label: language === 'ja' ? '音声コマンド' : 'Commands', color: AGENT_COLORS.voice_command }
+  } satisfies ChartConfig
+
+  const outcomeData = analytics.outcomes.map(outcome => ({
+    ...outcome,
+    agent: AGENT_LABELS[outcome.agentType][language]
+  }))
+
+  const finished = analytics.outcomes.reduce((sum, outcome) => sum + outcome.completed + outcome.failed, 0)
+  const succeeded = analytics.outcomes.reduce((sum, outcome) => sum + outcome.completed, 0)
+  const conversations = analytics.voice.reduce((sum, day) => sum + day.conversations, 0)
+  const commands = analytics.voice.reduce((sum, day) => sum + day.commands, 0)
+
+  const formatDay = (date: string) => {
+    const [, month, day] = date.split('-').map(Number)
+    return `${month}/${day}`
+  }
+
+  const getOperatorLabel = (id: string) => id === userId
+    ? `${userEmail} (${language === 'ja' ? '自分' : 'you'})`
+    : id
+
+  const selectPreset = (days: number) => setRange(getRecentRange(days))
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+            <BarChart3 className="h-5 w-5 mr-2 text-primary" />
+            {language === 'ja' ? '業務分析' : 'Operations Analytics'}
+            {isLoading && <Loader2 className="h-4 w-4 ml-2 animate-spin text-muted-foreground" />}
+          </CardTitle>
+          <CardDescription className={language === 'ja' ? 'japanese' : ''}>
+            {language === 'ja'
+              ? '期間内に作成されたすべてのタスクを集計します'
+              : 'Aggregates every task created in the selected period'
+            }
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+            <div className="flex gap-2">
+              {RANGE_PRESETS.map(days => (
+                <Button
+                  key={days}
+                  variant={range.from === getRecentRange(days).from && range.to === getRecentRange(days).to ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => selectPreset(days)}
+                >
+                  {language === 'ja' ? `${days}日間` : `${days} days`}
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+                className="w-[150px]"
+              />
+              <span className="text-muted-foreground">〜</span>
+              <Input
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+                className="w-[150px]"
+              />
+            </div>
+            <Select value={operatorId} onValueChange={setOperatorId}>
+              <SelectTrigger className="w-full lg:w-[260px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">
+                  {language === 'ja' ? 'すべてのオペレーター' : 'All operators'}
+                </SelectItem>
+                {analytics.operatorIds.map(id => (
+                  <SelectItem key={id} value={id}>{getOperatorLabel(id)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{language === 'ja' ? 'タスク数' : 'Tasks'}</CardTitle>
+            <BarChart3 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{analytics.total}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{language === 'ja' ? '成功率' : 'Success Rate'}</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">
+              {finished > 0 ? `${Math.round((succeeded / finished) * 100)}%` : '—'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {language === 'ja' ? `${succeeded} / ${finished} 件完了` : `${succeeded} of ${finished} finished runs`}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{language === 'ja' ? '音声セッション' : 'Voice Sessions'}</CardTitle>
+            <Mic className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{conversations + commands}</div>
+            <p className="text-xs text-muted-foreground">
+              {language === 'ja'
+                ? `会話 ${conversations} ・ コマンド ${commands}`
+                : `${conversations} conversations · ${commands} commands`
+              }
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Tasks per day */}
+        <Card>
+          <CardHeader>
+            <CardTitle className={`text-base ${language === 'ja' ? 'japanese' : ''}`}>
+              {language === 'ja' ? '日別タスク数（エージェント別）' : 'Tasks per Day by Agent'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={agentConfig} className="h-[260px] w-full aspect-auto">
+              <BarChart data={analytics.daily}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {ANALYTICS_AGENT_TYPES.map(agentType => (
+                  <Bar key={agentType} dataKey={agentType} stackId="tasks" fill={`var(--color-${agentType})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        {/* Outcomes */}
+        <Card>
+          <CardHeader>
+            <CardTitle className={`text-base ${language === 'ja' ? 'japanese' : ''}`}>
+              {language === 'ja' ? '成功・失敗（エージェント別）' : 'Success and Failure by Agent'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={outcomeConfig} className="h-[260px] w-full aspect-auto">
+              <BarChart data={outcomeData} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="agent" tickLine={false} axisLine={false} width={110} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="completed" stackId="outcome" fill="var(--color-completed)" />
+                <Bar dataKey="failed" stackId="outcome" fill="var(--color-failed)" />
+                <Bar dataKey="cancelled" stackId="outcome" fill="var(--color-cancelled)" />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        {/* Time to complete */}
+        <Card>
+          <CardHeader>
+            <CardTitle className={`flex items-center text-base ${language === 'ja' ? 'japanese' : ''}`}>
+              <Timer className="h-4 w-4 mr-2 text-primary" />
+              {language === 'ja' ? '完了までの時間（中央値）' : 'Median Time to Complete'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {analytics.outcomes.map(outcome => (
+              <div key={outcome.agentType} className="flex items-center justify-between text-sm">
+                <span className="flex items-center">
+                  <span className="h-2 w-2 rounded-full mr-2" style={{ backgroundColor: AGENT_COLORS[outcome.agentType] }} />
+                  <span className={language === 'ja' ? 'japanese' : ''}>{AGENT_LABELS[outcome.agentType][language]}</span>
+                </span>
+                <span className="flex items-center gap-4">
+                  <span className="text-muted-foreground text-xs">
+                    {outcome.successRate === null
+                      ? '—'
+                      : `${Math.round(outcome.successRate * 100)}% ${language === 'ja' ? '成功' : 'success'}`}
+                  </span>
+                  <span className="font-medium w-20 text-right">
+                    {outcome.medianCompletionMs === null ? '—' : formatDuration(outcome.medianCompletionMs, language)}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Voice sessions */}
+        <Card>
+          <CardHeader>
+            <CardTitle className={`flex items-center text-base ${language === 'ja' ? 'japanese' : ''}`}>
+              <Mic className="h-4 w-4 mr-2 text-primary" />
+              {language === 'ja' ? '日別音声セッション' : 'Voice Sessions per Day'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={voiceConfig} className="h-[220px] w-full aspect-auto">
+              <LineChart data={analytics.voice}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="conversations" type="monotone" stroke="var(--color-conversations)" strokeWidth={2} dot={false} />
+                <Line dataKey="commands" type="monotone" stroke="var(--color-commands)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default OperationsAnalytics
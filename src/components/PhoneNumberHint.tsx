@@ -0,0 +1,26 @@
+import React from 'react'
+import { Badge } from './ui/badge'
+import { PHONE_TYPE_LABELS, validatePhoneNumber } from '../lib/phone'
+
+interface PhoneNumberHintProps {
+  phone: string
+  language: 'ja' | 'en'
+}
+
+// What kind of line a typed number is, and the E.164 form messages go out to
+const PhoneNumberHint: React.FC<PhoneNumberHintProps> = ({ phone, language }) => {
+  if (!phone.trim()) return null
+  const result = validatePhoneNumber(phone)
+  if (!result.valid || !result.type) return null
+
+  return (
+    <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+      <Badge variant="outline" className="text-[10px] px-1 py-0">
+        {PHONE_TYPE_LABELS[result.type][language]}
+      </Badge>
+      <span>{result.e164}</span>
+    </div>
+  )
+}
+
+export default PhoneNumberHint
@@ -0,0 +1,369 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Separator } from './ui/separator'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Edit, Plus, Smartphone, Trash2 } from 'lucide-react'
+import {
+  createPlanId,
+  describeEligibilityRule,
+  formatDataAllowance,
+  formatPrice,
+  listPlans,
+  savePlan,
+  type EligibilityRule,
+  type Plan
+} from '../lib/plans'
+
+interface PlanCatalogProps {
+  language: 'ja' | 'en'
+}
+
+const emptyPlan = (sortOrder: number): Plan => ({
+  id: createPlanId(),
+  name: { ja: '', en: '' },
+  description: { ja: '', en: '' },
+  monthlyPrice: 0,
+  dataAllowanceGb: 0,
+  contractTermMonths: 0,
+  familyDiscount: 0,
+  maxFamilyLines: 1,
+  options: [],
+  eligibilityRules: [],
+  isActive: true,
+  sortOrder
+})
+
+const getRuleValue = (plan: Plan, type: EligibilityRule['type']) => {
+  const rule = plan.eligibilityRules.find(r => r.type === type)
+  if (!rule) return 0
+  return rule.type === 'residenceMinMonths' ? rule.months : rule.type === 'minAge' ? rule.age : 0
+}
+
+const PlanCatalog: React.FC<PlanCatalogProps> = ({ language }) => {
+  const [plans, setPlans] = useState<Plan[]>([])
+  const [editingPlan, setEditingPlan] = useState<Plan | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadPlans = useCallback(async () => {
+    try {
+      setPlans(await listPlans({ includeInactive: true }))
+    } catch (error) {
+      console.error('Failed to load plans:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPlans()
+  }, [loadPlans])
+
+  const updateEditing = (changes: Partial<Plan>) => {
+    setEditingPlan(prev => prev ? { ...prev, ...changes } : prev)
+  }
+
+  // Numeric rules are edited as plain inputs; 0 removes the rule
+  const setRule = (type: 'residenceMinMonths' | 'minAge', value: number) => {
+    if (!editingPlan) return
+    const others = editingPlan.eligibilityRules.filter(rule => rule.type !== type)
+    const rule: EligibilityRule | null = value > 0
+      ? (type === 'residenceMinMonths' ? { type, months: value } : { type, age: value })
+      : null
+    updateEditing({ eligibilityRules: rule ? [...others, rule] : others })
+  }
+
+  const updateOption = (index: number, changes: Partial<Plan['options'][number]>) => {
+    if (!editingPlan) return
+    const options = editingPlan.options.map((option, i) => i === index ? { ...option, ...changes } : option)
+    updateEditing({ options })
+  }
+
+  const handleSave = async () => {
+    if (!editingPlan || !editingPlan.name.ja || !editingPlan.name.en) return
+    setIsSaving(true)
+    try {
+      await savePlan(editingPlan)
+      setEditingPlan(null)
+      await loadPlans()
+    } catch (error) {
+      console.error('Failed to save plan:', error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+              <Smartphone className="h-5 w-5 mr-2 text-primary" />
+              {language === 'ja' ? '料金プランカタログ' : 'Plan Catalog'}
+            </CardTitle>
+            <CardDescription className={language === 'ja' ? 'japanese' : ''}>
+              {language === 'ja'
+                ? 'オンボーディングとAIエージェントが参照するプラン'
+                : 'Plans used by onboarding and the AI agents'
+              }
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setEditingPlan(emptyPlan(plans.length + 1))}>
+            <Plus className="h-4 w-4 mr-2" />
+            {language === 'ja' ? '新規プラン' : 'New Plan'}
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {plans.map((plan, index) => (
+          <div key={plan.id}>
+            <div className="flex items-start justify-between p-3 rounded-lg hover:bg-muted/50 transition-colors">
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <h4 className={`font-medium text-sm ${language === 'ja' ? 'japanese' : ''}`}>{plan.name[language]}</h4>
+                  {!plan.isActive && (
+                    <Badge variant="secondary" className="text-xs">
+                      {language === 'ja' ? '停止中' : 'Inactive'}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatPrice(plan.monthlyPrice)} · {formatDataAllowance(plan, language)} ·{' '}
+                  {plan.contractTermMonths > 0
+                    ? (language === 'ja' ? `${plan.contractTermMonths}ヶ月契約` : `${plan.contractTermMonths}-month term`)
+                    : (language === 'ja' ? '期間拘束なし' : 'No fixed term')}
+                  {plan.familyDiscount > 0 && ` · ${language === 'ja' ? '家族割' : 'Family'} -${formatPrice(plan.familyDiscount)}`}
+                </p>
+                {plan.eligibilityRules.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {plan.eligibilityRules.map((rule, ruleIndex) => (
+                      <Badge key={ruleIndex} variant="outline" className="text-xs">
+                        {describeEligibilityRule(rule, language)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setEditingPlan(plan)}>
+                <Edit className="h-3 w-3" />
+              </Button>
+            </div>
+            {index < plans.length - 1 && <Separator />}
+          </div>
+        ))}
+      </CardContent>
+
+      {/* Plan Editor */}
+      <Dialog open={!!editingPlan} onOpenChange={(open) => !open && setEditingPlan(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className={language === 'ja' ? 'japanese' : ''}>
+              {language === 'ja' ? 'プラン編集' : 'Edit Plan'}
+            </DialogTitle>
+            <DialogDescription>{editingPlan?.id}</DialogDescription>
+          </DialogHeader>
+          {editingPlan && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="planNameJa">{language === 'ja' ? 'プラン名（日本語）' : 'Name (Japanese)'} *</Label>
+                  <Input
+                    id="planNameJa"
+                    value={editingPlan.name.ja}
+                    onChange={(e) => updateEditing({ name: { ...editingPlan.name, ja: e.target.value } })}
+                    className="japanese"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="planNameEn">{language === 'ja' ? 'プラン名（英語）' : 'Name (English)'} *</Label>
+                  <Input
+                    id="planNameEn"
+                    value={editingPlan.name.en}
+                    onChange={(e) => updateEditing({ name: { ...editingPlan.name, en: e.target.value } })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="planDescriptionJa">{language === 'ja' ? '説明（日本語）' : 'Description (Japanese)'}</Label>
+                  <Input
+                    id="planDescriptionJa"
+                    value={editingPlan.description.ja}
+                    onChange={(e) => updateEditing({ description: { ...editingPlan.description, ja: e.target.value } })}
+                    className="japanese"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="planDescriptionEn">{language === 'ja' ? '説明（英語）' : 'Description (English)'}</Label>
+                  <Input
+                    id="planDescriptionEn"
+                    value={editingPlan.description.en}
+                    onChange={(e) => updateEditing({ description: { ...editingPlan.description, en: e.target.value } })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="planPrice">{language === 'ja' ? '月額料金（円）' : 'Monthly price (JPY)'}</Label>
+                  <Input
+                    id="planPrice"
+                    type="number"
+                    min={0}
+                    value={editingPlan.monthlyPrice}
+                    onChange={(e) => updateEditing({ monthlyPrice: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="planData">{language === 'ja' ? 'データ容量（GB、-1で無制限）' : 'Data (GB, -1 = unlimited)'}</Label>
+                  <Input
+                    id="planData"
+                    type="number"
+                    min={-1}
+                    value={editingPlan.dataAllowanceGb}
+                    onChange={(e) => updateEditing({ dataAllowanceGb: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="planTerm">{language === 'ja' ? '契約期間（月）' : 'Contract term (months)'}</Label>
+                  <Input
+                    id="planTerm"
+                    type="number"
+                    min={0}
+                    value={editingPlan.contractTermMonths}
+                    onChange={(e) => updateEditing({ contractTermMonths: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="planFamilyDiscount">{language === 'ja' ? '家族割（円/回線）' : 'Family discount (JPY/line)'}</Label>
+                  <Input
+                    id="planFamilyDiscount"
+                    type="number"
+                    min={0}
+                    value={editingPlan.familyDiscount}
+                    onChange={(e) => updateEditing({ familyDiscount: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="planFamilyLines">{language === 'ja' ? '最大家族回線数' : 'Max family lines'}</Label>
+                  <Input
+                    id="planFamilyLines"
+                    type="number"
+                    min={1}
+                    value={editingPlan.maxFamilyLines}
+                    onChange={(e) => updateEditing({ maxFamilyLines: Number(e.target.value) || 1 })}
+                  />
+                </div>
+                <div className="flex items-end space-x-2 pb-2">
+                  <Switch
+                    checked={editingPlan.isActive}
+                    onCheckedChange={(checked) => updateEditing({ isActive: checked })}
+                  />
+                  <span className="text-sm">{language === 'ja' ? '提供中' : 'Active'}</span>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <h4 className={`text-sm font-medium ${language === 'ja' ? 'japanese' : ''}`}>
+                  {language === 'ja' ? '契約条件' : 'Eligibility'}
+                </h4>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="ruleResidence" className="text-xs">
+                      {language === 'ja' ? '在留期間の残り（月、0で条件なし）' : 'Residence stay left (months, 0 = none)'}
+                    </Label>
+                    <Input
+                      id="ruleResidence"
+                      type="number"
+                      min={0}
+                      value={getRuleValue(editingPlan, 'residenceMinMonths')}
+                      onChange={(e) => setRule('residenceMinMonths', Number(e.target.value))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="ruleMinAge" className="text-xs">
+                      {language === 'ja' ? '最低年齢（0で条件なし）' : 'Minimum age (0 = none)'}
+                    </Label>
+                    <Input
+                      id="ruleMinAge"
+                      type="number"
+                      min={0}
+                      value={getRuleValue(editingPlan, 'minAge')}
+                      onChange={(e) => setRule('minAge', Number(e.target.value))}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className={`text-sm font-medium ${language === 'ja' ? 'japanese' : ''}`}>
+                    {language === 'ja' ? 'オプション' : 'Options'}
+                  </h4>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateEditing({
+                      options: [...editingPlan.options, { id: `option_${Date.now()}`, name: { ja: '', en: '' }, monthlyPrice: 0 }]
+                    })}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    {language === 'ja' ? '追加' : 'Add'}
+                  </Button>
+                </div>
+                {editingPlan.options.map((option, index) => (
+                  <div key={option.id} className="flex items-center space-x-2">
+                    <Input
+                      value={option.name.ja}
+                      placeholder="日本語"
+                      onChange={(e) => updateOption(index, { name: { ...option.name, ja: e.target.value } })}
+                      className="japanese"
+                    />
+                    <Input
+                      value={option.name.en}
+                      placeholder="English"
+                      onChange={(e) => updateOption(index, { name: { ...option.name, en: e.target.value } })}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      value={option.monthlyPrice}
+                      onChange={(e) => updateOption(index, { monthlyPrice: Number(e.target.value) })}
+                      className="w-24"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive flex-shrink-0"
+                      onClick={() => updateEditing({ options: editingPlan.options.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex space-x-2">
+                <Button
+                  onClick={handleSave}
+                  disabled={isSaving || !editingPlan.name.ja || !editingPlan.name.en}
+                  className="flex-1"
+                >
+                  {language === 'ja' ? '保存' : 'Save'}
+                </Button>
+                <Button variant="outline" onClick={() => setEditingPlan(null)} className="flex-1">
+                  {language === 'ja' ? 'キャンセル' : 'Cancel'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
+
+export default PlanCatalog
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Input } from './ui/input'
+import { Button } from './ui/button'
+import { Loader2, MapPin } from 'lucide-react'
+import { isValidPostalCode, joinAddress } from '../lib/address'
+import { hasPostalData, lookupPostalCode, type PostalArea } from '../lib/postalCodes'
+
+interface PostalCodeInputProps {
+  id?: string
+  value: string
+  // The address field the postal code fills in
+  address: string
+  language: 'ja' | 'en'
+  onChange: (value: string) => void
+  onAddressChange: (address: string) => void
+}
+
+// 〒 field that looks up the prefecture, city and town. An empty address, or one filled from an
+// earlier code, is filled in; an address the operator typed is only offered the areas to pick.
+const PostalCodeInput: React.FC<PostalCodeInputProps> = ({ id, value, address, language, onChange, onAddressChange }) => {
+  const [areas, setAreas] = useState<PostalArea[]>([])
+  const [isLooking, setIsLooking] = useState(false)
+  const [notFound, setNotFound] = useState(false)
+  // The lookup must not restart on every keystroke in the address
+  const latest = useRef({ address, onAddressChange })
+  latest.current = { address, onAddressChange }
+  const filled = useRef('')
+
+  useEffect(() => {
+    setAreas([])
+    setNotFound(false)
+    setIsLooking(false)
+    if (!isValidPostalCode(value)) return
+    let cancelled = false
+    setIsLooking(true)
+    lookupPostalCode(value)
+      .then(found => {
+        if (cancelled) return
+        setAreas(found)
+        setNotFound(found.length === 0 && hasPostalData())
+        const current = latest.current.address
+        if (found.length === 1 && (!current.trim() || current === filled.current)) {
+          filled.current = joinAddress(found[0])
+          latest.current.onAddressChange(filled.current)
+        }
+      })
+      .catch(error => console.error('Failed to look up postal code:', error))
+      .finally(() => {
+        if (!cancelled) setIsLooking(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [value])
+
+  const fill = (area: PostalArea) => {
+    filled.current = joinAddress(area)
+    onAddressChange(filled.current)
+  }
+
+  const typed = address.normalize('NFKC')
+  const suggestions = areas.filter(area => !typed.startsWith(joinAddress(area)))
+
+  return (
+    <div>
+      <div className="relative">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">〒</span>
+        <Input
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="150-0002"
+          inputMode="numeric"
+          className="pl-7"
+        />
+        {isLooking && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {suggestions.map(area => (
+            <Button
+              key={joinAddress(area)}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs japanese"
+              onClick={() => fill(area)}
+            >
+              <MapPin className="h-3 w-3 mr-1" />
+              {joinAddress(area)}
+            </Button>
+          ))}
+        </div>
+      )}
+      {notFound && (
+        <p className={`text-xs text-muted-foreground mt-1 ${language === 'ja' ? 'japanese' : ''}`}>
+          {language === 'ja' ? 'この郵便番号の住所が見つかりません' : 'No address found for this postal code'}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default PostalCodeInput
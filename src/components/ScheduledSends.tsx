@@ -0,0 +1,153 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import { Separator } from './ui/separator'
+import { CalendarClock, RefreshCw, X } from 'lucide-react'
+import {
+  DEFAULT_FOLLOW_UP_RULES,
+  cancelFollowUp,
+  listUpcomingFollowUps,
+  type ScheduledFollowUp
+} from '../lib/scheduling'
+import { getCustomersByIds } from '../lib/customers'
+import type { Customer } from '../types/customer'
+
+interface ScheduledSendsProps {
+  userId: string
+  language: 'ja' | 'en'
+  // Bumped by the dashboard when follow-ups are created or released
+  refreshKey?: number
+}
+
+const formatJst = (iso: string, language: 'ja' | 'en') =>
+  new Date(iso).toLocaleString(language === 'ja' ? 'ja-JP' : 'en-US', {
+    timeZone: 'Asia/Tokyo',
+    month: 'short',
+    day: 'numeric',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+const ScheduledSends: React.FC<ScheduledSendsProps> = ({ userId, language, refreshKey }) => {
+  const [followUps, setFollowUps] = useState<ScheduledFollowUp[]>([])
+  const [customers, setCustomers] = useState<Map<string, Customer>>(new Map())
+  const [isLoading, setIsLoading] = useState(false)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const loadFollowUps = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const upcoming = await listUpcomingFollowUps(userId)
+      setFollowUps(upcoming)
+      // Loaded by id, since the sends can be for any customer, not only recent ones
+      setCustomers(await getCustomersByIds(upcoming.map(followUp => followUp.customerId)))
+    } catch (error) {
+      console.error('Failed to load scheduled follow-ups:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    loadFollowUps()
+  }, [loadFollowUps, refreshKey])
+
+  const handleCancel = async (id: string) => {
+    setCancellingId(id)
+    setMessage('')
+    try {
+      const cancelled = await cancelFollowUp(id, userId)
+      if (!cancelled) {
+        // Released (or cancelled elsewhere) since the list was loaded
+        setMessage(language === 'ja'
+          ? '配信処理が始まっているため取り消せませんでした'
+          : 'Too late to cancel: this send has already been released')
+        await loadFollowUps()
+        return
+      }
+      setFollowUps(prev => prev.filter(followUp => followUp.id !== id))
+    } catch (error) {
+      console.error('Failed to cancel follow-up:', error)
+      setMessage(language === 'ja' ? '取り消しに失敗しました' : 'Could not cancel the send')
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  const getCustomerName = (customerId: string) =>
+    customers.get(customerId)?.name || customerId
+
+  const getRuleName = (followUp: ScheduledFollowUp) =>
+    DEFAULT_FOLLOW_UP_RULES.find(rule => rule.id === followUp.ruleId)?.name[language] || followUp.templateKey
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+              <CalendarClock className="h-5 w-5 mr-2 text-primary" />
+              {language === 'ja' ? '配信スケジュール' : 'Scheduled Sends'}
+            </CardTitle>
+            <CardDescription className={language === 'ja' ? 'japanese' : ''}>
+              {language === 'ja'
+                ? '平日9:00〜18:00（祝日・年末年始を除く）に配信'
+                : 'Sent on weekdays 9:00–18:00 JST, skipping holidays'}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={loadFollowUps} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {message && <p className={`text-sm text-muted-foreground mb-2 ${language === 'ja' ? 'japanese' : ''}`}>{message}</p>}
+        {followUps.length === 0 ? (
+          <p className={`text-sm text-muted-foreground text-center py-4 ${language === 'ja' ? 'japanese' : ''}`}>
+            {language === 'ja' ? '予定されている配信はありません' : 'No upcoming sends'}
+          </p>
+        ) : (
+          <ScrollArea className="h-[300px]">
+            <div className="space-y-2">
+              {followUps.map((followUp, index) => (
+                <div key={followUp.id}>
+                  <div className="flex items-start justify-between p-2 rounded-lg hover:bg-muted/50 transition-colors">
+                    <div className="min-w-0 space-y-1">
+                      <p className={`text-sm font-medium truncate ${language === 'ja' ? 'japanese' : ''}`}>
+                        {getCustomerName(followUp.customerId)}
+                      </p>
+                      <p className={`text-xs text-muted-foreground ${language === 'ja' ? 'japanese' : ''}`}>
+                        {getRuleName(followUp)}
+                      </p>
+                      <Badge variant="outline" className="text-xs">
+                        {formatJst(followUp.scheduledFor, language)}
+                      </Badge>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive flex-shrink-0"
+                      disabled={cancellingId === followUp.id}
+                      onClick={() => handleCancel(followUp.id)}
+                      title={language === 'ja' ? '配信を取り消す' : 'Cancel send'}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  {index < followUps.length - 1 && <Separator />}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ScheduledSends
@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet'
+import { Badge } from './ui/badge'
+import { Progress } from './ui/progress'
+import { ScrollArea } from './ui/scroll-area'
+import { Separator } from './ui/separator'
+import MaskedValue from './MaskedValue'
+import { AlertCircle, Brain, CheckCircle, Circle, Clock, RefreshCw, Send, User } from 'lucide-react'
+import { agentDefinitions } from '../lib/agents/registry'
+import { getCustomerById } from '../lib/customers'
+import { getTaskDeliveries } from '../lib/delivery'
+import { maskPiiValues } from '../lib/pii'
+import { listTaskEvents, type TaskEvent, type TaskEventType } from '../lib/taskEvents'
+import type { AgentId } from '../lib/agents/engine'
+import type { Customer } from '../types/customer'
+import type { Task, TaskAiExchange } from '../types/task'
+
+interface TaskDetailSheetProps {
+  task: Task | null
+  agentName: string
+  language: 'ja' | 'en'
+  onOpenChange: (open: boolean) => void
+}
+
+type StepState = 'done' | 'running' | 'failed' | 'waiting'
+
+type Delivery = Awaited<ReturnType<typeof getTaskDeliveries>>[number]
+
+const EVENT_LABELS: Record<TaskEventType, { ja: string; en: string }> = {
+  created: { ja: '作成', en: 'Created' },
+  status_changed: { ja: 'ステータス変更', en: 'Status' },
+  step_started: { ja: 'ステップ開始', en: 'Step started' },
+  step_completed: { ja: 'ステップ完了', en: 'Step completed' },
+  step_failed: { ja: 'ステップ失敗', en: 'Step failed' },
+  ai_call: { ja: 'AI呼び出し', en: 'AI call' },
+  error: { ja: 'エラー', en: 'Error' },
+  user_action: { ja: 'ユーザー操作', en: 'User action' }
+}
+
+const EVENT_COLORS: Partial<Record<TaskEventType, string>> = {
+  step_completed: 'bg-green-500',
+  step_failed: 'bg-red-500',
+  error: 'bg-red-500',
+  ai_call: 'bg-purple-500',
+  user_action: 'bg-blue-500'
+}
+
+// Customer values copied into the task are masked; protected ones are only revealed, with a log
+// entry, on the customer record
+const JsonBlock: React.FC<{ value: unknown }> = ({ value }) => (
+  <pre className="text-xs bg-muted rounded-md p-3 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+    {JSON.stringify(maskPiiValues(value), null, 2)}
+  </pre>
+)
+
+const Section: React.FC<{ title: string; language: 'ja' | 'en'; children: React.ReactNode }> = ({ title, language, children }) => (
+  <div className="space-y-2">
+    <h4 className={`text-sm font-semibold ${language === 'ja' ? 'japanese' : ''}`}>{title}</h4>
+    {children}
+  </div>
+)
+
+const getStepState = (task: Task, index: number, stepId: string): StepState => {
+  if (task.status === 'completed' || index < task.currentStep) return 'done'
+  if (task.status === 'failed' && (task.output?.failedStep === stepId || index === task.currentStep)) return 'failed'
+  if (task.status === 'processing' && index === task.currentStep) return 'running'
+  return 'waiting'
+}
+
+const StepIcon: React.FC<{ state: StepState }> = ({ state }) => {
+  switch (state) {
+    case 'done':
+      return <CheckCircle className="h-4 w-4 text-green-500" />
+    case 'running':
+      return <RefreshCw className="h-4 w-4 text-blue-500 animate-spin" />
+    case 'failed':
+      return <AlertCircle className="h-4 w-4 text-red-500" />
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground" />
+  }
+}
+
+const TaskDetailSheet: React.FC<TaskDetailSheetProps> = ({ task, agentName, language, onOpenChange }) => {
+  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [deliveries, setDeliveries] = useState<Delivery[]>([])
+  const [events, setEvents] = useState<TaskEvent[]>([])
+
+  const customerId: string | undefined = task?.input.customerId
+  const taskId = task?.id
+  const updatedAt = task?.updatedAt
+
+  useEffect(() => {
+    setCustomer(null)
+    if (!customerId) return
+    getCustomerById(customerId)
+      .then(setCustomer)
+      .catch(error => console.error('Failed to load task customer:', error))
+  }, [customerId])
+
+  // Reloaded whenever the row changes, so a running task's history keeps up
+  useEffect(() => {
+    if (!taskId) {
+      setEvents([])
+      return
+    }
+    listTaskEvents(taskId)
+      .then(setEvents)
+      .catch(error => console.error('Failed to load task events:', error))
+  }, [taskId, updatedAt])
+
+  useEffect(() => {
+    setDeliveries([])
+    if (!taskId) return
+    getTaskDeliveries(taskId)
+      .then(setDeliveries)
+      .catch(error => console.error('Failed to load task deliveries:', error))
+  }, [taskId])
+
+  const formatTimestamp = (iso: string) =>
+    new Date(iso).toLocaleString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+
+  const definition = task ? agentDefinitions[task.agentType as AgentId] : undefined
+  // The AI exchanges get their own section, so the raw output is shown without them
+  const { ai: outputAi = [], ...output } = task?.output || {}
+  // Tasks from before the event stream only have their exchanges in the output
+  const aiEvents = events.filter(event => event.type === 'ai_call')
+  const ai: TaskAiExchange[] = aiEvents.length > 0
+    ? aiEvents.map(event => ({
+      stepId: event.data.stepId,
+      prompt: event.data.prompt || '',
+      response: event.data.response || '',
+      createdAt: event.createdAt
+    }))
+    : outputAi
+
+  return (
+    <Sheet open={!!task} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl p-0">
+        {task && (
+          <ScrollArea className="h-full">
+            <div className="p-6 space-y-6">
+              <SheetHeader>
+                <SheetTitle className={language === 'ja' ? 'japanese' : ''}>{task.taskName}</SheetTitle>
+                <SheetDescription className={language === 'ja' ? 'japanese' : ''}>
+                  {agentName} · {task.id}
+                </SheetDescription>
+              </SheetHeader>
+
+              {/* Overview */}
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-xs text-muted-foreground">{language === 'ja' ? '言語' : 'Language'}</p>
+                  <div className="flex items-center space-x-1 mt-1">
+                    <Badge variant="outline" className="text-xs">
+                      {task.language === 'ja' ? '日本語' : 'English'}
+                    </Badge>
+                    <Badge variant="outline" className="text-xs">
+                      {task.keigoMode === 'formal' ? '敬語' : 'カジュアル'}
+                    </Badge>
+                  </div>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">{language === 'ja' ? '最終アクション' : 'Last Action'}</p>
+                  <p className={`mt-1 ${language === 'ja' ? 'japanese' : ''}`}>{task.lastAction || '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground flex items-center">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {language === 'ja' ? '作成' : 'Created'}
+                  </p>
+                  <p className="mt-1">{formatTimestamp(task.createdAt)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground flex items-center">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {language === 'ja' ? '更新' : 'Updated'}
+                  </p>
+                  <p className="mt-1">{formatTimestamp(task.updatedAt)}</p>
+                </div>
+              </div>
+
+              {customerId && (
+                <Section title={language === 'ja' ? '対象顧客' : 'Customer'} language={language}>
+                  <div className="flex items-start space-x-2 text-sm rounded-md border p-3">
+                    <User className="h-4 w-4 mt-0.5 text-primary" />
+                    {customer ? (
+                      <div>
+                        <p className={`font-medium ${language === 'ja' ? 'japanese' : ''}`}>{customer.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {customer.email}
+                          {customer.email && customer.phone && ' · '}
+                          <MaskedValue customer={customer} field="phone" language={language} />
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="text-muted-foreground">{customerId}</p>
+                    )}
+                  </div>
+                </Section>
+              )}
+
+              <Separator />
+
+              {/* Steps */}
+              <Section title={language === 'ja' ? '進捗' : 'Progress'} language={language}>
+                <div className="flex items-center space-x-3">
+                  <Progress value={task.progress} className="flex-1" />
+                  <span className="text-xs text-muted-foreground">{Math.round(task.progress)}%</span>
+                </div>
+                {definition && (
+                  <div className="space-y-2 pt-1">
+                    {definition.steps.map((step, index) => {
+                      const state = getStepState(task, index, step.id)
+                      return (
+                        <div key={step.id} className="flex items-center space-x-2 text-sm">
+                          <StepIcon state={state} />
+                          <span className={`${state === 'waiting' ? 'text-muted-foreground' : ''} ${language === 'ja' ? 'japanese' : ''}`}>
+                            {step.label[language]}
+                          </span>
+                          {state === 'failed' && task.output?.error && (
+                            <span className="text-xs text-red-600 truncate">{task.output.error}</span>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </Section>
+
+              {task.status === 'failed' && task.output?.error && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm space-y-1">
+                  <p className="font-medium text-red-800 flex items-center">
+                    <AlertCircle className="h-4 w-4 mr-2" />
+                    {language === 'ja' ? '失敗の詳細' : 'Failure Details'}
+                  </p>
+                  <p className="text-red-700 break-words">{task.output.error}</p>
+                  <p className="text-xs text-red-600">
+                    {task.output.failedStep && (
+                      <>
+                        {definition?.steps.find(step => step.id === task.output?.failedStep)?.label[language] || task.output.failedStep}
+                        {' · '}
+                      </>
+                    )}
+                    {task.output.attempts && `${language === 'ja' ? '試行' : 'Attempts'}: ${task.output.attempts} · `}
+                    {task.output.failedAt && formatTimestamp(task.output.failedAt)}
+                  </p>
+                </div>
+              )}
+
+              {deliveries.length > 0 && (
+                <Section title={language === 'ja' ? '配信' : 'Deliveries'} language={language}>
+                  {deliveries.map(delivery => (
+                    <div key={delivery.id} className="rounded-md border p-3 text-sm space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center">
+                          <Send className="h-3 w-3 mr-1" />
+                          {delivery.channel.toUpperCase()} → {delivery.to}
+                        </span>
+                        <Badge variant={delivery.status === 'sent' ? 'default' : 'destructive'} className="text-xs">
+                          {delivery.status}
+                        </Badge>
+                      </div>
+                      {delivery.attemptLog.map(attempt => (
+                        <p key={attempt.id} className="text-xs text-muted-foreground">
+                          #{attempt.attempt} {attempt.transport} {attempt.status}
+                          {attempt.error && ` — ${attempt.error}`} · {formatTimestamp(attempt.createdAt)}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </Section>
+              )}
+
+              {ai.length > 0 && (
+                <Section title={language === 'ja' ? 'AIのプロンプトと応答' : 'AI Prompts & Responses'} language={language}>
+                  {ai.map((exchange, index) => (
+                    <div key={`${exchange.createdAt}_${index}`} className="rounded-md border p-3 space-y-2">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span className="flex items-center">
+                          <Brain className="h-3 w-3 mr-1" />
+                          {(exchange.stepId && definition?.steps.find(step => step.id === exchange.stepId)?.label[language]) ||
+                            exchange.stepId ||
+                            `#${index + 1}`}
+                        </span>
+                        <span>{formatTimestamp(exchange.createdAt)}</span>
+                      </div>
+                      <p className="text-xs font-medium">{language === 'ja' ? 'プロンプト' : 'Prompt'}</p>
+                      <pre className="text-xs bg-muted rounded-md p-2 whitespace-pre-wrap break-words max-h-48 overflow-auto">
+                        {exchange.prompt}
+                      </pre>
+                      <p className="text-xs font-medium">{language === 'ja' ? '応答' : 'Response'}</p>
+                      <pre className="text-xs bg-muted rounded-md p-2 whitespace-pre-wrap break-words max-h-48 overflow-auto japanese">
+                        {exchange.response}
+                      </pre>
+                    </div>
+                  ))}
+                </Section>
+              )}
+
+              {events.length > 0 && (
+                <Section title={language === 'ja' ? '履歴' : 'History'} language={language}>
+                  <div className="space-y-3">
+                    {events.map(event => (
+                      <div key={event.id} className="flex items-start space-x-3 text-sm">
+                        <div className={`w-2 h-2 rounded-full mt-1.5 flex-shrink-0 ${EVENT_COLORS[event.type] || 'bg-muted-foreground'}`} />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span className={language === 'ja' ? 'japanese' : ''}>
+                              {EVENT_LABELS[event.type]?.[language] || event.type} · {event.actor}
+                            </span>
+                            <span className="flex-shrink-0 ml-2">{formatTimestamp(event.createdAt)}</span>
+                          </div>
+                          <p className={`break-words ${language === 'ja' ? 'japanese' : ''}`}>{event.message}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </Section>
+              )}
+
+              <Separator />
+
+              <Section title={language === 'ja' ? '入力データ' : 'Input'} language={language}>
+                <JsonBlock value={task.input} />
+              </Section>
+
+              <Section title={language === 'ja' ? '出力データ' : 'Output'} language={language}>
+                {task.output ? (
+                  <JsonBlock value={output} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">{language === 'ja' ? 'まだ出力はありません' : 'No output yet'}</p>
+                )}
+              </Section>
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+export default TaskDetailSheet
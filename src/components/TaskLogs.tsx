@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
@@ -13,32 +13,152 @@ import {
   Eye,
   Trash2,
   Filter,
-  Search
+  Search,
+  Send,
+  Ban,
+  RotateCcw,
+  Play,
+  ArrowDown,
+  ArrowUp,
+  Loader2
 } from 'lucide-react'
 import { Input } from './ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import TaskDetailSheet from './TaskDetailSheet'
+import ExportDialog from './ExportDialog'
+import { AGENT_IDS, type AgentId } from '../lib/agents'
+import { getRangeBounds } from '../lib/analytics'
+import { TASK_EXPORT_COLUMNS, toTaskExportRows } from '../lib/export'
+import { keepIfUnchanged } from '../lib/liveUpdates'
+import {
+  canCancelTask,
+  canResumeTask,
+  canRetryTask,
+  cancelTask,
+  countTasks,
+  listAllTasks,
+  listTasks,
+  listTasksCreatedBetween,
+  resumeTask,
+  retryTask,
+  type TaskSortField
+} from '../lib/tasks'
+import type { Task, TaskOutput, TaskStatus } from '../types/task'
 
-interface Task {
-  id: string
-  agentType: string
-  taskName: string
-  status: 'pending' | 'processing' | 'completed' | 'failed'
-  lastAction: string
-  language: string
-  keigoMode: string
-  createdAt: string
-  updatedAt: string
-}
+const PAGE_SIZE = 20
+const SEARCH_DEBOUNCE_MS = 300
 
 interface TaskLogsProps {
-  tasks: Task[]
+  userId: string
   language: 'ja' | 'en'
+  // Bumped by the dashboard whenever tasks may have changed; reloads the pages already shown
+  refreshKey: number
   onTaskUpdate: () => void
+  // Realtime updates are connected; otherwise the list is polled
+  isLive?: boolean
 }
 
-const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) => {
+// Delivery result recorded by FollowUpAgent's send step
+const DeliveryBadge: React.FC<{ output: TaskOutput | null }> = ({ output }) => {
+  const delivery: { channel: string; to: string; status: string; attempts: number } | undefined =
+    output?.steps?.sendMessage
+  if (!delivery) return null
+
+  return (
+    <Badge variant="outline" className="text-xs" title={delivery.to}>
+      <Send className="h-3 w-3 mr-1" />
+      {delivery.channel.toUpperCase()} {delivery.status}
+      {delivery.attempts > 1 && ` ×${delivery.attempts}`}
+    </Badge>
+  )
+}
+
+const TaskLogs: React.FC<TaskLogsProps> = ({ userId, language, refreshKey, onTaskUpdate, isLive = false }) => {
   const [filter, setFilter] = useState<string>('all')
   const [searchTerm, setSearchTerm] = useState('')
+  const [search, setSearch] = useState('')
+  const [sortBy, setSortBy] = useState<TaskSortField>('createdAt')
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc')
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null)
+  const [actingTaskId, setActingTaskId] = useState<string | null>(null)
+  const hasMore = tasks.length < total
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  const query = useMemo(() => ({
+    status: filter === 'all' ? undefined : filter as TaskStatus,
+    search,
+    sortBy,
+    order
+  }), [filter, search, sortBy, order])
+
+  // Responses for an older query or refresh are dropped
+  const requestRef = useRef(0)
+  const queryRef = useRef(query)
+  const loadedCountRef = useRef(0)
+  loadedCountRef.current = tasks.length
+
+  // A new query starts again from the first page; a refresh reloads every page already shown
+  useEffect(() => {
+    const request = ++requestRef.current
+    const isNewQuery = queryRef.current !== query
+    queryRef.current = query
+    if (isNewQuery) setTasks([])
+    setIsLoading(true)
+
+    const limit = isNewQuery ? PAGE_SIZE : Math.max(loadedCountRef.current, PAGE_SIZE)
+    Promise.all([listTasks(userId, { ...query, limit }), countTasks(userId, query)])
+      .then(([rows, count]) => {
+        if (request !== requestRef.current) return
+        setTasks(previous => keepIfUnchanged(previous, rows))
+        setTotal(count)
+      })
+      .catch(error => console.error('Failed to load tasks:', error))
+      .finally(() => {
+        if (request === requestRef.current) setIsLoading(false)
+      })
+  }, [userId, query, refreshKey])
+
+  const loadMore = useCallback(async () => {
+    if (isLoading || !hasMore) return
+    const request = requestRef.current
+    setIsLoading(true)
+    try {
+      const rows = await listTasks(userId, { ...query, limit: PAGE_SIZE, offset: tasks.length })
+      if (request !== requestRef.current) return
+      // Rows created since the first page shift offsets, so a row can come back twice
+      setTasks(previous => [...previous, ...rows.filter(row => !previous.some(task => task.id === row.id))])
+      if (rows.length < PAGE_SIZE) setTotal(tasks.length + rows.length)
+    } catch (error) {
+      console.error('Failed to load more tasks:', error)
+    } finally {
+      if (request === requestRef.current) setIsLoading(false)
+    }
+  }, [userId, query, tasks.length, isLoading, hasMore])
+
+  // Infinite scroll: the next page loads when the end of the list scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const loadMoreRef = useRef(loadMore)
+  loadMoreRef.current = loadMore
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMoreRef.current()
+    })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore])
+
+  // Looked up by id so the drawer follows the row as the task list refreshes
+  const selectedTask = tasks.find(task => task.id === selectedTaskId) || null
 
   const getJapaneseStatus = (status: string) => {
     switch (status) {
@@ -46,6 +166,7 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
       case 'processing': return '処理中'
       case 'completed': return '完了'
       case 'failed': return '失敗'
+      case 'cancelled': return 'キャンセル'
       default: return status
     }
   }
@@ -60,6 +181,8 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
         return <CheckCircle className="h-4 w-4 text-green-500" />
       case 'failed':
         return <AlertCircle className="h-4 w-4 text-red-500" />
+      case 'cancelled':
+        return <Ban className="h-4 w-4 text-gray-500" />
       default:
         return <Activity className="h-4 w-4 text-gray-500" />
     }
@@ -70,14 +193,16 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
       pending: 'secondary',
       processing: 'default',
       completed: 'default',
-      failed: 'destructive'
+      failed: 'destructive',
+      cancelled: 'secondary'
     } as const
 
     const colors = {
       pending: 'bg-yellow-100 text-yellow-800',
       processing: 'bg-blue-100 text-blue-800',
       completed: 'bg-green-100 text-green-800',
-      failed: 'bg-red-100 text-red-800'
+      failed: 'bg-red-100 text-red-800',
+      cancelled: 'bg-gray-100 text-gray-700'
     }
 
     return (
@@ -95,17 +220,26 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
       onboard: language === 'ja' ? 'オンボードボット' : 'OnboardBot',
       followup: language === 'ja' ? 'フォローアップエージェント' : 'FollowUpAgent',
       ops: language === 'ja' ? 'オペレーションロガー' : 'OpsLogger',
-      voice_command: language === 'ja' ? '音声コマンド' : 'Voice Command'
+      voice_command: language === 'ja' ? '音声コマンド' : 'Voice Command',
+      voice_agent: language === 'ja' ? '音声エージェント' : 'Voice Agent'
     }
     return names[agentType as keyof typeof names] || agentType
   }
 
-  const filteredTasks = tasks.filter(task => {
-    const matchesFilter = filter === 'all' || task.status === filter
-    const matchesSearch = task.taskName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         task.lastAction.toLowerCase().includes(searchTerm.toLowerCase())
-    return matchesFilter && matchesSearch
-  })
+  // Only dispatcher agents can run again; voice rows are records of a conversation
+  const isRerunnable = (task: Task) => AGENT_IDS.includes(task.agentType as AgentId)
+
+  const runTaskAction = async (task: Task, action: (task: Task) => Promise<void>) => {
+    setActingTaskId(task.id)
+    try {
+      await action(task)
+      onTaskUpdate()
+    } catch (error) {
+      console.error('Task action failed:', error)
+    } finally {
+      setActingTaskId(null)
+    }
+  }
 
   const formatTime = (dateString: string) => {
     const date = new Date(dateString)
@@ -154,10 +288,35 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
               }
             </CardDescription>
           </div>
-          <Button variant="outline" size="sm" onClick={onTaskUpdate}>
-            <RefreshCw className="h-4 w-4 mr-2" />
-            {language === 'ja' ? '更新' : 'Refresh'}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Badge
+              variant="outline"
+              className="text-xs"
+              title={isLive
+                ? (language === 'ja' ? '変更はリアルタイムで反映されます' : 'Changes appear as they happen')
+                : (language === 'ja' ? '数秒ごとに自動更新します' : 'Refreshing every few seconds')}
+            >
+              <span className={`h-2 w-2 rounded-full mr-1.5 ${isLive ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'}`} />
+              {isLive
+                ? (language === 'ja' ? 'ライブ' : 'Live')
+                : (language === 'ja' ? '自動更新' : 'Auto')}
+            </Badge>
+            <ExportDialog
+              language={language}
+              title={{ ja: 'タスクログのエクスポート', en: 'Export Task Logs' }}
+              columns={TASK_EXPORT_COLUMNS}
+              fileBaseName="task-logs"
+              loadView={async () => toTaskExportRows(await listAllTasks(userId, query))}
+              loadRange={async (range) => {
+                const { from, to } = getRangeBounds(range)
+                return toTaskExportRows(await listTasksCreatedBetween(from, to, userId))
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={onTaskUpdate}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              {language === 'ja' ? '更新' : 'Refresh'}
+            </Button>
+          </div>
         </div>
       </CardHeader>
 
@@ -168,7 +327,7 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder={language === 'ja' ? 'タスクを検索...' : 'Search tasks...'}
+                placeholder={language === 'ja' ? 'タスク・顧客名で検索...' : 'Search tasks or customers...'}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
@@ -196,14 +355,53 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
               <SelectItem value="failed">
                 {language === 'ja' ? '失敗' : 'Failed'}
               </SelectItem>
+              <SelectItem value="cancelled">
+                {language === 'ja' ? 'キャンセル' : 'Cancelled'}
+              </SelectItem>
             </SelectContent>
           </Select>
+          <div className="flex gap-2">
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as TaskSortField)}>
+              <SelectTrigger className="w-full sm:w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="createdAt">
+                  {language === 'ja' ? '作成日時' : 'Created'}
+                </SelectItem>
+                <SelectItem value="updatedAt">
+                  {language === 'ja' ? '更新日時' : 'Updated'}
+                </SelectItem>
+                <SelectItem value="status">
+                  {language === 'ja' ? 'ステータス' : 'Status'}
+                </SelectItem>
+                <SelectItem value="agentType">
+                  {language === 'ja' ? 'エージェント' : 'Agent'}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              className="flex-shrink-0"
+              onClick={() => setOrder(order === 'desc' ? 'asc' : 'desc')}
+              title={order === 'desc'
+                ? (language === 'ja' ? '降順' : 'Descending')
+                : (language === 'ja' ? '昇順' : 'Ascending')}
+            >
+              {order === 'desc' ? <ArrowDown className="h-4 w-4" /> : <ArrowUp className="h-4 w-4" />}
+            </Button>
+          </div>
         </div>
 
         {/* Task List */}
         <ScrollArea className="h-[400px] w-full">
           <div className="space-y-3">
-            {filteredTasks.length === 0 ? (
+            {tasks.length === 0 && isLoading ? (
+              <div className="flex justify-center py-8 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : tasks.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <Activity className="h-8 w-8 mx-auto mb-2 opacity-50" />
                 <p className={language === 'ja' ? 'japanese' : ''}>
@@ -211,7 +409,7 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
                 </p>
               </div>
             ) : (
-              filteredTasks.map((task, index) => (
+              tasks.map((task, index) => (
                 <div key={task.id}>
                   <div className="flex items-start space-x-3 p-3 rounded-lg hover:bg-muted/50 transition-colors">
                     {/* Status Icon */}
@@ -256,12 +454,55 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
                             {task.keigoMode === 'formal' ? '敬語' : 'カジュアル'}
                           </Badge>
                         )}
+                        <DeliveryBadge output={task.output} />
                       </div>
                     </div>
 
                     {/* Actions */}
                     <div className="flex items-center space-x-1 flex-shrink-0">
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                      {canCancelTask(task) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          disabled={actingTaskId === task.id}
+                          onClick={() => runTaskAction(task, cancelTask)}
+                          title={language === 'ja' ? 'キャンセル' : 'Cancel'}
+                        >
+                          <Ban className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {isRerunnable(task) && canResumeTask(task) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          disabled={actingTaskId === task.id}
+                          onClick={() => runTaskAction(task, resumeTask)}
+                          title={language === 'ja' ? '失敗したステップから再開' : 'Resume from the failed step'}
+                        >
+                          <Play className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {isRerunnable(task) && canRetryTask(task) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          disabled={actingTaskId === task.id}
+                          onClick={() => runTaskAction(task, retryTask)}
+                          title={language === 'ja' ? '最初から再実行' : 'Retry from the start'}
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setSelectedTaskId(task.id)}
+                        title={language === 'ja' ? '詳細を表示' : 'View details'}
+                      >
                         <Eye className="h-3 w-3" />
                       </Button>
                       <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive hover:text-destructive">
@@ -269,20 +510,25 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
                       </Button>
                     </div>
                   </div>
-                  {index < filteredTasks.length - 1 && <Separator />}
+                  {index < tasks.length - 1 && <Separator />}
                 </div>
               ))
             )}
+            {hasMore && (
+              <div ref={sentinelRef} className="flex justify-center py-3 text-muted-foreground">
+                {isLoading && tasks.length > 0 && <Loader2 className="h-4 w-4 animate-spin" />}
+              </div>
+            )}
           </div>
         </ScrollArea>
 
         {/* Summary */}
-        {tasks.length > 0 && (
+        {total > 0 && (
           <div className="flex items-center justify-between text-sm text-muted-foreground pt-2 border-t">
             <span className={language === 'ja' ? 'japanese' : ''}>
               {language === 'ja' 
-                ? `${filteredTasks.length}件のタスク（全${tasks.length}件中）`
-                : `${filteredTasks.length} of ${tasks.length} tasks`
+                ? `${tasks.length}件のタスク（全${total}件中）`
+                : `${tasks.length} of ${total} tasks`
               }
             </span>
             <div className="flex items-center space-x-4">
@@ -300,6 +546,15 @@ const TaskLogs: React.FC<TaskLogsProps> = ({ tasks, language, onTaskUpdate }) =>
           </div>
         )}
       </CardContent>
+
+      <TaskDetailSheet
+        task={selectedTask}
+        agentName={selectedTask ? getAgentName(selectedTask.agentType) : ''}
+        language={language}
+        onOpenChange={(open) => {
+          if (!open) setSelectedTaskId(null)
+        }}
+      />
     </Card>
   )
 }
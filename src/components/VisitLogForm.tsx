@@ -0,0 +1,382 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Separator } from './ui/separator'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import CustomerPicker from './CustomerPicker'
+import { Clock, MapPin, Mic, Plus, Save, Trash2 } from 'lucide-react'
+import { blink } from '../blink/client'
+import { enqueueAgentTask, type TaskDispatcher } from '../lib/agents'
+import { getCustomerById } from '../lib/customers'
+import { registerDictationTarget } from '../lib/dictation'
+import {
+  createVisitLog,
+  extractVisitLogFields,
+  mergeVisitLogDictation,
+  type VisitLogDraft
+} from '../lib/visitLogs'
+
+interface VisitLogFormProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  language: 'ja' | 'en'
+  keigoMode: 'formal' | 'casual'
+  userId: string
+  customerId?: string
+  dispatcher: TaskDispatcher
+  onTaskCreated: () => void
+}
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+const emptyDraft = (customerId = ''): VisitLogDraft => ({
+  technician: '',
+  customerId,
+  arrivalTime: toLocalInput(new Date()),
+  departureTime: '',
+  equipmentSerials: [],
+  workPerformed: '',
+  partsUsed: [],
+  signOffName: '',
+  signedOffAt: ''
+})
+
+const VisitLogForm: React.FC<VisitLogFormProps> = ({
+  open,
+  onOpenChange,
+  language,
+  keigoMode,
+  userId,
+  customerId,
+  dispatcher,
+  onTaskCreated
+}) => {
+  const [draft, setDraft] = useState<VisitLogDraft>(emptyDraft(customerId))
+  const [serialInput, setSerialInput] = useState('')
+  const [lastDictation, setLastDictation] = useState('')
+  const [isExtracting, setIsExtracting] = useState(false)
+  const [isLocating, setIsLocating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  const draftRef = useRef(draft)
+  draftRef.current = draft
+
+  // Reset and prefill the technician whenever the form opens
+  useEffect(() => {
+    if (!open) return
+    setDraft(emptyDraft(customerId))
+    setLastDictation('')
+    setError('')
+    blink.auth.me()
+      .then(user => setDraft(prev => ({ ...prev, technician: prev.technician || user.displayName || user.email || '' })))
+      .catch(() => undefined)
+  }, [open, customerId])
+
+  // While open, dictation to the voice agent fills this form
+  useEffect(() => {
+    if (!open) return
+
+    return registerDictationTarget(async (text, lang) => {
+      setLastDictation(text)
+      setIsExtracting(true)
+      try {
+        const fields = await extractVisitLogFields(text, lang)
+        setDraft(mergeVisitLogDictation(draftRef.current, fields))
+        const filled = Object.keys(fields).length
+        return lang === 'ja'
+          ? (filled > 0 ? `訪問ログに${filled}項目を記入しました。` : '記入できる項目が見つかりませんでした。')
+          : (filled > 0 ? `Filled ${filled} field${filled === 1 ? '' : 's'} in the visit log.` : 'I could not find anything to fill in.')
+      } finally {
+        setIsExtracting(false)
+      }
+    })
+  }, [open])
+
+  const update = (changes: Partial<VisitLogDraft>) => setDraft(prev => ({ ...prev, ...changes }))
+
+  const addSerial = () => {
+    const serial = serialInput.trim()
+    if (!serial || draft.equipmentSerials.includes(serial)) return
+    update({ equipmentSerials: [...draft.equipmentSerials, serial] })
+    setSerialInput('')
+  }
+
+  const recordLocation = () => {
+    if (!navigator.geolocation) return
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        update({ latitude: position.coords.latitude, longitude: position.coords.longitude })
+        setIsLocating(false)
+      },
+      (geoError) => {
+        console.error('Failed to get location:', geoError)
+        setIsLocating(false)
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    )
+  }
+
+  const handleSave = async () => {
+    if (!draft.customerId || !draft.technician || !draft.arrivalTime) return
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const user = await blink.auth.me()
+      const log = await createVisitLog(user.id, {
+        ...draft,
+        arrivalTime: new Date(draft.arrivalTime).toISOString(),
+        departureTime: draft.departureTime ? new Date(draft.departureTime).toISOString() : ''
+      })
+      // Only for the task name, so a customer preselected on the dashboard is named too
+      const customer = await getCustomerById(draft.customerId)
+
+      // OpsLogger turns the log into a work report
+      await enqueueAgentTask({
+        userId: user.id,
+        agentId: 'ops',
+        taskName: `${language === 'ja' ? '訪問ログ' : 'Visit log'}: ${customer?.name || draft.customerId}`,
+        input: { customerId: draft.customerId, visitLogId: log.id },
+        language,
+        keigoMode
+      })
+      dispatcher.poke()
+      onTaskCreated()
+      onOpenChange(false)
+    } catch (saveError) {
+      console.error('Failed to save visit log:', saveError)
+      setError(saveError instanceof Error ? saveError.message : String(saveError))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isSignedOff = !!draft.signedOffAt
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className={language === 'ja' ? 'japanese' : ''}>
+            {language === 'ja' ? '訪問ログ' : 'Visit Log'}
+          </DialogTitle>
+          <DialogDescription className={`flex items-center ${language === 'ja' ? 'japanese' : ''}`}>
+            <Mic className={`h-3 w-3 mr-1 ${isExtracting ? 'text-primary animate-pulse' : ''}`} />
+            {language === 'ja'
+              ? '音声エージェントに話しかけると各項目に入力されます'
+              : 'Speak to the voice agent to fill in the fields'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {lastDictation && (
+          <p className={`text-xs rounded-md bg-muted/50 p-2 ${language === 'ja' ? 'japanese' : ''}`}>
+            「{lastDictation}」
+          </p>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="visitTechnician">{language === 'ja' ? '担当技術者' : 'Technician'} *</Label>
+              <Input
+                id="visitTechnician"
+                value={draft.technician}
+                onChange={(e) => update({ technician: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>{language === 'ja' ? '顧客' : 'Customer'} *</Label>
+              <CustomerPicker
+                userId={userId}
+                language={language}
+                value={draft.customerId}
+                onChange={(customer) => update({ customerId: customer.id })}
+                placeholder={language === 'ja' ? '選択...' : 'Select...'}
+              />
+            </div>
+            <div>
+              <Label htmlFor="visitArrival">{language === 'ja' ? '到着時刻' : 'Arrival'} *</Label>
+              <Input
+                id="visitArrival"
+                type="datetime-local"
+                value={draft.arrivalTime}
+                onChange={(e) => update({ arrivalTime: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="visitDeparture">{language === 'ja' ? '退出時刻' : 'Departure'}</Label>
+              <div className="flex space-x-1">
+                <Input
+                  id="visitDeparture"
+                  type="datetime-local"
+                  value={draft.departureTime}
+                  onChange={(e) => update({ departureTime: e.target.value })}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-10 px-2"
+                  onClick={() => update({ departureTime: toLocalInput(new Date()) })}
+                  title={language === 'ja' ? '現在時刻' : 'Now'}
+                >
+                  <Clock className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="visitSerial">{language === 'ja' ? '機器シリアル番号' : 'Equipment serials'}</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="visitSerial"
+                value={serialInput}
+                onChange={(e) => setSerialInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    addSerial()
+                  }
+                }}
+                className="font-mono"
+              />
+              <Button variant="outline" size="sm" className="h-10" onClick={addSerial}>
+                <Plus className="h-3 w-3" />
+              </Button>
+            </div>
+            {draft.equipmentSerials.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {draft.equipmentSerials.map(serial => (
+                  <Badge
+                    key={serial}
+                    variant="secondary"
+                    className="text-xs font-mono cursor-pointer"
+                    onClick={() => update({ equipmentSerials: draft.equipmentSerials.filter(s => s !== serial) })}
+                  >
+                    {serial} ×
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="visitWork">{language === 'ja' ? '作業内容' : 'Work performed'}</Label>
+            <Textarea
+              id="visitWork"
+              rows={4}
+              value={draft.workPerformed}
+              onChange={(e) => update({ workPerformed: e.target.value })}
+              className={language === 'ja' ? 'japanese' : ''}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{language === 'ja' ? '使用部品' : 'Parts used'}</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ partsUsed: [...draft.partsUsed, { name: '', quantity: 1 }] })}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                {language === 'ja' ? '追加' : 'Add'}
+              </Button>
+            </div>
+            {draft.partsUsed.map((part, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Input
+                  value={part.name}
+                  placeholder={language === 'ja' ? '部品名' : 'Part'}
+                  onChange={(e) => update({
+                    partsUsed: draft.partsUsed.map((p, i) => i === index ? { ...p, name: e.target.value } : p)
+                  })}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={part.quantity}
+                  onChange={(e) => update({
+                    partsUsed: draft.partsUsed.map((p, i) => i === index ? { ...p, quantity: Number(e.target.value) || 1 } : p)
+                  })}
+                  className="w-20"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-destructive hover:text-destructive flex-shrink-0"
+                  onClick={() => update({ partsUsed: draft.partsUsed.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground text-xs">
+              {draft.latitude != null && draft.longitude != null
+                ? `${draft.latitude.toFixed(5)}, ${draft.longitude.toFixed(5)}`
+                : (language === 'ja' ? '位置情報未記録' : 'No location recorded')}
+            </span>
+            <Button variant="outline" size="sm" onClick={recordLocation} disabled={isLocating}>
+              <MapPin className="h-3 w-3 mr-1" />
+              {language === 'ja' ? '現在地を記録' : 'Record Location'}
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="visitSignOff">{language === 'ja' ? 'お客様確認（署名）' : 'Customer sign-off'}</Label>
+            <Input
+              id="visitSignOff"
+              value={draft.signOffName}
+              placeholder={language === 'ja' ? 'お客様のお名前' : 'Customer name'}
+              onChange={(e) => update({ signOffName: e.target.value, signedOffAt: '' })}
+              className={language === 'ja' ? 'japanese' : ''}
+            />
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="visitSignOffConfirm"
+                checked={isSignedOff}
+                disabled={!draft.signOffName}
+                onCheckedChange={(checked) => update({ signedOffAt: checked ? new Date().toISOString() : '' })}
+              />
+              <Label htmlFor="visitSignOffConfirm" className={`text-sm font-normal ${language === 'ja' ? 'japanese' : ''}`}>
+                {language === 'ja' ? 'お客様が作業内容を確認しました' : 'Customer confirmed the work'}
+              </Label>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex space-x-2">
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !draft.customerId || !draft.technician || !draft.arrivalTime}
+              className="flex-1"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {language === 'ja' ? '保存して報告書作成' : 'Save & Draft Report'}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              {language === 'ja' ? 'キャンセル' : 'Cancel'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default VisitLogForm
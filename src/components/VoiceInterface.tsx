@@ -5,10 +5,16 @@ import { Badge } from './ui/badge'
 import { Textarea } from './ui/textarea'
 import { Mic, MicOff, Send, Volume2, VolumeX, Waves } from 'lucide-react'
 import { blink } from '../blink/client'
+import { describePlansForPrompt, listPlans } from '../lib/plans'
+import { createTask, failTask, updateTask } from '../lib/tasks'
+import { recordTaskEvent, userActor } from '../lib/taskEvents'
+import type { Task } from '../types/task'
 
 interface VoiceInterfaceProps {
   language: 'ja' | 'en'
   keigoMode: 'formal' | 'casual'
+  // Commands given while a customer is selected are linked to it
+  customerId?: string
   isActive: boolean
   onActiveChange: (active: boolean) => void
   onTaskCreated: () => void
@@ -17,6 +23,7 @@ interface VoiceInterfaceProps {
 const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
   language,
   keigoMode,
+  customerId,
   isActive,
   onActiveChange,
   onTaskCreated
@@ -85,33 +92,37 @@ const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
     
     setIsProcessing(true)
     setResponse('')
+    let task: Task | null = null
     
     try {
       // Create a task for the command
-      const taskId = `task_${Date.now()}`
       const user = await blink.auth.me()
       
-      await blink.db.tasks.create({
-        id: taskId,
+      task = await createTask({
         userId: user.id,
         agentType: 'voice_command',
         taskName: command.substring(0, 100),
         status: 'processing',
         lastAction: 'Voice command received',
-        inputData: JSON.stringify({ command, language, keigoMode }),
+        input: { command, language, keigoMode },
+        customerId,
         language,
         keigoMode
       })
       
+      const planCatalog = describePlansForPrompt(await listPlans(), language)
+
       // Enhanced AI prompt for better telecom responses
-      const aiResponse = await blink.ai.generateText({
-        prompt: `You are BRYTT AI, a sophisticated multilingual agentic platform for telecom operations in Japan.
+      const prompt = `You are BRYTT AI, a sophisticated multilingual agentic platform for telecom operations in Japan.
 
 User command: "${command}"
 Language: ${language}
 Keigo mode: ${keigoMode}
 Context: Telecom onboarding and field operations
 
+Available plans (only recommend these):
+${planCatalog}
+
 Instructions:
 - Respond in ${language === 'ja' ? 'Japanese' : 'English'} with ${keigoMode === 'formal' ? 'formal/keigo' : 'casual'} tone
 - For telecom tasks (customer registration, SIM contracts, email sending, field logging), provide specific action confirmations
@@ -119,18 +130,23 @@ Instructions:
 - If the command involves multiple steps, acknowledge each step briefly
 
 Example Japanese formal response: "承知いたしました。顧客情報の登録、SIM契約書の生成、メール送信を順次実行いたします。"
-Example Japanese casual response: "了解！顧客情報を登録して、契約書を作って、メールで送るね。"`,
-        maxTokens: 150
-      })
+Example Japanese casual response: "了解！顧客情報を登録して、契約書を作って、メールで送るね。"`
+      const aiResponse = await blink.ai.generateText({ prompt, maxTokens: 150 })
+      const event = { taskId: task.id, userId: user.id, actor: userActor(user.id) }
+      await recordTaskEvent({ ...event, type: 'ai_call', message: 'Voice command response', data: { prompt, response: aiResponse.text } })
       
       setResponse(aiResponse.text)
       
       // Update task status
-      await blink.db.tasks.update(taskId, {
+      await updateTask(task.id, {
         status: 'completed',
         lastAction: 'AI response generated',
-        outputData: JSON.stringify({ response: aiResponse.text })
+        output: {
+          response: aiResponse.text,
+          ai: [{ prompt, response: aiResponse.text, createdAt: new Date().toISOString() }]
+        }
       })
+      await recordTaskEvent({ ...event, type: 'status_changed', message: 'AI response generated', data: { status: 'completed' } })
       
       onTaskCreated()
       
@@ -142,6 +158,12 @@ Example Japanese casual response: "了解！顧客情報を登録して、契約
       
     } catch (error) {
       console.error('Error processing command:', error)
+      if (task) {
+        await failTask(task, error, userActor(task.userId)).catch(failError =>
+          console.error('Failed to record command failure:', failError)
+        )
+        onTaskCreated()
+      }
       const errorMsg = language === 'ja' 
         ? 'エラーが発生しました。もう一度お試しください。'
         : 'An error occurred. Please try again.'
@@ -154,7 +176,7 @@ Example Japanese casual response: "了解！顧客情報を登録して、契約
     } finally {
       setIsProcessing(false)
     }
-  }, [language, keigoMode, onTaskCreated, speakResponse])
+  }, [language, keigoMode, customerId, onTaskCreated, speakResponse])
 
   // High-quality audio transcription
   const transcribeAudio = useCallback(async (audioBlob: Blob) => {
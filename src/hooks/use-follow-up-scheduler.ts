@@ -0,0 +1,31 @@
+import * as React from "react"
+import { releaseDueFollowUps } from "../lib/scheduling"
+
+const RELEASE_INTERVAL_MS = 60 * 1000
+
+// Releases due scheduled follow-ups into the task queue while the dashboard is mounted
+export function useFollowUpScheduler(userId: string, onReleased: () => void) {
+  const onReleasedRef = React.useRef(onReleased)
+  onReleasedRef.current = onReleased
+
+  React.useEffect(() => {
+    let running = false
+
+    const release = async () => {
+      if (running) return
+      running = true
+      try {
+        const released = await releaseDueFollowUps(userId)
+        if (released.length > 0) onReleasedRef.current()
+      } catch (error) {
+        console.error("Failed to release scheduled follow-ups:", error)
+      } finally {
+        running = false
+      }
+    }
+
+    release()
+    const timer = setInterval(release, RELEASE_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [userId])
+}
@@ -0,0 +1,68 @@
+import * as React from "react"
+import { subscribeToChanges, type LiveTopic } from "../lib/liveUpdates"
+
+// Realtime messages arrive in bursts (a step writes several events), so they are coalesced
+const COALESCE_MS = 300
+// Polling catches writers that do not publish; it runs faster while realtime is down
+const POLL_INTERVAL_MS = 30 * 1000
+const FALLBACK_POLL_INTERVAL_MS = 5 * 1000
+
+// Calls onChange when tasks or customers change, from realtime messages while connected and
+// from polling otherwise. The callback reloads the data and is expected to skip unchanged rows.
+export function useLiveUpdates(userId: string, onChange: (topic: LiveTopic) => void) {
+  const onChangeRef = React.useRef(onChange)
+  onChangeRef.current = onChange
+  const [connected, setConnected] = React.useState(false)
+
+  React.useEffect(() => {
+    let cancelled = false
+    let unsubscribe: (() => void) | null = null
+    const timers = new Map<LiveTopic, ReturnType<typeof setTimeout>>()
+
+    const notify = (topic: LiveTopic) => {
+      if (timers.has(topic)) return
+      timers.set(topic, setTimeout(() => {
+        timers.delete(topic)
+        onChangeRef.current(topic)
+      }, COALESCE_MS))
+    }
+
+    subscribeToChanges(userId, change => notify(change.topic))
+      .then(stop => {
+        if (cancelled) {
+          stop()
+          return
+        }
+        unsubscribe = stop
+        setConnected(true)
+      })
+      .catch(error => {
+        console.error("Failed to subscribe to live updates, falling back to polling:", error)
+      })
+
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+      timers.forEach(timer => clearTimeout(timer))
+      setConnected(false)
+    }
+  }, [userId])
+
+  React.useEffect(() => {
+    const poll = () => {
+      if (document.hidden) return
+      onChangeRef.current("tasks")
+      onChangeRef.current("customers")
+    }
+
+    const timer = setInterval(poll, connected ? POLL_INTERVAL_MS : FALLBACK_POLL_INTERVAL_MS)
+    // Background tabs skip polls, so catch up as soon as the tab is visible again
+    document.addEventListener("visibilitychange", poll)
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener("visibilitychange", poll)
+    }
+  }, [userId, connected])
+
+  return { connected }
+}
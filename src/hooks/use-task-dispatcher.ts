@@ -0,0 +1,22 @@
+import * as React from "react"
+import { TaskDispatcher } from "../lib/agents"
+
+// Runs the queue dispatcher for the signed-in operator while the dashboard is mounted
+export function useTaskDispatcher(userId: string, onTaskChanged: () => void) {
+  const onTaskChangedRef = React.useRef(onTaskChanged)
+  onTaskChangedRef.current = onTaskChanged
+
+  const dispatcher = React.useMemo(
+    () => new TaskDispatcher(userId, () => onTaskChangedRef.current()),
+    [userId]
+  )
+
+  React.useEffect(() => {
+    dispatcher.start()
+    return () => dispatcher.stop()
+  }, [dispatcher])
+
+  const snapshot = React.useSyncExternalStore(dispatcher.subscribe, dispatcher.getSnapshot)
+
+  return { dispatcher, snapshot }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { formatPostalAddress, formatPostalCode, isValidPostalCode, joinAddress, removePostalCode, splitAddress } from './address'
+
+describe('splitAddress', () => {
+  it.each([
+    [
+      '〒150-0002 東京都渋谷区渋谷2丁目21-1 渋谷ビル5F',
+      { postalCode: '150-0002', prefecture: '東京都', municipality: '渋谷区', town: '渋谷', addressLine: '2丁目21-1', building: '渋谷ビル5F' }
+    ],
+    [
+      '1500043 東京都渋谷区道玄坂一丁目2番3号',
+      { postalCode: '150-0043', prefecture: '東京都', municipality: '渋谷区', town: '道玄坂', addressLine: '一丁目2番3号', building: '' }
+    ],
+    [
+      '大阪府大阪市北区梅田３－１－１　グランフロント１０階',
+      { postalCode: '', prefecture: '大阪府', municipality: '大阪市北区', town: '梅田', addressLine: '3-1-1', building: 'グランフロント10階' }
+    ],
+    [
+      // A designated city fills in the prefecture left out
+      '横浜市中区山下町1',
+      { postalCode: '', prefecture: '神奈川県', municipality: '横浜市中区', town: '山下町', addressLine: '1', building: '' }
+    ],
+    [
+      '北海道札幌市中央区北一条西2丁目1番地',
+      { postalCode: '', prefecture: '北海道', municipality: '札幌市中央区', town: '北一条西', addressLine: '2丁目1番地', building: '' }
+    ],
+    [
+      '長野県北佐久郡軽井沢町軽井沢1323-1',
+      { postalCode: '', prefecture: '長野県', municipality: '北佐久郡軽井沢町', town: '軽井沢', addressLine: '1323-1', building: '' }
+    ],
+    [
+      // 市 and 町 inside the city name
+      '東京都町田市原町田6-12-20',
+      { postalCode: '', prefecture: '東京都', municipality: '町田市', town: '原町田', addressLine: '6-12-20', building: '' }
+    ],
+    [
+      '三重県四日市市諏訪町1-5',
+      { postalCode: '', prefecture: '三重県', municipality: '四日市市', town: '諏訪町', addressLine: '1-5', building: '' }
+    ],
+    [
+      '東京都東村山市本町1-2-3',
+      { postalCode: '', prefecture: '東京都', municipality: '東村山市', town: '本町', addressLine: '1-2-3', building: '' }
+    ],
+    [
+      '京都府京都市中京区寺町通御池上る上本能寺前町488',
+      { postalCode: '', prefecture: '京都府', municipality: '京都市中京区', town: '寺町通御池上る上本能寺前町', addressLine: '488', building: '' }
+    ]
+  ])('splits %s', (address, parts) => {
+    expect(splitAddress(address)).toEqual(parts)
+  })
+
+  it('joins the parts back into one line', () => {
+    expect(joinAddress(splitAddress('〒150-0002 東京都渋谷区渋谷2丁目21-1 渋谷ビル5F'))).toBe('東京都渋谷区渋谷2丁目21-1 渋谷ビル5F')
+  })
+})
+
+describe('postal codes', () => {
+  it.each([
+    ['150-0002', true, '150-0002'],
+    ['1500002', true, '150-0002'],
+    ['〒１５０－０００２', true, '150-0002'],
+    ['150-000', false, '150-000'],
+    ['', false, '']
+  ])('%j is valid: %s, formatted %j', (value, valid, formatted) => {
+    expect(isValidPostalCode(value)).toBe(valid)
+    expect(formatPostalCode(value)).toBe(formatted)
+  })
+
+  it('takes a code written in front of the address out of it', () => {
+    expect(removePostalCode('〒150-0002 東京都渋谷区渋谷')).toBe('東京都渋谷区渋谷')
+  })
+
+  it('prints the code in front of the address', () => {
+    expect(formatPostalAddress('東京都渋谷区渋谷2-21-1', '1500002')).toBe('〒150-0002 東京都渋谷区渋谷2-21-1')
+    expect(formatPostalAddress('〒150-0043 東京都渋谷区道玄坂1-2-3')).toBe('〒150-0043 東京都渋谷区道玄坂1-2-3')
+    expect(formatPostalAddress('東京都渋谷区渋谷2-21-1')).toBe('東京都渋谷区渋谷2-21-1')
+  })
+})
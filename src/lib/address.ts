@@ -0,0 +1,145 @@
+// Splits Japanese addresses as written on application forms into the parts contracts and
+// technician dispatch need: 〒150-0002 東京都 渋谷区 渋谷 2丁目21-1 渋谷ビル5F
+
+export interface AddressParts {
+  postalCode: string
+  prefecture: string
+  // 市区町村, including the 郡 and the ward of a designated city, e.g. 横浜市西区
+  municipality: string
+  // 町域, e.g. 道玄坂
+  town: string
+  // 丁目・番地・号, e.g. 2丁目21-1
+  addressLine: string
+  // Building, floor and room
+  building: string
+}
+
+export const PREFECTURES = [
+  '北海道', '青森県', '岩手県', '宮城県', '秋田県', '山形県', '福島県',
+  '茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県',
+  '新潟県', '富山県', '石川県', '福井県', '山梨県', '長野県', '岐阜県',
+  '静岡県', '愛知県', '三重県', '滋賀県', '京都府', '大阪府', '兵庫県',
+  '奈良県', '和歌山県', '鳥取県', '島根県', '岡山県', '広島県', '山口県',
+  '徳島県', '香川県', '愛媛県', '高知県', '福岡県', '佐賀県', '長崎県',
+  '熊本県', '大分県', '宮崎県', '鹿児島県', '沖縄県'
+]
+
+// 政令指定都市, whose addresses carry a ward after the city; also fills in a prefecture left out
+const DESIGNATED_CITIES: Record<string, string> = {
+  札幌市: '北海道',
+  仙台市: '宮城県',
+  さいたま市: '埼玉県',
+  千葉市: '千葉県',
+  横浜市: '神奈川県',
+  川崎市: '神奈川県',
+  相模原市: '神奈川県',
+  新潟市: '新潟県',
+  静岡市: '静岡県',
+  浜松市: '静岡県',
+  名古屋市: '愛知県',
+  京都市: '京都府',
+  大阪市: '大阪府',
+  堺市: '大阪府',
+  神戸市: '兵庫県',
+  岡山市: '岡山県',
+  広島市: '広島県',
+  北九州市: '福岡県',
+  福岡市: '福岡県',
+  熊本市: '熊本県'
+}
+
+// Municipalities with 市, 町 or 村 before the end of their name, which the generic pattern
+// would cut short
+const MUNICIPALITY_EXCEPTIONS = [
+  '四日市市', '廿日市市', '野々市市', '市川市', '市原市', '町田市', '大町市', '十日町市',
+  '村山市', '東村山市', '武蔵村山市', '羽村市', '村上市', '田村市', '大村市',
+  '市川三郷町', '上市町', '下市町', '市貝町', '玉村町', '大町町'
+]
+
+const POSTAL_CODE = /^〒?\s*(\d{3})-?(\d{4})(?!\d)[\s,、]*/
+
+// Where the 丁目・番地 part starts: Arabic numerals, or kanji numerals followed by 丁目 or 番
+const ADDRESS_LINE_START = /(?:\d|[一二三四五六七八九十百]+(?:丁目|番))/
+
+// The 丁目・番地・号 part itself, including Hokkaido's 条 and 線; what follows is the building
+const ADDRESS_LINE = /^(?:(?:\d+|[一二三四五六七八九十百]+)(?:丁目|番地|番|号|条[東西南北]?|線|の|-)?)+/
+
+export const normalizePostalCode = (value: string) => value.normalize('NFKC').replace(/\D/g, '')
+
+export const isValidPostalCode = (value: string) => /^\d{7}$/.test(normalizePostalCode(value))
+
+// 1500002 → 150-0002; anything that is not seven digits is returned as typed
+export const formatPostalCode = (value: string) => {
+  const digits = normalizePostalCode(value)
+  return digits.length === 7 ? `${digits.slice(0, 3)}-${digits.slice(3)}` : value.trim()
+}
+
+// Address without a postal code written in front of it; the code belongs in its own field
+export const removePostalCode = (address: string) => address.normalize('NFKC').trim().replace(POSTAL_CODE, '')
+
+// Full-width characters and the many dashes used between numbers
+const normalizeAddressText = (address: string) =>
+  address
+    .normalize('NFKC')
+    .replace(/(\d)\s*[ー－―‐−–]\s*(?=\d)/g, '$1-')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+const splitMunicipality = (text: string, prefecture: string) => {
+  const designated = Object.keys(DESIGNATED_CITIES).find(city => text.startsWith(city))
+  if (designated) {
+    const ward = text.slice(designated.length).match(/^[^\d\s]+?区/)
+    return designated + (ward ? ward[0] : '')
+  }
+  const county = text.match(/^[^市区\d\s]+?郡/)
+  const rest = county ? text.slice(county[0].length) : text
+  const exception = MUNICIPALITY_EXCEPTIONS.find(name => rest.startsWith(name))
+  if (exception) return (county ? county[0] : '') + exception
+  // Tokyo's 23 wards; elsewhere a 区 only follows a designated city
+  const ward = prefecture === '東京都' && !county ? rest.match(/^[^市町村\d\s]+?区/) : null
+  if (ward) return ward[0]
+  const municipality = rest.match(county ? /^[^\d\s]+?[町村]/ : /^[^\d\s]+?[市区町村]/)
+  return municipality ? (county ? county[0] : '') + municipality[0] : ''
+}
+
+export const splitAddress = (address: string): AddressParts => {
+  let text = normalizeAddressText(address)
+
+  const postal = text.match(POSTAL_CODE)
+  const postalCode = postal ? `${postal[1]}-${postal[2]}` : ''
+  if (postal) text = text.slice(postal[0].length)
+
+  let prefecture = PREFECTURES.find(name => text.startsWith(name)) || ''
+  text = text.slice(prefecture.length).trim()
+  if (!prefecture) {
+    const city = Object.keys(DESIGNATED_CITIES).find(name => text.startsWith(name))
+    if (city) prefecture = DESIGNATED_CITIES[city]
+  }
+
+  const municipality = splitMunicipality(text, prefecture)
+  text = text.slice(municipality.length).trim()
+
+  const lineStart = text.search(ADDRESS_LINE_START)
+  const town = (lineStart < 0 ? text : text.slice(0, lineStart)).trim()
+  text = lineStart < 0 ? '' : text.slice(lineStart)
+
+  const line = text.match(ADDRESS_LINE)
+  const addressLine = line ? line[0].replace(/-$/, '') : ''
+  const building = (line ? text.slice(line[0].length) : text).replace(/^[\s,、]+/, '').trim()
+
+  return { postalCode, prefecture, municipality, town, addressLine, building }
+}
+
+// One line for labels and documents; the postal code is left to callers that print it
+export const joinAddress = (parts: Partial<AddressParts>) => {
+  const street = [parts.prefecture, parts.municipality, parts.town, parts.addressLine].filter(Boolean).join('')
+  return [street, parts.building].filter(Boolean).join(' ')
+}
+
+// 〒150-0002 東京都渋谷区渋谷2丁目21-1, for contracts and dispatch notes
+export const formatPostalAddress = (address: string, postalCode = '') => {
+  const parts = splitAddress(address)
+  const code = postalCode || parts.postalCode
+  const line = joinAddress(parts) || address.trim()
+  return code ? `〒${formatPostalCode(code)} ${line}` : line
+}
@@ -0,0 +1,212 @@
+import { runAgent, type AgentId, type AgentProgress } from './engine'
+import { claimPendingTask, failTask, listTasks, sweepStaleTasks } from '../tasks'
+import { recordTaskEvent } from '../taskEvents'
+import type { Task } from '../../types/task'
+import { agentDefinitions } from './registry'
+
+export const AGENT_IDS: AgentId[] = ['onboard', 'followup', 'ops']
+
+export const DEFAULT_CONCURRENCY: Record<AgentId, number> = {
+  onboard: 2,
+  followup: 3,
+  ops: 2
+}
+
+// Upper bound per agent, whatever the settings input or stored value says
+export const MAX_CONCURRENCY = 10
+
+const CONCURRENCY_STORAGE_KEY = 'brytt.agentConcurrency'
+const POLL_INTERVAL_MS = 3000
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+export interface QueueSnapshot {
+  limits: Record<AgentId, number>
+  running: Record<AgentId, number>
+  queued: Record<AgentId, number>
+  // Progress of the runs owned by this dispatcher, keyed by task id
+  progress: Record<string, AgentProgress & { agentId: AgentId }>
+  lastErrors: Record<AgentId, string>
+}
+
+const emptyCounts = (): Record<AgentId, number> => ({ onboard: 0, followup: 0, ops: 0 })
+
+const clampLimit = (limit: number) => Math.min(Math.max(0, Math.floor(limit) || 0), MAX_CONCURRENCY)
+
+export const loadConcurrencyLimits = (): Record<AgentId, number> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONCURRENCY_STORAGE_KEY) || '{}')
+    const limits = { ...DEFAULT_CONCURRENCY }
+    AGENT_IDS.forEach(agentId => {
+      if (stored[agentId] !== undefined) limits[agentId] = clampLimit(Number(stored[agentId]))
+    })
+    return limits
+  } catch {
+    return { ...DEFAULT_CONCURRENCY }
+  }
+}
+
+export class TaskDispatcher {
+  private readonly userId: string
+  private readonly dispatcherId = `dispatcher_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+  private readonly listeners = new Set<() => void>()
+  private readonly onTaskChanged?: () => void
+  private timer: ReturnType<typeof setInterval> | null = null
+  private ticking = false
+  private lastSweep = 0
+  private snapshot: QueueSnapshot = {
+    limits: loadConcurrencyLimits(),
+    running: emptyCounts(),
+    queued: emptyCounts(),
+    progress: {},
+    lastErrors: { onboard: '', followup: '', ops: '' }
+  }
+
+  constructor(userId: string, onTaskChanged?: () => void) {
+    this.userId = userId
+    this.onTaskChanged = onTaskChanged
+  }
+
+  start() {
+    if (this.timer) return
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS)
+    this.tick()
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  setLimit(agentId: AgentId, limit: number) {
+    const limits = { ...this.snapshot.limits, [agentId]: clampLimit(limit) }
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, JSON.stringify(limits))
+    this.update({ limits })
+    this.tick()
+  }
+
+  // Polls the queue now instead of waiting for the next interval
+  poke() {
+    this.tick()
+  }
+
+  private update(partial: Partial<QueueSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...partial }
+    this.listeners.forEach(listener => listener())
+  }
+
+  private async tick() {
+    if (this.ticking) return
+    this.ticking = true
+
+    try {
+      if (Date.now() - this.lastSweep > SWEEP_INTERVAL_MS) {
+        this.lastSweep = Date.now()
+        const swept = await sweepStaleTasks(this.userId, AGENT_IDS, Object.keys(this.snapshot.progress))
+        if (swept.length > 0) this.onTaskChanged?.()
+      }
+
+      const rows = await listTasks(this.userId, { status: ['pending', 'processing'], order: 'asc' })
+
+      const running = emptyCounts()
+      const queued = emptyCounts()
+      const pending: Task[] = []
+
+      rows.forEach(row => {
+        const agentId = row.agentType as AgentId
+        if (!AGENT_IDS.includes(agentId)) return
+        if (row.status === 'processing') {
+          running[agentId]++
+        } else {
+          queued[agentId]++
+          pending.push(row)
+        }
+      })
+
+      this.update({ running, queued })
+
+      for (const row of pending) {
+        const agentId = row.agentType as AgentId
+        if (running[agentId] >= this.snapshot.limits[agentId]) continue
+        if (await this.claim(row)) {
+          running[agentId]++
+          queued[agentId]--
+          this.update({ running: { ...running }, queued: { ...queued } })
+          this.execute(row, agentId)
+        }
+      }
+    } catch (error) {
+      console.error('Task dispatcher error:', error)
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  // Another browser may poll the same row, or the operator may cancel it after this poll; the
+  // claim only succeeds while the row is still pending
+  private async claim(row: Task) {
+    if (!(await claimPendingTask(row.id, this.userId, this.dispatcherId, 'Picked up by dispatcher'))) return false
+
+    await recordTaskEvent({
+      taskId: row.id,
+      userId: this.userId,
+      type: 'status_changed',
+      actor: `dispatcher:${this.dispatcherId}`,
+      message: 'Picked up by dispatcher',
+      data: { from: row.status, status: 'processing' }
+    })
+    return true
+  }
+
+  private async execute(row: Task, agentId: AgentId) {
+    this.onTaskChanged?.()
+
+    try {
+      const result = await runAgent(agentDefinitions[agentId], {
+        taskId: row.id,
+        userId: this.userId,
+        language: row.language,
+        keigoMode: row.keigoMode,
+        input: row.input,
+        resumeFrom: row.resumeFromStep
+          ? { stepIndex: row.resumeFromStep, outputs: row.output?.steps || {}, ai: row.output?.ai }
+          : undefined,
+        onProgress: (progress) => {
+          this.update({ progress: { ...this.snapshot.progress, [row.id]: { ...progress, agentId } } })
+        }
+      })
+
+      this.update({
+        lastErrors: {
+          ...this.snapshot.lastErrors,
+          [agentId]: result.status === 'failed' ? result.error?.message || '' : ''
+        }
+      })
+    } catch (error) {
+      console.error('Agent execution error:', error)
+      // Anything that escaped the engine would otherwise leave the row stuck in processing
+      try {
+        await failTask(row, error, `dispatcher:${this.dispatcherId}`)
+      } catch (failError) {
+        console.error('Failed to record task failure:', failError)
+      }
+      this.update({ lastErrors: { ...this.snapshot.lastErrors, [agentId]: error instanceof Error ? error.message : String(error) } })
+    } finally {
+      const progress = { ...this.snapshot.progress }
+      delete progress[row.id]
+      this.update({ progress })
+      this.onTaskChanged?.()
+      this.tick()
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const getTask = vi.fn()
+const updateTask = vi.fn()
+const getCustomerById = vi.fn()
+vi.mock('../tasks', () => ({
+  getTask: (...args: unknown[]) => getTask(...args),
+  updateTask: (...args: unknown[]) => updateTask(...args)
+}))
+vi.mock('../taskEvents', () => ({
+  agentActor: (agentId: string) => `agent:${agentId}`,
+  recordTaskEvent: async () => {}
+}))
+vi.mock('../customers', () => ({
+  getCustomerById: (...args: unknown[]) => getCustomerById(...args)
+}))
+
+const { runAgent } = await import('./engine')
+const { getCustomer, loadCustomerStep } = await import('./steps')
+
+const customer = { id: 'customer_1', name: '田中 太郎', phone: '***-****-5678', email: 'taro@example.com' }
+
+beforeEach(() => {
+  getTask.mockReset()
+  getTask.mockResolvedValue({ status: 'processing' })
+  updateTask.mockReset()
+  getCustomerById.mockReset()
+  getCustomerById.mockResolvedValue(customer)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+const run = (outputs: Record<string, any>, stepIndex: number, seen: unknown[]) =>
+  runAgent(
+    {
+      id: 'followup',
+      name: { ja: 'フォローアップ', en: 'Follow-up' },
+      steps: [
+        loadCustomerStep,
+        { id: 'compose', label: { ja: '作成', en: 'Compose' }, run: async () => 'draft' },
+        {
+          id: 'send',
+          label: { ja: '送信', en: 'Send' },
+          run: async context => {
+            seen.push(getCustomer(context), context.outputs.compose)
+            return 'sent'
+          }
+        }
+      ]
+    },
+    {
+      taskId: 'task_1',
+      userId: 'user_1',
+      language: 'ja',
+      keigoMode: 'formal',
+      input: { customerId: 'customer_1' },
+      resumeFrom: { stepIndex, outputs }
+    }
+  )
+
+describe('runAgent resume', () => {
+  it('loads the customer again instead of reusing the sealed copy', async () => {
+    const seen: unknown[] = []
+    const sealed = { ...customer, email: 'sealed:v1:email:AbCd' }
+
+    const result = await run({ loadCustomer: sealed, compose: 'draft from the first run' }, 2, seen)
+
+    expect(result.status).toBe('completed')
+    expect(getCustomerById).toHaveBeenCalledTimes(1)
+    expect(getCustomerById).toHaveBeenCalledWith('customer_1')
+    expect(seen).toEqual([customer, 'draft from the first run'])
+    expect(result.outputs.loadCustomer).toEqual(customer)
+  })
+
+  it('fails the run when the customer can no longer be loaded', async () => {
+    getCustomerById.mockResolvedValue(null)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await expect(run({ loadCustomer: customer, compose: 'draft' }, 2, [])).rejects.toThrow('Customer customer_1 not found')
+  })
+})
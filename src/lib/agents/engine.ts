@@ -0,0 +1,266 @@
+import { getTask, updateTask } from '../tasks'
+import { agentActor, recordTaskEvent, type NewTaskEvent } from '../taskEvents'
+import type { TaskAiExchange } from '../../types/task'
+
+export type AgentId = 'onboard' | 'followup' | 'ops'
+
+export interface LocalizedLabel {
+  ja: string
+  en: string
+}
+
+export interface AgentRunContext {
+  taskId: string
+  userId: string
+  language: 'ja' | 'en'
+  keigoMode: 'formal' | 'casual'
+  input: Record<string, any>
+  // Outputs of the steps that already finished, keyed by step id
+  outputs: Record<string, any>
+  // Model calls made so far; saved with the task output
+  ai: TaskAiExchange[]
+  recordAi: (prompt: string, response: string) => void
+}
+
+export interface AgentStep<TOutput = unknown> {
+  id: string
+  label: LocalizedLabel
+  // Extra attempts before the step (and the run) is marked as failed
+  retries?: number
+  // Run again when a run resumes after this step, instead of reusing the saved output. For steps
+  // that load customer data: saved outputs keep protected values sealed.
+  rerunOnResume?: boolean
+  run: (context: AgentRunContext) => Promise<TOutput>
+}
+
+export interface AgentDefinition {
+  id: AgentId
+  name: LocalizedLabel
+  steps: AgentStep[]
+}
+
+export interface AgentProgress {
+  taskId: string
+  stepIndex: number
+  totalSteps: number
+  progress: number
+  stepLabel: string
+}
+
+export interface AgentRunOptions {
+  taskId: string
+  userId: string
+  language: 'ja' | 'en'
+  keigoMode: 'formal' | 'casual'
+  input: Record<string, any>
+  // Skips the steps before stepIndex, reusing what they produced in an earlier run unless they
+  // are marked rerunOnResume
+  resumeFrom?: {
+    stepIndex: number
+    outputs: Record<string, any>
+    ai?: TaskAiExchange[]
+  }
+  onProgress?: (progress: AgentProgress) => void
+}
+
+export interface AgentRunResult {
+  status: 'completed' | 'failed' | 'cancelled'
+  outputs: Record<string, any>
+  error?: AgentStepError
+}
+
+export class AgentStepError extends Error {
+  stepId: string
+  cause?: unknown
+
+  constructor(message: string, stepId: string, cause?: unknown) {
+    super(message)
+    this.name = 'AgentStepError'
+    this.stepId = stepId
+    this.cause = cause
+  }
+}
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+const runStep = async (
+  step: AgentStep,
+  context: AgentRunContext,
+  onAttemptFailed?: (attempt: number, attempts: number, error: unknown) => void
+) => {
+  const attempts = (step.retries ?? 0) + 1
+  let lastError: unknown
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      return await step.run(context)
+    } catch (error) {
+      lastError = error
+      console.warn(`Step ${step.id} failed (attempt ${attempt}/${attempts}):`, error)
+      onAttemptFailed?.(attempt, attempts, error)
+    }
+  }
+
+  throw new AgentStepError(getErrorMessage(lastError), step.id, lastError)
+}
+
+// Runs every step of an agent in order against an existing task row.
+// Progress on the row only moves when a step has actually finished.
+export const runAgent = async (
+  definition: AgentDefinition,
+  options: AgentRunOptions
+): Promise<AgentRunResult> => {
+  const { taskId, userId, language, keigoMode, input, resumeFrom, onProgress } = options
+  const totalSteps = definition.steps.length
+  const actor = agentActor(definition.id)
+  const recordEvent = (event: Omit<NewTaskEvent, 'taskId' | 'userId' | 'actor'>) =>
+    recordTaskEvent({ ...event, taskId, userId, actor })
+
+  let currentStepId = ''
+  const context: AgentRunContext = {
+    taskId,
+    userId,
+    language,
+    keigoMode,
+    input,
+    outputs: { ...resumeFrom?.outputs },
+    ai: [...(resumeFrom?.ai || [])],
+    recordAi: (prompt, response) => {
+      context.ai.push({ stepId: currentStepId, prompt, response, createdAt: new Date().toISOString() })
+      recordEvent({
+        type: 'ai_call',
+        message: `AI call in ${currentStepId}`,
+        data: { stepId: currentStepId, prompt, response }
+      })
+    }
+  }
+
+  const startIndex = Math.min(Math.max(resumeFrom?.stepIndex ?? 0, 0), totalSteps)
+
+  // Cancellation is cooperative: the run stops at the next step boundary
+  const stopIfCancelled = async () => {
+    if ((await getTask(taskId))?.status !== 'cancelled') return false
+    await updateTask(taskId, { output: { steps: context.outputs, ai: context.ai } })
+    await recordEvent({ type: 'status_changed', message: 'Run stopped after cancellation', data: { status: 'cancelled' } })
+    return true
+  }
+
+  // The task may have been cancelled between being claimed and starting
+  if (await stopIfCancelled()) {
+    return { status: 'cancelled', outputs: context.outputs }
+  }
+
+  // The dispatcher's claim already moved the row to processing; writing the status again here
+  // could undo a cancellation made since the check above
+  await updateTask(taskId, {
+    currentStep: startIndex,
+    totalSteps,
+    progress: Math.round((startIndex / totalSteps) * 100),
+    lastAction: `${definition.name[language]}: ${definition.steps[startIndex]?.label[language] ?? ''}`
+  })
+
+  // Not reported as progress: the run only rebuilds what these steps had already produced. A
+  // failure here escapes to the dispatcher, which fails the task.
+  for (const step of definition.steps.slice(0, startIndex)) {
+    if (!step.rerunOnResume) continue
+    currentStepId = step.id
+    context.outputs[step.id] = await runStep(step, context)
+  }
+
+  for (let index = startIndex; index < totalSteps; index++) {
+    const step = definition.steps[index]
+    currentStepId = step.id
+
+    if (index > startIndex && await stopIfCancelled()) {
+      return { status: 'cancelled', outputs: context.outputs }
+    }
+
+    onProgress?.({
+      taskId,
+      stepIndex: index,
+      totalSteps,
+      progress: Math.round((index / totalSteps) * 100),
+      stepLabel: step.label[language]
+    })
+
+    await recordEvent({ type: 'step_started', message: step.label[language], data: { stepId: step.id, stepIndex: index } })
+
+    try {
+      context.outputs[step.id] = await runStep(step, context, (attempt, attempts, error) => {
+        recordEvent({
+          type: 'error',
+          message: `${step.label[language]}: ${getErrorMessage(error)}`,
+          data: { stepId: step.id, attempt, attempts, error: getErrorMessage(error) }
+        })
+      })
+    } catch (error) {
+      const stepError = error instanceof AgentStepError
+        ? error
+        : new AgentStepError(getErrorMessage(error), step.id, error)
+
+      // A step cut short by a cancellation made mid-step keeps the cancelled status
+      if (await stopIfCancelled()) {
+        return { status: 'cancelled', outputs: context.outputs }
+      }
+
+      await updateTask(taskId, {
+        status: 'failed',
+        currentStep: index,
+        lastAction: `${step.label[language]} ${language === 'ja' ? '失敗' : 'failed'}: ${stepError.message}`,
+        output: {
+          result: 'failed',
+          failedStep: step.id,
+          error: stepError.message,
+          attempts: (step.retries ?? 0) + 1,
+          failedAt: new Date().toISOString(),
+          steps: context.outputs,
+          ai: context.ai
+        }
+      })
+
+      await recordEvent({
+        type: 'step_failed',
+        message: `${step.label[language]}: ${stepError.message}`,
+        data: { stepId: step.id, stepIndex: index, error: stepError.message }
+      })
+      await recordEvent({ type: 'status_changed', message: 'failed', data: { status: 'failed' } })
+
+      return { status: 'failed', outputs: context.outputs, error: stepError }
+    }
+
+    const progress = Math.round(((index + 1) / totalSteps) * 100)
+    const isLastStep = index === totalSteps - 1
+
+    await updateTask(taskId, {
+      currentStep: index + 1,
+      progress,
+      lastAction: `${step.label[language]} ${language === 'ja' ? '完了' : 'completed'}`,
+      ...(isLastStep ? {} : { output: { steps: context.outputs, ai: context.ai } })
+    })
+
+    await recordEvent({ type: 'step_completed', message: step.label[language], data: { stepId: step.id, stepIndex: index, progress } })
+
+    onProgress?.({
+      taskId,
+      stepIndex: index + 1,
+      totalSteps,
+      progress,
+      stepLabel: step.label[language]
+    })
+  }
+
+  if (await stopIfCancelled()) {
+    return { status: 'cancelled', outputs: context.outputs }
+  }
+
+  await updateTask(taskId, {
+    status: 'completed',
+    lastAction: `${definition.name[language]} ${language === 'ja' ? '正常に完了しました' : 'completed successfully'}`,
+    output: { result: 'success', steps: context.outputs, ai: context.ai }
+  })
+
+  await recordEvent({ type: 'status_changed', message: 'completed', data: { status: 'completed' } })
+
+  return { status: 'completed', outputs: context.outputs }
+}
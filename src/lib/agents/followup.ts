@@ -0,0 +1,94 @@
+import { getContractFileUrl } from '../contracts'
+import { revealCustomerFields } from '../customers'
+import { sendMessage } from '../delivery'
+import { getMessageTemplate, renderTemplateVariant, selectVariant, type RenderedMessage } from '../messageTemplates'
+import { canReceiveSms, validatePhoneNumber } from '../phone'
+import type { AgentDefinition } from './engine'
+import { getCustomer, loadCustomerStep } from './steps'
+
+export const followupAgent: AgentDefinition = {
+  id: 'followup',
+  name: { ja: 'フォローアップエージェント', en: 'FollowUpAgent' },
+  steps: [
+    loadCustomerStep,
+    {
+      id: 'composeMessage',
+      label: { ja: 'フォローアップ内容作成', en: 'Compose Follow-up' },
+      run: async (context): Promise<RenderedMessage> => {
+        const customer = getCustomer(context)
+        const templateKey = context.input.templateKey || 'contract_followup'
+        const template = await getMessageTemplate(context.userId, templateKey, context.input.templateVersion)
+        if (!template) {
+          throw new Error(`Message template ${templateKey} not found`)
+        }
+
+        const variables = { ...context.input.variables }
+        // Contract links expire, so each message gets one made when it is composed
+        if (variables.contractPath) variables.contractUrl = await getContractFileUrl(variables.contractPath)
+
+        const variant = selectVariant(customer, { language: context.language, keigoMode: context.keigoMode })
+        const message = renderTemplateVariant(template, variant, customer, variables)
+        if (message.missing.length > 0) {
+          throw new Error(`Template ${templateKey} is missing values for ${message.missing.join(', ')}`)
+        }
+        return message
+      }
+    },
+    {
+      id: 'sendMessage',
+      label: { ja: 'メッセージ送信', en: 'Send Message' },
+      run: async (context) => {
+        const message: RenderedMessage = context.outputs.composeMessage
+        if (message.channel === 'voice') {
+          throw new Error(`Template ${message.templateKey} is a voice template`)
+        }
+        const customer = message.channel === 'email'
+          ? getCustomer(context)
+          : await revealCustomerFields(getCustomer(context), ['phone'], 'agent')
+
+        let to = message.channel === 'email' ? customer.email : customer.phone
+        if (!to) {
+          throw new Error(message.channel === 'email' ? 'Customer has no email address' : 'Customer has no phone number')
+        }
+        // SMS gateways take E.164, and a landline would only bounce
+        if (message.channel === 'sms') {
+          const phone = validatePhoneNumber(to)
+          if (!canReceiveSms(phone)) {
+            throw new Error(phone.valid ? `Customer phone is a ${phone.type} number and cannot receive SMS` : 'Customer phone number is not valid')
+          }
+          to = phone.e164
+        }
+
+        // The pipeline retries with backoff itself and records each attempt against this task
+        const delivered = await sendMessage({
+          userId: context.userId,
+          taskId: context.taskId,
+          customerId: customer.id,
+          channel: message.channel,
+          to,
+          subject: message.subject,
+          body: message.body,
+          templateKey: message.templateKey,
+          templateVersion: message.version
+        })
+        if (delivered.status !== 'sent') {
+          throw new Error(`Delivery ${delivered.status} after ${delivered.attempts} attempt(s): ${delivered.lastError}`)
+        }
+
+        return {
+          messageId: delivered.id,
+          providerMessageId: delivered.providerMessageId,
+          channel: delivered.channel,
+          // As stored on the message record
+          to: delivered.to,
+          status: delivered.status,
+          attempts: delivered.attempts,
+          templateKey: message.templateKey,
+          templateVersion: message.version,
+          variant: message.variant,
+          sentAt: delivered.sentAt
+        }
+      }
+    }
+  ]
+}
@@ -0,0 +1,4 @@
+export * from './engine'
+export * from './registry'
+export { enqueueAgentTask, type EnqueueOptions } from './queue'
+export * from './dispatcher'
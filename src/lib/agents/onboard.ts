@@ -0,0 +1,135 @@
+import { buildContractFields, generateContractDocument, type ContractDocument } from '../contracts'
+import { maskCustomerField, revealCustomerFields, updateCustomer } from '../customers'
+import { validateIdentification } from '../identification'
+import { maskPii } from '../pii'
+import { calculatePricing, checkEligibility, formatPrice, getPlan, type Plan, type PlanPricing } from '../plans'
+import { scheduleContractFollowUps } from '../scheduling'
+import { agentActor } from '../taskEvents'
+import type { AgentDefinition } from './engine'
+import { getCustomer, loadCustomerStep } from './steps'
+
+interface VerifiedIdentification {
+  identificationType: string
+  // Masked; the number itself only lives, sealed, on the customer record
+  identificationNumber: string
+  verifiedAt: string
+}
+
+interface SelectedPlan {
+  plan: Plan
+  pricing: PlanPricing
+  optionIds: string[]
+  familyLines: number
+}
+
+export const onboardAgent: AgentDefinition = {
+  id: 'onboard',
+  name: { ja: 'オンボードボット', en: 'OnboardBot' },
+  steps: [
+    loadCustomerStep,
+    {
+      id: 'verifyIdentification',
+      label: { ja: 'ID確認', en: 'ID Verification' },
+      run: async (context): Promise<VerifiedIdentification> => {
+        const customer = getCustomer(context)
+        const identificationType = context.input.identificationType || customer.identificationType
+        // The wizard saves the number on the customer before queueing, so it never sits in the task
+        const { identificationNumber } = await revealCustomerFields(customer, ['identificationNumber'], 'agent')
+        if (!identificationType || !identificationNumber) {
+          throw new Error('Customer has no identification on file')
+        }
+
+        const result = validateIdentification(identificationType, identificationNumber)
+        if (!result.valid) {
+          throw new Error(result.error?.en || 'Identification is not valid')
+        }
+
+        // Keep the customer record in sync with what was checked at the counter
+        const updates = {
+          identificationType,
+          birthDate: context.input.birthDate || customer.birthDate,
+          residenceCardExpiry: context.input.residenceCardExpiry || customer.residenceCardExpiry
+        }
+        const changes = await updateCustomer({ userId: context.userId, ...customer }, updates, agentActor('onboard'), 'OnboardBot')
+        if (changes.length > 0) {
+          Object.assign(customer, updates)
+        }
+
+        return {
+          identificationType,
+          identificationNumber: maskPii('identificationNumber', result.normalized),
+          verifiedAt: new Date().toISOString()
+        }
+      }
+    },
+    {
+      id: 'selectPlan',
+      label: { ja: 'プラン選択', en: 'Plan Selection' },
+      run: async (context): Promise<SelectedPlan> => {
+        const plan = await getPlan(context.input.planId)
+        if (!plan || !plan.isActive) {
+          throw new Error(context.input.planId ? `Plan ${context.input.planId} is not in the catalog` : 'No plan selected')
+        }
+
+        const eligibility = checkEligibility(plan, getCustomer(context))
+        if (!eligibility.eligible) {
+          throw new Error(eligibility.reasons.map(reason => reason.en).join('; '))
+        }
+
+        const optionIds: string[] = context.input.optionIds || []
+        const familyLines = Number(context.input.familyLines) || 1
+        return {
+          plan,
+          pricing: calculatePricing(plan, { familyLines, optionIds }),
+          optionIds,
+          familyLines
+        }
+      }
+    },
+    {
+      id: 'generateContract',
+      label: { ja: 'SIM契約書生成', en: 'SIM Contract Generation' },
+      run: async (context) => {
+        // The contract is made out to the full address and phone; the ID number on it is masked
+        const customer = await revealCustomerFields(getCustomer(context), ['address', 'phone'], 'agent')
+        const identification: VerifiedIdentification = context.outputs.verifyIdentification
+        const selected: SelectedPlan = context.outputs.selectPlan
+        const fields = buildContractFields({
+          customer,
+          ...selected,
+          identificationType: identification.identificationType,
+          identificationNumber: identification.identificationNumber || maskCustomerField(customer, 'identificationNumber')
+        })
+        // The task keeps the masked fields for the review screen and the full ones sealed
+        return generateContractDocument(fields)
+      }
+    },
+    {
+      id: 'scheduleFollowUps',
+      label: { ja: 'フォローアップ予約', en: 'Schedule Follow-ups' },
+      run: async (context) => {
+        const customer = getCustomer(context)
+        const contract: ContractDocument = context.outputs.generateContract
+        const selected: SelectedPlan = context.outputs.selectPlan
+        const language = customer.preferredLanguage === 'en' ? 'en' : 'ja'
+
+        const scheduled = await scheduleContractFollowUps({
+          userId: context.userId,
+          customerId: customer.id,
+          signedAt: contract.issuedAt,
+          contractTermMonths: selected.plan.contractTermMonths,
+          variables: {
+            contractNumber: contract.contractNumber,
+            planName: selected.plan.name[language],
+            monthlyTotal: formatPrice(selected.pricing.monthlyTotal),
+            // The follow-up agent turns this into a fresh link when the message goes out
+            contractPath: contract.pdfPath
+          },
+          language,
+          keigoMode: customer.keigoPreference === 'casual' ? 'casual' : 'formal'
+        })
+        return scheduled.map(followUp => ({ id: followUp.id, ruleId: followUp.ruleId, scheduledFor: followUp.scheduledFor }))
+      }
+    }
+  ]
+}
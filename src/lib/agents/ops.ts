@@ -0,0 +1,65 @@
+import type { VisitLog } from '../../types/visitLog'
+import { formatPostalAddress } from '../address'
+import { isEncrypted } from '../fieldCrypto'
+import { getVisitLog, updateVisitLog } from '../visitLogs'
+import type { AgentDefinition } from './engine'
+import { generateStepText, getCustomer, getToneInstruction, loadCustomerStep } from './steps'
+
+const describeVisit = (log: VisitLog) => [
+  `Technician: ${log.technician}`,
+  `Arrival: ${log.arrivalTime}`,
+  `Departure: ${log.departureTime || 'not recorded'}`,
+  `Equipment serials: ${log.equipmentSerials.join(', ') || 'none'}`,
+  `Work performed: ${log.workPerformed || 'not recorded'}`,
+  `Parts used: ${log.partsUsed.map(part => `${part.name} x${part.quantity}`).join(', ') || 'none'}`,
+  `Customer sign-off: ${log.signedOffAt ? `${log.signOffName} at ${log.signedOffAt}` : 'not signed'}`
+].join('\n')
+
+export const opsAgent: AgentDefinition = {
+  id: 'ops',
+  name: { ja: 'オペレーションロガー', en: 'OpsLogger' },
+  steps: [
+    loadCustomerStep,
+    {
+      id: 'loadVisitLog',
+      label: { ja: '訪問ログ取得', en: 'Load Visit Log' },
+      run: async (context): Promise<VisitLog | null> => {
+        // Runs queued before visit logs existed only carry free-text notes
+        if (!context.input.visitLogId) return null
+
+        const log = await getVisitLog(context.input.visitLogId)
+        if (!log) {
+          throw new Error(`Visit log ${context.input.visitLogId} not found`)
+        }
+        return log
+      }
+    },
+    {
+      id: 'draftWorkReport',
+      label: { ja: '作業報告書作成', en: 'Draft Work Report' },
+      retries: 1,
+      run: async (context) => {
+        const customer = getCustomer(context)
+        const log: VisitLog | null = context.outputs.loadVisitLog
+        // A sealed address is described down to the town, from its structured columns
+        const address = isEncrypted(customer.address)
+          ? [customer.prefecture, customer.municipality, customer.town].join('')
+          : customer.address && formatPostalAddress(customer.address, customer.postalCode)
+        const { text } = await generateStepText(context, {
+          prompt: `Draft a field technician work report for a visit to ${customer.name}${address ? ` at ${address}` : ''}.
+${log ? `Visit log:\n${describeVisit(log)}` : `Notes from the technician: ${context.input.notes || 'none'}`}
+Write it in ${getToneInstruction(context)} with sections for work performed, parts and equipment, and follow-up items.`,
+          maxTokens: 400
+        })
+        if (!text.trim()) {
+          throw new Error('Work report generation returned an empty document')
+        }
+
+        if (log) {
+          await updateVisitLog(log.id, { workReport: text, taskId: context.taskId })
+        }
+        return { report: text, visitLogId: log?.id }
+      }
+    }
+  ]
+}
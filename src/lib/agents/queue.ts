@@ -0,0 +1,32 @@
+import { createTask } from '../tasks'
+import type { TaskEventActor } from '../taskEvents'
+import type { AgentId } from './engine'
+
+export interface EnqueueOptions {
+  userId: string
+  agentId: AgentId
+  taskName: string
+  input: Record<string, any>
+  // Links the task to a customer; falls back to input.customerId
+  customerId?: string
+  language: 'ja' | 'en'
+  keigoMode: 'formal' | 'casual'
+  // Recorded on the task's created event; defaults to the user
+  actor?: TaskEventActor
+}
+
+// Tasks go into the queue as pending rows; a dispatcher picks them up
+export const enqueueAgentTask = async (options: EnqueueOptions) => {
+  const task = await createTask({
+    userId: options.userId,
+    agentType: options.agentId,
+    taskName: options.taskName,
+    status: 'pending',
+    lastAction: 'Queued',
+    input: options.input,
+    customerId: options.customerId,
+    language: options.language,
+    keigoMode: options.keigoMode
+  }, options.actor)
+  return task.id
+}
@@ -0,0 +1,10 @@
+import type { AgentDefinition, AgentId } from './engine'
+import { followupAgent } from './followup'
+import { onboardAgent } from './onboard'
+import { opsAgent } from './ops'
+
+export const agentDefinitions: Record<AgentId, AgentDefinition> = {
+  onboard: onboardAgent,
+  followup: followupAgent,
+  ops: opsAgent
+}
@@ -0,0 +1,44 @@
+import { blink } from '../../blink/client'
+import type { Customer } from '../../types/customer'
+import { getCustomerById } from '../customers'
+import type { AgentRunContext, AgentStep } from './engine'
+
+export const loadCustomerStep: AgentStep<Customer> = {
+  id: 'loadCustomer',
+  label: { ja: '顧客情報取得', en: 'Load Customer' },
+  rerunOnResume: true,
+  run: async ({ input }) => {
+    if (!input.customerId) {
+      throw new Error('No customer selected for this task')
+    }
+
+    const customer = await getCustomerById(input.customerId)
+    if (!customer) {
+      throw new Error(`Customer ${input.customerId} not found`)
+    }
+    return customer
+  }
+}
+
+// The customer resolved by loadCustomerStep, for steps that run after it
+export const getCustomer = (context: AgentRunContext): Customer => context.outputs.loadCustomer
+
+// generateText that keeps the prompt and response on the task for the detail view
+export const generateStepText = async (
+  context: AgentRunContext,
+  options: { prompt: string; maxTokens?: number }
+) => {
+  const result = await blink.ai.generateText(options)
+  context.recordAi(options.prompt, result.text)
+  return result
+}
+
+export const getToneInstruction = (context: AgentRunContext) => {
+  const customer = getCustomer(context)
+  const language = customer?.preferredLanguage === 'en' ? 'en' : context.language
+  const keigo = (customer?.keigoPreference || context.keigoMode) === 'formal'
+
+  return language === 'ja'
+    ? (keigo ? 'formal Japanese (keigo)' : 'casual Japanese')
+    : 'English'
+}
@@ -0,0 +1,148 @@
+import type { Task, TaskAgentType } from '../types/task'
+import { listTasksCreatedBetween } from './tasks'
+
+export const ANALYTICS_AGENT_TYPES: TaskAgentType[] = ['onboard', 'followup', 'ops', 'voice_command', 'voice_agent']
+
+// Calendar days in the operator's local time, as YYYY-MM-DD
+export interface AnalyticsRange {
+  from: string
+  to: string
+}
+
+export interface AnalyticsFilters extends AnalyticsRange {
+  // Empty for every operator
+  operatorId?: string
+}
+
+export type DailyTaskCounts = { date: string } & Record<TaskAgentType, number>
+
+export interface AgentOutcome {
+  agentType: TaskAgentType
+  completed: number
+  failed: number
+  cancelled: number
+  // Completed share of the finished runs (completed + failed); null when none finished
+  successRate: number | null
+  // From creation to the last update of completed runs; null when none completed
+  medianCompletionMs: number | null
+}
+
+export interface VoiceSessionCounts {
+  date: string
+  // AutonomousVoiceAgent conversations
+  conversations: number
+  // One-shot commands from the voice interfaces
+  commands: number
+}
+
+export interface TaskAnalytics {
+  total: number
+  daily: DailyTaskCounts[]
+  outcomes: AgentOutcome[]
+  voice: VoiceSessionCounts[]
+  // Operators seen in the range, for the operator filter
+  operatorIds: string[]
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+const toDayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+const startOfDay = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+const addDays = (key: string, days: number) => {
+  const date = startOfDay(key)
+  date.setDate(date.getDate() + days)
+  return toDayKey(date)
+}
+
+// The last `days` days up to and including today
+export const getRecentRange = (days: number, now = new Date()): AnalyticsRange => {
+  const to = toDayKey(now)
+  return { from: addDays(to, -(days - 1)), to }
+}
+
+const listDays = ({ from, to }: AnalyticsRange) => {
+  const days: string[] = []
+  for (let day = from; day <= to; day = addDays(day, 1)) days.push(day)
+  return days
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+const emptyAgentCounts = () =>
+  Object.fromEntries(ANALYTICS_AGENT_TYPES.map(agentType => [agentType, 0])) as Record<TaskAgentType, number>
+
+export const buildTaskAnalytics = (tasks: Task[], range: AnalyticsRange, operatorId?: string): TaskAnalytics => {
+  const operatorIds = [...new Set(tasks.map(task => task.userId))].sort()
+  const selected = operatorId ? tasks.filter(task => task.userId === operatorId) : tasks
+  const days = listDays(range)
+
+  const daily = new Map<string, DailyTaskCounts>(days.map(date => [date, { date, ...emptyAgentCounts() }]))
+  const voice = new Map<string, VoiceSessionCounts>(days.map(date => [date, { date, conversations: 0, commands: 0 }]))
+
+  for (const task of selected) {
+    const day = toDayKey(new Date(task.createdAt))
+    const counts = daily.get(day)
+    if (counts) counts[task.agentType] += 1
+    const sessions = voice.get(day)
+    if (sessions && task.agentType === 'voice_agent') sessions.conversations += 1
+    if (sessions && task.agentType === 'voice_command') sessions.commands += 1
+  }
+
+  const outcomes = ANALYTICS_AGENT_TYPES.map((agentType): AgentOutcome => {
+    const agentTasks = selected.filter(task => task.agentType === agentType)
+    const completed = agentTasks.filter(task => task.status === 'completed')
+    const failed = agentTasks.filter(task => task.status === 'failed').length
+    const finished = completed.length + failed
+
+    return {
+      agentType,
+      completed: completed.length,
+      failed,
+      cancelled: agentTasks.filter(task => task.status === 'cancelled').length,
+      successRate: finished > 0 ? completed.length / finished : null,
+      medianCompletionMs: median(completed.map(task =>
+        new Date(task.updatedAt).getTime() - new Date(task.createdAt).getTime()
+      ))
+    }
+  })
+
+  return {
+    total: selected.length,
+    daily: [...daily.values()],
+    outcomes,
+    voice: [...voice.values()],
+    operatorIds
+  }
+}
+
+// ISO bounds [from, to) covering the whole of both days, for createdAt queries
+export const getRangeBounds = (range: AnalyticsRange) => ({
+  from: startOfDay(range.from).toISOString(),
+  to: startOfDay(addDays(range.to, 1)).toISOString()
+})
+
+// Loads the tasks of every operator in the range once; the operator filter is applied in memory
+export const loadTasksForAnalytics = (range: AnalyticsRange) => {
+  const { from, to } = getRangeBounds(range)
+  return listTasksCreatedBetween(from, to)
+}
+
+export const formatDuration = (ms: number, language: 'ja' | 'en') => {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return language === 'ja' ? `${seconds}秒` : `${seconds}s`
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return language === 'ja' ? `${minutes}分` : `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return language === 'ja' ? `${hours}時間${rest ? `${rest}分` : ''}` : `${hours}h${rest ? ` ${rest}m` : ''}`
+}
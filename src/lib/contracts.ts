@@ -0,0 +1,423 @@
+import { blink } from '../blink/client'
+import type { Customer } from '../types/customer'
+import { formatPostalAddress } from './address'
+import { encryptField, openContractFields } from './fieldCrypto'
+import { getIdentificationTypeLabel } from './identification'
+import { A4_HEIGHT, A4_WIDTH, createPdf, wrapText, type PdfPage } from './pdf'
+import { maskPii, maskPiiValues } from './pii'
+import { formatDataAllowance, formatPrice, type Plan, type PlanPricing } from './plans'
+
+export interface LocalizedText {
+  ja: string
+  en: string
+}
+
+export interface ContractTemplate {
+  version: string
+  title: LocalizedText
+  // Values may contain {{placeholders}} filled from ContractFields
+  sections: {
+    heading: LocalizedText
+    rows: { label: LocalizedText; value: LocalizedText }[]
+  }[]
+  clauses: LocalizedText[]
+}
+
+// Everything needed to render a contract again later, independent of the current catalog
+export interface ContractFields {
+  contractNumber: string
+  issuedAt: string
+  customerId: string
+  customerName: string
+  address: string
+  phone: string
+  email: string
+  identificationType: string
+  // Masked to the last four characters; the full number only lives on the customer record
+  identificationNumber: string
+  planId: string
+  planName: LocalizedText
+  dataAllowance: LocalizedText
+  contractTermMonths: number
+  basePrice: number
+  options: { name: LocalizedText; monthlyPrice: number }[]
+  familyLines: number
+  familyDiscount: number
+  monthlyTotal: number
+}
+
+export interface RenderedContract {
+  title: LocalizedText
+  sections: {
+    heading: LocalizedText
+    rows: { label: LocalizedText; value: LocalizedText }[]
+  }[]
+  clauses: LocalizedText[]
+}
+
+export interface ContractDocument {
+  contractNumber: string
+  templateVersion: string
+  issuedAt: string
+  title: LocalizedText
+  // Masked, for display; the full fields are in sealedFields
+  fields: ContractFields
+  // The fields the files were rendered from, sealed as one value, so the contract can be rebuilt
+  sealedFields?: string
+  // SHA-256 of the PDF bytes
+  contentHash: string
+  // Storage paths; links are requested when a file is opened, see getContractFileUrl
+  pdfPath: string
+  htmlPath: string
+}
+
+export interface ContractInput {
+  customer: Customer
+  plan: Plan
+  pricing: PlanPricing
+  optionIds: string[]
+  familyLines: number
+  identificationType: string
+  identificationNumber: string
+}
+
+// Old versions stay here so stored contracts can always be re-rendered
+export const CONTRACT_TEMPLATES: Record<string, ContractTemplate> = {
+  'sim-v1': {
+    version: 'sim-v1',
+    title: { ja: 'SIMカード利用契約書', en: 'SIM Card Service Agreement' },
+    sections: [
+      {
+        heading: { ja: '契約者情報', en: 'Subscriber' },
+        rows: [
+          { label: { ja: '契約番号', en: 'Contract No.' }, value: { ja: '{{contractNumber}}', en: '{{contractNumber}}' } },
+          { label: { ja: '契約者氏名', en: 'Name' }, value: { ja: '{{customerName}} 様', en: '{{customerName}}' } },
+          { label: { ja: '住所', en: 'Address' }, value: { ja: '{{address}}', en: '{{address}}' } },
+          { label: { ja: '電話番号', en: 'Phone' }, value: { ja: '{{phone}}', en: '{{phone}}' } },
+          { label: { ja: 'メールアドレス', en: 'Email' }, value: { ja: '{{email}}', en: '{{email}}' } },
+          {
+            label: { ja: '本人確認書類', en: 'Identification' },
+            value: { ja: '{{identificationType}}（{{identificationNumber}}）', en: '{{identificationType}} ({{identificationNumber}})' }
+          }
+        ]
+      },
+      {
+        heading: { ja: 'ご契約内容', en: 'Service' },
+        rows: [
+          { label: { ja: '料金プラン', en: 'Plan' }, value: { ja: '{{planName}}', en: '{{planName}}' } },
+          { label: { ja: 'データ容量', en: 'Data allowance' }, value: { ja: '{{dataAllowance}}', en: '{{dataAllowance}}' } },
+          { label: { ja: '契約期間', en: 'Contract term' }, value: { ja: '{{contractTerm}}', en: '{{contractTerm}}' } },
+          { label: { ja: '基本料金', en: 'Base fee' }, value: { ja: '{{basePrice}}（税込）', en: '{{basePrice}} (tax incl.)' } },
+          { label: { ja: 'オプション', en: 'Options' }, value: { ja: '{{options}}', en: '{{options}}' } },
+          {
+            label: { ja: '家族割', en: 'Family discount' },
+            value: { ja: '{{familyLines}}回線 -{{familyDiscount}}', en: '{{familyLines}} lines -{{familyDiscount}}' }
+          },
+          { label: { ja: '月額合計', en: 'Monthly total' }, value: { ja: '{{monthlyTotal}}（税込）', en: '{{monthlyTotal}} (tax incl.)' } },
+          { label: { ja: '契約日', en: 'Contract date' }, value: { ja: '{{issuedDate}}', en: '{{issuedDate}}' } }
+        ]
+      }
+    ],
+    clauses: [
+      {
+        ja: '第1条 契約者は、上記の料金プランおよびオプションに基づき、SIMカードを利用するものとします。',
+        en: 'Article 1. The subscriber uses the SIM card under the plan and options listed above.'
+      },
+      {
+        ja: '第2条 月額料金は毎月末日に締め、翌月に請求します。',
+        en: 'Article 2. Monthly fees are closed at the end of each month and billed the following month.'
+      },
+      {
+        ja: '第3条 契約期間内に解約する場合でも、解約金は発生しません。',
+        en: 'Article 3. No cancellation fee applies when the contract is cancelled within the term.'
+      },
+      {
+        ja: '第4条 本人確認書類の記載事項に変更があった場合、契約者は速やかに届け出るものとします。',
+        en: 'Article 4. The subscriber must promptly report any change to the details on their identification.'
+      },
+      {
+        ja: '本契約書は日本語版と英語版で作成し、両者に相違がある場合は日本語版を優先します。',
+        en: 'This agreement is made in Japanese and English. The Japanese version prevails in case of any discrepancy.'
+      }
+    ]
+  }
+}
+
+export const CURRENT_CONTRACT_TEMPLATE = 'sim-v1'
+
+// The field-crypto function only opens values sealed under this name as contract fields
+const SEALED_CONTRACT_FIELD = 'contractFields'
+
+// The time alone repeats for contracts issued in the same millisecond, e.g. by two stores, so
+// four random base-36 digits follow it
+const createContractNumber = (issuedAt: Date) => {
+  const date = issuedAt.toISOString().slice(0, 10).replace(/-/g, '')
+  const time = issuedAt.getTime().toString(36).slice(-6)
+  const random = Array.from(crypto.getRandomValues(new Uint8Array(4)), byte => (byte % 36).toString(36)).join('')
+  return `SIM-${date}-${time}${random}`.toUpperCase()
+}
+
+export const buildContractFields = ({
+  customer,
+  plan,
+  pricing,
+  optionIds,
+  familyLines,
+  identificationType,
+  identificationNumber
+}: ContractInput, issuedAt = new Date()): ContractFields => ({
+  contractNumber: createContractNumber(issuedAt),
+  issuedAt: issuedAt.toISOString(),
+  customerId: customer.id,
+  customerName: customer.name,
+  address: customer.address ? formatPostalAddress(customer.address, customer.postalCode) : '',
+  phone: customer.phone || '',
+  email: customer.email || '',
+  identificationType,
+  identificationNumber: maskPii('identificationNumber', identificationNumber),
+  planId: plan.id,
+  planName: { ...plan.name },
+  dataAllowance: { ja: formatDataAllowance(plan, 'ja'), en: formatDataAllowance(plan, 'en') },
+  contractTermMonths: plan.contractTermMonths,
+  basePrice: pricing.basePrice,
+  options: plan.options
+    .filter(option => optionIds.includes(option.id))
+    .map(option => ({ name: { ...option.name }, monthlyPrice: option.monthlyPrice })),
+  familyLines,
+  familyDiscount: pricing.familyDiscount,
+  monthlyTotal: pricing.monthlyTotal
+})
+
+// Dates are taken from the ISO string rather than the locale so output is reproducible
+const toPlaceholderValues = (fields: ContractFields, language: 'ja' | 'en'): Record<string, string> => {
+  const [year, month, day] = fields.issuedAt.slice(0, 10).split('-')
+  return {
+    contractNumber: fields.contractNumber,
+    customerName: fields.customerName,
+    address: fields.address || '-',
+    phone: fields.phone || '-',
+    email: fields.email || '-',
+    identificationType: getIdentificationTypeLabel(fields.identificationType, language),
+    identificationNumber: fields.identificationNumber,
+    planName: fields.planName[language],
+    dataAllowance: fields.dataAllowance[language],
+    contractTerm: fields.contractTermMonths > 0
+      ? (language === 'ja' ? `${fields.contractTermMonths}ヶ月` : `${fields.contractTermMonths} months`)
+      : (language === 'ja' ? '期間拘束なし' : 'No fixed term'),
+    basePrice: formatPrice(fields.basePrice),
+    options: fields.options
+      .map(option => `${option.name[language]} ${formatPrice(option.monthlyPrice)}`)
+      .join(language === 'ja' ? '、' : ', ') || '-',
+    familyLines: String(fields.familyLines),
+    familyDiscount: formatPrice(fields.familyDiscount),
+    monthlyTotal: formatPrice(fields.monthlyTotal),
+    issuedDate: language === 'ja' ? `${year}年${Number(month)}月${Number(day)}日` : `${year}-${month}-${day}`
+  }
+}
+
+const fillPlaceholders = (text: string, values: Record<string, string>) =>
+  text.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match)
+
+export const renderContract = (
+  fields: ContractFields,
+  template: ContractTemplate = CONTRACT_TEMPLATES[CURRENT_CONTRACT_TEMPLATE]
+): RenderedContract => {
+  const values = { ja: toPlaceholderValues(fields, 'ja'), en: toPlaceholderValues(fields, 'en') }
+  const fill = (text: LocalizedText): LocalizedText => ({
+    ja: fillPlaceholders(text.ja, values.ja),
+    en: fillPlaceholders(text.en, values.en)
+  })
+
+  return {
+    title: template.title,
+    sections: template.sections.map(section => ({
+      heading: section.heading,
+      rows: section.rows.map(row => ({ label: row.label, value: fill(row.value) }))
+    })),
+    clauses: template.clauses.map(fill)
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+export const renderContractHtml = (contract: RenderedContract, contractNumber: string) => {
+  const sections = contract.sections.map(section => `
+    <h2><span lang="ja">${escapeHtml(section.heading.ja)}</span><span lang="en">${escapeHtml(section.heading.en)}</span></h2>
+    <table>
+      ${section.rows.map(row => `<tr>
+        <th lang="ja">${escapeHtml(row.label.ja)}</th><td lang="ja">${escapeHtml(row.value.ja)}</td>
+        <th lang="en">${escapeHtml(row.label.en)}</th><td lang="en">${escapeHtml(row.value.en)}</td>
+      </tr>`).join('')}
+    </table>`).join('')
+
+  const clauses = contract.clauses.map(clause => `<tr>
+      <td lang="ja">${escapeHtml(clause.ja)}</td><td lang="en">${escapeHtml(clause.en)}</td>
+    </tr>`).join('')
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(contract.title.ja)} / ${escapeHtml(contract.title.en)} ${escapeHtml(contractNumber)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: "Hiragino Sans", "Noto Sans JP", "Yu Gothic", sans-serif; font-size: 10pt; color: #111; }
+  h1 { font-size: 15pt; text-align: center; margin: 0 0 16px; }
+  h1 span, h2 span { display: block; }
+  h2 { font-size: 11pt; border-bottom: 1px solid #999; padding-bottom: 2px; margin: 16px 0 6px; display: flex; justify-content: space-between; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+  th, td { text-align: left; vertical-align: top; padding: 3px 6px; border-bottom: 1px solid #e5e5e5; }
+  th { width: 16%; color: #555; font-weight: normal; }
+  .clauses td { width: 50%; }
+  .signature { margin-top: 32px; display: flex; justify-content: space-between; }
+  .signature div { width: 45%; border-top: 1px solid #111; padding-top: 4px; }
+</style>
+</head>
+<body>
+<h1><span lang="ja">${escapeHtml(contract.title.ja)}</span><span lang="en">${escapeHtml(contract.title.en)}</span></h1>
+${sections}
+<h2><span lang="ja">約款</span><span lang="en">Terms</span></h2>
+<table class="clauses">${clauses}</table>
+<div class="signature"><div>契約者署名 / Subscriber signature</div><div>受付担当者 / Staff</div></div>
+</body>
+</html>
+`
+}
+
+export const renderContractPdf = (contract: RenderedContract): Uint8Array => {
+  const margin = 40
+  const gutter = 16
+  const columnWidth = (A4_WIDTH - margin * 2 - gutter) / 2
+  const rightX = margin + columnWidth + gutter
+  const pages: PdfPage[] = []
+  let page: PdfPage = { texts: [], lines: [] }
+  let y = A4_HEIGHT - margin
+
+  const ensureSpace = (height: number) => {
+    if (y - height >= margin) return
+    pages.push(page)
+    page = { texts: [], lines: [] }
+    y = A4_HEIGHT - margin
+  }
+
+  // Japanese on the left, English on the right, each wrapped to its own column
+  const addPair = (ja: string, en: string, size: number, gray = 0) => {
+    const lineHeight = size * 1.5
+    const jaLines = wrapText(ja, columnWidth, size)
+    const enLines = wrapText(en, columnWidth, size)
+    const count = Math.max(jaLines.length, enLines.length)
+    ensureSpace(count * lineHeight)
+    for (let i = 0; i < count; i++) {
+      y -= lineHeight
+      if (jaLines[i]) page.texts.push({ x: margin, y, size, text: jaLines[i], gray })
+      if (enLines[i]) page.texts.push({ x: rightX, y, size, text: enLines[i], gray })
+    }
+  }
+
+  const addRule = () => {
+    y -= 4
+    page.lines?.push({ x1: margin, y1: y, x2: A4_WIDTH - margin, y2: y })
+  }
+
+  addPair(contract.title.ja, contract.title.en, 16)
+  y -= 8
+
+  contract.sections.forEach(section => {
+    ensureSpace(48)
+    y -= 8
+    addPair(section.heading.ja, section.heading.en, 11)
+    addRule()
+    section.rows.forEach(row => {
+      addPair(row.label.ja, row.label.en, 8, 0.4)
+      addPair(row.value.ja, row.value.en, 10)
+    })
+  })
+
+  ensureSpace(48)
+  y -= 8
+  addPair('約款', 'Terms', 11)
+  addRule()
+  contract.clauses.forEach(clause => {
+    addPair(clause.ja, clause.en, 9)
+    y -= 4
+  })
+
+  ensureSpace(60)
+  y -= 48
+  page.lines?.push({ x1: margin, y1: y, x2: margin + columnWidth, y2: y })
+  page.lines?.push({ x1: rightX, y1: y, x2: rightX + columnWidth, y2: y })
+  page.texts.push({ x: margin, y: y - 12, size: 8, text: '契約者署名 / Subscriber signature', gray: 0.4 })
+  page.texts.push({ x: rightX, y: y - 12, size: 8, text: '受付担当者 / Staff', gray: 0.4 })
+
+  pages.push(page)
+  return createPdf(pages)
+}
+
+export const hashContent = async (content: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', content)
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+const renderFiles = (fields: ContractFields, templateVersion: string) => {
+  const template = CONTRACT_TEMPLATES[templateVersion]
+  if (!template) {
+    throw new Error(`Unknown contract template ${templateVersion}`)
+  }
+  const contract = renderContract(fields, template)
+  return {
+    contract,
+    pdf: renderContractPdf(contract),
+    html: renderContractHtml(contract, fields.contractNumber)
+  }
+}
+
+// Renders, hashes and uploads the contract; the returned document is what gets stored on the task
+export const generateContractDocument = async (
+  fields: ContractFields,
+  templateVersion = CURRENT_CONTRACT_TEMPLATE
+): Promise<ContractDocument> => {
+  const { contract, pdf, html } = renderFiles(fields, templateVersion)
+  const contentHash = await hashContent(pdf)
+  // Storage serves uploads to anyone holding their public URL, so that URL is never kept and the
+  // path carries a random part that cannot be guessed from the contract number
+  const basePath = `contracts/${fields.customerId}/${fields.contractNumber}-${crypto.randomUUID()}`
+  const pdfPath = `${basePath}.pdf`
+  const htmlPath = `${basePath}.html`
+
+  await Promise.all([
+    blink.storage.upload(new Blob([pdf], { type: 'application/pdf' }), pdfPath, { upsert: true }),
+    blink.storage.upload(new Blob([html], { type: 'text/html;charset=utf-8' }), htmlPath, { upsert: true })
+  ])
+
+  return {
+    contractNumber: fields.contractNumber,
+    templateVersion,
+    issuedAt: fields.issuedAt,
+    title: contract.title,
+    fields: maskPiiValues(fields) as ContractFields,
+    sealedFields: await encryptField(JSON.stringify(fields), SEALED_CONTRACT_FIELD),
+    contentHash,
+    pdfPath,
+    htmlPath
+  }
+}
+
+// A short-lived link to a stored contract file from the signed-in download endpoint; made
+// each time the file is opened or sent rather than stored
+export const getContractFileUrl = async (path: string) => (await blink.storage.download(path)).downloadUrl
+
+// Re-renders a stored contract from its sealed fields and checks it still matches the recorded
+// hash. Opening the fields is logged against the customer.
+export const verifyContractDocument = async (document: ContractDocument) => {
+  if (!document.sealedFields) return false
+  const fields = await openContractFields<ContractFields>(document.fields.customerId, document.sealedFields)
+  const { pdf } = renderFiles(fields, document.templateVersion)
+  return (await hashContent(pdf)) === document.contentHash
+}
@@ -0,0 +1,189 @@
+import { blink } from '../blink/client'
+import {
+  IDENTIFICATION_TYPES,
+  normalizeIdentificationNumber,
+  validateIdentification,
+  type IdentificationType
+} from './identification'
+import { validatePhoneNumber } from './phone'
+import { toKatakana } from './search'
+
+export interface ExtractedField<T = string> {
+  value: T
+  // 0–1, how sure the extractor is that it heard this right
+  confidence: number
+}
+
+export interface CustomerExtraction {
+  name?: ExtractedField
+  furigana?: ExtractedField
+  phone?: ExtractedField
+  email?: ExtractedField
+  address?: ExtractedField
+  identificationType?: ExtractedField<IdentificationType>
+  identificationNumber?: ExtractedField
+}
+
+export type CustomerExtractionField = keyof CustomerExtraction
+
+// The same fields the Add New Customer dialog edits
+export interface CustomerFormValues {
+  name: string
+  furigana: string
+  email: string
+  phone: string
+  postalCode: string
+  address: string
+  identificationType: string
+  identificationNumber: string
+}
+
+export const EMPTY_CUSTOMER_FORM: CustomerFormValues = {
+  name: '',
+  furigana: '',
+  email: '',
+  phone: '',
+  postalCode: '',
+  address: '',
+  identificationType: 'drivers_license',
+  identificationNumber: ''
+}
+
+// Below this the dialog asks the operator to double-check the field
+export const LOW_CONFIDENCE_THRESHOLD = 0.7
+
+const FIELDS: CustomerExtractionField[] = [
+  'name',
+  'furigana',
+  'phone',
+  'email',
+  'address',
+  'identificationType',
+  'identificationNumber'
+]
+
+const clampConfidence = (value: unknown) => {
+  const n = Number(value)
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0
+}
+
+// Spoken numbers often come back as full-width digits or with "ー" for the hyphen
+const normalizePhone = (value: string) => validatePhoneNumber(value).normalized
+
+const normalizeEmail = (value: string) =>
+  value
+    .normalize('NFKC')
+    .replace(/\s+/g, '')
+    .replace(/＠/g, '@')
+    .toLowerCase()
+
+const normalizeField = (field: CustomerExtractionField, value: string) => {
+  switch (field) {
+    case 'furigana':
+      return toKatakana(value).trim()
+    case 'phone':
+      return normalizePhone(value)
+    case 'email':
+      return normalizeEmail(value)
+    case 'identificationNumber':
+      return normalizeIdentificationNumber(value)
+    default:
+      return value.normalize('NFKC').trim()
+  }
+}
+
+export const hasExtractedFields = (extraction: CustomerExtraction) =>
+  FIELDS.some(field => extraction[field] !== undefined)
+
+export const countExtractedFields = (extraction: CustomerExtraction) =>
+  FIELDS.filter(field => extraction[field] !== undefined).length
+
+export const isLowConfidence = (field?: ExtractedField<string>) =>
+  !!field && field.confidence < LOW_CONFIDENCE_THRESHOLD
+
+const fieldSchema = {
+  type: 'object',
+  properties: {
+    value: { type: 'string' },
+    confidence: { type: 'number' }
+  },
+  required: ['value', 'confidence']
+}
+
+// JSON schema for a CustomerExtraction, so other voice prompts can ask for it alongside their own fields
+export const CUSTOMER_EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: Object.fromEntries(FIELDS.map(field => [field, fieldSchema]))
+}
+
+export const CUSTOMER_EXTRACTION_INSTRUCTIONS = `Each customer field is { value, confidence } where confidence is 0-1:
+- name: full name as written (kanji for Japanese names)
+- furigana: reading of the name in katakana, if spelled out or clearly implied
+- phone: phone number digits
+- email: email address ("アットマーク"/"at" → @, "ドット"/"dot" → .)
+- address: postal address
+- identificationType: one of ${IDENTIFICATION_TYPES.join(', ')} (運転免許証, パスポート, マイナンバーカード, 在留カード)
+- identificationNumber: the ID document number
+Lower the confidence for anything that was misheard, partial or guessed. Leave out fields that are not mentioned.`
+
+// Cleans up model output: normalizes values, drops empty or unknown ones and
+// caps the confidence of values that fail a format check
+export const normalizeCustomerExtraction = (raw: unknown): CustomerExtraction => {
+  const entries = (raw && typeof raw === 'object' ? raw : {}) as Record<string, { value?: unknown; confidence?: unknown } | undefined>
+  const extraction: CustomerExtraction = {}
+
+  for (const field of FIELDS) {
+    const entry = entries[field]
+    if (!entry || typeof entry.value !== 'string') continue
+    const value = normalizeField(field, entry.value)
+    if (!value) continue
+    let confidence = clampConfidence(entry.confidence)
+
+    if (field === 'identificationType') {
+      if (!IDENTIFICATION_TYPES.includes(value as IdentificationType)) continue
+      extraction.identificationType = { value: value as IdentificationType, confidence }
+      continue
+    }
+    if (field === 'email' && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value)) {
+      confidence = Math.min(confidence, 0.4)
+    }
+    extraction[field] = { value, confidence }
+  }
+
+  // A number that fails the format check for its ID type was probably misheard
+  const { identificationType, identificationNumber } = extraction
+  if (identificationType && identificationNumber &&
+      !validateIdentification(identificationType.value, identificationNumber.value).valid) {
+    identificationNumber.confidence = Math.min(identificationNumber.confidence, 0.4)
+  }
+
+  return extraction
+}
+
+// Pulls customer details out of one utterance. Fields that were not said are left out.
+export const extractCustomerFields = async (text: string, language: 'ja' | 'en'): Promise<CustomerExtraction> => {
+  const { object } = await blink.ai.generateObject({
+    prompt: `A shop customer is giving their details to a telecom counter operator (${language === 'ja' ? 'Japanese' : 'English'}):
+"${text}"
+
+Extract only what is stated. ${CUSTOMER_EXTRACTION_INSTRUCTIONS}`,
+    schema: CUSTOMER_EXTRACTION_SCHEMA
+  })
+
+  return normalizeCustomerExtraction(object)
+}
+
+// Later utterances correct earlier ones, so extracted values replace what is in the form
+export const applyCustomerExtraction = (
+  form: CustomerFormValues,
+  extraction: CustomerExtraction
+): CustomerFormValues => ({
+  name: extraction.name?.value ?? form.name,
+  furigana: extraction.furigana?.value ?? form.furigana,
+  email: extraction.email?.value ?? form.email,
+  phone: extraction.phone?.value ?? form.phone,
+  postalCode: form.postalCode,
+  address: extraction.address?.value ?? form.address,
+  identificationType: extraction.identificationType?.value ?? form.identificationType,
+  identificationNumber: extraction.identificationNumber?.value ?? form.identificationNumber
+})
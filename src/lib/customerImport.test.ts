@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const createCustomers = vi.fn()
+const findDuplicateCustomers = vi.fn()
+vi.mock('../blink/client', () => ({ blink: {} }))
+vi.mock('./customers', async importOriginal => ({
+  ...await importOriginal<typeof import('./customers')>(),
+  createCustomers: (...args: unknown[]) => createCustomers(...args),
+  findDuplicateCustomers: (...args: unknown[]) => findDuplicateCustomers(...args)
+}))
+
+const { IMPORT_BATCH_SIZE, buildImportReport, commitImport, guessImportMapping, readImportFile } =
+  await import('./customerImport')
+
+const table = (headers: string[], rows: string[][]) => ({
+  fileName: 'customers.csv',
+  headers,
+  rows: rows.map((cells, index) => ({ rowNumber: index + 2, cells }))
+})
+
+beforeEach(() => {
+  createCustomers.mockReset()
+  createCustomers.mockImplementation(async (_userId: string, values: unknown[]) => values)
+  findDuplicateCustomers.mockReset()
+  findDuplicateCustomers.mockResolvedValue([])
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('readImportFile', () => {
+  it('reads UTF-8 with a byte order mark, quoted fields and blank lines', async () => {
+    const text = '\uFEFF\r\n氏名,住所,電話\r\n"田中 太郎","東京都渋谷区神南1-2-3, ""2F""",090-1234-5678\r\n,,\r\n佐藤 花子,"大阪府\n大阪市",\r\n'
+    const result = await readImportFile(new File([text], 'customers.csv'))
+
+    expect(result.headers).toEqual(['氏名', '住所', '電話'])
+    expect(result.rows).toEqual([
+      { rowNumber: 3, cells: ['田中 太郎', '東京都渋谷区神南1-2-3, "2F"', '090-1234-5678'] },
+      { rowNumber: 5, cells: ['佐藤 花子', '大阪府\n大阪市', ''] }
+    ])
+  })
+
+  it('reads Shift_JIS, as Excel writes Japanese CSV', async () => {
+    // 氏名,電話 / 田中,0312345678 in Shift_JIS
+    const bytes = Uint8Array.from([
+      0x8e, 0x81, 0x96, 0xbc, 0x2c, 0x93, 0x64, 0x98, 0x62, 0x0d, 0x0a,
+      0x93, 0x63, 0x92, 0x86, 0x2c, 0x30, 0x33, 0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37, 0x38
+    ])
+    const result = await readImportFile(new File([bytes], 'customers.csv'))
+
+    expect(result.headers).toEqual(['氏名', '電話'])
+    expect(result.rows).toEqual([{ rowNumber: 2, cells: ['田中', '0312345678'] }])
+  })
+})
+
+describe('guessImportMapping', () => {
+  it('maps Japanese and English headers regardless of width and case', () => {
+    expect(guessImportMapping(['お名前', 'フリガナ', 'E-Mail', '電話番号', '〒', '住所', 'メモ'])).toEqual({
+      name: 0,
+      furigana: 1,
+      email: 2,
+      phone: 3,
+      postalCode: 4,
+      address: 5
+    })
+    expect(guessImportMapping(['ＴＥＬ', 'Customer Name'])).toEqual({ phone: 0, name: 1 })
+  })
+
+  it('maps a column to one field only', () => {
+    expect(guessImportMapping(['携帯', '携帯'])).toEqual({ phone: 0 })
+  })
+})
+
+describe('buildImportReport', () => {
+  const headers = ['氏名', 'フリガナ', 'メール', '電話', '住所', '本人確認書類', '書類番号', '言語', '敬語']
+  const mapping = guessImportMapping(headers)
+
+  it('normalizes cells into form values', async () => {
+    const [result] = await buildImportReport('user_1', table(headers, [[
+      '田中　太郎', 'たなか たろう', ' Taro@Example.com ', '9012345678', '〒150-0041 東京都渋谷区神南1-2-3',
+      'パスポート', 'tk1234567', 'English', 'いいえ'
+    ]]), mapping)
+
+    expect(result.values).toMatchObject({
+      name: '田中 太郎',
+      furigana: 'タナカ タロウ',
+      email: 'taro@example.com',
+      // A number cell has lost its leading zero
+      phone: '090-1234-5678',
+      postalCode: '150-0041',
+      address: '東京都渋谷区神南1-2-3',
+      identificationType: 'passport',
+      identificationNumber: 'TK1234567',
+      preferredLanguage: 'en',
+      keigoPreference: 'casual'
+    })
+    expect(result).toMatchObject({ errors: {}, status: 'ready' })
+  })
+
+  it('marks rows that fail validation invalid without looking for duplicates', async () => {
+    const [result] = await buildImportReport('user_1', table(headers, [[
+      '', 'Tanaka', 'taro@', '12-34', '', 'Passport', '123', '', ''
+    ]]), mapping)
+
+    expect(result.status).toBe('invalid')
+    expect(Object.keys(result.errors).sort()).toEqual(['email', 'furigana', 'identificationNumber', 'name', 'phone'])
+    expect(findDuplicateCustomers).not.toHaveBeenCalled()
+  })
+
+  it('marks duplicates of existing customers and of earlier rows', async () => {
+    const existing = { customer: { id: 'customer_1', name: '佐藤 花子' }, reasons: ['email'] }
+    findDuplicateCustomers.mockImplementation(async (_userId: string, values: { email: string }) =>
+      values.email === 'hanako@example.com' ? [existing] : []
+    )
+
+    const results = await buildImportReport('user_1', table(['氏名', 'メール', '電話'], [
+      ['田中 太郎', 'taro@example.com', '090-1234-5678'],
+      ['佐藤 花子', 'hanako@example.com', ''],
+      ['田中 太郎', 'TARO@example.com', '09012345678'],
+      ['鈴木 一郎', 'ichiro@example.com', '+81 90 1234 5678']
+    ]), { name: 0, email: 1, phone: 2 })
+
+    expect(results.map(({ rowNumber, status, duplicateOfRow }) => [rowNumber, status, duplicateOfRow])).toEqual([
+      [2, 'ready', undefined],
+      [3, 'duplicate', undefined],
+      [4, 'duplicate', 2],
+      [5, 'duplicate', 2]
+    ])
+    expect(results[1].duplicates).toEqual([existing])
+  })
+
+  it('writes nothing', async () => {
+    await buildImportReport('user_1', table(['氏名'], [['田中 太郎']]), { name: 0 })
+    expect(createCustomers).not.toHaveBeenCalled()
+  })
+})
+
+describe('commitImport', () => {
+  const results = (count: number, status: 'ready' | 'duplicate' | 'invalid' = 'ready') =>
+    Array.from({ length: count }, (_, index) => ({
+      rowNumber: index + 2,
+      values: { name: `顧客 ${index}` } as never,
+      errors: {},
+      duplicates: [],
+      status
+    }))
+
+  it(`writes the ready rows ${IMPORT_BATCH_SIZE} at a time`, async () => {
+    const onProgress = vi.fn()
+    const result = await commitImport('user_1', [...results(120), ...results(3, 'invalid')], { onProgress })
+
+    expect(result).toEqual({ created: 120, failedRows: [] })
+    expect(createCustomers.mock.calls.map(([, values]) => values.length)).toEqual([50, 50, 20])
+    expect(onProgress.mock.calls).toEqual([[50, 120], [100, 120], [120, 120]])
+  })
+
+  it('writes duplicate rows only when asked', async () => {
+    await expect(commitImport('user_1', results(2, 'duplicate'))).resolves.toEqual({ created: 0, failedRows: [] })
+    await expect(commitImport('user_1', results(2, 'duplicate'), { includeDuplicates: true }))
+      .resolves.toEqual({ created: 2, failedRows: [] })
+  })
+
+  it('reports the rows of a failed batch and carries on', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    createCustomers
+      .mockRejectedValueOnce(new Error('Database unavailable'))
+      .mockImplementation(async (_userId: string, values: unknown[]) => values)
+
+    const result = await commitImport('user_1', results(60))
+    expect(result.created).toBe(10)
+    expect(result.failedRows).toEqual(Array.from({ length: 50 }, (_, index) => index + 2))
+  })
+})
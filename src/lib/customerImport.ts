@@ -0,0 +1,264 @@
+import {
+  CUSTOMER_EDITABLE_FIELDS,
+  createCustomers,
+  findDuplicateCustomers,
+  normalizeCustomerEditValues,
+  toEmailKey,
+  toPhoneKey,
+  validateCustomerEditValues,
+  type CustomerDuplicate,
+  type CustomerEditValues,
+  type CustomerEditableField,
+  type CustomerValidationErrors
+} from './customers'
+import { IDENTIFICATION_TYPES, getIdentificationTypeLabel, normalizeIdentificationNumber } from './identification'
+import { normalizeSearchText } from './search'
+import { readXlsx } from './xlsx'
+
+export interface ImportRow {
+  // Line in the file, counting from 1, so operators can find the row in their spreadsheet
+  rowNumber: number
+  cells: string[]
+}
+
+// A spreadsheet as read from the file: the first non-empty row is the header
+export interface ImportTable {
+  fileName: string
+  headers: string[]
+  rows: ImportRow[]
+}
+
+// Column index per customer field; fields left out are not imported
+export type ImportColumnMapping = Partial<Record<CustomerEditableField, number>>
+
+export type ImportRowStatus = 'ready' | 'invalid' | 'duplicate'
+
+export interface ImportRowResult {
+  rowNumber: number
+  values: CustomerEditValues
+  errors: CustomerValidationErrors
+  // Existing customers that look like the same person
+  duplicates: CustomerDuplicate[]
+  // Earlier row of the same file with the same phone, email or ID number
+  duplicateOfRow?: number
+  status: ImportRowStatus
+}
+
+export interface ImportCommitResult {
+  created: number
+  // Rows of batches that could not be written; importing them again is safe
+  failedRows: number[]
+}
+
+export const IMPORT_FIELDS = CUSTOMER_EDITABLE_FIELDS
+
+export const IMPORT_BATCH_SIZE = 50
+
+// Files beyond this are split up first; every row is checked against the database
+export const MAX_IMPORT_ROWS = 5000
+
+// Header names seen in store spreadsheets, compared after normalizeSearchText
+const HEADER_ALIASES: Record<CustomerEditableField, string[]> = {
+  name: ['name', 'full name', 'customer name', '氏名', '名前', 'お名前', '顧客名', '契約者名'],
+  furigana: ['furigana', 'kana', 'reading', 'フリガナ', 'ふりがな', 'カナ', 'カナ氏名', '氏名カナ', 'セイメイ'],
+  email: ['email', 'e-mail', 'mail', 'email address', 'メール', 'メールアドレス', 'eメール'],
+  phone: ['phone', 'tel', 'telephone', 'mobile', 'phone number', '電話', '電話番号', '携帯', '携帯番号', '連絡先'],
+  postalCode: ['postal code', 'postcode', 'zip', 'zip code', '郵便番号', '〒'],
+  address: ['address', '住所', '現住所', '所在地'],
+  identificationType: ['id type', 'identification type', '本人確認書類', '身分証明書', '身分証明書の種類', '書類種別'],
+  identificationNumber: ['id number', 'identification number', '書類番号', '身分証明書番号', '証明書番号'],
+  preferredLanguage: ['language', 'preferred language', '言語', '希望言語', '言語設定'],
+  keigoPreference: ['keigo', 'keigo mode', '敬語', '敬語設定']
+}
+
+// Cell values accepted for the fields that take a fixed set of values
+const LANGUAGE_VALUES: Record<string, string[]> = {
+  ja: ['ja', 'japanese', '日本語'],
+  en: ['en', 'english', '英語']
+}
+const KEIGO_VALUES: Record<string, string[]> = {
+  formal: ['formal', 'yes', '敬語', 'はい'],
+  casual: ['casual', 'no', 'カジュアル', 'いいえ']
+}
+
+// The key whose accepted values include the cell, compared after normalizeSearchText
+const matchValue = (values: Record<string, string[]>, cell: string) => {
+  const text = normalizeSearchText(cell)
+  return Object.keys(values).find(key => values[key].some(value => normalizeSearchText(value) === text))
+}
+
+// UTF-8 when the bytes are valid UTF-8, otherwise Shift_JIS, which is what Excel writes for
+// Japanese CSV. Shift_JIS text is almost never valid UTF-8, so the check is reliable.
+const decodeCsv = (data: Uint8Array) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data).replace(/^\uFEFF/, '')
+  } catch {
+    return new TextDecoder('shift_jis').decode(data)
+  }
+}
+
+// RFC 4180: quoted fields may hold commas, quotes ("") and line breaks
+const parseCsv = (text: string) => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field])
+  return rows
+}
+
+const isBlankRow = (row: string[]) => row.every(cell => !cell.trim())
+
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  const data = new Uint8Array(await file.arrayBuffer())
+  const isXlsx = /\.xlsx$/i.test(file.name) || (data[0] === 0x50 && data[1] === 0x4b)
+  const cells = isXlsx ? await readXlsx(data) : parseCsv(decodeCsv(data))
+
+  const headerIndex = cells.findIndex(row => !isBlankRow(row))
+  if (headerIndex < 0) return { fileName: file.name, headers: [], rows: [] }
+  const headers = cells[headerIndex].map(header => header.trim())
+  const rows = cells
+    .map((row, index) => ({ rowNumber: index + 1, cells: headers.map((_, column) => row[column] || '') }))
+    .slice(headerIndex + 1)
+    .filter(row => !isBlankRow(row.cells))
+  return { fileName: file.name, headers, rows }
+}
+
+export const guessImportMapping = (headers: string[]): ImportColumnMapping => {
+  const mapping: ImportColumnMapping = {}
+  const normalized = headers.map(header => normalizeSearchText(header))
+  for (const field of IMPORT_FIELDS) {
+    const aliases = HEADER_ALIASES[field].map(alias => normalizeSearchText(alias))
+    const column = normalized.findIndex((header, index) =>
+      aliases.includes(header) && !Object.values(mapping).includes(index)
+    )
+    if (column >= 0) mapping[field] = column
+  }
+  return mapping
+}
+
+const toIdentificationType = (value: string) => {
+  const text = normalizeSearchText(value)
+  if (!text) return ''
+  return IDENTIFICATION_TYPES.find(type =>
+    type === value.trim() ||
+    normalizeSearchText(getIdentificationTypeLabel(type, 'ja')) === text ||
+    normalizeSearchText(getIdentificationTypeLabel(type, 'en')) === text
+  ) || value.trim()
+}
+
+// Spreadsheet cells into form values; fixed-value fields accept their Japanese and English labels
+const toImportValues = (row: ImportRow, mapping: ImportColumnMapping): CustomerEditValues => {
+  const cell = (field: CustomerEditableField) => {
+    const column = mapping[field]
+    return column === undefined ? '' : (row.cells[column] || '').trim()
+  }
+  let phone = cell('phone')
+  // A phone number stored as a number has lost its leading zero
+  if (/^[1-9]\d{8,9}$/.test(phone)) phone = `0${phone}`
+
+  return normalizeCustomerEditValues({
+    name: cell('name'),
+    furigana: cell('furigana'),
+    email: cell('email'),
+    phone,
+    postalCode: cell('postalCode'),
+    address: cell('address'),
+    identificationType: toIdentificationType(cell('identificationType')),
+    identificationNumber: cell('identificationNumber'),
+    preferredLanguage: matchValue(LANGUAGE_VALUES, cell('preferredLanguage')) || 'ja',
+    keigoPreference: matchValue(KEIGO_VALUES, cell('keigoPreference')) || 'formal'
+  })
+}
+
+const getFileKeys = (values: CustomerEditValues) => [
+  values.phone && `phone:${toPhoneKey(values.phone)}`,
+  values.email && `email:${toEmailKey(values.email)}`,
+  values.identificationNumber && `id:${normalizeIdentificationNumber(values.identificationNumber)}`
+].filter(Boolean) as string[]
+
+// Dry run: validates every row and looks for duplicates, both against existing customers and
+// within the file. Nothing is written.
+export const buildImportReport = async (
+  userId: string,
+  table: ImportTable,
+  mapping: ImportColumnMapping,
+  onProgress?: (checked: number, total: number) => void
+): Promise<ImportRowResult[]> => {
+  const results: ImportRowResult[] = []
+  const seen = new Map<string, number>()
+
+  for (const row of table.rows) {
+    const { rowNumber } = row
+    const values = toImportValues(row, mapping)
+    const errors = validateCustomerEditValues(values)
+    const keys = getFileKeys(values)
+    const duplicateOfRow = keys.map(key => seen.get(key)).find(Boolean)
+    keys.forEach(key => seen.has(key) || seen.set(key, rowNumber))
+
+    const duplicates = Object.keys(errors).length === 0 ? await findDuplicateCustomers(userId, values) : []
+    results.push({
+      rowNumber,
+      values,
+      errors,
+      duplicates,
+      duplicateOfRow,
+      status: Object.keys(errors).length > 0
+        ? 'invalid'
+        : duplicates.length > 0 || duplicateOfRow ? 'duplicate' : 'ready'
+    })
+    onProgress?.(results.length, table.rows.length)
+  }
+  return results
+}
+
+// Writes the ready rows, and the duplicate rows when asked, IMPORT_BATCH_SIZE at a time. A batch
+// that fails is reported and the rest carry on.
+export const commitImport = async (
+  userId: string,
+  results: ImportRowResult[],
+  options: { includeDuplicates?: boolean; onProgress?: (done: number, total: number) => void } = {}
+): Promise<ImportCommitResult> => {
+  const rows = results.filter(row => row.status === 'ready' || (options.includeDuplicates && row.status === 'duplicate'))
+  const result: ImportCommitResult = { created: 0, failedRows: [] }
+
+  for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + IMPORT_BATCH_SIZE)
+    try {
+      const created = await createCustomers(userId, batch.map(row => row.values))
+      result.created += created.length
+    } catch (error) {
+      console.error(`Failed to import rows ${batch[0].rowNumber}-${batch[batch.length - 1].rowNumber}:`, error)
+      result.failedRows.push(...batch.map(row => row.rowNumber))
+    }
+    options.onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, rows.length), rows.length)
+  }
+  return result
+}
@@ -0,0 +1,77 @@
+import { blink } from '../blink/client'
+import type { Customer } from '../types/customer'
+import {
+  CUSTOMER_EDITABLE_FIELDS,
+  deleteCustomer,
+  moveCustomerHistory,
+  recordCustomerHistory,
+  toCustomerEditValues,
+  updateCustomer,
+  type CustomerEditValues
+} from './customers'
+import { moveCustomerNotes } from './customerTimeline'
+import { moveCustomerMessages } from './delivery/pipeline'
+import { publishChange } from './liveUpdates'
+import { moveCustomerFollowUps } from './scheduling'
+import { userActor } from './taskEvents'
+import { moveCustomerTasks } from './tasks'
+import { moveCustomerVisitLogs } from './visitLogs'
+
+// How many records were moved onto the surviving customer
+export interface CustomerMergeResult {
+  tasks: number
+  messages: number
+  followUps: number
+  visitLogs: number
+  notes: number
+  history: number
+}
+
+// Starting point for the merge form: the survivor's values, with blanks filled from the duplicate
+export const buildMergeValues = (survivor: Customer, duplicate: Customer): CustomerEditValues => {
+  const kept = toCustomerEditValues(survivor)
+  const other = toCustomerEditValues(duplicate)
+  return Object.fromEntries(
+    CUSTOMER_EDITABLE_FIELDS.map(field => [field, kept[field] || other[field]])
+  ) as CustomerEditValues
+}
+
+// Fields where the two records disagree, i.e. where the operator has to pick a value
+export const getConflictingFields = (a: Customer, b: Customer) => {
+  const left = toCustomerEditValues(a)
+  const right = toCustomerEditValues(b)
+  return CUSTOMER_EDITABLE_FIELDS.filter(field => left[field] && right[field] && left[field] !== right[field])
+}
+
+// Keeps `survivor` with the chosen values and moves everything that pointed at `duplicate` onto it.
+// The duplicate is deleted last, so a merge that stops halfway can simply be run again.
+export const mergeCustomers = async (
+  survivor: Customer,
+  duplicate: Customer,
+  values: CustomerEditValues
+): Promise<CustomerMergeResult> => {
+  const user = await blink.auth.me()
+  const actor = userActor(user.id)
+  const actorName = user.email || ''
+
+  const result: CustomerMergeResult = {
+    history: await moveCustomerHistory(duplicate.id, survivor.id),
+    tasks: await moveCustomerTasks(user.id, duplicate.id, survivor.id, actor),
+    messages: await moveCustomerMessages(user.id, duplicate.id, survivor.id),
+    followUps: await moveCustomerFollowUps(user.id, duplicate.id, survivor.id),
+    visitLogs: await moveCustomerVisitLogs(user.id, duplicate.id, survivor.id),
+    notes: await moveCustomerNotes(user.id, duplicate.id, survivor.id)
+  }
+
+  await updateCustomer({ userId: user.id, ...survivor }, values, actor, actorName)
+  await recordCustomerHistory(
+    survivor,
+    user.id,
+    [{ field: 'mergedFrom', from: duplicate.id, to: duplicate.name }],
+    actor,
+    actorName
+  )
+  await deleteCustomer(user.id, duplicate.id)
+  if (result.tasks > 0) publishChange(user.id, 'tasks', survivor.id)
+  return result
+}
@@ -0,0 +1,98 @@
+import { blink } from '../blink/client'
+import type { Customer } from '../types/customer'
+import type { Task } from '../types/task'
+import type { VisitLog } from '../types/visitLog'
+import { listCustomerMessages, type MessageRecord } from './delivery/pipeline'
+import { userActor, type TaskEventActor } from './taskEvents'
+import { listTasks } from './tasks'
+import { listVisitLogs } from './visitLogs'
+
+// Free-text note an operator leaves on a customer, e.g. "prefers calls after 18:00"
+export interface CustomerNote {
+  id: string
+  customerId: string
+  userId: string
+  actor: TaskEventActor
+  actorName: string
+  body: string
+  createdAt: string
+}
+
+// One thing that happened with a customer; `at` is when it happened, used for ordering
+export type CustomerTimelineEntry =
+  | { kind: 'task'; id: string; at: string; task: Task }
+  | { kind: 'voice'; id: string; at: string; task: Task }
+  | { kind: 'message'; id: string; at: string; message: MessageRecord }
+  | { kind: 'visitLog'; id: string; at: string; visitLog: VisitLog }
+  | { kind: 'note'; id: string; at: string; note: CustomerNote }
+
+export type CustomerTimelineKind = CustomerTimelineEntry['kind']
+
+// How many of each kind are read; the timeline shows the most recent activity, not everything
+const SOURCE_LIMIT = 50
+
+const customerNotesTable = () => blink.db.table<CustomerNote>('customerNotes')
+
+// Notes written in the same millisecond still sort in the order they were written
+let sequence = 0
+
+export const addCustomerNote = async (customer: Pick<Customer, 'id'>, body: string): Promise<CustomerNote> => {
+  const user = await blink.auth.me()
+  sequence = (sequence + 1) % 10000
+  const note: CustomerNote = {
+    id: `note_${Date.now()}_${String(sequence).padStart(4, '0')}`,
+    customerId: customer.id,
+    userId: user.id,
+    actor: userActor(user.id),
+    actorName: user.email || '',
+    body: body.trim(),
+    createdAt: new Date().toISOString()
+  }
+  await customerNotesTable().create(note)
+  return note
+}
+
+export const listCustomerNotes = async (userId: string, customerId: string, limit = SOURCE_LIMIT) =>
+  customerNotesTable().list({
+    where: { userId, customerId },
+    orderBy: { createdAt: 'desc' },
+    limit
+  })
+
+export const moveCustomerNotes = async (userId: string, fromId: string, toId: string) => {
+  const notes = await customerNotesTable().list({ where: { userId, customerId: fromId } })
+  if (notes.length > 0) await customerNotesTable().updateMany(notes.map(note => ({ id: note.id, customerId: toId })))
+  return notes.length
+}
+
+const isVoiceTask = (task: Task) => task.agentType === 'voice_command' || task.agentType === 'voice_agent'
+
+// Messages count from when they went out; ones never sent show when they were queued
+const getMessageTime = (message: MessageRecord) => message.sentAt || message.createdAt
+
+// Everything linked to the customer, newest first. A source that fails to load is left out
+// rather than hiding the rest of the timeline.
+export const getCustomerTimeline = async (userId: string, customerId: string): Promise<CustomerTimelineEntry[]> => {
+  const load = <T>(source: string, promise: Promise<T[]>) =>
+    promise.catch(error => {
+      console.error(`Failed to load ${source} for the customer timeline:`, error)
+      return [] as T[]
+    })
+
+  const [tasks, messages, visitLogs, notes] = await Promise.all([
+    load('tasks', listTasks(userId, { customerId, limit: SOURCE_LIMIT })),
+    load('messages', listCustomerMessages(userId, customerId, SOURCE_LIMIT)),
+    load('visit logs', listVisitLogs(userId, { customerId, limit: SOURCE_LIMIT })),
+    load('notes', listCustomerNotes(userId, customerId))
+  ])
+
+  const entries: CustomerTimelineEntry[] = [
+    ...tasks.map(task => isVoiceTask(task)
+      ? { kind: 'voice' as const, id: task.id, at: task.createdAt, task }
+      : { kind: 'task' as const, id: task.id, at: task.createdAt, task }),
+    ...messages.map(message => ({ kind: 'message' as const, id: message.id, at: getMessageTime(message), message })),
+    ...visitLogs.map(visitLog => ({ kind: 'visitLog' as const, id: visitLog.id, at: visitLog.arrivalTime || visitLog.createdAt, visitLog })),
+    ...notes.map(note => ({ kind: 'note' as const, id: note.id, at: note.createdAt, note }))
+  ]
+  return entries.sort((a, b) => b.at.localeCompare(a.at) || b.id.localeCompare(a.id))
+}
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const sql = vi.fn()
+const get = vi.fn()
+vi.mock('../blink/client', () => ({
+  blink: {
+    db: {
+      sql: (...args: unknown[]) => sql(...args),
+      table: () => ({ get: (...args: unknown[]) => get(...args) })
+    }
+  }
+}))
+// Blind indexes are computed by the field-crypto function; a readable stand-in is enough here
+vi.mock('./fieldCrypto', () => ({
+  blindIndex: async (value: string, field: string) => (value ? `index:${field}:${value}` : ''),
+  isEncrypted: (value: string | null | undefined) => !!value && value.startsWith('enc:v1:'),
+  encryptField: async (value: string) => value,
+  revealFields: async () => ({})
+}))
+
+const { findDuplicateCustomers, toEmailKey, toPhoneKey } = await import('./customers')
+
+const row = (fields: Record<string, string>) => ({
+  userId: 'user_1',
+  email: '',
+  phone: '',
+  address: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...fields
+})
+
+beforeEach(() => {
+  sql.mockReset()
+  sql.mockResolvedValue({ rows: [], columns: [], rowCount: 0, executionTime: 0 })
+  get.mockReset()
+})
+
+describe('toPhoneKey', () => {
+  it.each([
+    ['090-1234-5678', '09012345678'],
+    ['090 1234 5678', '09012345678'],
+    ['+81 90-1234-5678', '09012345678'],
+    ['０９０－１２３４－５６７８', '09012345678'],
+    ['03-1234-5678', '0312345678'],
+    ['', '']
+  ])('%s → %s', (phone, key) => {
+    expect(toPhoneKey(phone)).toBe(key)
+  })
+})
+
+describe('toEmailKey', () => {
+  it.each([
+    [' Taro@Example.COM ', 'taro@example.com'],
+    ['ｔａｒｏ＠ｅｘａｍｐｌｅ．ｃｏｍ', 'taro@example.com'],
+    ['', '']
+  ])('%s → %s', (email, key) => {
+    expect(toEmailKey(email)).toBe(key)
+  })
+})
+
+describe('findDuplicateCustomers', () => {
+  it('looks up the normalized phone, the lowercased email and the blind index of the ID number', async () => {
+    await findDuplicateCustomers('user_1', {
+      name: '田中 太郎',
+      phone: '+81 90-1234-5678',
+      email: 'Taro@Example.com',
+      identificationType: 'passport',
+      identificationNumber: 'tk 1234567'
+    })
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toContain('WHERE (user_id = ?) AND ((phone_key = ?) OR (email_key = ?) OR (identification_key = ?))')
+    expect(params.slice(0, 4)).toEqual([
+      'user_1',
+      '09012345678',
+      'taro@example.com',
+      'index:identificationNumber:TK1234567'
+    ])
+  })
+
+  it('does not query without anything to match on', async () => {
+    await expect(findDuplicateCustomers('user_1', { name: '田中 太郎' })).resolves.toEqual([])
+    expect(sql).not.toHaveBeenCalled()
+  })
+
+  it('gives every key that matches as a reason, strongest matches first', async () => {
+    sql.mockResolvedValue({
+      rows: [
+        row({ id: 'customer_email', name: '田中 太郎', emailKey: 'taro@example.com' }),
+        row({ id: 'customer_both', name: '田中 太郎', phoneKey: '09012345678', emailKey: 'taro@example.com' }),
+        row({ id: 'customer_other', name: '佐藤 花子', phoneKey: '08011112222', emailKey: 'hanako@example.com' })
+      ]
+    })
+
+    const duplicates = await findDuplicateCustomers('user_1', { phone: '090-1234-5678', email: 'TARO@example.com' })
+    expect(duplicates.map(({ customer, reasons }) => [customer.id, reasons])).toEqual([
+      ['customer_both', ['phone', 'email']],
+      ['customer_email', ['email']]
+    ])
+    // Index columns stay out of the customer
+    expect(duplicates[0].customer).not.toHaveProperty('phoneKey')
+  })
+
+  it('leaves out the customer being edited', async () => {
+    sql.mockResolvedValue({ rows: [row({ id: 'customer_1', emailKey: 'taro@example.com' })] })
+    await expect(findDuplicateCustomers('user_1', { email: 'taro@example.com' }, 'customer_1')).resolves.toEqual([])
+  })
+
+  it('matches a similar name at the same address written differently', async () => {
+    sql.mockResolvedValue({
+      rows: [
+        row({ id: 'customer_same', name: '田中太郎', address: '東京都渋谷区神南1-2-3' }),
+        row({ id: 'customer_moved', name: '田中 太郎', address: '大阪府大阪市北区梅田3-1-1' }),
+        row({ id: 'customer_family', name: '田中 花子', address: '東京都渋谷区神南1-2-3' })
+      ]
+    })
+
+    const duplicates = await findDuplicateCustomers('user_1', { name: '田中 太郎', address: '東京都渋谷区神南１丁目２番３号' })
+    expect(duplicates.map(({ customer, reasons }) => [customer.id, reasons])).toEqual([['customer_same', ['nameAddress']]])
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toContain("(search_text LIKE ? ESCAPE '\\')")
+    expect(params).toContain('%田中%')
+  })
+
+  it('matches a name by its reading and narrows the query to readings that start alike', async () => {
+    sql.mockResolvedValue({
+      rows: [row({ id: 'customer_1', name: '髙橋 一郎', furigana: 'タカハシ イチロウ', address: '東京都渋谷区神南1-2-3' })]
+    })
+
+    const duplicates = await findDuplicateCustomers('user_1', {
+      name: '高橋 一郎',
+      furigana: 'たかはし いちろう',
+      address: '東京都渋谷区神南1-2-3'
+    })
+    expect(duplicates.map(({ reasons }) => reasons)).toEqual([['nameAddress']])
+    const [query] = sql.mock.calls[0]
+    expect(query).toContain("(reading_key LIKE ? ESCAPE '\\')")
+  })
+
+  it('compares a sealed address down to the town', async () => {
+    sql.mockResolvedValue({
+      rows: [
+        row({
+          id: 'customer_sealed',
+          name: '田中 太郎',
+          address: 'enc:v1:sealed',
+          prefecture: '東京都',
+          municipality: '渋谷区',
+          town: '神南'
+        })
+      ]
+    })
+
+    const duplicates = await findDuplicateCustomers('user_1', { name: '田中 太郎', address: '東京都渋谷区神南2-20-1' })
+    expect(duplicates.map(({ reasons }) => reasons)).toEqual([['nameAddress']])
+  })
+
+  it('matches a sealed phone of a stored customer through the key written with it', async () => {
+    get.mockResolvedValue({ id: 'customer_1', phoneKey: '09012345678' })
+
+    await findDuplicateCustomers('user_1', { id: 'customer_1', phone: 'enc:v1:sealed' }, 'customer_1')
+    expect(get).toHaveBeenCalledWith('customer_1')
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toContain('(phone_key = ?)')
+    expect(params[1]).toBe('09012345678')
+  })
+})
@@ -0,0 +1,757 @@
+import { blink } from '../blink/client'
+import type { Customer } from '../types/customer'
+import { formatPostalCode, isValidPostalCode, removePostalCode, splitAddress } from './address'
+import { blindIndex, encryptField, isEncrypted, revealFields } from './fieldCrypto'
+import { normalizeIdentificationNumber, validateIdentification } from './identification'
+import { publishChange } from './liveUpdates'
+import { validatePhoneNumber } from './phone'
+import { CUSTOMER_PII_FIELDS, MASK, SEALED_MASK, maskPii } from './pii'
+import { lookupPostalCode } from './postalCodes'
+import { buildSearchText, buildSearchWhere, normalizeSearchText, textSimilarity, toKatakana, toReadingKey } from './search'
+import { forEachPage, runMigrationOnce } from './migrations'
+import { countRows, escapeLike, listRows } from './sqlQuery'
+import { userActor, type TaskEventActor } from './taskEvents'
+
+const PAGE_SIZE = 500
+
+// Bumped when the stored shape changes; rows below it are rewritten by migrateLegacyCustomers.
+// 1 added the search and reading columns, 2 the duplicate keys, 3 encrypted the protected fields,
+// 4 the structured phone and address columns, 5 the masked copies of the protected fields,
+// 6 kept `%` and `_` in the search keys.
+export const CUSTOMER_SCHEMA_VERSION = 6
+
+// Fields operators can correct after registration
+export const CUSTOMER_EDITABLE_FIELDS = [
+  'name',
+  'furigana',
+  'email',
+  'phone',
+  'postalCode',
+  'address',
+  'identificationType',
+  'identificationNumber',
+  'preferredLanguage',
+  'keigoPreference'
+] as const
+
+export type CustomerEditableField = typeof CUSTOMER_EDITABLE_FIELDS[number]
+
+export type ProtectedCustomerField = 'identificationNumber' | 'phone' | 'address'
+
+const OPTIONAL_PROTECTED_FIELDS: ProtectedCustomerField[] = ['phone', 'address']
+
+// Every field that may hold a sealed value, including ones no longer configured as protected
+const SEALABLE_FIELDS: ProtectedCustomerField[] = ['identificationNumber', ...OPTIONAL_PROTECTED_FIELDS]
+
+const MASKED_FIELDS = {
+  identificationNumber: 'identificationNumberMasked',
+  phone: 'phoneMasked',
+  address: 'addressMasked'
+} as const satisfies Record<ProtectedCustomerField, keyof Customer>
+
+// Parts of the address precise enough to find the customer; sealed whenever the address is
+const ADDRESS_DETAIL_FIELDS = ['addressLine', 'building'] as const
+
+// Encrypted at rest and masked on screen until an operator reveals them. ID numbers always
+// are; phone and address when listed in VITE_PROTECTED_CUSTOMER_FIELDS. Reads keep them sealed;
+// revealCustomerFields is the only way to open them.
+export const PROTECTED_CUSTOMER_FIELDS: ProtectedCustomerField[] = [
+  'identificationNumber',
+  ...OPTIONAL_PROTECTED_FIELDS.filter(field =>
+    (import.meta.env.VITE_PROTECTED_CUSTOMER_FIELDS || '').split(',').map(name => name.trim()).includes(field)
+  )
+]
+
+export const isProtectedField = (field: string): field is ProtectedCustomerField =>
+  (PROTECTED_CUSTOMER_FIELDS as string[]).includes(field)
+
+// Why a protected value was opened: shown to an operator, loaded into the edit or merge form,
+// used by an agent run, read once to build a masked copy during migration, or opened with the
+// contract it was printed on
+export type RevealReason = 'view' | 'edit' | 'merge' | 'agent' | 'migration' | 'contract'
+
+export const REVEAL_REASON_LABELS: Record<RevealReason, { ja: string; en: string }> = {
+  view: { ja: '表示', en: 'view' },
+  edit: { ja: '編集', en: 'edit' },
+  merge: { ja: '統合', en: 'merge' },
+  agent: { ja: 'エージェント', en: 'agent' },
+  migration: { ja: '移行', en: 'migration' },
+  contract: { ja: '契約書', en: 'contract' }
+}
+
+export interface CustomerReveal {
+  id: string
+  customerId: string
+  userId: string
+  actor: TaskEventActor
+  actorName: string
+  field: ProtectedCustomerField
+  reason: RevealReason
+  createdAt: string
+}
+
+export type CustomerEditValues = Record<CustomerEditableField, string>
+
+export type CustomerValidationErrors = Partial<Record<CustomerEditableField, { ja: string; en: string }>>
+
+export type DuplicateReason = 'phone' | 'email' | 'identificationNumber' | 'nameAddress'
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, { ja: string; en: string }> = {
+  phone: { ja: '電話番号が一致', en: 'Same phone' },
+  email: { ja: 'メールが一致', en: 'Same email' },
+  identificationNumber: { ja: '書類番号が一致', en: 'Same ID number' },
+  nameAddress: { ja: '氏名・住所が類似', en: 'Similar name and address' }
+}
+
+export interface CustomerDuplicate {
+  customer: Customer
+  reasons: DuplicateReason[]
+}
+
+export interface CustomerFieldChange {
+  // mergedFrom records a merge; its `to` names the customer that was merged in
+  field: CustomerEditableField | 'birthDate' | 'residenceCardExpiry' | 'mergedFrom'
+  from: string
+  to: string
+}
+
+// One save of a customer record; append-only like the task event history
+export interface CustomerHistoryEntry {
+  id: string
+  customerId: string
+  userId: string
+  // Same format as task event actors: `user:<id>`, `agent:<agentId>`, ...
+  actor: TaskEventActor
+  // Shown instead of the actor id when known, e.g. the operator's email
+  actorName: string
+  changes: CustomerFieldChange[]
+  createdAt: string
+}
+
+// Stored shape
+interface CustomerRow extends Customer {
+  userId: string
+  schemaVersion?: number
+  // Normalized name, reading, email and unprotected phone, see buildCustomerIndexFields
+  searchText?: string
+  // Sort key for あいうえお order, see toReadingKey
+  readingKey?: string
+  // Exact-match keys for duplicate detection, see toPhoneKey and toEmailKey. Keys of
+  // protected fields are blind indexes, so they can be compared but not read.
+  phoneKey?: string
+  emailKey?: string
+  identificationKey?: string
+}
+
+export type NewCustomer = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>
+
+export type CustomerSortField = 'reading' | 'createdAt'
+
+export interface ListCustomersOptions {
+  // Matches name, furigana, email, phone and ID number, ignoring kana width and script
+  search?: string
+  sortBy?: CustomerSortField
+  limit?: number
+  offset?: number
+  order?: 'asc' | 'desc'
+}
+
+// Stored shape; changes is a JSON string
+interface CustomerHistoryRow extends Omit<CustomerHistoryEntry, 'changes'> {
+  changes: string
+}
+
+const customersTable = () => blink.db.table<CustomerRow>('customers')
+const customerHistoryTable = () => blink.db.table<CustomerHistoryRow>('customerHistory')
+const customerRevealsTable = () => blink.db.table<CustomerReveal>('customerReveals')
+
+export const toCustomerEditValues = (customer: Customer): CustomerEditValues => ({
+  name: customer.name || '',
+  furigana: customer.furigana || '',
+  email: customer.email || '',
+  phone: customer.phone || '',
+  postalCode: customer.postalCode || '',
+  address: customer.address || '',
+  identificationType: customer.identificationType || '',
+  identificationNumber: customer.identificationNumber || '',
+  preferredLanguage: customer.preferredLanguage || 'ja',
+  keigoPreference: customer.keigoPreference || 'formal'
+})
+
+// Brings typed values into the stored form: NFKC, katakana readings, hyphenated phone numbers,
+// bare ID numbers. A postal code written in front of the address moves to its own field.
+export const normalizeCustomerEditValues = (values: CustomerEditValues): CustomerEditValues => ({
+  ...values,
+  name: values.name.normalize('NFKC').trim(),
+  furigana: toKatakana(values.furigana).trim(),
+  email: values.email.normalize('NFKC').replace(/\s+/g, '').toLowerCase(),
+  phone: values.phone.trim() ? validatePhoneNumber(values.phone).normalized : '',
+  postalCode: formatPostalCode(values.postalCode || splitAddress(values.address).postalCode),
+  address: removePostalCode(values.address),
+  identificationNumber: values.identificationNumber
+    ? validateIdentification(values.identificationType, values.identificationNumber).normalized
+    : ''
+})
+
+// Expects normalized values
+export const validateCustomerEditValues = (values: CustomerEditValues): CustomerValidationErrors => {
+  const errors: CustomerValidationErrors = {}
+
+  if (!values.name) {
+    errors.name = { ja: '氏名を入力してください', en: 'Enter the customer name' }
+  }
+  if (values.furigana && !/^[ァ-ヶー・\s]+$/.test(values.furigana)) {
+    errors.furigana = { ja: 'フリガナはカタカナで入力してください', en: 'Furigana must be katakana' }
+  }
+  if (values.email && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(values.email)) {
+    errors.email = { ja: 'メールアドレスの形式が正しくありません', en: 'Email address is not valid' }
+  }
+  if (values.phone) {
+    const result = validatePhoneNumber(values.phone)
+    if (!result.valid && result.error) errors.phone = result.error
+  }
+  if (values.postalCode && !isValidPostalCode(values.postalCode)) {
+    errors.postalCode = { ja: '郵便番号は7桁の数字です', en: 'Postal codes are 7 digits' }
+  }
+  if (values.identificationNumber) {
+    const result = validateIdentification(values.identificationType, values.identificationNumber)
+    if (!result.valid && result.error) errors.identificationNumber = result.error
+  }
+  return errors
+}
+
+export const diffCustomer = (
+  customer: Partial<Record<CustomerFieldChange['field'], string | undefined>>,
+  updates: Partial<Record<CustomerFieldChange['field'], string | undefined>>
+): CustomerFieldChange[] =>
+  (Object.keys(updates) as CustomerFieldChange['field'][])
+    .filter(field => (updates[field] || '') !== (customer[field] || ''))
+    .map(field => ({ field, from: customer[field] || '', to: updates[field] || '' }))
+
+// Domestic form, so +81 90-1234-5678 and 090 1234 5678 share a key
+export const toPhoneKey = (phone = '') => {
+  const digits = phone.normalize('NFKC').replace(/\D/g, '')
+  return phone.trim().startsWith('+81') ? `0${digits.slice(2)}` : digits
+}
+
+export const toEmailKey = (email = '') => email.normalize('NFKC').trim().toLowerCase()
+
+const toIdentificationKey = (value = '') => blindIndex(normalizeIdentificationNumber(value), 'identificationNumber')
+
+const toPhoneIndexKey = (phone = '') =>
+  isProtectedField('phone') ? blindIndex(toPhoneKey(phone), 'phone') : Promise.resolve(toPhoneKey(phone))
+
+// Protected values stay out of the plain-text search key; they are found whole, through their
+// blind index. A value that is still sealed keeps the key stored with it, since that cannot be
+// rebuilt without opening it. Customers without a reading sort by their name, after every kana reading.
+const buildCustomerIndexFields = async (customer: Partial<Customer>) => ({
+  searchText: buildSearchText([
+    customer.name,
+    customer.furigana,
+    customer.email,
+    ...(isProtectedField('phone') || isEncrypted(customer.phone)
+      ? []
+      // Lets 09012345678 find 090-1234-5678
+      : [customer.phone, customer.phone?.replace(/\D/g, '')])
+  ]),
+  readingKey: toReadingKey(customer.furigana || customer.name || ''),
+  ...(isEncrypted(customer.phone) ? {} : { phoneKey: await toPhoneIndexKey(customer.phone) }),
+  emailKey: toEmailKey(customer.email),
+  ...(isEncrypted(customer.identificationNumber)
+    ? {}
+    : { identificationKey: await toIdentificationKey(customer.identificationNumber) }),
+  schemaVersion: CUSTOMER_SCHEMA_VERSION
+})
+
+// Structured copies of the phone and address for contracts and dispatch, rebuilt on every write.
+// Parts the address leaves out, e.g. a prefecture, come from the postal code when it is known.
+// A sealed phone or address keeps the columns built when it was written.
+const buildCustomerStructuredFields = async (customer: Partial<Customer>) => {
+  const phoneFields = isEncrypted(customer.phone)
+    ? {}
+    : { phoneType: customer.phone ? validatePhoneNumber(customer.phone).type || '' : '' }
+  if (isEncrypted(customer.address)) return phoneFields
+
+  const parts = splitAddress(customer.address || '')
+  const areas = await lookupPostalCode(customer.postalCode || parts.postalCode).catch(error => {
+    console.error('Failed to look up postal code:', error)
+    return []
+  })
+  const area = areas.find(candidate => !parts.municipality || candidate.municipality === parts.municipality)
+  const sealDetail = (value: string, field: typeof ADDRESS_DETAIL_FIELDS[number]) =>
+    isProtectedField('address') ? encryptField(value, field) : Promise.resolve(value)
+  return {
+    ...phoneFields,
+    prefecture: parts.prefecture || area?.prefecture || '',
+    municipality: parts.municipality || area?.municipality || '',
+    town: parts.town || area?.town || '',
+    addressLine: await sealDetail(parts.addressLine, 'addressLine'),
+    building: await sealDetail(parts.building, 'building')
+  }
+}
+
+// Encrypts the protected fields present in `fields` for storage
+const sealCustomerFields = async <T extends Partial<Customer>>(fields: T): Promise<T> => {
+  const sealed = { ...fields }
+  for (const field of PROTECTED_CUSTOMER_FIELDS) {
+    const value = sealed[field]
+    if (value) sealed[field] = await encryptField(value, field) as T[typeof field]
+  }
+  return sealed
+}
+
+// Masked copies of the plain values present in `customer`; a sealed value keeps the copy made
+// when it was written
+const buildCustomerMaskedFields = (customer: Partial<Customer>): Partial<Customer> =>
+  Object.fromEntries(SEALABLE_FIELDS
+    .filter(field => customer[field] !== undefined && !isEncrypted(customer[field]))
+    .map(field => [MASKED_FIELDS[field], maskPii(CUSTOMER_PII_FIELDS[field], customer[field])]))
+
+// Stored row to customer. Sealed fields stay sealed; see revealCustomerFields and maskCustomerField.
+const toCustomer = (row: CustomerRow): Customer & { userId: string } => {
+  const {
+    searchText: _searchText,
+    readingKey: _readingKey,
+    phoneKey: _phoneKey,
+    emailKey: _emailKey,
+    identificationKey: _identificationKey,
+    schemaVersion: _schemaVersion,
+    ...customer
+  } = row
+  return customer
+}
+
+const toCustomers = (rows: CustomerRow[]) => rows.map(toCustomer)
+
+// How a protected field is shown until it is revealed, e.g. ＊＊＊-＊＊＊＊-5678
+export const maskCustomerField = (customer: Partial<Customer>, field: ProtectedCustomerField) => {
+  const value = customer[field] || ''
+  if (!isEncrypted(value)) return maskPii(CUSTOMER_PII_FIELDS[field], value)
+  return customer[MASKED_FIELDS[field]] || SEALED_MASK
+}
+
+// Opens `fields` of the customer for the signed-in operator. The field-crypto function checks the
+// customer is theirs and logs the reveal before returning anything, so this throws rather than
+// open a value without a trace. Fields that are neither protected nor sealed are returned as read.
+export const revealCustomerFields = async <T extends Customer>(
+  customer: T,
+  fields: ProtectedCustomerField[],
+  reason: RevealReason
+): Promise<T> => {
+  const sealed = fields.filter(field => customer[field] && (isProtectedField(field) || isEncrypted(customer[field])))
+  if (sealed.length === 0) return customer
+  return { ...customer, ...await revealFields(customer.id, sealed, reason) }
+}
+
+const KANA_ROWS = ['ア', 'カ', 'サ', 'タ', 'ナ', 'ハ', 'マ', 'ヤ', 'ラ', 'ワ']
+
+// The kana row (あ, か, さ, ...) the customer files under; null for names without a kana reading
+export const getReadingRow = (customer: Pick<Customer, 'name' | 'furigana'>) => {
+  const first = toReadingKey(customer.furigana || customer.name || '').charAt(0)
+  if (first < 'ア' || first > 'ン') return null
+  const row = [...KANA_ROWS].reverse().find(start => first >= start) as string
+  return String.fromCharCode(row.charCodeAt(0) - 0x60)
+}
+
+export const createCustomer = async (userId: string, fields: NewCustomer) => {
+  const now = new Date().toISOString()
+  const customer: Customer = {
+    ...fields,
+    id: `customer_${crypto.randomUUID()}`,
+    createdAt: now,
+    updatedAt: now
+  }
+  await customersTable().create({
+    ...await sealCustomerFields(customer),
+    userId,
+    ...await buildCustomerIndexFields(customer),
+    ...await buildCustomerStructuredFields(customer),
+    ...buildCustomerMaskedFields(customer)
+  })
+  publishChange(userId, 'customers', customer.id)
+  return customer
+}
+
+// One write for many customers, e.g. an import batch. Ids are random, since the whole batch,
+// and any batch another tab imports, is created in the same millisecond.
+export const createCustomers = async (userId: string, fields: NewCustomer[]) => {
+  if (fields.length === 0) return []
+  const createdAt = new Date().toISOString()
+  const customers: Customer[] = fields.map(customerFields => ({
+    ...customerFields,
+    id: `customer_${crypto.randomUUID()}`,
+    createdAt,
+    updatedAt: createdAt
+  }))
+  await customersTable().createMany(await Promise.all(customers.map(async customer => ({
+    ...await sealCustomerFields(customer),
+    userId,
+    ...await buildCustomerIndexFields(customer),
+    ...await buildCustomerStructuredFields(customer),
+    ...buildCustomerMaskedFields(customer)
+  }))))
+  publishChange(userId, 'customers', customers[0].id)
+  return customers
+}
+
+// Entries written in the same millisecond in one tab still sort in the order they were written;
+// the random part keeps ids written by other tabs from colliding
+let sequence = 0
+
+// Old and new values of protected fields are kept masked, as the history shows them; the record
+// holds the only sealed copy. A sealed value of `customer` is masked through its stored copy.
+const maskHistoryChanges = (customer: Partial<Customer>, changes: CustomerFieldChange[]) =>
+  changes.map(change => isProtectedField(change.field)
+    ? {
+        ...change,
+        from: maskCustomerField({ ...customer, [change.field]: change.from }, change.field),
+        to: maskCustomerField({ ...customer, [change.field]: change.to }, change.field)
+      }
+    : change)
+
+const isSealedKey = (key: string) =>
+  isProtectedField(key) || (isProtectedField('address') && (ADDRESS_DETAIL_FIELDS as readonly string[]).includes(key))
+
+// Applies `map` to every string inside plain JSON data, passing the key it sits under
+const mapNestedStrings = async (value: unknown, map: (value: string, key: string) => Promise<string>, key = ''): Promise<any> => {
+  if (typeof value === 'string') return map(value, key)
+  if (Array.isArray(value)) return Promise.all(value.map(item => mapNestedStrings(item, map, key)))
+  if (!value || typeof value !== 'object') return value
+  const entries = await Promise.all(
+    Object.entries(value).map(async ([name, item]) => [name, await mapNestedStrings(item, map, name)] as const)
+  )
+  return Object.fromEntries(entries)
+}
+
+// Already masked, e.g. the contract fields a task keeps for display; masking it again changes nothing
+const isMaskedValue = (text: string, key: string) =>
+  !!CUSTOMER_PII_FIELDS[key] && text.includes(MASK) && maskPii(CUSTOMER_PII_FIELDS[key], text) === text
+
+// Customer values copied into other records, such as a loaded customer in a task's output, are
+// sealed under the same keys as on the customer itself. Masked copies stay readable.
+export const sealProtectedValues = <T>(value: T): Promise<T> =>
+  mapNestedStrings(value, (text, key) =>
+    (isSealedKey(key) && !isMaskedValue(text, key) ? encryptField(text, key) : Promise.resolve(text)))
+
+// Like task events, a lost history entry must not undo a saved correction, so failures are logged
+export const recordCustomerHistory = async (
+  customer: Pick<Customer, 'id'> & Partial<Customer>,
+  userId: string,
+  changes: CustomerFieldChange[],
+  actor: TaskEventActor,
+  actorName = '',
+  createdAt = new Date().toISOString()
+) => {
+  sequence = (sequence + 1) % 10000
+  const id = `chg_${Date.now()}_${String(sequence).padStart(4, '0')}_${crypto.randomUUID()}`
+  try {
+    await customerHistoryTable().create({
+      id,
+      customerId: customer.id,
+      userId,
+      actor,
+      actorName,
+      changes: JSON.stringify(maskHistoryChanges(customer, changes)),
+      createdAt
+    })
+  } catch (error) {
+    console.error(`Failed to record history for customer ${customer.id}:`, error)
+  }
+}
+
+const parseHistoryChanges = (value: string): CustomerFieldChange[] => {
+  try {
+    return value ? JSON.parse(value) : []
+  } catch {
+    return []
+  }
+}
+
+// Entries from before history was masked may hold sealed values; they stay hidden
+const hideSealed = (value: string) => (isEncrypted(value) ? SEALED_MASK : value)
+
+const toCustomerHistoryEntry = (row: CustomerHistoryRow): CustomerHistoryEntry => ({
+  ...row,
+  changes: parseHistoryChanges(row.changes).map(change => ({
+    ...change,
+    from: hideSealed(change.from),
+    to: hideSealed(change.to)
+  }))
+})
+
+// Writes only the fields that changed and records them in the customer's history.
+// Returns the changes; nothing is written when there are none.
+export const updateCustomer = async (
+  customer: Customer & { userId?: string },
+  updates: Partial<Record<CustomerFieldChange['field'], string>>,
+  actor: TaskEventActor,
+  actorName = ''
+) => {
+  const changes = diffCustomer(customer, updates)
+  if (changes.length === 0) return changes
+
+  const userId = customer.userId || (actor.startsWith('user:') ? actor.slice('user:'.length) : '')
+  const now = new Date().toISOString()
+  const changed = Object.fromEntries(changes.map(change => [change.field, change.to])) as Partial<Customer>
+  await customersTable().update(customer.id, {
+    ...await sealCustomerFields(changed),
+    ...await buildCustomerIndexFields({ ...customer, ...changed }),
+    ...await buildCustomerStructuredFields({ ...customer, ...changed }),
+    ...buildCustomerMaskedFields(changed),
+    updatedAt: now
+  })
+
+  await recordCustomerHistory(customer, userId, changes, actor, actorName, now)
+  if (userId) publishChange(userId, 'customers', customer.id)
+  return changes
+}
+
+// Saves the edit dialog as the signed-in operator
+export const saveCustomerEdit = async (customer: Customer, values: CustomerEditValues) => {
+  const user = await blink.auth.me()
+  return updateCustomer({ userId: user.id, ...customer }, values, userActor(user.id), user.email || '')
+}
+
+export const listCustomerHistory = async (customerId: string) => {
+  const rows = await customerHistoryTable().list({
+    where: { customerId },
+    orderBy: { createdAt: 'desc' }
+  })
+  const entries = rows.map(toCustomerHistoryEntry)
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id))
+}
+
+// Written by the field-crypto function with every reveal, see revealCustomerFields
+export const listCustomerReveals = async (customerId: string) => {
+  const rows = await customerRevealsTable().list({
+    where: { customerId },
+    orderBy: { createdAt: 'desc' }
+  })
+  return rows.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id))
+}
+
+const toCustomerWhere = async (userId: string, { search }: Pick<ListCustomersOptions, 'search'>) => {
+  const searchWhere = search ? buildSearchWhere(search, ['searchText']) : null
+  if (!search || !searchWhere) return { userId }
+
+  // A whole ID number, or a whole protected phone number, matches through its blind index
+  const conditions: Record<string, any>[] = [searchWhere]
+  const identificationKey = await toIdentificationKey(search)
+  if (identificationKey) conditions.push({ identificationKey })
+  if (isProtectedField('phone')) {
+    const phoneKey = await toPhoneIndexKey(search)
+    if (phoneKey) conditions.push({ phoneKey })
+  }
+  return { AND: [{ userId }, { OR: conditions }] }
+}
+
+export const getCustomerById = async (id: string) => {
+  const row = await customersTable().get(id)
+  return row ? toCustomer(row) : null
+}
+
+// Through SQL, since a search nests its alternatives under AND
+export const listCustomers = async (userId: string, options: ListCustomersOptions = {}) => {
+  const { sortBy = 'reading', limit, offset, order = sortBy === 'reading' ? 'asc' : 'desc' } = options
+  const rows = await listRows<CustomerRow>('customers', {
+    where: await toCustomerWhere(userId, options),
+    // Namesakes keep newest first so pages do not shuffle between loads
+    orderBy: sortBy === 'reading' ? { readingKey: order, createdAt: 'desc' } : { createdAt: order },
+    ...(limit ? { limit } : {}),
+    ...(offset ? { offset } : {})
+  })
+  return toCustomers(rows)
+}
+
+export const countCustomers = async (userId: string, options: Pick<ListCustomersOptions, 'search'> = {}) =>
+  countRows('customers', await toCustomerWhere(userId, options))
+
+// Every customer matching the filters, read in pages; used by exports of the directory
+export const listAllCustomers = async (userId: string, options: Omit<ListCustomersOptions, 'limit' | 'offset'> = {}) => {
+  const customers: Customer[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await listCustomers(userId, { ...options, limit: PAGE_SIZE, offset })
+    customers.push(...page)
+    if (page.length < PAGE_SIZE) return customers
+  }
+}
+
+// Moves one customer's history and reveal log onto another, e.g. when the two are merged
+export const moveCustomerHistory = async (fromId: string, toId: string) => {
+  const [rows, reveals] = await Promise.all([
+    customerHistoryTable().list({ where: { customerId: fromId } }),
+    customerRevealsTable().list({ where: { customerId: fromId } })
+  ])
+  if (rows.length > 0) await customerHistoryTable().updateMany(rows.map(row => ({ id: row.id, customerId: toId })))
+  if (reveals.length > 0) await customerRevealsTable().updateMany(reveals.map(row => ({ id: row.id, customerId: toId })))
+  return rows.length
+}
+
+export const deleteCustomer = async (userId: string, customerId: string) => {
+  await customersTable().delete(customerId)
+  publishChange(userId, 'customers', customerId)
+}
+
+const NAME_SIMILARITY = 0.8
+const ADDRESS_SIMILARITY = 0.75
+
+// 1丁目2番3号 and 1-2-3 are written both ways
+const normalizeAddress = (address: string) =>
+  address
+    .normalize('NFKC')
+    .replace(/丁目|番地|番|号/g, '-')
+    .replace(/[ー－―‐−]/g, '-')
+    .replace(/[\s-]+$/, '')
+
+// Down to the town, from the structured columns when the address itself is sealed
+const toAddressArea = (customer: Partial<Customer>) => {
+  const parts = isEncrypted(customer.address) ? customer : splitAddress(customer.address || '')
+  return [parts.prefecture, parts.municipality, parts.town].join('')
+}
+
+const isSameAddress = (a: Partial<Customer>, b: Partial<Customer>) => {
+  if (isEncrypted(a.address) || isEncrypted(b.address)) {
+    const area = toAddressArea(a)
+    return !!area && area === toAddressArea(b)
+  }
+  return textSimilarity(normalizeAddress(a.address || ''), normalizeAddress(b.address || '')) >= ADDRESS_SIMILARITY
+}
+
+const isSameNameAndAddress = (a: Partial<Customer>, b: Partial<Customer>) => {
+  if (!a.address || !b.address) return false
+  const sameName = textSimilarity(a.name || '', b.name || '') >= NAME_SIMILARITY ||
+    (!!a.furigana && !!b.furigana && toReadingKey(a.furigana) === toReadingKey(b.furigana))
+  return sameName && isSameAddress(a, b)
+}
+
+// Existing customers that look like the same person: same phone, email or ID number, or a
+// similar name at a similar address. Strongest matches first.
+export const findDuplicateCustomers = async (
+  userId: string,
+  candidate: Partial<Customer>,
+  excludeId?: string
+): Promise<CustomerDuplicate[]> => {
+  const keys = await buildCustomerIndexFields(candidate)
+  // A sealed value of a stored customer is matched through the key written with it
+  if (candidate.id && (isEncrypted(candidate.phone) || isEncrypted(candidate.identificationNumber))) {
+    const stored = await customersTable().get(candidate.id)
+    if (isEncrypted(candidate.phone)) keys.phoneKey = stored?.phoneKey
+    if (isEncrypted(candidate.identificationNumber)) keys.identificationKey = stored?.identificationKey
+  }
+  const conditions: Record<string, any>[] = []
+  if (keys.phoneKey) conditions.push({ phoneKey: keys.phoneKey })
+  if (keys.emailKey) conditions.push({ emailKey: keys.emailKey })
+  if (keys.identificationKey) conditions.push({ identificationKey: keys.identificationKey })
+  // Fuzzy matches are scored in memory; the query only narrows to names that start alike
+  if (candidate.address) {
+    const nameStart = normalizeSearchText(candidate.name || '').replace(/ /g, '').slice(0, 2)
+    if (nameStart) conditions.push({ searchText: { like: `%${escapeLike(nameStart)}%` } })
+    if (candidate.furigana) {
+      conditions.push({ readingKey: { like: `${escapeLike(toReadingKey(candidate.furigana).slice(0, 2))}%` } })
+    }
+  }
+  if (conditions.length === 0) return []
+
+  // Through SQL, since the alternatives nest under AND
+  const rows = await listRows<CustomerRow>('customers', {
+    where: { AND: [{ userId }, { OR: conditions }] },
+    limit: 50
+  })
+  const duplicates = rows
+    .filter(row => row.id !== excludeId)
+    .map(row => {
+      const customer = toCustomer(row)
+      const reasons: DuplicateReason[] = []
+      // Stored keys are compared, since protected values are only comparable as blind indexes
+      if (keys.phoneKey && row.phoneKey === keys.phoneKey) reasons.push('phone')
+      if (keys.emailKey && row.emailKey === keys.emailKey) reasons.push('email')
+      if (keys.identificationKey && row.identificationKey === keys.identificationKey) reasons.push('identificationNumber')
+      if (isSameNameAndAddress(candidate, customer)) reasons.push('nameAddress')
+      return { customer, reasons }
+    })
+  return duplicates
+    .filter(duplicate => duplicate.reasons.length > 0)
+    .sort((a, b) => b.reasons.length - a.reasons.length)
+}
+
+export const getCustomersByIds = async (ids: string[]) => {
+  const unique = [...new Set(ids.filter(Boolean))]
+  if (unique.length === 0) return new Map<string, Customer>()
+  const customers: Customer[] = []
+  // Through SQL, so the ids are bound parameters rather than one long REST URL
+  for (let start = 0; start < unique.length; start += PAGE_SIZE) {
+    const rows = await listRows<CustomerRow>('customers', { where: { id: { in: unique.slice(start, start + PAGE_SIZE) } } })
+    customers.push(...toCustomers(rows))
+  }
+  return new Map(customers.map(customer => [customer.id, customer]))
+}
+
+// Customers registered in [from, to), oldest first. Through SQL, since REST keeps one bound of the range.
+export const listCustomersCreatedBetween = async (userId: string, from: string, to: string) => {
+  const customers: Customer[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const rows = await listRows<CustomerRow>('customers', {
+      where: { userId, createdAt: { gte: from, lt: to } },
+      orderBy: { createdAt: 'asc' },
+      limit: PAGE_SIZE,
+      ...(offset ? { offset } : {})
+    })
+    customers.push(...toCustomers(rows))
+    if (rows.length < PAGE_SIZE) return customers
+  }
+}
+
+const isPlainValue = (value?: string) => !!value && !isEncrypted(value)
+
+const isUnmasked = (value: string, field: ProtectedCustomerField) =>
+  isPlainValue(value) && maskPii(CUSTOMER_PII_FIELDS[field], value) !== value
+
+// Sealed values written before masked copies were kept
+const getUnmaskedSeals = (row: CustomerRow) =>
+  SEALABLE_FIELDS.filter(field => isEncrypted(row[field]) && !row[MASKED_FIELDS[field]])
+
+// Rewrites customers from before the current schema version, or with protected values still in
+// plain text (e.g. after a field was added to VITE_PROTECTED_CUSTOMER_FIELDS): index, structured
+// and masked columns are rebuilt and plain protected values encrypted. A sealed value without a
+// masked copy is revealed once to make one, which is logged like any other reveal. Plain protected
+// values in history entries are masked.
+export const migrateLegacyCustomers = (userId: string) =>
+  // Changing VITE_PROTECTED_CUSTOMER_FIELDS leaves plain values to seal, so it counts as a new version
+  runMigrationOnce('customers', userId, `${CUSTOMER_SCHEMA_VERSION}:${PROTECTED_CUSTOMER_FIELDS.join(',')}`, async () => {
+    let migrated = 0
+    await forEachPage<CustomerRow>(customersTable(), { userId }, async rows => {
+      const legacy = rows.filter(row =>
+        Number(row.schemaVersion) !== CUSTOMER_SCHEMA_VERSION ||
+        PROTECTED_CUSTOMER_FIELDS.some(field => isPlainValue(row[field])) ||
+        (isProtectedField('address') && ADDRESS_DETAIL_FIELDS.some(field => isPlainValue(row[field]))) ||
+        getUnmaskedSeals(row).length > 0
+      )
+
+      for (const row of legacy) {
+        // Only plain values are sealed; opened values are only used to rebuild the derived columns
+        const plain = Object.fromEntries(
+          PROTECTED_CUSTOMER_FIELDS.filter(field => isPlainValue(row[field])).map(field => [field, row[field]])
+        ) as Partial<Customer>
+        const customer = await revealCustomerFields(toCustomer(row), getUnmaskedSeals(row), 'migration')
+        await customersTable().update(row.id, {
+          ...await sealCustomerFields(plain),
+          ...await buildCustomerIndexFields(customer),
+          ...await buildCustomerStructuredFields(customer),
+          ...buildCustomerMaskedFields(customer)
+        })
+      }
+      migrated += legacy.length
+    })
+
+    await forEachPage<CustomerHistoryRow>(customerHistoryTable(), { userId }, async rows => {
+      for (const row of rows) {
+        const changes = parseHistoryChanges(row.changes)
+        const hasUnmasked = changes.some(change =>
+          isProtectedField(change.field) && (isUnmasked(change.from, change.field) || isUnmasked(change.to, change.field))
+        )
+        if (!hasUnmasked) continue
+        await customerHistoryTable().update(row.id, { changes: JSON.stringify(maskHistoryChanges({}, changes)) })
+      }
+    })
+    return migrated
+  })
@@ -0,0 +1,2 @@
+export * from './transports'
+export * from './pipeline'
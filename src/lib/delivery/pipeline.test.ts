@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const tables = new Map<string, Map<string, Record<string, any>>>()
+const failingUpdates = new Set<string>()
+const tableOf = (name: string) => {
+  if (!tables.has(name)) tables.set(name, new Map())
+  return tables.get(name)!
+}
+vi.mock('../../blink/client', () => ({
+  blink: {
+    db: {
+      table: (name: string) => ({
+        create: async (row: Record<string, any>) => {
+          tableOf(name).set(row.id, { ...row })
+          return row
+        },
+        update: async (id: string, updates: Record<string, any>) => {
+          if (failingUpdates.has(name)) throw new Error(`${name} is unavailable`)
+          tableOf(name).set(id, { ...tableOf(name).get(id), ...updates })
+        },
+        get: async (id: string) => tableOf(name).get(id) ?? null
+      })
+    }
+  }
+}))
+
+const { DeliveryError, createMemoryTransport, setTransport } = await import('./transports')
+const { deliverMessage, markMessageBounced, queueMessage, sendMessage } = await import('./pipeline')
+
+const input = {
+  userId: 'user_1',
+  taskId: 'task_1',
+  customerId: 'customer_1',
+  channel: 'email' as const,
+  to: 'taro@example.com',
+  subject: 'ご契約の更新について',
+  body: '更新のご案内です'
+}
+
+const attemptsOf = (messageId: string) =>
+  [...tableOf('deliveryAttempts').values()].filter(attempt => attempt.messageId === messageId)
+
+let transport: ReturnType<typeof createMemoryTransport>
+
+beforeEach(() => {
+  tables.clear()
+  failingUpdates.clear()
+  transport = createMemoryTransport('email')
+  setTransport(transport)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('deliverMessage', () => {
+  it('sends once and records the message as sent', async () => {
+    const message = await sendMessage(input)
+
+    expect(message).toMatchObject({ status: 'sent', attempts: 1, providerMessageId: 'memory_1' })
+    expect(transport.sent).toHaveLength(1)
+    expect(tableOf('messages').get(message.id)).toMatchObject({ status: 'sent' })
+    expect(attemptsOf(message.id)).toMatchObject([{ attempt: 1, status: 'sent', transport: 'memory-email' }])
+  })
+
+  it('retries a transient failure after a doubling backoff', async () => {
+    vi.useFakeTimers()
+    transport.failNext(2)
+    const delivery = sendMessage(input, { backoffMs: 100 })
+
+    await vi.advanceTimersByTimeAsync(99)
+    expect(transport.sent).toHaveLength(0)
+    // The second wait is twice the first
+    await vi.advanceTimersByTimeAsync(1 + 199)
+    expect(transport.sent).toHaveLength(0)
+    await vi.advanceTimersByTimeAsync(1)
+
+    const message = await delivery
+    expect(message).toMatchObject({ status: 'sent', attempts: 3 })
+    expect(transport.sent).toHaveLength(1)
+    expect(attemptsOf(message.id).map(attempt => attempt.status)).toEqual(['failed', 'failed', 'sent'])
+  })
+
+  it('ends failed once the attempts run out', async () => {
+    vi.useFakeTimers()
+    transport.failNext(5)
+    const delivery = sendMessage(input, { maxAttempts: 2, backoffMs: 100 })
+    await vi.advanceTimersByTimeAsync(100)
+
+    const message = await delivery
+    expect(message).toMatchObject({ status: 'failed', attempts: 2, lastError: 'Simulated delivery failure' })
+    expect(tableOf('messages').get(message.id)).toMatchObject({ status: 'failed', attempts: 2 })
+    expect(attemptsOf(message.id)).toHaveLength(2)
+    expect(transport.sent).toHaveLength(0)
+  })
+
+  it('does not retry a rejected recipient', async () => {
+    transport.failNext(1, new DeliveryError('Unknown recipient', { bounced: true }))
+
+    const message = await sendMessage(input)
+    expect(message).toMatchObject({ status: 'bounced', attempts: 1 })
+    expect(attemptsOf(message.id)).toHaveLength(1)
+  })
+
+  it('never sends again when recording a sent message fails', async () => {
+    const queued = await queueMessage(input)
+    failingUpdates.add('messages')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const message = await deliverMessage(queued)
+    expect(message).toMatchObject({ status: 'sent', attempts: 1 })
+    expect(transport.sent).toHaveLength(1)
+  })
+})
+
+describe('markMessageBounced', () => {
+  it('marks a sent message bounced and records the report', async () => {
+    const sent = await sendMessage(input)
+
+    const bounced = await markMessageBounced(sent.id, 'Mailbox does not exist')
+    expect(bounced).toMatchObject({ status: 'bounced', lastError: 'Mailbox does not exist' })
+    expect(tableOf('messages').get(sent.id)).toMatchObject({ status: 'bounced' })
+    expect(attemptsOf(sent.id)).toMatchObject([
+      { attempt: 1, status: 'sent' },
+      { attempt: 2, status: 'bounced', transport: 'bounce-report' }
+    ])
+  })
+
+  it('returns null for an unknown message', async () => {
+    await expect(markMessageBounced('msg_missing', 'Mailbox does not exist')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,212 @@
+import { blink } from '../../blink/client'
+import { isProtectedField } from '../customers'
+import { maskPii } from '../pii'
+import { DeliveryError, getTransport, type DeliveryChannel, type TransportResult } from './transports'
+
+export type MessageStatus = 'queued' | 'sent' | 'failed' | 'bounced'
+
+export interface MessageRecord {
+  id: string
+  userId: string
+  // Task that produced the message, so delivery can be traced back from the task log
+  taskId: string
+  customerId: string
+  channel: DeliveryChannel
+  // Masked when it is a protected phone number; the transport is handed the full one
+  to: string
+  subject: string
+  body: string
+  templateKey: string
+  templateVersion: number
+  status: MessageStatus
+  attempts: number
+  lastError: string
+  providerMessageId: string
+  sentAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DeliveryAttempt {
+  id: string
+  userId: string
+  messageId: string
+  taskId: string
+  attempt: number
+  transport: string
+  status: Exclude<MessageStatus, 'queued'>
+  error: string
+  providerMessageId: string
+  createdAt: string
+}
+
+export interface QueueMessageInput {
+  userId: string
+  taskId: string
+  customerId: string
+  channel: DeliveryChannel
+  to: string
+  subject?: string
+  body: string
+  templateKey?: string
+  templateVersion?: number
+}
+
+export interface DeliveryOptions {
+  maxAttempts?: number
+  // Delay before the second attempt; doubles on every further attempt
+  backoffMs?: number
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_BACKOFF_MS = 2000
+
+const messagesTable = () => blink.db.table<MessageRecord>('messages')
+const attemptsTable = () => blink.db.table<DeliveryAttempt>('deliveryAttempts')
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const toStoredRecipient = (channel: DeliveryChannel, to: string) =>
+  channel !== 'email' && isProtectedField('phone') ? maskPii('phone', to) : to
+
+export const queueMessage = async (input: QueueMessageInput): Promise<MessageRecord> => {
+  const now = new Date().toISOString()
+  const message: MessageRecord = {
+    // Follow-ups released together would share a millisecond
+    id: `msg_${input.channel}_${crypto.randomUUID()}`,
+    userId: input.userId,
+    taskId: input.taskId,
+    customerId: input.customerId,
+    channel: input.channel,
+    to: toStoredRecipient(input.channel, input.to),
+    subject: input.subject || '',
+    body: input.body,
+    templateKey: input.templateKey || '',
+    templateVersion: input.templateVersion || 0,
+    status: 'queued',
+    attempts: 0,
+    lastError: '',
+    providerMessageId: '',
+    sentAt: '',
+    createdAt: now,
+    updatedAt: now
+  }
+  await messagesTable().create(message)
+  return message
+}
+
+const recordAttempt = (message: MessageRecord, attempt: number, transport: string, result: Partial<DeliveryAttempt>) =>
+  attemptsTable().create({
+    id: `attempt_${message.id}_${attempt}`,
+    userId: message.userId,
+    messageId: message.id,
+    taskId: message.taskId,
+    attempt,
+    transport,
+    status: result.status || 'failed',
+    error: result.error || '',
+    providerMessageId: result.providerMessageId || '',
+    createdAt: new Date().toISOString()
+  })
+
+// Sends a queued message, retrying transient failures with exponential backoff.
+// Every attempt is recorded; the returned record carries the final status. `recipient` is the
+// full address when the stored one is masked.
+export const deliverMessage = async (
+  message: MessageRecord,
+  { maxAttempts = DEFAULT_MAX_ATTEMPTS, backoffMs = DEFAULT_BACKOFF_MS }: DeliveryOptions = {},
+  recipient = message.to
+): Promise<MessageRecord> => {
+  let current = message
+
+  for (let attempt = current.attempts + 1; attempt <= maxAttempts; attempt++) {
+    let transportId: string = current.channel
+    let result: TransportResult
+    try {
+      const transport = getTransport(current.channel)
+      transportId = transport.id
+      result = await transport.send({ ...current, to: recipient })
+    } catch (error) {
+      const deliveryError = error instanceof DeliveryError
+        ? error
+        : new DeliveryError(error instanceof Error ? error.message : String(error))
+      const finalAttempt = !deliveryError.retryable || attempt >= maxAttempts
+      const status = deliveryError.bounced ? 'bounced' : 'failed'
+
+      await recordAttempt(current, attempt, transportId, { status, error: deliveryError.message })
+
+      const updates = {
+        status: (finalAttempt ? status : 'queued') as MessageStatus,
+        attempts: attempt,
+        lastError: deliveryError.message,
+        updatedAt: new Date().toISOString()
+      }
+      await messagesTable().update(current.id, updates)
+      current = { ...current, ...updates }
+
+      if (finalAttempt) return current
+      await sleep(backoffMs * 2 ** (attempt - 1))
+      continue
+    }
+
+    // The provider has accepted the message, so nothing below may lead to sending it again: the
+    // status is stored first, and a failed write is logged rather than retried
+    const updates = {
+      status: 'sent' as const,
+      attempts: attempt,
+      lastError: '',
+      providerMessageId: result.providerMessageId || '',
+      sentAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+    try {
+      await messagesTable().update(current.id, updates)
+      await recordAttempt(current, attempt, transportId, { status: 'sent', providerMessageId: result.providerMessageId })
+    } catch (error) {
+      console.error(`Failed to record delivery of message ${current.id}:`, error)
+    }
+    return { ...current, ...updates }
+  }
+
+  return current
+}
+
+export const sendMessage = async (input: QueueMessageInput, options?: DeliveryOptions) =>
+  deliverMessage(await queueMessage(input), options, input.to)
+
+// Answers "did the customer get it?" for a task: its messages with their attempts
+export const getTaskDeliveries = async (taskId: string) => {
+  const [messages, attempts] = await Promise.all([
+    messagesTable().list({ where: { taskId }, orderBy: { createdAt: 'asc' } }),
+    attemptsTable().list({ where: { taskId }, orderBy: { createdAt: 'asc' } })
+  ])
+  return messages.map(message => ({
+    ...message,
+    attemptLog: attempts.filter(attempt => attempt.messageId === message.id)
+  }))
+}
+
+// Newest first; the customer timeline shows what was sent to them
+export const listCustomerMessages = async (userId: string, customerId: string, limit = 50) =>
+  messagesTable().list({
+    where: { userId, customerId },
+    orderBy: { createdAt: 'desc' },
+    limit
+  })
+
+export const moveCustomerMessages = async (userId: string, fromId: string, toId: string) => {
+  const messages = await messagesTable().list({ where: { userId, customerId: fromId } })
+  if (messages.length > 0) await messagesTable().updateMany(messages.map(message => ({ id: message.id, customerId: toId })))
+  return messages.length
+}
+
+// Providers report bounces asynchronously; this lets a webhook or operator mark them
+export const markMessageBounced = async (messageId: string, reason: string) => {
+  const message = await messagesTable().get(messageId)
+  if (!message) return null
+
+  await recordAttempt(message, message.attempts + 1, 'bounce-report', { status: 'bounced', error: reason })
+  const updates = { status: 'bounced' as const, lastError: reason, updatedAt: new Date().toISOString() }
+  await messagesTable().update(messageId, updates)
+  return { ...message, ...updates }
+}
@@ -0,0 +1,147 @@
+import { blink } from '../../blink/client'
+
+export type DeliveryChannel = 'email' | 'sms'
+
+export interface OutboundMessage {
+  id: string
+  channel: DeliveryChannel
+  to: string
+  subject: string
+  body: string
+}
+
+export interface TransportResult {
+  providerMessageId?: string
+}
+
+export interface MessageTransport {
+  id: string
+  channel: DeliveryChannel
+  send: (message: OutboundMessage) => Promise<TransportResult>
+}
+
+// Thrown by transports; `bounced` marks a rejected recipient, which is never retried
+export class DeliveryError extends Error {
+  retryable: boolean
+  bounced: boolean
+
+  constructor(message: string, { retryable = true, bounced = false }: { retryable?: boolean; bounced?: boolean } = {}) {
+    super(message)
+    this.name = 'DeliveryError'
+    this.retryable = retryable && !bounced
+    this.bounced = bounced
+  }
+}
+
+// Email goes out through Blink's notification service, which relays over SMTP
+export const createEmailTransport = (options: { from?: string; replyTo?: string } = {}): MessageTransport => ({
+  id: 'blink-email',
+  channel: 'email',
+  send: async (message) => {
+    const { success, messageId } = await blink.notifications.email({
+      to: message.to,
+      subject: message.subject,
+      text: message.body,
+      from: options.from,
+      replyTo: options.replyTo
+    })
+    if (!success) {
+      throw new DeliveryError('Email provider rejected the message')
+    }
+    return { providerMessageId: messageId }
+  }
+})
+
+// Generic HTTP SMS gateway. Requests go through blink.data.fetch so the API key stays a
+// project secret ({{SMS_GATEWAY_API_KEY}} is substituted server-side).
+export const createSmsGatewayTransport = (options: {
+  url: string
+  sender?: string
+  apiKeySecret?: string
+}): MessageTransport => ({
+  id: 'sms-gateway',
+  channel: 'sms',
+  send: async (message) => {
+    const response = await blink.data.fetch({
+      url: options.url,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer {{${options.apiKeySecret || 'SMS_GATEWAY_API_KEY'}}}`
+      },
+      body: { to: message.to, from: options.sender, text: message.body, reference: message.id }
+    })
+
+    if (response.status >= 200 && response.status < 300) {
+      return { providerMessageId: response.body?.id || response.body?.messageId }
+    }
+    // 4xx means the gateway refused this recipient or payload; retrying will not help
+    const detail = typeof response.body === 'string' ? response.body : response.body?.error || response.body?.message
+    throw new DeliveryError(`SMS gateway responded ${response.status}${detail ? `: ${detail}` : ''}`, {
+      retryable: response.status >= 500 || response.status === 429,
+      bounced: response.status === 400 || response.status === 404 || response.status === 422
+    })
+  }
+})
+
+export interface MemoryTransport extends MessageTransport {
+  sent: (OutboundMessage & { sentAt: string })[]
+  // Makes the next n sends fail, for exercising retries
+  failNext: (count: number, error?: DeliveryError) => void
+}
+
+// Keeps messages in memory instead of sending them; used in development and tests
+export const createMemoryTransport = (channel: DeliveryChannel): MemoryTransport => {
+  const sent: MemoryTransport['sent'] = []
+  let failures = 0
+  let failure = new DeliveryError('Simulated delivery failure')
+
+  return {
+    id: `memory-${channel}`,
+    channel,
+    sent,
+    failNext: (count, error) => {
+      failures = count
+      if (error) failure = error
+    },
+    send: async (message) => {
+      if (failures > 0) {
+        failures--
+        throw failure
+      }
+      sent.push({ ...message, sentAt: new Date().toISOString() })
+      return { providerMessageId: `memory_${sent.length}` }
+    }
+  }
+}
+
+const createDefaultTransports = (): Partial<Record<DeliveryChannel, MessageTransport>> => {
+  if (import.meta.env.VITE_DELIVERY_SINK === 'memory') {
+    return { email: createMemoryTransport('email'), sms: createMemoryTransport('sms') }
+  }
+
+  const transports: Partial<Record<DeliveryChannel, MessageTransport>> = {
+    email: createEmailTransport()
+  }
+  if (import.meta.env.VITE_SMS_GATEWAY_URL) {
+    transports.sms = createSmsGatewayTransport({
+      url: import.meta.env.VITE_SMS_GATEWAY_URL,
+      sender: import.meta.env.VITE_SMS_SENDER
+    })
+  }
+  return transports
+}
+
+let transports = createDefaultTransports()
+
+export const getTransport = (channel: DeliveryChannel): MessageTransport => {
+  const transport = transports[channel]
+  if (!transport) {
+    throw new DeliveryError(`No ${channel} transport is configured`, { retryable: false })
+  }
+  return transport
+}
+
+export const setTransport = (transport: MessageTransport) => {
+  transports = { ...transports, [transport.channel]: transport }
+}
@@ -0,0 +1,24 @@
+// Lets an open form take over voice input: while a target is registered, the voice
+// agent hands finished utterances to it instead of holding a conversation.
+
+export type DictationTarget = (text: string, language: 'ja' | 'en') => Promise<string | void> | string | void
+
+const targets: DictationTarget[] = []
+
+// Returns an unregister function; the most recently registered target receives dictation
+export const registerDictationTarget = (target: DictationTarget) => {
+  targets.push(target)
+  return () => {
+    const index = targets.lastIndexOf(target)
+    if (index >= 0) targets.splice(index, 1)
+  }
+}
+
+export const hasDictationTarget = () => targets.length > 0
+
+// Resolves to the target's spoken acknowledgement, or null when no form is listening
+export const dispatchDictation = async (text: string, language: 'ja' | 'en') => {
+  const target = targets[targets.length - 1]
+  if (!target) return null
+  return (await target(text, language)) || ''
+}
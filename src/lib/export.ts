@@ -0,0 +1,151 @@
+import type { Customer } from '../types/customer'
+import type { Task } from '../types/task'
+import { getCustomersByIds, maskCustomerField, type ProtectedCustomerField } from './customers'
+import { isEncrypted } from './fieldCrypto'
+import { maskPii, redactPii, type PiiKind } from './pii'
+import { createXlsx, type XlsxCell } from './xlsx'
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx'
+
+export interface ExportColumn<T> {
+  key: string
+  label: { ja: string; en: string }
+  // Personal data; always written masked
+  pii?: PiiKind
+  value: (row: T) => string | number | null | undefined
+}
+
+// A task together with the customer it was run for, when there is one
+export interface TaskExportRow {
+  task: Task
+  customer: Customer | null
+}
+
+const FORMATS: Record<ExportFormat, { extension: string; type: string }> = {
+  csv: { extension: 'csv', type: 'text/csv;charset=utf-8' },
+  jsonl: { extension: 'jsonl', type: 'application/x-ndjson;charset=utf-8' },
+  xlsx: { extension: 'xlsx', type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+}
+
+// Customer values that may appear inside task text
+const customerPiiValues = (customer: Customer | null) => customer
+  ? [
+      { kind: 'name' as const, value: customer.name },
+      { kind: 'furigana' as const, value: customer.furigana },
+      { kind: 'email' as const, value: customer.email },
+      { kind: 'phone' as const, value: customer.phone }
+    ]
+  : []
+
+export const TASK_EXPORT_COLUMNS: ExportColumn<TaskExportRow>[] = [
+  { key: 'id', label: { ja: 'タスクID', en: 'Task ID' }, value: ({ task }) => task.id },
+  { key: 'createdAt', label: { ja: '作成日時', en: 'Created' }, value: ({ task }) => task.createdAt },
+  { key: 'updatedAt', label: { ja: '更新日時', en: 'Updated' }, value: ({ task }) => task.updatedAt },
+  { key: 'agentType', label: { ja: 'エージェント', en: 'Agent' }, value: ({ task }) => task.agentType },
+  {
+    key: 'taskName',
+    label: { ja: 'タスク名', en: 'Task name' },
+    value: ({ task, customer }) => redactPii(task.taskName, customerPiiValues(customer))
+  },
+  { key: 'status', label: { ja: 'ステータス', en: 'Status' }, value: ({ task }) => task.status },
+  {
+    key: 'lastAction',
+    label: { ja: '最終アクション', en: 'Last action' },
+    value: ({ task, customer }) => redactPii(task.lastAction, customerPiiValues(customer))
+  },
+  { key: 'progress', label: { ja: '進捗(%)', en: 'Progress (%)' }, value: ({ task }) => task.progress },
+  { key: 'language', label: { ja: '言語', en: 'Language' }, value: ({ task }) => task.language },
+  { key: 'keigoMode', label: { ja: '敬語', en: 'Keigo' }, value: ({ task }) => task.keigoMode },
+  { key: 'error', label: { ja: 'エラー', en: 'Error' }, value: ({ task }) => task.output?.error },
+  { key: 'operatorId', label: { ja: 'オペレーターID', en: 'Operator ID' }, value: ({ task }) => task.userId },
+  { key: 'customerId', label: { ja: '顧客ID', en: 'Customer ID' }, value: ({ task }) => task.input.customerId },
+  { key: 'customerName', label: { ja: '顧客名', en: 'Customer name' }, pii: 'name', value: ({ customer }) => customer?.name }
+]
+
+// A sealed value is written as the masked copy stored with it, which masking leaves as it is
+const protectedValue = (field: ProtectedCustomerField) => (customer: Customer) =>
+  isEncrypted(customer[field]) ? maskCustomerField(customer, field) : customer[field]
+
+export const CUSTOMER_EXPORT_COLUMNS: ExportColumn<Customer>[] = [
+  { key: 'id', label: { ja: '顧客ID', en: 'Customer ID' }, value: customer => customer.id },
+  { key: 'createdAt', label: { ja: '登録日時', en: 'Created' }, value: customer => customer.createdAt },
+  { key: 'name', label: { ja: '氏名', en: 'Name' }, pii: 'name', value: customer => customer.name },
+  { key: 'furigana', label: { ja: 'フリガナ', en: 'Furigana' }, pii: 'furigana', value: customer => customer.furigana },
+  { key: 'email', label: { ja: 'メール', en: 'Email' }, pii: 'email', value: customer => customer.email },
+  { key: 'phone', label: { ja: '電話番号', en: 'Phone' }, pii: 'phone', value: protectedValue('phone') },
+  { key: 'postalCode', label: { ja: '郵便番号', en: 'Postal code' }, value: customer => customer.postalCode },
+  { key: 'prefecture', label: { ja: '都道府県', en: 'Prefecture' }, value: customer => customer.prefecture },
+  { key: 'municipality', label: { ja: '市区町村', en: 'City' }, value: customer => customer.municipality },
+  { key: 'address', label: { ja: '住所', en: 'Address' }, pii: 'address', value: protectedValue('address') },
+  { key: 'identificationType', label: { ja: '本人確認書類', en: 'ID type' }, value: customer => customer.identificationType },
+  {
+    key: 'identificationNumber',
+    label: { ja: '書類番号', en: 'ID number' },
+    pii: 'identificationNumber',
+    value: protectedValue('identificationNumber')
+  },
+  { key: 'birthDate', label: { ja: '生年月日', en: 'Birth date' }, pii: 'birthDate', value: customer => customer.birthDate },
+  { key: 'preferredLanguage', label: { ja: '希望言語', en: 'Language' }, value: customer => customer.preferredLanguage },
+  { key: 'keigoPreference', label: { ja: '敬語設定', en: 'Keigo' }, value: customer => customer.keigoPreference }
+]
+
+const toCellValue = <T>(column: ExportColumn<T>, row: T): XlsxCell => {
+  const value = column.value(row)
+  if (value === null || value === undefined) return ''
+  return column.pii ? maskPii(column.pii, String(value)) : value
+}
+
+// Spreadsheet apps run cells that start with these as formulas (CSV injection)
+const neutralizeFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value)
+
+const toCsvField = (value: XlsxCell) => {
+  const text = neutralizeFormula(value === null || value === undefined ? '' : String(value))
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// The BOM makes Excel read the file as UTF-8 instead of Shift_JIS
+const toCsv = (rows: XlsxCell[][]) => '\uFEFF' + rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n'
+
+export const buildExport = <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat,
+  language: 'ja' | 'en',
+  sheetName: string
+): Blob => {
+  const values = rows.map(row => columns.map(column => toCellValue(column, row)))
+  const { type } = FORMATS[format]
+
+  switch (format) {
+    case 'csv':
+      return new Blob([toCsv([columns.map(column => column.label[language]), ...values])], { type })
+    case 'jsonl':
+      // Keys stay in English so partner systems can rely on them
+      return new Blob(
+        values.map(row => JSON.stringify(Object.fromEntries(columns.map((column, index) => [column.key, row[index]]))) + '\n'),
+        { type }
+      )
+    case 'xlsx':
+      return new Blob([createXlsx([columns.map(column => column.label[language]), ...values], sheetName)], { type })
+  }
+}
+
+export const getExportFileName = (baseName: string, format: ExportFormat, date = new Date()) =>
+  `${baseName}_${date.toISOString().slice(0, 10)}.${FORMATS[format].extension}`
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoked on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export const toTaskExportRows = async (tasks: Task[]): Promise<TaskExportRow[]> => {
+  const customers = await getCustomersByIds(tasks.map(task => task.input.customerId))
+  return tasks.map(task => ({ task, customer: customers.get(task.input.customerId) || null }))
+}
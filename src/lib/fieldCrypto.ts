@@ -0,0 +1,96 @@
+// Field-level encryption for personal data held at rest (個人情報保護法, carrier contracts).
+// Values are sealed with AES-GCM by the field-crypto edge function (functions/field-crypto),
+// which holds the key as a project secret, so neither the database nor the browser bundle ever
+// sees it. Exact-match lookups (duplicate checks, searching by ID number) go through a blind
+// index: an HMAC of the normalized value under a second key. Sealed values are only opened by a
+// reveal, which the function logs against the customer before returning anything.
+//
+// Without VITE_FIELD_CRYPTO_URL, or when the function cannot be reached, every call throws:
+// protected values are never stored, indexed or shown as anything but ciphertext.
+
+import { blink } from '../blink/client'
+
+const PREFIX = 'enc:v1:'
+// Calls made in the same tick share a request, e.g. opening a page of customers
+const MAX_BATCH = 500
+
+type FieldOperation = 'encrypt' | 'index'
+
+interface PendingItem {
+  op: FieldOperation
+  field: string
+  value: string
+  resolve: (value: string) => void
+  reject: (error: Error) => void
+}
+
+const queue: PendingItem[] = []
+
+const callService = async <T>(body: unknown): Promise<T> => {
+  const url = import.meta.env.VITE_FIELD_CRYPTO_URL
+  if (!url) throw new Error('VITE_FIELD_CRYPTO_URL is not set; protected customer fields cannot be read or stored')
+
+  const token = await blink.auth.getValidToken()
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) {
+    throw new Error(`Field encryption service returned ${response.status}: ${await response.text()}`)
+  }
+  return response.json()
+}
+
+const sendBatch = async (batch: PendingItem[]) => {
+  try {
+    const { results } = await callService<{ results: { value?: string; error?: string }[] }>({
+      items: batch.map(({ op, field, value }) => ({ op, field, value }))
+    })
+    batch.forEach((item, index) => {
+      const result = results[index]
+      if (typeof result?.value === 'string') item.resolve(result.value)
+      else item.reject(new Error(result?.error || `No result for ${item.field}`))
+    })
+  } catch (error) {
+    batch.forEach(item => item.reject(error instanceof Error ? error : new Error(String(error))))
+  }
+}
+
+const flush = () => {
+  while (queue.length > 0) sendBatch(queue.splice(0, MAX_BATCH))
+}
+
+const request = (op: FieldOperation, value: string, field: string) =>
+  new Promise<string>((resolve, reject) => {
+    queue.push({ op, field, value, resolve, reject })
+    if (queue.length === 1) setTimeout(flush, 0)
+  })
+
+export const isEncrypted = (value: string | null | undefined) => !!value && value.startsWith(PREFIX)
+
+// `field` is bound into the ciphertext, so a value copied into another column fails to decrypt
+export const encryptField = async (value: string, field: string) => {
+  if (!value || isEncrypted(value)) return value
+  return request('encrypt', value, field)
+}
+
+// Opens `fields` of one of the signed-in operator's customers, reading them from the stored row.
+// The service writes the access log first and throws rather than return anything unlogged.
+export const revealFields = async <F extends string>(customerId: string, fields: F[], reason: string) => {
+  const { values } = await callService<{ values: Partial<Record<F, string>> }>({ reveal: { customerId, fields, reason } })
+  return values
+}
+
+// Opens contract fields sealed as a whole under 'contractFields' (see generateContractDocument) for
+// one of the signed-in operator's customers. Logged like a reveal; throws rather than open unlogged.
+export const openContractFields = async <T>(customerId: string, sealed: string) => {
+  const { fields } = await callService<{ fields: T }>({ contract: { customerId, sealed } })
+  return fields
+}
+
+// Deterministic, so equal inputs give equal keys; callers normalize the value first
+export const blindIndex = async (value: string, field: string) => {
+  if (!value) return ''
+  return request('index', value, field)
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { getJapaneseHoliday, getJapaneseHolidays, isJapaneseHoliday } from './holidays'
+
+const datesOf = (year: number) => Array.from(getJapaneseHolidays(year).keys()).sort()
+
+describe('getJapaneseHolidays', () => {
+  it('matches the published 2026 calendar', () => {
+    expect(datesOf(2026)).toEqual([
+      '2026-01-01', '2026-01-12', '2026-02-11', '2026-02-23', '2026-03-20', '2026-04-29',
+      '2026-05-03', '2026-05-04', '2026-05-05', '2026-05-06', '2026-07-20', '2026-08-11',
+      '2026-09-21', '2026-09-22', '2026-09-23', '2026-10-12', '2026-11-03', '2026-11-23'
+    ])
+  })
+
+  it('moves a Sunday holiday to the next day that is not a holiday', () => {
+    expect(getJapaneseHoliday('2025-02-24')?.name.en).toBe('Substitute Holiday')
+    // 5/4 is a Sunday and 5/5 is already a holiday
+    expect(getJapaneseHoliday('2025-05-06')?.name.en).toBe('Substitute Holiday')
+    expect(getJapaneseHoliday('2025-11-24')?.name.en).toBe('Substitute Holiday')
+  })
+
+  it('turns a weekday between two holidays into a holiday', () => {
+    expect(getJapaneseHoliday('2026-09-22')?.name.ja).toBe('国民の休日')
+    expect(isJapaneseHoliday('2025-09-22')).toBe(false)
+  })
+
+  it('uses the moved dates of the Olympic years', () => {
+    expect(isJapaneseHoliday('2021-07-22')).toBe(true)
+    expect(isJapaneseHoliday('2021-07-19')).toBe(false)
+    expect(isJapaneseHoliday('2021-08-11')).toBe(false)
+    expect(isJapaneseHoliday('2021-08-09')).toBe(true)
+  })
+
+  it('keeps the Emperor\'s Birthday of each era', () => {
+    expect(isJapaneseHoliday('2018-12-23')).toBe(true)
+    expect(isJapaneseHoliday('2019-12-23')).toBe(false)
+    expect(isJapaneseHoliday('2020-02-23')).toBe(true)
+  })
+})
@@ -0,0 +1,109 @@
+// Japanese public holidays (国民の祝日) computed from the Holiday Act rules,
+// including substitute holidays (振替休日) and sandwiched days (国民の休日).
+// Equinox dates use the standard approximation, valid for 1980–2099.
+
+export interface Holiday {
+  date: string
+  name: { ja: string; en: string }
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+const toKey = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`
+
+const dayOfWeek = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+
+// The nth Monday of a month (Happy Monday system)
+const nthMonday = (year: number, month: number, n: number) => {
+  const first = dayOfWeek(year, month, 1)
+  return 1 + ((8 - first) % 7) + (n - 1) * 7
+}
+
+const vernalEquinox = (year: number) =>
+  Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4))
+
+const autumnalEquinox = (year: number) =>
+  Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4))
+
+const addDays = (key: string, days: number) => {
+  const date = new Date(`${key}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+const baseHolidays = (year: number): Holiday[] => {
+  const holidays: Holiday[] = [
+    { date: toKey(year, 1, 1), name: { ja: '元日', en: 'New Year\'s Day' } },
+    { date: toKey(year, 1, nthMonday(year, 1, 2)), name: { ja: '成人の日', en: 'Coming of Age Day' } },
+    { date: toKey(year, 2, 11), name: { ja: '建国記念の日', en: 'National Foundation Day' } },
+    { date: toKey(year, 3, vernalEquinox(year)), name: { ja: '春分の日', en: 'Vernal Equinox Day' } },
+    { date: toKey(year, 4, 29), name: { ja: '昭和の日', en: 'Showa Day' } },
+    { date: toKey(year, 5, 3), name: { ja: '憲法記念日', en: 'Constitution Memorial Day' } },
+    { date: toKey(year, 5, 4), name: { ja: 'みどりの日', en: 'Greenery Day' } },
+    { date: toKey(year, 5, 5), name: { ja: 'こどもの日', en: 'Children\'s Day' } },
+    { date: toKey(year, 9, nthMonday(year, 9, 3)), name: { ja: '敬老の日', en: 'Respect for the Aged Day' } },
+    { date: toKey(year, 9, autumnalEquinox(year)), name: { ja: '秋分の日', en: 'Autumnal Equinox Day' } },
+    { date: toKey(year, 11, 3), name: { ja: '文化の日', en: 'Culture Day' } },
+    { date: toKey(year, 11, 23), name: { ja: '勤労感謝の日', en: 'Labor Thanksgiving Day' } }
+  ]
+
+  if (year >= 2020) {
+    holidays.push({ date: toKey(year, 2, 23), name: { ja: '天皇誕生日', en: 'Emperor\'s Birthday' } })
+  } else if (year <= 2018) {
+    holidays.push({ date: toKey(year, 12, 23), name: { ja: '天皇誕生日', en: 'Emperor\'s Birthday' } })
+  }
+
+  // 2020 and 2021 moved three holidays around the Tokyo Olympics
+  const olympicDates: Record<number, [string, string, string]> = {
+    2020: ['2020-07-23', '2020-07-24', '2020-08-10'],
+    2021: ['2021-07-22', '2021-07-23', '2021-08-08']
+  }
+  const [marineDay, sportsDay, mountainDay] = olympicDates[year] || [
+    toKey(year, 7, nthMonday(year, 7, 3)),
+    toKey(year, 10, nthMonday(year, 10, 2)),
+    toKey(year, 8, 11)
+  ]
+  holidays.push({ date: marineDay, name: { ja: '海の日', en: 'Marine Day' } })
+  holidays.push({ date: sportsDay, name: year >= 2020 ? { ja: 'スポーツの日', en: 'Sports Day' } : { ja: '体育の日', en: 'Health and Sports Day' } })
+  if (year >= 2016) {
+    holidays.push({ date: mountainDay, name: { ja: '山の日', en: 'Mountain Day' } })
+  }
+
+  return holidays
+}
+
+const cache = new Map<number, Map<string, Holiday>>()
+
+export const getJapaneseHolidays = (year: number): Map<string, Holiday> => {
+  const cached = cache.get(year)
+  if (cached) return cached
+
+  const holidays = new Map(baseHolidays(year).map(holiday => [holiday.date, holiday]))
+
+  // A weekday between two holidays becomes a holiday too
+  Array.from(holidays.keys()).forEach(key => {
+    const between = addDays(key, 1)
+    const [y, m, d] = between.split('-').map(Number)
+    if (!holidays.has(between) && holidays.has(addDays(key, 2)) && dayOfWeek(y, m, d) !== 0) {
+      holidays.set(between, { date: between, name: { ja: '国民の休日', en: 'Citizens\' Holiday' } })
+    }
+  })
+
+  // A holiday on Sunday moves to the next day that is not already a holiday
+  Array.from(holidays.values()).forEach(holiday => {
+    const [y, m, d] = holiday.date.split('-').map(Number)
+    if (dayOfWeek(y, m, d) !== 0) return
+    let substitute = addDays(holiday.date, 1)
+    while (holidays.has(substitute)) substitute = addDays(substitute, 1)
+    holidays.set(substitute, { date: substitute, name: { ja: '振替休日', en: 'Substitute Holiday' } })
+  })
+
+  cache.set(year, holidays)
+  return holidays
+}
+
+// `date` is a YYYY-MM-DD calendar date in Japan time
+export const getJapaneseHoliday = (date: string): Holiday | null =>
+  getJapaneseHolidays(Number(date.slice(0, 4))).get(date) || null
+
+export const isJapaneseHoliday = (date: string) => getJapaneseHoliday(date) !== null
@@ -0,0 +1,76 @@
+export type IdentificationType = 'drivers_license' | 'passport' | 'national_id' | 'residence_card'
+
+export const IDENTIFICATION_TYPES: IdentificationType[] = [
+  'drivers_license',
+  'passport',
+  'national_id',
+  'residence_card'
+]
+
+export interface IdentificationResult {
+  valid: boolean
+  normalized: string
+  error?: { ja: string; en: string }
+}
+
+export const getIdentificationTypeLabel = (type: string, language: 'ja' | 'en') => {
+  const labels: Record<IdentificationType, { ja: string; en: string }> = {
+    drivers_license: { ja: '運転免許証', en: 'Driver\'s License' },
+    passport: { ja: 'パスポート', en: 'Passport' },
+    national_id: { ja: '国民ID', en: 'National ID' },
+    residence_card: { ja: '在留カード', en: 'Residence Card' }
+  }
+  return labels[type as IdentificationType]?.[language] || type
+}
+
+// Full-width digits/letters and separators are common when staff copy numbers from forms
+export const normalizeIdentificationNumber = (value: string) =>
+  value
+    .normalize('NFKC')
+    .replace(/[\s\-ー－]/g, '')
+    .toUpperCase()
+
+// Check digit for the 12-digit individual number (マイナンバー)
+const isValidMyNumber = (digits: string) => {
+  const body = digits.slice(0, 11).split('').reverse().map(Number)
+  const sum = body.reduce((acc, digit, index) => {
+    const n = index + 1
+    const weight = n <= 6 ? n + 1 : n - 5
+    return acc + digit * weight
+  }, 0)
+  const remainder = sum % 11
+  const checkDigit = remainder <= 1 ? 0 : 11 - remainder
+  return checkDigit === Number(digits[11])
+}
+
+export const validateIdentification = (type: string, value: string): IdentificationResult => {
+  const normalized = normalizeIdentificationNumber(value || '')
+
+  if (!normalized) {
+    return { valid: false, normalized, error: { ja: '身分証明書番号を入力してください', en: 'Enter the ID number' } }
+  }
+
+  switch (type) {
+    case 'drivers_license':
+      return /^\d{12}$/.test(normalized)
+        ? { valid: true, normalized }
+        : { valid: false, normalized, error: { ja: '運転免許証番号は12桁の数字です', en: 'Driver\'s license numbers are 12 digits' } }
+    case 'passport':
+      return /^[A-Z]{2}\d{7}$/.test(normalized)
+        ? { valid: true, normalized }
+        : { valid: false, normalized, error: { ja: '旅券番号は英字2文字と数字7桁です', en: 'Passport numbers are 2 letters followed by 7 digits' } }
+    case 'national_id':
+      if (!/^\d{12}$/.test(normalized)) {
+        return { valid: false, normalized, error: { ja: 'マイナンバーは12桁の数字です', en: 'My Number is 12 digits' } }
+      }
+      return isValidMyNumber(normalized)
+        ? { valid: true, normalized }
+        : { valid: false, normalized, error: { ja: 'マイナンバーのチェックデジットが一致しません', en: 'My Number check digit does not match' } }
+    case 'residence_card':
+      return /^[A-Z]{2}\d{8}[A-Z]{2}$/.test(normalized)
+        ? { valid: true, normalized }
+        : { valid: false, normalized, error: { ja: '在留カード番号は英字2文字・数字8桁・英字2文字です', en: 'Residence card numbers are 2 letters, 8 digits, 2 letters' } }
+    default:
+      return { valid: false, normalized, error: { ja: '身分証明書の種類が不明です', en: 'Unknown identification type' } }
+  }
+}
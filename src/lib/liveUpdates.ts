@@ -0,0 +1,36 @@
+import { blink } from '../blink/client'
+
+// Tables the dashboard shows live; used as the realtime message type
+export type LiveTopic = 'tasks' | 'customers'
+
+export interface LiveChange {
+  topic: LiveTopic
+  id: string
+}
+
+const LIVE_TOPICS: LiveTopic[] = ['tasks', 'customers']
+
+// One channel per operator, shared by every tab, dispatcher and voice surface they have open
+const changesChannel = (userId: string) => `changes:${userId}`
+
+// Tells other open dashboards that a row changed. The message only says which row;
+// listeners reload it themselves. Publishing is best effort: a failure is logged and the
+// polling fallback picks the change up instead.
+export const publishChange = async (userId: string, topic: LiveTopic, id: string) => {
+  try {
+    await blink.realtime.publish(changesChannel(userId), topic, { id })
+  } catch (error) {
+    console.error(`Failed to publish ${topic} change for ${id}:`, error)
+  }
+}
+
+export const subscribeToChanges = (userId: string, onChange: (change: LiveChange) => void) =>
+  blink.realtime.subscribe(changesChannel(userId), message => {
+    if (!LIVE_TOPICS.includes(message.type as LiveTopic)) return
+    onChange({ topic: message.type as LiveTopic, id: String(message.data?.id ?? '') })
+  })
+
+// Polled lists come back as new arrays every time; this keeps the old one when nothing
+// in it changed so the dashboard does not re-render on every poll
+export const keepIfUnchanged = <T>(previous: T[], next: T[]) =>
+  previous.length === next.length && JSON.stringify(previous) === JSON.stringify(next) ? previous : next
@@ -0,0 +1,329 @@
+import { blink } from '../blink/client'
+import type { Customer } from '../types/customer'
+import { isProtectedField, maskCustomerField } from './customers'
+
+// 'voice' templates are spoken replies from the voice interfaces
+export type MessageChannel = 'email' | 'sms' | 'voice'
+
+export type TemplateVariant = 'formal' | 'casual' | 'en'
+
+export const TEMPLATE_VARIANTS: TemplateVariant[] = ['formal', 'casual', 'en']
+
+export interface TemplateContent {
+  // Only used by email templates
+  subject: string
+  body: string
+}
+
+export interface MessageTemplate {
+  key: string
+  version: number
+  channel: MessageChannel
+  name: { ja: string; en: string }
+  variants: Record<TemplateVariant, TemplateContent>
+  createdAt?: string
+}
+
+// Each saved version is its own row so earlier sends can be traced to the exact wording
+interface MessageTemplateRow {
+  id: string
+  userId: string
+  templateKey: string
+  version: number
+  channel: MessageChannel
+  nameJa: string
+  nameEn: string
+  variants: string
+  createdAt: string
+}
+
+export interface RenderedMessage {
+  templateKey: string
+  version: number
+  channel: MessageChannel
+  variant: TemplateVariant
+  subject: string
+  body: string
+  // Placeholders that had no value; rendered as empty strings
+  missing: string[]
+}
+
+export type TemplateVariables = Record<string, string | number | undefined>
+
+// Customer fields that templates may reference as {{customer.<field>}}. Protected ones are filled
+// in masked, so messages, and the tasks that keep them, never carry them in full.
+export const CUSTOMER_PLACEHOLDERS: (keyof Customer)[] = ['name', 'email', 'phone', 'address']
+
+export const DEFAULT_MESSAGE_TEMPLATES: MessageTemplate[] = [
+  {
+    key: 'contract_followup',
+    version: 1,
+    channel: 'email',
+    name: { ja: '契約後フォローアップ', en: 'Contract follow-up' },
+    variants: {
+      formal: {
+        subject: '【ご契約ありがとうございます】SIMカードのご利用について',
+        body: '{{customer.name}}様\n\nこの度はご契約いただき、誠にありがとうございます。\n' +
+          'SIMカードのご利用にあたり、ご不明な点がございましたらお気軽にお問い合わせくださいませ。\n\n' +
+          '今後ともどうぞよろしくお願い申し上げます。'
+      },
+      casual: {
+        subject: 'ご契約ありがとう！SIMカードについて',
+        body: '{{customer.name}}さん\n\n契約ありがとうございます！\n' +
+          'SIMカードで分からないことがあったら、いつでも気軽に聞いてくださいね。\n\nこれからよろしくお願いします。'
+      },
+      en: {
+        subject: 'Thank you for your contract',
+        body: 'Dear {{customer.name}},\n\nThank you for signing up with us.\n' +
+          'If you have any questions about your SIM card, please feel free to contact us.\n\nBest regards'
+      }
+    }
+  },
+  {
+    key: 'contract_confirmation',
+    version: 1,
+    channel: 'email',
+    name: { ja: '契約確認', en: 'Contract confirmation' },
+    variants: {
+      formal: {
+        subject: '【契約確認】{{contractNumber}}',
+        body: '{{customer.name}}様\n\n下記の内容にてご契約を承りました。\n\n' +
+          '契約番号: {{contractNumber}}\n料金プラン: {{planName}}\n月額合計: {{monthlyTotal}}\n\n' +
+          '契約書は以下よりご確認いただけます。\n{{contractUrl}}'
+      },
+      casual: {
+        subject: '契約内容の確認 {{contractNumber}}',
+        body: '{{customer.name}}さん\n\n契約の手続きが完了しました！\n\n' +
+          '契約番号: {{contractNumber}}\nプラン: {{planName}}\n月額: {{monthlyTotal}}\n\n契約書はこちら\n{{contractUrl}}'
+      },
+      en: {
+        subject: 'Contract confirmation {{contractNumber}}',
+        body: 'Dear {{customer.name}},\n\nYour contract has been completed.\n\n' +
+          'Contract No.: {{contractNumber}}\nPlan: {{planName}}\nMonthly total: {{monthlyTotal}}\n\n' +
+          'You can view your contract here:\n{{contractUrl}}'
+      }
+    }
+  },
+  {
+    key: 'followup_sms',
+    version: 1,
+    channel: 'sms',
+    name: { ja: 'フォローアップSMS', en: 'Follow-up SMS' },
+    variants: {
+      formal: { subject: '', body: '{{customer.name}}様 ご契約ありがとうございます。ご不明点はお気軽にお問い合わせくださいませ。' },
+      casual: { subject: '', body: '{{customer.name}}さん 契約ありがとう！分からないことがあったら気軽に連絡してね。' },
+      en: { subject: '', body: 'Hi {{customer.name}}, thanks for signing up! Contact us anytime with questions.' }
+    }
+  },
+  {
+    key: 'renewal_reminder',
+    version: 1,
+    channel: 'email',
+    name: { ja: '契約更新のご案内', en: 'Renewal notice' },
+    variants: {
+      formal: {
+        subject: '【ご案内】契約更新日が近づいております',
+        body: '{{customer.name}}様\n\nいつもご利用いただき、誠にありがとうございます。\n' +
+          'ご契約（{{contractNumber}}）は{{renewalDate}}に更新日を迎えます。\n' +
+          'プランの見直しをご希望の場合は、更新日までにお気軽にご相談くださいませ。'
+      },
+      casual: {
+        subject: 'そろそろ契約更新日です',
+        body: '{{customer.name}}さん\n\nいつもありがとうございます！\n' +
+          '契約（{{contractNumber}}）の更新日は{{renewalDate}}です。\nプランを変えたいときは、更新日までに気軽に相談してくださいね。'
+      },
+      en: {
+        subject: 'Your contract renewal is coming up',
+        body: 'Dear {{customer.name}},\n\nThank you for being with us.\n' +
+          'Your contract ({{contractNumber}}) renews on {{renewalDate}}.\n' +
+          'If you would like to review your plan, please contact us before that date.'
+      }
+    }
+  },
+  {
+    key: 'voice_action_ack',
+    version: 1,
+    channel: 'voice',
+    name: { ja: '音声応答: 受付', en: 'Voice reply: acknowledged' },
+    variants: {
+      formal: { subject: '', body: '承知いたしました。{{actionText}}を実行いたします。' },
+      casual: { subject: '', body: 'わかった。{{actionText}}をやるね。' },
+      en: { subject: '', body: 'Understood. I\'ll {{action}}.' }
+    }
+  },
+  {
+    key: 'voice_action_start',
+    version: 1,
+    channel: 'voice',
+    name: { ja: '音声応答: 開始', en: 'Voice reply: starting' },
+    variants: {
+      formal: { subject: '', body: '{{actionText}}を開始いたします。' },
+      casual: { subject: '', body: '{{actionText}}を始めるよ。' },
+      en: { subject: '', body: 'Starting {{action}}...' }
+    }
+  }
+]
+
+export const getVariantLabel = (variant: TemplateVariant, language: 'ja' | 'en') => {
+  const labels: Record<TemplateVariant, { ja: string; en: string }> = {
+    formal: { ja: '敬語', en: 'Formal' },
+    casual: { ja: 'カジュアル', en: 'Casual' },
+    en: { ja: '英語', en: 'English' }
+  }
+  return labels[variant][language]
+}
+
+export const pickVariant = (language: 'ja' | 'en', keigoMode: 'formal' | 'casual'): TemplateVariant =>
+  language === 'en' ? 'en' : keigoMode
+
+// The customer's own preferences win; the operator's settings are only a fallback
+export const selectVariant = (
+  customer: Partial<Customer> | null | undefined,
+  fallback: { language: 'ja' | 'en'; keigoMode: 'formal' | 'casual' } = { language: 'ja', keigoMode: 'formal' }
+): TemplateVariant => {
+  const language = customer?.preferredLanguage === 'en' || customer?.preferredLanguage === 'ja'
+    ? customer.preferredLanguage
+    : fallback.language
+  const keigoMode = customer?.keigoPreference === 'casual' || customer?.keigoPreference === 'formal'
+    ? customer.keigoPreference
+    : fallback.keigoMode
+  return pickVariant(language, keigoMode)
+}
+
+export const listPlaceholders = (content: TemplateContent) =>
+  Array.from(new Set(
+    Array.from(`${content.subject}\n${content.body}`.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g), match => match[1])
+  ))
+
+const fillPlaceholders = (text: string, values: TemplateVariables, missing: Set<string>) =>
+  text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => {
+    const value = values[key]
+    if (value === undefined || value === '') {
+      missing.add(key)
+      return ''
+    }
+    return String(value)
+  })
+
+export const renderTemplateVariant = (
+  template: MessageTemplate,
+  variant: TemplateVariant,
+  customer?: Partial<Customer> | null,
+  variables: TemplateVariables = {}
+): RenderedMessage => {
+  const values: TemplateVariables = { ...variables }
+  CUSTOMER_PLACEHOLDERS.forEach(field => {
+    values[`customer.${field}`] = customer && isProtectedField(field)
+      ? maskCustomerField(customer, field)
+      : customer?.[field] as string | undefined
+  })
+
+  const missing = new Set<string>()
+  const content = template.variants[variant]
+  return {
+    templateKey: template.key,
+    version: template.version,
+    channel: template.channel,
+    variant,
+    subject: template.channel === 'email' ? fillPlaceholders(content.subject, values, missing) : '',
+    body: fillPlaceholders(content.body, values, missing),
+    missing: Array.from(missing)
+  }
+}
+
+export const renderMessageTemplate = (
+  template: MessageTemplate,
+  customer: Partial<Customer>,
+  variables: TemplateVariables = {}
+) => renderTemplateVariant(template, selectVariant(customer), customer, variables)
+
+const templatesTable = () => blink.db.table<MessageTemplateRow>('messageTemplates')
+
+const parseVariants = (value: string): MessageTemplate['variants'] => {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return { formal: { subject: '', body: '' }, casual: { subject: '', body: '' }, en: { subject: '', body: '' } }
+  }
+}
+
+const toTemplate = (row: MessageTemplateRow): MessageTemplate => ({
+  key: row.templateKey,
+  version: Number(row.version),
+  channel: row.channel,
+  name: { ja: row.nameJa, en: row.nameEn },
+  variants: parseVariants(row.variants),
+  createdAt: row.createdAt
+})
+
+// Templates belong to the operator like every other table, so built-in ones are seeded per
+// operator and ids carry the userId
+const toTemplateRow = (template: MessageTemplate, userId: string): MessageTemplateRow => ({
+  id: `tmpl_${userId}_${template.key}_v${template.version}`,
+  userId,
+  templateKey: template.key,
+  version: template.version,
+  channel: template.channel,
+  nameJa: template.name.ja,
+  nameEn: template.name.en,
+  variants: JSON.stringify(template.variants),
+  createdAt: template.createdAt || new Date().toISOString()
+})
+
+// Concurrent sends share one seeding write per operator. Built-in templates have fixed ids, so an
+// upsert from another tab seeding at the same time writes the same rows.
+const seeding = new Map<string, Promise<MessageTemplateRow[]>>()
+
+const seedTemplates = (userId: string, missing: MessageTemplate[]) => {
+  let pending = seeding.get(userId)
+  if (!pending) {
+    pending = templatesTable()
+      .upsertMany(missing.map(template => toTemplateRow(template, userId)))
+      .finally(() => seeding.delete(userId))
+    seeding.set(userId, pending)
+  }
+  return pending
+}
+
+// Every stored version of the operator's templates, newest first; seeds any built-in template
+// that is not stored yet
+export const listTemplateVersions = async (userId: string): Promise<MessageTemplate[]> => {
+  let rows = await templatesTable().list({ where: { userId }, orderBy: { version: 'desc' } })
+
+  const missing = DEFAULT_MESSAGE_TEMPLATES.filter(template => !rows.some(row => row.templateKey === template.key))
+  if (missing.length > 0) {
+    const seeded = await seedTemplates(userId, missing)
+    rows = [...rows, ...seeded.filter(row => !rows.some(stored => stored.id === row.id))]
+  }
+
+  return rows.map(toTemplate)
+}
+
+// Latest version of each template
+export const listMessageTemplates = async (userId: string): Promise<MessageTemplate[]> => {
+  const latest = new Map<string, MessageTemplate>()
+  for (const template of await listTemplateVersions(userId)) {
+    const current = latest.get(template.key)
+    if (!current || template.version > current.version) {
+      latest.set(template.key, template)
+    }
+  }
+  return Array.from(latest.values()).sort((a, b) => a.key.localeCompare(b.key))
+}
+
+export const getMessageTemplate = async (userId: string, key: string, version?: number): Promise<MessageTemplate | null> => {
+  const versions = (await listTemplateVersions(userId)).filter(template => template.key === key)
+  return (version ? versions.find(template => template.version === version) : versions[0]) || null
+}
+
+// Saving never overwrites: it stores the content as the next version of the template
+export const saveMessageTemplate = async (userId: string, template: Omit<MessageTemplate, 'version' | 'createdAt'>) => {
+  const current = await getMessageTemplate(userId, template.key)
+  const next: MessageTemplate = {
+    ...template,
+    version: (current?.version || 0) + 1,
+    createdAt: new Date().toISOString()
+  }
+  await templatesTable().create(toTemplateRow(next, userId))
+  return next
+}
@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { forEachPage, runMigrationOnce } from './migrations'
+
+const store = new Map<string, string>()
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => store.set(key, value)
+})
+
+beforeEach(() => store.clear())
+
+describe('runMigrationOnce', () => {
+  it('skips a version that already ran for the operator', async () => {
+    const migrate = vi.fn().mockResolvedValue(3)
+    await expect(runMigrationOnce('tasks', 'user_1', 4, migrate)).resolves.toBe(3)
+    await expect(runMigrationOnce('tasks', 'user_1', 4, migrate)).resolves.toBe(0)
+    await runMigrationOnce('tasks', 'user_2', 4, migrate)
+    await runMigrationOnce('tasks', 'user_1', 5, migrate)
+    expect(migrate).toHaveBeenCalledTimes(3)
+  })
+
+  it('runs again after a failure', async () => {
+    const migrate = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue(1)
+    await expect(runMigrationOnce('customers', 'user_1', '5:identificationNumber', migrate)).rejects.toThrow('offline')
+    await expect(runMigrationOnce('customers', 'user_1', '5:identificationNumber', migrate)).resolves.toBe(1)
+  })
+})
+
+describe('forEachPage', () => {
+  it('pages through the rows by id until a short page', async () => {
+    const ids = Array.from({ length: 450 }, (_, index) => ({ id: `row_${String(index).padStart(4, '0')}` }))
+    const list = vi.fn(async ({ where, limit }: Record<string, any>) =>
+      ids.filter(row => !where.id || row.id > where.id.gt).slice(0, limit))
+    const seen: string[] = []
+
+    await forEachPage({ list }, { userId: 'user_1' }, async rows => {
+      seen.push(...rows.map(row => row.id))
+    })
+
+    expect(seen).toEqual(ids.map(row => row.id))
+    expect(list).toHaveBeenCalledTimes(3)
+    expect(list.mock.calls[1][0].where).toEqual({ userId: 'user_1', id: { gt: 'row_0199' } })
+  })
+})
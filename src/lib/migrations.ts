@@ -0,0 +1,44 @@
+// Rewrites of rows stored in an older shape. Each runs once per operator and browser for a given
+// version: the version it brought the rows up to is remembered, so later page loads skip the scan.
+
+const MIGRATION_PAGE_SIZE = 200
+
+const storageKey = (name: string, userId: string) => `brytt.migrated.${name}.${userId}`
+
+// A migration that throws is not remembered and runs again on the next load
+export const runMigrationOnce = async (
+  name: string,
+  userId: string,
+  version: string | number,
+  migrate: () => Promise<number>
+) => {
+  const key = storageKey(name, userId)
+  if (localStorage.getItem(key) === String(version)) return 0
+  const migrated = await migrate()
+  localStorage.setItem(key, String(version))
+  return migrated
+}
+
+interface PagedTable<T> {
+  list: (options: Record<string, any>) => Promise<T[]>
+}
+
+// Hands every row matching a flat `where` to `visit` in pages ordered by id, so a large table is
+// never listed whole. Paging by id rather than offset keeps rows rewritten by `visit` in place.
+export const forEachPage = async <T extends { id: string }>(
+  table: PagedTable<T>,
+  where: Record<string, unknown>,
+  visit: (rows: T[]) => Promise<void>
+) => {
+  let lastId = ''
+  for (;;) {
+    const rows = await table.list({
+      where: lastId ? { ...where, id: { gt: lastId } } : where,
+      orderBy: { id: 'asc' },
+      limit: MIGRATION_PAGE_SIZE
+    })
+    if (rows.length > 0) await visit(rows)
+    if (rows.length < MIGRATION_PAGE_SIZE) return
+    lastId = rows[rows.length - 1].id
+  }
+}
@@ -0,0 +1,137 @@
+// Minimal PDF writer for generated documents (contracts, reports).
+// Text is set in the Adobe-Japan1 CID font HeiseiKakuGo-W5, which every PDF viewer
+// with Japanese support provides, so no font file has to be embedded.
+
+export interface PdfText {
+  x: number
+  y: number
+  size: number
+  text: string
+  // 0 = black, 1 = white
+  gray?: number
+}
+
+export interface PdfLine {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  width?: number
+}
+
+export interface PdfPage {
+  texts: PdfText[]
+  lines?: PdfLine[]
+}
+
+export const A4_WIDTH = 595
+export const A4_HEIGHT = 842
+
+// UniJIS-UCS2-HW-H maps ASCII and half-width katakana to half-width CIDs
+const isHalfWidth = (code: number) =>
+  (code >= 0x20 && code <= 0x7e) || (code >= 0xff61 && code <= 0xff9f)
+
+export const measureText = (text: string, size: number) =>
+  Array.from(text).reduce((width, char) => width + (isHalfWidth(char.charCodeAt(0)) ? 0.5 : 1), 0) * size
+
+// Greedy wrap; breaks anywhere for Japanese and at spaces for Latin text when possible
+export const wrapText = (text: string, maxWidth: number, size: number): string[] => {
+  const lines: string[] = []
+
+  text.split('\n').forEach(paragraph => {
+    let line = ''
+    for (const char of Array.from(paragraph)) {
+      const candidate = line + char
+      if (measureText(candidate, size) <= maxWidth || !line) {
+        line = candidate
+        continue
+      }
+      const lastSpace = line.lastIndexOf(' ')
+      if (char !== ' ' && lastSpace > 0) {
+        lines.push(line.slice(0, lastSpace))
+        line = line.slice(lastSpace + 1) + char
+      } else {
+        lines.push(line)
+        line = char === ' ' ? '' : char
+      }
+    }
+    lines.push(line)
+  })
+
+  return lines
+}
+
+// UCS-2 hex string; characters outside the BMP cannot be encoded and become "?"
+const encodeText = (text: string) =>
+  Array.from(text)
+    .map(char => {
+      const code = char.codePointAt(0) ?? 0x3f
+      return (code > 0xffff ? 0x3f : code).toString(16).padStart(4, '0')
+    })
+    .join('')
+    .toUpperCase()
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString()
+
+const renderPageContent = (page: PdfPage) => {
+  const ops: string[] = []
+
+  page.lines?.forEach(line => {
+    ops.push(
+      `${formatNumber(line.width ?? 0.5)} w ${formatNumber(line.x1)} ${formatNumber(line.y1)} m ` +
+      `${formatNumber(line.x2)} ${formatNumber(line.y2)} l S`
+    )
+  })
+
+  page.texts.forEach(text => {
+    ops.push(
+      `BT ${formatNumber(text.gray ?? 0)} g /F1 ${formatNumber(text.size)} Tf ` +
+      `${formatNumber(text.x)} ${formatNumber(text.y)} Td <${encodeText(text.text)}> Tj ET`
+    )
+  })
+
+  return ops.join('\n')
+}
+
+// Output is byte-for-byte deterministic for the same pages, which keeps content hashes stable
+export const createPdf = (pages: PdfPage[]): Uint8Array => {
+  const objects: string[] = []
+  const fontId = 3
+  const firstPageId = 6
+
+  const pageIds = pages.map((_, index) => firstPageId + index * 2)
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  objects[3] = '<< /Type /Font /Subtype /Type0 /BaseFont /HeiseiKakuGo-W5 /Encoding /UniJIS-UCS2-HW-H /DescendantFonts [4 0 R] >>'
+  objects[4] = '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /HeiseiKakuGo-W5 ' +
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (Japan1) /Supplement 2 >> ' +
+    '/FontDescriptor 5 0 R /DW 1000 /W [231 389 500 631 631 500] >>'
+  objects[5] = '<< /Type /FontDescriptor /FontName /HeiseiKakuGo-W5 /Flags 4 /FontBBox [-92 -250 1010 922] ' +
+    '/ItalicAngle 0 /Ascent 752 /Descent -221 /CapHeight 737 /StemV 114 >>'
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index]
+    const content = renderPageContent(page)
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+  })
+
+  // Every object body is ASCII, so string offsets equal byte offsets
+  let output = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return new TextEncoder().encode(output)
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { canReceiveSms, validatePhoneNumber } from './phone'
+
+describe('validatePhoneNumber', () => {
+  it.each([
+    // typed, normalized, E.164, type
+    ['090-1234-5678', '090-1234-5678', '+819012345678', 'mobile'],
+    ['０９０ー１２３４ー５６７８', '090-1234-5678', '+819012345678', 'mobile'],
+    ['08012345678', '080-1234-5678', '+818012345678', 'mobile'],
+    ['070 1234 5678', '070-1234-5678', '+817012345678', 'mobile'],
+    ['060-1234-5678', '060-1234-5678', '+816012345678', 'mobile'],
+    ['+81 90 1234 5678', '090-1234-5678', '+819012345678', 'mobile'],
+    ['+81(0)90-1234-5678', '090-1234-5678', '+819012345678', 'mobile'],
+    ['03-1234-5678', '03-1234-5678', '+81312345678', 'landline'],
+    ['0612345678', '06-1234-5678', '+81612345678', 'landline'],
+    ['0467-12-3456', '0467-12-3456', '+81467123456', 'landline'],
+    ['0467123456', '0467123456', '+81467123456', 'landline'],
+    ['+81-467-12-3456', '0467-12-3456', '+81467123456', 'landline'],
+    ['050-1234-5678', '050-1234-5678', '+815012345678', 'ip'],
+    ['0120-123-456', '0120-123-456', '+81120123456', 'tollFree'],
+    ['0800-123-4567', '0800-123-4567', '+818001234567', 'tollFree'],
+    ['0570-123-456', '0570-123-456', '+81570123456', 'other'],
+    ['0180-123-456', '0180-123-456', '+81180123456', 'other'],
+    ['020-1234-5678', '020-1234-5678', '+812012345678', 'other'],
+    ['+1 415 555 0100', '+14155550100', '+14155550100', 'international'],
+    ['+44 20 7946 0958', '+442079460958', '+442079460958', 'international']
+  ])('reads %s', (typed, normalized, e164, type) => {
+    expect(validatePhoneNumber(typed)).toEqual({ valid: true, normalized, e164, type })
+  })
+
+  it.each([
+    ['', 'Enter the phone number'],
+    ['abc', 'Enter the phone number'],
+    ['12345', 'Phone numbers are 10-11 digits starting with 0, or +country code'],
+    // A digit short of a mobile number is not a landline
+    ['090-1234-567', 'Phone numbers are 10-11 digits starting with 0, or +country code'],
+    ['0601234567', 'Phone numbers are 10-11 digits starting with 0, or +country code'],
+    ['03-0123-4567', 'Phone numbers are 10-11 digits starting with 0, or +country code'],
+    ['+1 555', 'Numbers with a country code are 8-15 digits']
+  ])('rejects %j', (typed, error) => {
+    const result = validatePhoneNumber(typed)
+    expect(result.valid).toBe(false)
+    expect(result.e164).toBe('')
+    expect(result.error?.en).toBe(error)
+  })
+})
+
+describe('canReceiveSms', () => {
+  it.each([
+    ['090-1234-5678', true],
+    ['060-1234-5678', true],
+    ['+1 415 555 0100', true],
+    ['03-1234-5678', false],
+    ['050-1234-5678', false],
+    ['0800-123-4567', false],
+    ['0180-123-456', false],
+    ['090-1234-567', false]
+  ])('%s → %s', (typed, expected) => {
+    expect(canReceiveSms(validatePhoneNumber(typed))).toBe(expected)
+  })
+})
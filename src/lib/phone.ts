@@ -0,0 +1,105 @@
+// Japanese numbering plan (総務省 電気通信番号計画), enough to tell what kind of line a number
+// is and to hand it to SMS and voice providers in E.164
+
+export type PhoneType = 'mobile' | 'landline' | 'ip' | 'tollFree' | 'other' | 'international'
+
+export interface PhoneNumberResult {
+  valid: boolean
+  // Domestic form with hyphens, e.g. 090-1234-5678; numbers abroad stay in E.164
+  normalized: string
+  // +819012345678; empty when the number is not valid
+  e164: string
+  type: PhoneType | null
+  error?: { ja: string; en: string }
+}
+
+export const PHONE_TYPE_LABELS: Record<PhoneType, { ja: string; en: string }> = {
+  mobile: { ja: '携帯', en: 'Mobile' },
+  landline: { ja: '固定電話', en: 'Landline' },
+  ip: { ja: 'IP電話', en: 'IP phone' },
+  tollFree: { ja: 'フリーダイヤル', en: 'Toll-free' },
+  other: { ja: 'その他', en: 'Other' },
+  international: { ja: '海外', en: 'International' }
+}
+
+// Prefix, digit count and how the digits group; checked in order, so 0800 is tried before the
+// 080 mobile range and the landline catch-all is last
+const NUMBER_PLANS: { pattern: RegExp; type: PhoneType; groups?: number[] }[] = [
+  { pattern: /^0120\d{6}$/, type: 'tollFree', groups: [4, 3, 3] },
+  { pattern: /^0800\d{7}$/, type: 'tollFree', groups: [4, 3, 4] },
+  // ナビダイヤル, テレドーム and M2M/pager numbers
+  { pattern: /^0570\d{6}$/, type: 'other', groups: [4, 3, 3] },
+  { pattern: /^0180\d{6}$/, type: 'other', groups: [4, 3, 3] },
+  { pattern: /^020\d{8}$/, type: 'other', groups: [3, 4, 4] },
+  // 060 was opened to mobile lines in 2023
+  { pattern: /^0[6789]0\d{8}$/, type: 'mobile', groups: [3, 4, 4] },
+  { pattern: /^050\d{8}$/, type: 'ip', groups: [3, 4, 4] },
+  // Tokyo and Osaka have two-digit area codes; elsewhere the split varies by area. 0X0 prefixes
+  // are not areas, and local numbers never start with 0.
+  { pattern: /^0[36][1-9]\d{7}$/, type: 'landline', groups: [2, 4, 4] },
+  { pattern: /^0[1-9][1-9]\d{7}$/, type: 'landline' }
+]
+
+const group = (digits: string, sizes: number[]) => {
+  const parts: string[] = []
+  let start = 0
+  for (const size of sizes) {
+    parts.push(digits.slice(start, start + size))
+    start += size
+  }
+  return parts.join('-')
+}
+
+// Landline area codes run from two to five digits, so a grouping the operator typed is kept
+// when it adds up; otherwise the digits are left unsplit rather than split wrongly
+const formatLandline = (digits: string, typed: string) => {
+  const parts = typed.split('-').filter(Boolean)
+  return parts.length === 3 && parts.join('') === digits ? parts.join('-') : digits
+}
+
+export const validatePhoneNumber = (value: string): PhoneNumberResult => {
+  const typed = value
+    .normalize('NFKC')
+    .replace(/[ー－―‐−–]/g, '-')
+    .replace(/\(0\)/g, '')
+    .replace(/[()\s.]/g, '-')
+    .replace(/[^\d+-]/g, '')
+  const digits = typed.replace(/\D/g, '')
+  const invalid = (error: { ja: string; en: string }): PhoneNumberResult =>
+    ({ valid: false, normalized: typed, e164: '', type: null, error })
+
+  if (!digits) {
+    return invalid({ ja: '電話番号を入力してください', en: 'Enter the phone number' })
+  }
+
+  // +81 numbers are domestic ones; a trunk 0 written after the country code is dropped
+  let national = digits
+  let domesticTyped = typed
+  if (typed.startsWith('+')) {
+    if (!digits.startsWith('81')) {
+      return digits.length >= 8 && digits.length <= 15
+        ? { valid: true, normalized: `+${digits}`, e164: `+${digits}`, type: 'international' }
+        : invalid({ ja: '国番号付きの番号は8〜15桁です', en: 'Numbers with a country code are 8-15 digits' })
+    }
+    national = `0${digits.slice(2).replace(/^0/, '')}`
+    domesticTyped = `0${typed.replace(/^\+81-*0?/, '')}`
+  }
+
+  const plan = NUMBER_PLANS.find(({ pattern }) => pattern.test(national))
+  if (!plan) {
+    return invalid({
+      ja: '電話番号は0から始まる10〜11桁です',
+      en: 'Phone numbers are 10-11 digits starting with 0, or +country code'
+    })
+  }
+  return {
+    valid: true,
+    normalized: plan.groups ? group(national, plan.groups) : formatLandline(national, domesticTyped),
+    e164: `+81${national.slice(1)}`,
+    type: plan.type
+  }
+}
+
+// Only mobile numbers, and numbers abroad, can take SMS
+export const canReceiveSms = (result: PhoneNumberResult) =>
+  result.valid && (result.type === 'mobile' || result.type === 'international')
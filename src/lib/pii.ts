@@ -0,0 +1,94 @@
+// Masking rules for customer personal data (個人情報) that leaves the dashboard.
+// Masked values keep just enough to recognise a record (a surname initial, the
+// prefecture, the last digits of a number) without being usable on their own.
+
+import { isEncrypted } from './fieldCrypto'
+
+export type PiiKind = 'name' | 'furigana' | 'email' | 'phone' | 'address' | 'identificationNumber' | 'birthDate'
+
+// Customer fields that hold personal data, and how each one is masked
+export const CUSTOMER_PII_FIELDS: Record<string, PiiKind> = {
+  name: 'name',
+  furigana: 'furigana',
+  email: 'email',
+  phone: 'phone',
+  address: 'address',
+  identificationNumber: 'identificationNumber',
+  birthDate: 'birthDate'
+}
+
+export const MASK = '＊'
+
+// Stands in for a sealed value whose masked copy is unknown
+export const SEALED_MASK = MASK.repeat(4)
+
+const maskAfter = (value: string, visible: number) =>
+  value.slice(0, visible) + MASK.repeat(Math.max(value.length - visible, 1))
+
+// Keeps the first character of each word, e.g. 山田 太郎 → 山＊ 太＊
+const maskName = (value: string) =>
+  value
+    .split(/(\s+)/)
+    .map(part => (/\s/.test(part) || !part ? part : maskAfter(part, 1)))
+    .join('')
+
+const maskEmail = (value: string) => {
+  const at = value.indexOf('@')
+  if (at < 0) return maskAfter(value, 1)
+  return `${maskAfter(value.slice(0, at), 1)}${value.slice(at)}`
+}
+
+// Keeps the last four characters matching `pattern` and everything else, e.g.
+// 090-1234-5678 → ＊＊＊-＊＊＊＊-5678
+const maskAllButLast4 = (value: string, pattern: RegExp) => {
+  const total = value.match(pattern)?.length || 0
+  let seen = 0
+  return value.replace(pattern, char => (++seen > total - 4 ? char : MASK))
+}
+
+// Keeps the prefecture and municipality, e.g. 東京都渋谷区神南1-2-3 → 東京都渋谷区＊＊＊
+const maskAddress = (value: string) => {
+  const region = value.match(/^(.+?[都道府県])?(.+?[市区町村])?/)
+  const kept = region?.[0] || ''
+  return kept ? `${kept}${MASK.repeat(3)}` : maskAfter(value, 2)
+}
+
+export const maskPii = (kind: PiiKind, value: string | null | undefined) => {
+  if (!value) return ''
+  switch (kind) {
+    case 'name':
+    case 'furigana':
+      return maskName(value)
+    case 'email':
+      return maskEmail(value)
+    case 'phone':
+      return maskAllButLast4(value, /\d/g)
+    case 'identificationNumber':
+      // Passport and residence card numbers start with letters, which identify as much as digits
+      return maskAllButLast4(value, /[0-9A-Za-z]/g)
+    case 'address':
+      return maskAddress(value)
+    case 'birthDate':
+      // The year is enough for age bands
+      return `${value.slice(0, 4)}-${MASK}${MASK}-${MASK}${MASK}`
+  }
+}
+
+// Replaces known personal values inside free text, such as a customer name in a task name
+export const redactPii = (text: string, values: { kind: PiiKind; value?: string | null }[]) =>
+  values.reduce(
+    (result, { kind, value }) => (value ? result.split(value).join(maskPii(kind, value)) : result),
+    text
+  )
+
+// Masks customer values inside stored JSON, such as a task's input and output, by the key they
+// sit under. Sealed values stay hidden whatever their key.
+export const maskPiiValues = (value: unknown, key = ''): unknown => {
+  if (typeof value === 'string') {
+    if (isEncrypted(value)) return SEALED_MASK
+    return CUSTOMER_PII_FIELDS[key] ? maskPii(CUSTOMER_PII_FIELDS[key], value) : value
+  }
+  if (Array.isArray(value)) return value.map(item => maskPiiValues(item, key))
+  if (!value || typeof value !== 'object') return value
+  return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, maskPiiValues(item, name)]))
+}
@@ -0,0 +1,305 @@
+import { blink } from '../blink/client'
+import type { Customer } from '../types/customer'
+
+export interface PlanOption {
+  id: string
+  name: { ja: string; en: string }
+  monthlyPrice: number
+}
+
+export type EligibilityRule =
+  // Residence card holders must have at least this many months of stay left
+  | { type: 'residenceMinMonths'; months: number }
+  | { type: 'minAge'; age: number }
+  | { type: 'identificationTypes'; allowed: string[] }
+
+export interface Plan {
+  id: string
+  name: { ja: string; en: string }
+  description: { ja: string; en: string }
+  monthlyPrice: number
+  // -1 means unlimited
+  dataAllowanceGb: number
+  // 0 means no fixed term
+  contractTermMonths: number
+  // Discount per line when the customer joins with family members
+  familyDiscount: number
+  maxFamilyLines: number
+  options: PlanOption[]
+  eligibilityRules: EligibilityRule[]
+  isActive: boolean
+  sortOrder: number
+}
+
+// Flat shape stored in blink.db.plans; nested values are JSON strings
+interface PlanRow {
+  id: string
+  userId: string
+  nameJa: string
+  nameEn: string
+  descriptionJa: string
+  descriptionEn: string
+  monthlyPrice: number
+  dataAllowanceGb: number
+  contractTermMonths: number
+  familyDiscount: number
+  maxFamilyLines: number
+  options: string
+  eligibilityRules: string
+  isActive: number | string | boolean
+  sortOrder: number
+}
+
+export interface EligibilityResult {
+  eligible: boolean
+  reasons: { ja: string; en: string }[]
+}
+
+export interface PlanPricing {
+  basePrice: number
+  optionsPrice: number
+  familyDiscount: number
+  monthlyTotal: number
+}
+
+export const DEFAULT_PLANS: Plan[] = [
+  {
+    id: 'plan_lite_3gb',
+    name: { ja: 'ライト 3GB', en: 'Lite 3GB' },
+    description: { ja: '通話中心の方向けの低価格プラン', en: 'Low-cost plan for mostly voice users' },
+    monthlyPrice: 990,
+    dataAllowanceGb: 3,
+    contractTermMonths: 0,
+    familyDiscount: 0,
+    maxFamilyLines: 1,
+    options: [
+      { id: 'voice_5min', name: { ja: '5分かけ放題', en: '5-min free calls' }, monthlyPrice: 550 }
+    ],
+    eligibilityRules: [],
+    isActive: true,
+    sortOrder: 1
+  },
+  {
+    id: 'plan_standard_20gb',
+    name: { ja: 'スタンダード 20GB', en: 'Standard 20GB' },
+    description: { ja: '動画やSNSをよく使う方向け', en: 'For regular video and social media use' },
+    monthlyPrice: 2970,
+    dataAllowanceGb: 20,
+    contractTermMonths: 12,
+    familyDiscount: 330,
+    maxFamilyLines: 5,
+    options: [
+      { id: 'voice_5min', name: { ja: '5分かけ放題', en: '5-min free calls' }, monthlyPrice: 550 },
+      { id: 'device_care', name: { ja: '端末補償', en: 'Device care' }, monthlyPrice: 770 }
+    ],
+    eligibilityRules: [{ type: 'residenceMinMonths', months: 12 }],
+    isActive: true,
+    sortOrder: 2
+  },
+  {
+    id: 'plan_unlimited',
+    name: { ja: '使い放題', en: 'Unlimited' },
+    description: { ja: 'データ容量無制限', en: 'Unlimited data' },
+    monthlyPrice: 6580,
+    dataAllowanceGb: -1,
+    contractTermMonths: 24,
+    familyDiscount: 550,
+    maxFamilyLines: 5,
+    options: [
+      { id: 'voice_unlimited', name: { ja: '通話かけ放題', en: 'Unlimited calls' }, monthlyPrice: 1650 },
+      { id: 'device_care', name: { ja: '端末補償', en: 'Device care' }, monthlyPrice: 770 }
+    ],
+    eligibilityRules: [
+      { type: 'minAge', age: 18 },
+      { type: 'residenceMinMonths', months: 24 }
+    ],
+    isActive: true,
+    sortOrder: 3
+  }
+]
+
+export const formatDataAllowance = (plan: Plan, language: 'ja' | 'en') =>
+  plan.dataAllowanceGb < 0
+    ? (language === 'ja' ? '無制限' : 'Unlimited')
+    : `${plan.dataAllowanceGb}GB`
+
+export const formatPrice = (amount: number) => `¥${amount.toLocaleString('ja-JP')}`
+
+const plansTable = () => blink.db.table<PlanRow>('plans')
+
+const parseJson = <T>(value: string | undefined, fallback: T): T => {
+  try {
+    return value ? JSON.parse(value) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+const toPlan = (row: PlanRow): Plan => ({
+  id: row.id,
+  name: { ja: row.nameJa, en: row.nameEn },
+  description: { ja: row.descriptionJa || '', en: row.descriptionEn || '' },
+  monthlyPrice: Number(row.monthlyPrice),
+  dataAllowanceGb: Number(row.dataAllowanceGb),
+  contractTermMonths: Number(row.contractTermMonths),
+  familyDiscount: Number(row.familyDiscount) || 0,
+  maxFamilyLines: Number(row.maxFamilyLines) || 1,
+  options: parseJson(row.options, []),
+  eligibilityRules: parseJson(row.eligibilityRules, []),
+  isActive: row.isActive === true || Number(row.isActive) > 0 || row.isActive === 'true',
+  sortOrder: Number(row.sortOrder) || 0
+})
+
+const toPlanRow = (plan: Plan, userId: string): PlanRow => ({
+  id: plan.id,
+  userId,
+  nameJa: plan.name.ja,
+  nameEn: plan.name.en,
+  descriptionJa: plan.description.ja,
+  descriptionEn: plan.description.en,
+  monthlyPrice: plan.monthlyPrice,
+  dataAllowanceGb: plan.dataAllowanceGb,
+  contractTermMonths: plan.contractTermMonths,
+  familyDiscount: plan.familyDiscount,
+  maxFamilyLines: plan.maxFamilyLines,
+  options: JSON.stringify(plan.options),
+  eligibilityRules: JSON.stringify(plan.eligibilityRules),
+  isActive: plan.isActive ? 1 : 0,
+  sortOrder: plan.sortOrder
+})
+
+// Several screens load the catalog at once; they share one seeding write. DEFAULT_PLANS have
+// fixed ids, so an upsert from another tab seeding at the same time writes the same rows.
+let seeding: Promise<PlanRow[]> | null = null
+
+const seedDefaultPlans = () => {
+  seeding ??= (async () => {
+    const user = await blink.auth.me()
+    return plansTable().upsertMany(DEFAULT_PLANS.map(plan => toPlanRow(plan, user.id)))
+  })().finally(() => {
+    seeding = null
+  })
+  return seeding
+}
+
+// Returns the catalog, seeding it with DEFAULT_PLANS the first time it is used
+export const listPlans = async (options: { includeInactive?: boolean } = {}): Promise<Plan[]> => {
+  let rows = await plansTable().list({ orderBy: { sortOrder: 'asc' } })
+
+  if (rows.length === 0) {
+    rows = await seedDefaultPlans()
+  }
+
+  const plans = rows.map(toPlan)
+  return options.includeInactive ? plans : plans.filter(plan => plan.isActive)
+}
+
+export const getPlan = async (planId: string): Promise<Plan | null> => {
+  if (!planId) return null
+  const row = await plansTable().get(planId)
+  return row ? toPlan(row) : null
+}
+
+export const savePlan = async (plan: Plan) => {
+  const user = await blink.auth.me()
+  const row = toPlanRow(plan, user.id)
+  const existing = await plansTable().get(plan.id)
+  if (existing) {
+    await plansTable().update(plan.id, row)
+  } else {
+    await plansTable().create(row)
+  }
+  return plan
+}
+
+export const createPlanId = () => `plan_${Date.now()}`
+
+const monthsUntil = (date: string) => {
+  const target = new Date(date)
+  const now = new Date()
+  return (target.getFullYear() - now.getFullYear()) * 12 + (target.getMonth() - now.getMonth())
+}
+
+const ageOn = (birthDate: string, today = new Date()) => {
+  const birth = new Date(birthDate)
+  let age = today.getFullYear() - birth.getFullYear()
+  const beforeBirthday = today.getMonth() < birth.getMonth() ||
+    (today.getMonth() === birth.getMonth() && today.getDate() < birth.getDate())
+  if (beforeBirthday) age--
+  return age
+}
+
+export const checkEligibility = (plan: Plan, customer: Partial<Customer>): EligibilityResult => {
+  const reasons: EligibilityResult['reasons'] = []
+
+  plan.eligibilityRules.forEach(rule => {
+    switch (rule.type) {
+      case 'residenceMinMonths':
+        if (customer.identificationType !== 'residence_card') break
+        if (!customer.residenceCardExpiry) {
+          reasons.push({ ja: '在留期限が登録されていません', en: 'Residence card expiry date is missing' })
+        } else if (monthsUntil(customer.residenceCardExpiry) < rule.months) {
+          reasons.push({
+            ja: `在留期間が残り${rule.months}ヶ月以上必要です`,
+            en: `At least ${rule.months} months of remaining stay are required`
+          })
+        }
+        break
+      case 'minAge':
+        if (!customer.birthDate) {
+          reasons.push({ ja: '生年月日が登録されていません', en: 'Date of birth is missing' })
+        } else if (ageOn(customer.birthDate) < rule.age) {
+          reasons.push({ ja: `${rule.age}歳以上が対象です`, en: `Customer must be ${rule.age} or older` })
+        }
+        break
+      case 'identificationTypes':
+        if (!customer.identificationType || !rule.allowed.includes(customer.identificationType)) {
+          reasons.push({ ja: 'この身分証明書では契約できません', en: 'This identification type is not accepted' })
+        }
+        break
+    }
+  })
+
+  return { eligible: reasons.length === 0, reasons }
+}
+
+export const calculatePricing = (
+  plan: Plan,
+  { familyLines = 1, optionIds = [] }: { familyLines?: number; optionIds?: string[] } = {}
+): PlanPricing => {
+  const optionsPrice = plan.options
+    .filter(option => optionIds.includes(option.id))
+    .reduce((sum, option) => sum + option.monthlyPrice, 0)
+  const lines = Math.min(Math.max(familyLines, 1), plan.maxFamilyLines)
+  const familyDiscount = lines > 1 ? plan.familyDiscount : 0
+  return {
+    basePrice: plan.monthlyPrice,
+    optionsPrice,
+    familyDiscount,
+    monthlyTotal: Math.max(0, plan.monthlyPrice + optionsPrice - familyDiscount)
+  }
+}
+
+export const describeEligibilityRule = (rule: EligibilityRule, language: 'ja' | 'en') => {
+  switch (rule.type) {
+    case 'residenceMinMonths':
+      return language === 'ja'
+        ? `在留カードの場合、在留期間残り${rule.months}ヶ月以上`
+        : `Residence card holders need ${rule.months}+ months of stay left`
+    case 'minAge':
+      return language === 'ja' ? `${rule.age}歳以上` : `Age ${rule.age}+`
+    case 'identificationTypes':
+      return language === 'ja' ? `対象身分証: ${rule.allowed.join(', ')}` : `Accepted IDs: ${rule.allowed.join(', ')}`
+  }
+}
+
+// Plain-text catalog for AI prompts so recommendations only use real plans
+export const describePlansForPrompt = (plans: Plan[], language: 'ja' | 'en' = 'en') =>
+  plans
+    .map(plan => {
+      const rules = plan.eligibilityRules.map(rule => describeEligibilityRule(rule, language)).join('; ')
+      return `- ${plan.name[language]} [${plan.id}]: ${formatPrice(plan.monthlyPrice)}/month, ${formatDataAllowance(plan, language)}, ` +
+        `term ${plan.contractTermMonths || 0} months, family discount ${formatPrice(plan.familyDiscount)}/line` +
+        (rules ? `, eligibility: ${rules}` : '')
+    })
+    .join('\n')
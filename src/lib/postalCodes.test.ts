@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { hasPostalData, lookupPostalCode } from './postalCodes'
+
+describe('lookupPostalCode', () => {
+  it('finds the area of a code in any written form', async () => {
+    const area = [{ postalCode: '150-0002', prefecture: '東京都', municipality: '渋谷区', town: '渋谷' }]
+    expect(hasPostalData()).toBe(true)
+    await expect(lookupPostalCode('150-0002')).resolves.toEqual(area)
+    await expect(lookupPostalCode('〒１５００００２')).resolves.toEqual(area)
+  })
+
+  it('returns every town a shared code covers', async () => {
+    const areas = await lookupPostalCode('410-0867')
+    expect(areas.length).toBeGreaterThan(1)
+    expect(areas.every(area => area.prefecture === '静岡県' && area.municipality === '沼津市')).toBe(true)
+  })
+
+  it('returns nothing for an unknown or incomplete code', async () => {
+    await expect(lookupPostalCode('150-9999')).resolves.toEqual([])
+    await expect(lookupPostalCode('999-0000')).resolves.toEqual([])
+    await expect(lookupPostalCode('150-000')).resolves.toEqual([])
+  })
+})
@@ -0,0 +1,44 @@
+import { normalizePostalCode } from './address'
+
+// One area a postal code covers. Most codes cover one; some cover several towns, and a few
+// large buildings and offices have a code of their own.
+export interface PostalArea {
+  postalCode: string
+  prefecture: string
+  municipality: string
+  town: string
+}
+
+// Japan Post's KEN_ALL, converted by scripts/build-postal-codes.mjs into one file per first three
+// digits: { "0002": [["東京都", "渋谷区", "渋谷"]] }. Files load on first use, so the dataset only
+// costs a request for the areas operators actually type.
+type PostalFile = Record<string, [string, string, string][]>
+
+const POSTAL_FILES = import.meta.glob<PostalFile>('../data/postal/*.json', { import: 'default' })
+
+const loaded = new Map<string, Promise<PostalFile>>()
+
+const loadPostalFile = (prefix: string) => {
+  const load = POSTAL_FILES[`../data/postal/${prefix}.json`]
+  if (!load) return Promise.resolve<PostalFile>({})
+  if (!loaded.has(prefix)) {
+    // A failed load is retried on the next lookup rather than cached
+    loaded.set(prefix, load().catch(error => {
+      loaded.delete(prefix)
+      throw error
+    }))
+  }
+  return loaded.get(prefix)!
+}
+
+// False when the dataset has not been generated, so the form can say why nothing fills in
+export const hasPostalData = () => Object.keys(POSTAL_FILES).length > 0
+
+// Areas for a seven-digit postal code; empty when the code is unknown or incomplete
+export const lookupPostalCode = async (value: string): Promise<PostalArea[]> => {
+  const digits = normalizePostalCode(value)
+  if (digits.length !== 7) return []
+  const file = await loadPostalFile(digits.slice(0, 3))
+  const postalCode = `${digits.slice(0, 3)}-${digits.slice(3)}`
+  return (file[digits.slice(3)] || []).map(([prefecture, municipality, town]) => ({ postalCode, prefecture, municipality, town }))
+}
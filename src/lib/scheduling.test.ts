@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../blink/client', () => ({ blink: {} }))
+
+const { getRenewalDate, isWithinSendWindow, nextSendTime, planFollowUps, previousSendTime } = await import('./scheduling')
+
+// Japan wall-clock time as an instant
+const jst = (local: string) => new Date(`${local}+09:00`)
+
+describe('nextSendTime', () => {
+  it.each([
+    ['keeps a time inside the window', '2026-10-20T10:15:00', '2026-10-20T10:15:00'],
+    ['waits for the window to open on a send day', '2026-10-20T07:30:00', '2026-10-20T09:00:00'],
+    ['skips the weekend after closing time', '2026-10-16T19:00:00', '2026-10-19T09:00:00'],
+    ['skips a run of holidays', '2026-09-19T12:00:00', '2026-09-24T09:00:00'],
+    ['skips the year-end closure', '2026-12-28T18:30:00', '2027-01-04T09:00:00']
+  ])('%s', (_, from, expected) => {
+    expect(nextSendTime(jst(from))).toEqual(jst(expected))
+  })
+})
+
+describe('previousSendTime', () => {
+  it.each([
+    ['keeps a time inside the window', '2026-10-20T10:15:00', '2026-10-20T10:15:00'],
+    ['moves back into the window after closing time', '2026-10-16T20:00:00', '2026-10-16T17:00:00'],
+    ['moves back over the weekend before opening time', '2026-10-19T08:00:00', '2026-10-16T17:00:00'],
+    ['moves back over a run of holidays', '2026-09-24T08:00:00', '2026-09-18T17:00:00'],
+    ['moves back over the year-end closure', '2027-01-03T12:00:00', '2026-12-28T17:00:00']
+  ])('%s', (_, from, expected) => {
+    expect(previousSendTime(jst(from))).toEqual(jst(expected))
+  })
+})
+
+describe('isWithinSendWindow', () => {
+  it('reads the hours in Japan time', () => {
+    // 00:30 UTC is 09:30 in Tokyo
+    expect(isWithinSendWindow(new Date('2026-10-20T00:30:00Z'))).toBe(true)
+    expect(isWithinSendWindow(new Date('2026-10-20T09:30:00Z'))).toBe(false)
+  })
+})
+
+describe('getRenewalDate', () => {
+  it.each([
+    ['a plain month', '2026-04-15T10:00:00', 1, '2026-05-15T10:00:00'],
+    ['the end of January into February', '2026-01-31T10:00:00', 1, '2026-02-28T10:00:00'],
+    ['into a leap February', '2028-01-31T10:00:00', 1, '2028-02-29T10:00:00'],
+    ['half a year from the end of August', '2026-08-31T10:00:00', 6, '2027-02-28T10:00:00'],
+    ['the end of the month in Japan time', '2026-03-31T00:30:00', 1, '2026-04-30T00:30:00']
+  ])('clamps %s', (_, signedAt, months, expected) => {
+    expect(getRenewalDate(jst(signedAt).toISOString(), months)).toEqual(jst(expected))
+  })
+
+  it('has no renewal without a fixed term', () => {
+    expect(getRenewalDate('2026-01-31T01:00:00.000Z', 0)).toBeNull()
+  })
+})
+
+describe('planFollowUps', () => {
+  it('sends the renewal notice before the clamped renewal date', () => {
+    const rule = { id: 'renewal_30d', trigger: 'contractRenewal' as const, offsetDays: 30, templateKey: 'renewal_reminder', name: { ja: '', en: '' } }
+    const [planned] = planFollowUps(
+      { signedAt: jst('2026-08-31T10:00:00').toISOString(), contractTermMonths: 6 },
+      [rule],
+      undefined,
+      jst('2026-09-01T00:00:00')
+    )
+    expect(planned.eventDate).toEqual(jst('2027-02-28T10:00:00'))
+    expect(planned.scheduledFor).toEqual(jst('2027-01-29T10:00:00'))
+  })
+
+  it('skips rules whose time has passed', () => {
+    expect(planFollowUps(
+      { signedAt: jst('2026-01-05T10:00:00').toISOString(), contractTermMonths: 0 },
+      undefined,
+      undefined,
+      jst('2026-10-19T10:00:00')
+    )).toEqual([])
+  })
+})
@@ -0,0 +1,313 @@
+import { blink } from '../blink/client'
+import { enqueueAgentTask } from './agents/queue'
+import { isJapaneseHoliday } from './holidays'
+
+// When outbound messages may go out. Hours are Japan time (JST, UTC+9).
+export interface SendWindow {
+  startHour: number
+  endHour: number
+  // 0 = Sunday
+  days: number[]
+  skipHolidays: boolean
+  // Most businesses close 12/29–1/3 (年末年始)
+  skipYearEnd: boolean
+}
+
+export const DEFAULT_SEND_WINDOW: SendWindow = {
+  startHour: 9,
+  endHour: 18,
+  days: [1, 2, 3, 4, 5],
+  skipHolidays: true,
+  skipYearEnd: true
+}
+
+export type FollowUpTrigger = 'contractSigned' | 'contractRenewal'
+
+export interface FollowUpRule {
+  id: string
+  trigger: FollowUpTrigger
+  // Days after signing, or days before the renewal date
+  offsetDays: number
+  templateKey: string
+  name: { ja: string; en: string }
+}
+
+export const DEFAULT_FOLLOW_UP_RULES: FollowUpRule[] = [
+  {
+    id: 'signed_3d',
+    trigger: 'contractSigned',
+    offsetDays: 3,
+    templateKey: 'contract_followup',
+    name: { ja: '契約3日後フォロー', en: 'Follow-up 3 days after signing' }
+  },
+  {
+    id: 'signed_30d',
+    trigger: 'contractSigned',
+    offsetDays: 30,
+    templateKey: 'followup_sms',
+    name: { ja: '契約30日後SMS', en: 'SMS 30 days after signing' }
+  },
+  {
+    id: 'renewal_30d',
+    trigger: 'contractRenewal',
+    offsetDays: 30,
+    templateKey: 'renewal_reminder',
+    name: { ja: '更新30日前のご案内', en: 'Renewal notice 30 days before' }
+  }
+]
+
+export type ScheduledFollowUpStatus = 'scheduled' | 'releasing' | 'released' | 'cancelled'
+
+export interface ScheduledFollowUp {
+  id: string
+  userId: string
+  customerId: string
+  ruleId: string
+  trigger: FollowUpTrigger
+  templateKey: string
+  // The signing or renewal date the send is relative to
+  eventDate: string
+  scheduledFor: string
+  status: ScheduledFollowUpStatus
+  // Template variables, JSON
+  variables: string
+  language: 'ja' | 'en'
+  keigoMode: 'formal' | 'casual'
+  taskId: string
+  claimedBy: string
+  createdAt: string
+}
+
+export interface ContractEvent {
+  userId: string
+  customerId: string
+  signedAt: string
+  // 0 means no fixed term, so no renewal follow-ups
+  contractTermMonths: number
+  variables: Record<string, string | number>
+  language: 'ja' | 'en'
+  keigoMode: 'formal' | 'casual'
+}
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Shifted so the UTC getters read Japan wall-clock time
+const toJst = (date: Date) => new Date(date.getTime() + JST_OFFSET_MS)
+
+const fromJst = (jst: Date, hour: number) =>
+  new Date(Date.UTC(jst.getUTCFullYear(), jst.getUTCMonth(), jst.getUTCDate(), hour) - JST_OFFSET_MS)
+
+const isYearEnd = (jst: Date) => {
+  const month = jst.getUTCMonth() + 1
+  const day = jst.getUTCDate()
+  return (month === 12 && day >= 29) || (month === 1 && day <= 3)
+}
+
+const isSendDay = (jst: Date, window: SendWindow) =>
+  window.days.includes(jst.getUTCDay()) &&
+  !(window.skipHolidays && isJapaneseHoliday(jst.toISOString().slice(0, 10))) &&
+  !(window.skipYearEnd && isYearEnd(jst))
+
+export const isWithinSendWindow = (date: Date, window: SendWindow = DEFAULT_SEND_WINDOW) => {
+  const jst = toJst(date)
+  const hour = jst.getUTCHours()
+  return isSendDay(jst, window) && hour >= window.startHour && hour < window.endHour
+}
+
+// Earliest allowed time at or after `date`
+export const nextSendTime = (date: Date, window: SendWindow = DEFAULT_SEND_WINDOW): Date => {
+  if (isWithinSendWindow(date, window)) return date
+
+  let jst = toJst(date)
+  if (isSendDay(jst, window) && jst.getUTCHours() < window.startHour) {
+    return fromJst(jst, window.startHour)
+  }
+  // A year covers every holiday run; a window with no days at all falls through
+  for (let i = 0; i < 366; i++) {
+    jst = new Date(jst.getTime() + DAY_MS)
+    if (isSendDay(jst, window)) return fromJst(jst, window.startHour)
+  }
+  return date
+}
+
+// Latest allowed time at or before `date`, for sends that must arrive before an event
+export const previousSendTime = (date: Date, window: SendWindow = DEFAULT_SEND_WINDOW): Date => {
+  if (isWithinSendWindow(date, window)) return date
+
+  let jst = toJst(date)
+  if (isSendDay(jst, window) && jst.getUTCHours() >= window.endHour) {
+    return fromJst(jst, window.endHour - 1)
+  }
+  for (let i = 0; i < 366; i++) {
+    jst = new Date(jst.getTime() - DAY_MS)
+    if (isSendDay(jst, window)) return fromJst(jst, window.endHour - 1)
+  }
+  return date
+}
+
+// Calendar months in Japan time, clamped to the end of a shorter month: a contract signed on
+// Jan 31 renews on the last day of February, not in early March
+const addMonths = (date: Date, months: number) => {
+  const jst = toJst(date)
+  const target = new Date(jst)
+  target.setUTCDate(1)
+  target.setUTCMonth(target.getUTCMonth() + months)
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+  target.setUTCDate(Math.min(jst.getUTCDate(), lastDay))
+  return new Date(target.getTime() - JST_OFFSET_MS)
+}
+
+export const getRenewalDate = (signedAt: string, contractTermMonths: number) =>
+  contractTermMonths > 0 ? addMonths(new Date(signedAt), contractTermMonths) : null
+
+// Works out when each rule fires for a contract; rules whose time has already passed are skipped
+export const planFollowUps = (
+  event: Pick<ContractEvent, 'signedAt' | 'contractTermMonths'>,
+  rules: FollowUpRule[] = DEFAULT_FOLLOW_UP_RULES,
+  window: SendWindow = DEFAULT_SEND_WINDOW,
+  now = new Date()
+) => {
+  const signedAt = new Date(event.signedAt)
+  const renewalDate = getRenewalDate(event.signedAt, event.contractTermMonths)
+
+  return rules.flatMap(rule => {
+    if (rule.trigger === 'contractSigned') {
+      const scheduledFor = nextSendTime(new Date(signedAt.getTime() + rule.offsetDays * DAY_MS), window)
+      return scheduledFor > now ? [{ rule, eventDate: signedAt, scheduledFor }] : []
+    }
+    if (!renewalDate) return []
+    const scheduledFor = previousSendTime(new Date(renewalDate.getTime() - rule.offsetDays * DAY_MS), window)
+    return scheduledFor > now ? [{ rule, eventDate: renewalDate, scheduledFor }] : []
+  })
+}
+
+const scheduleTable = () => blink.db.table<ScheduledFollowUp>('scheduledFollowUps')
+
+export const scheduleContractFollowUps = async (
+  event: ContractEvent,
+  rules: FollowUpRule[] = DEFAULT_FOLLOW_UP_RULES,
+  window: SendWindow = DEFAULT_SEND_WINDOW
+) => {
+  const renewalDate = getRenewalDate(event.signedAt, event.contractTermMonths)
+  const variables = {
+    ...event.variables,
+    renewalDate: renewalDate ? toJst(renewalDate).toISOString().slice(0, 10) : ''
+  }
+  const createdAt = new Date().toISOString()
+
+  const rows: ScheduledFollowUp[] = planFollowUps(event, rules, window).map(({ rule, eventDate, scheduledFor }) => ({
+    // Contracts for the same customer can be scheduled in the same millisecond
+    id: `followup_${event.customerId}_${rule.id}_${crypto.randomUUID()}`,
+    userId: event.userId,
+    customerId: event.customerId,
+    ruleId: rule.id,
+    trigger: rule.trigger,
+    templateKey: rule.templateKey,
+    eventDate: eventDate.toISOString(),
+    scheduledFor: scheduledFor.toISOString(),
+    status: 'scheduled',
+    variables: JSON.stringify(variables),
+    language: event.language,
+    keigoMode: event.keigoMode,
+    taskId: '',
+    claimedBy: '',
+    createdAt
+  }))
+
+  if (rows.length > 0) {
+    await scheduleTable().createMany(rows)
+  }
+  return rows
+}
+
+export const listUpcomingFollowUps = async (userId: string, limit = 50) =>
+  scheduleTable().list({
+    where: { userId, status: 'scheduled' },
+    orderBy: { scheduledFor: 'asc' },
+    limit
+  })
+
+export const moveCustomerFollowUps = async (userId: string, fromId: string, toId: string) => {
+  const rows = await scheduleTable().list({ where: { userId, customerId: fromId } })
+  if (rows.length > 0) await scheduleTable().updateMany(rows.map(row => ({ id: row.id, customerId: toId })))
+  return rows.length
+}
+
+// Conditional like claimFollowUp, so a cancel never lands on a follow-up another dashboard is
+// already sending. False when it was too late to cancel.
+export const cancelFollowUp = async (id: string, userId: string) => {
+  const result = await blink.db.sql(
+    `UPDATE scheduled_follow_ups SET status = 'cancelled'
+      WHERE id = ? AND user_id = ? AND status = 'scheduled'`,
+    [id, userId]
+  )
+  return result.rowCount === 1
+}
+
+// One conditional write, so of two open dashboards only one moves the row on and sends it.
+// Columns are snake_case in SQL.
+const claimFollowUp = async (id: string, userId: string, claimedBy: string) => {
+  const result = await blink.db.sql(
+    `UPDATE scheduled_follow_ups SET status = 'releasing', claimed_by = ?
+      WHERE id = ? AND user_id = ? AND status = 'scheduled'`,
+    [claimedBy, id, userId]
+  )
+  return result.rowCount === 1
+}
+
+const parseVariables = (value: string) => {
+  try {
+    return value ? JSON.parse(value) : {}
+  } catch {
+    return {}
+  }
+}
+
+// Turns due follow-ups into FollowUpAgent tasks. Sends that became due outside the
+// window (e.g. nobody had the dashboard open over a holiday) are pushed to the next slot.
+export const releaseDueFollowUps = async (userId: string, window: SendWindow = DEFAULT_SEND_WINDOW) => {
+  const now = new Date()
+  const due = await scheduleTable().list({
+    where: { userId, status: 'scheduled', scheduledFor: { lte: now.toISOString() } },
+    orderBy: { scheduledFor: 'asc' }
+  })
+  const released: string[] = []
+
+  for (const followUp of due) {
+    if (!isWithinSendWindow(now, window)) {
+      await scheduleTable().update(followUp.id, { scheduledFor: nextSendTime(now, window).toISOString() })
+      continue
+    }
+
+    const claimToken = `release_${crypto.randomUUID()}`
+    if (!(await claimFollowUp(followUp.id, userId, claimToken))) continue
+
+    let taskId: string
+    try {
+      taskId = await enqueueAgentTask({
+        userId,
+        agentId: 'followup',
+        taskName: `${followUp.templateKey} (${followUp.ruleId})`,
+        input: {
+          customerId: followUp.customerId,
+          templateKey: followUp.templateKey,
+          variables: parseVariables(followUp.variables),
+          scheduledFollowUpId: followUp.id
+        },
+        language: followUp.language,
+        keigoMode: followUp.keigoMode,
+        actor: 'scheduler'
+      })
+    } catch (error) {
+      // Back in the queue for the next release, rather than held by a claim nobody finishes
+      console.error(`Failed to release follow-up ${followUp.id}:`, error)
+      await scheduleTable().update(followUp.id, { status: 'scheduled', claimedBy: '' })
+      continue
+    }
+    await scheduleTable().update(followUp.id, { status: 'released', taskId })
+    released.push(taskId)
+  }
+
+  return released
+}
@@ -0,0 +1,69 @@
+import { escapeLike } from './sqlQuery'
+
+// Hiragana readings are folded into katakana, the usual フリガナ convention
+export const toKatakana = (value: string) =>
+  value.normalize('NFKC').replace(/[ぁ-ゖ]/g, char => String.fromCharCode(char.charCodeAt(0) + 0x60))
+
+// Search keys are stored next to the row and compared with `like`, so both sides are
+// folded the same way: NFKC turns half-width kana and full-width letters into their
+// usual forms, and hiragana is folded into katakana so either spelling of a reading matches.
+export const normalizeSearchText = (value: string) =>
+  toKatakana(value)
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+
+// Joins the searchable values of a row into one stored key
+export const buildSearchText = (values: (string | undefined | null)[]) =>
+  normalizeSearchText(values.filter(Boolean).join(' '))
+
+// Every word of the query has to match one of the columns; `%`, `_` and `\` in a word match
+// themselves. The filter nests OR under AND, so it is read through listRows or countRows in
+// ./sqlQuery rather than table().list.
+export const buildSearchWhere = (query: string, columns: string[]) => {
+  const terms = normalizeSearchText(query).split(' ').filter(Boolean)
+  if (terms.length === 0) return null
+  return {
+    AND: terms.map(term => ({
+      OR: columns.map(column => ({ [column]: { like: `%${escapeLike(term)}%` } }))
+    }))
+  }
+}
+
+const SMALL_KANA = 'ァィゥェォッャュョヮヵヶ'
+const FULL_KANA = 'アイウエオツヤユヨワカケ'
+
+// Sort key for あいうえお order. Voiced and small kana first sort as their plain form, and the
+// full reading after a space breaks ties, the way dictionaries put カトウ before ガトウ.
+export const toReadingKey = (value: string) => {
+  const reading = toKatakana(value).replace(/[\s・]/g, '')
+  const base = reading
+    .normalize('NFD')
+    .replace(/[\u3099\u309Aー]/g, '')
+    .replace(/[ァィゥェォッャュョヮヵヶ]/g, char => FULL_KANA[SMALL_KANA.indexOf(char)])
+  return `${base} ${reading}`
+}
+
+const toBigrams = (value: string) => {
+  const text = normalizeSearchText(value).replace(/ /g, '')
+  if (text.length < 2) return text ? [text] : []
+  return Array.from({ length: text.length - 1 }, (_, index) => text.slice(index, index + 2))
+}
+
+// Dice coefficient over character pairs: 1 for the same text, near 0 for unrelated text.
+// Folded like search keys, so 田中 太郎 and 田中太郎 count as the same.
+export const textSimilarity = (a: string, b: string) => {
+  const left = toBigrams(a)
+  const right = toBigrams(b)
+  if (left.length === 0 || right.length === 0) return 0
+  const remaining = [...right]
+  let shared = 0
+  for (const pair of left) {
+    const index = remaining.indexOf(pair)
+    if (index >= 0) {
+      shared += 1
+      remaining.splice(index, 1)
+    }
+  }
+  return (2 * shared) / (left.length + right.length)
+}
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const sql = vi.fn()
+const list = vi.fn()
+vi.mock('../blink/client', () => ({
+  blink: {
+    db: {
+      sql: (...args: unknown[]) => sql(...args),
+      table: () => ({ list: (...args: unknown[]) => list(...args) })
+    }
+  }
+}))
+
+const { buildWhereSql, countRows, escapeLike, listRows } = await import('./sqlQuery')
+const { countTasks, listTasks, listTasksCreatedBetween, moveCustomerTasks } = await import('./tasks')
+const { findDuplicateCustomers, getCustomersByIds, listCustomersCreatedBetween } = await import('./customers')
+
+beforeEach(() => {
+  sql.mockReset()
+  sql.mockResolvedValue({ rows: [], columns: [], rowCount: 0, executionTime: 0 })
+  list.mockReset()
+  list.mockResolvedValue([])
+})
+
+describe('buildWhereSql', () => {
+  it('keeps every condition of a nested AND/OR filter', () => {
+    expect(buildWhereSql({
+      AND: [
+        { userId: 'user_1' },
+        { OR: [{ searchText: { like: '%a%' } }, { lastActionSearch: { like: '%a%' } }] }
+      ]
+    })).toEqual({
+      sql: "(user_id = ?) AND ((search_text LIKE ? ESCAPE '\\') OR (last_action_search LIKE ? ESCAPE '\\'))",
+      params: ['user_1', '%a%', '%a%']
+    })
+  })
+
+  it('keeps both bounds of a range', () => {
+    expect(buildWhereSql({ createdAt: { gte: '2026-01-01', lt: '2026-02-01' } })).toEqual({
+      sql: '(created_at >= ?) AND (created_at < ?)',
+      params: ['2026-01-01', '2026-02-01']
+    })
+  })
+
+  it('matches nothing for an empty list or an empty OR', () => {
+    expect(buildWhereSql({ status: { in: [] } })?.sql).toBe('0 = 1')
+    expect(buildWhereSql({ OR: [] })?.sql).toBe('0 = 1')
+  })
+
+  it('refuses column names that are not identifiers', () => {
+    expect(() => buildWhereSql({ 'id; DROP TABLE tasks': 'x' })).toThrow('Invalid column name')
+  })
+})
+
+describe('escapeLike', () => {
+  it('makes like wildcards match themselves', () => {
+    expect(escapeLike('task_1%\\')).toBe('task\\_1\\%\\\\')
+  })
+})
+
+describe('listRows and countRows', () => {
+  it('sends the filter, order and paging as bound parameters', async () => {
+    await listRows('tasks', { where: { userId: 'user_1' }, orderBy: { createdAt: 'desc' }, limit: 20, offset: 40 })
+    expect(sql).toHaveBeenCalledWith(
+      'SELECT * FROM tasks WHERE user_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
+      ['user_1', 20, 40]
+    )
+  })
+
+  it('reads the count from the first row', async () => {
+    sql.mockResolvedValue({ rows: [{ total: '7' }], columns: ['total'], rowCount: 1, executionTime: 0 })
+    await expect(countRows('tasks', { userId: 'user_1' })).resolves.toBe(7)
+  })
+})
+
+describe('task queries', () => {
+  it('filter by operator and status together', async () => {
+    await listTasks('user_1', { status: ['pending', 'processing'] })
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toContain('WHERE (user_id = ?) AND (status IN (?, ?))')
+    expect(params).toEqual(['user_1', 'pending', 'processing'])
+  })
+
+  it('count with the operator, status and every search term', async () => {
+    await countTasks('user_1', { status: 'failed', search: 'タナカ sim' })
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toMatch(/^SELECT COUNT\(\*\) AS total FROM tasks WHERE \(user_id = \?\) AND \(status = \?\)/)
+    expect(params).toEqual(['user_1', 'failed', '%タナカ%', '%タナカ%', '%sim%', '%sim%'])
+  })
+
+  it('search for like wildcards and backslashes literally', async () => {
+    await listTasks('user_1', { search: 'taro_y 100% a\\b' })
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toContain("(search_text LIKE ? ESCAPE '\\') OR (last_action_search LIKE ? ESCAPE '\\')")
+    expect(params).toEqual([
+      'user_1',
+      '%taro\\_y%', '%taro\\_y%',
+      '%100\\%%', '%100\\%%',
+      '%a\\\\b%', '%a\\\\b%'
+    ])
+  })
+
+  it('keep the operator and both bounds of a reporting range', async () => {
+    await listTasksCreatedBetween('2026-10-01T00:00:00.000Z', '2026-10-02T00:00:00.000Z', 'user_1')
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toContain('WHERE (user_id = ?) AND (created_at >= ?) AND (created_at < ?)')
+    expect(params.slice(0, 3)).toEqual(['user_1', '2026-10-01T00:00:00.000Z', '2026-10-02T00:00:00.000Z'])
+  })
+
+  it('look up unmigrated tasks of a merged customer with the id escaped', async () => {
+    await moveCustomerTasks('user_1', 'customer_1%', 'customer_2', 'user:user_1')
+    expect(sql).toHaveBeenCalledWith(
+      "SELECT * FROM tasks WHERE (user_id = ?) AND (input_data LIKE ? ESCAPE '\\')",
+      ['user_1', '%"customerId":"customer\\_1\\%"%']
+    )
+    expect(list).toHaveBeenCalledWith({ where: { userId: 'user_1', customerId: 'customer_1%' } })
+  })
+})
+
+describe('customer queries', () => {
+  it('keep the operator and both bounds of a registration range', async () => {
+    await listCustomersCreatedBetween('user_1', '2026-10-01T00:00:00.000Z', '2026-10-02T00:00:00.000Z')
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toContain('FROM customers WHERE (user_id = ?) AND (created_at >= ?) AND (created_at < ?)')
+    expect(params.slice(0, 3)).toEqual(['user_1', '2026-10-01T00:00:00.000Z', '2026-10-02T00:00:00.000Z'])
+  })
+
+  it('look up customers by id as bound parameters, 500 at a time', async () => {
+    const ids = Array.from({ length: 501 }, (_, index) => `customer_${index}`)
+    await getCustomersByIds([...ids, 'customer_0', ''])
+    expect(sql).toHaveBeenCalledTimes(2)
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toMatch(/^SELECT \* FROM customers WHERE id IN \(\?(, \?){499}\)$/)
+    expect(params).toEqual(ids.slice(0, 500))
+    expect(sql.mock.calls[1]).toEqual(['SELECT * FROM customers WHERE id IN (?)', ['customer_500']])
+    expect(list).not.toHaveBeenCalled()
+  })
+
+  it('look for duplicates only among the operator\'s customers', async () => {
+    await findDuplicateCustomers('user_1', { name: '田中 太郎', email: 'Taro@Example.com', address: '東京都渋谷区神南1-2-3' })
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toContain("WHERE (user_id = ?) AND ((email_key = ?) OR (search_text LIKE ? ESCAPE '\\'))")
+    expect(params.slice(0, 3)).toEqual(['user_1', 'taro@example.com', '%田中%'])
+  })
+})
@@ -0,0 +1,122 @@
+import { blink } from '../blink/client'
+
+// Reads that need more than flat equality go through SQL with bound parameters. The SDK's REST
+// query builder splits each filter at its first `=` and keeps one operator per column, so nested
+// AND/OR filters reach the server as `and=(user_id` and a `{ gte, lt }` range keeps only `lt`.
+// Conditions keep the shape table().list takes, with camelCase columns; SQL columns are snake_case.
+
+export type SqlCondition = Record<string, any>
+
+export interface SqlListOptions {
+  where?: SqlCondition | null
+  orderBy?: Record<string, 'asc' | 'desc'>
+  limit?: number
+  offset?: number
+}
+
+interface SqlFragment {
+  sql: string
+  params: unknown[]
+}
+
+const COMPARISONS: Record<string, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<='
+}
+
+// Only names written in code reach here, but they are spliced into the statement, so anything
+// that is not a plain identifier is refused
+const toColumn = (name: string) => {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) throw new Error(`Invalid column name: ${name}`)
+  return name.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`)
+}
+
+// Stored the way the REST client writes them
+const toParam = (value: unknown) => (typeof value === 'boolean' ? (value ? 1 : 0) : value)
+
+// Makes `%`, `_` and `\` match themselves in a `like` pattern; every `like` is sent with ESCAPE '\'
+export const escapeLike = (value: string) => value.replace(/[\\%_]/g, char => `\\${char}`)
+
+const buildOperator = (column: string, operator: string, value: unknown): SqlFragment => {
+  if (operator in COMPARISONS) return { sql: `${column} ${COMPARISONS[operator]} ?`, params: [toParam(value)] }
+  if (operator === 'like') return { sql: `${column} LIKE ? ESCAPE '\\'`, params: [value] }
+  if (operator === 'in') {
+    const values = value as unknown[]
+    // An empty list matches nothing, as `in.()` does over REST
+    if (values.length === 0) return { sql: '0 = 1', params: [] }
+    return { sql: `${column} IN (${values.map(() => '?').join(', ')})`, params: values.map(toParam) }
+  }
+  throw new Error(`Unsupported filter operator: ${operator}`)
+}
+
+const join = (fragments: SqlFragment[], separator: string): SqlFragment | null => {
+  if (fragments.length === 0) return null
+  if (fragments.length === 1) return fragments[0]
+  return {
+    sql: fragments.map(fragment => `(${fragment.sql})`).join(` ${separator} `),
+    params: fragments.flatMap(fragment => fragment.params)
+  }
+}
+
+// Turns a filter into a WHERE clause without the keyword; null when it filters nothing
+export const buildWhereSql = (condition: SqlCondition | null | undefined): SqlFragment | null => {
+  if (!condition) return null
+  if (Array.isArray(condition.AND)) {
+    return join(condition.AND.map(buildWhereSql).filter(Boolean) as SqlFragment[], 'AND')
+  }
+  if (Array.isArray(condition.OR)) {
+    const fragments = condition.OR.map(buildWhereSql).filter(Boolean) as SqlFragment[]
+    return fragments.length > 0 ? join(fragments, 'OR') : { sql: '0 = 1', params: [] }
+  }
+
+  const fragments: SqlFragment[] = []
+  for (const [field, value] of Object.entries(condition)) {
+    if (value === undefined) continue
+    const column = toColumn(field)
+    if (value === null) {
+      fragments.push({ sql: `${column} IS NULL`, params: [] })
+    } else if (typeof value === 'object' && !Array.isArray(value)) {
+      for (const [operator, operand] of Object.entries(value)) {
+        if (operand !== undefined) fragments.push(buildOperator(column, operator, operand))
+      }
+    } else {
+      fragments.push(buildOperator(column, 'eq', value))
+    }
+  }
+  return join(fragments, 'AND')
+}
+
+const toWhereClause = (where: SqlCondition | null | undefined) => {
+  const fragment = buildWhereSql(where)
+  return fragment ? { sql: ` WHERE ${fragment.sql}`, params: fragment.params } : { sql: '', params: [] }
+}
+
+export const listRows = async <T = Record<string, any>>(
+  table: string,
+  { where, orderBy, limit, offset }: SqlListOptions = {}
+): Promise<T[]> => {
+  const clause = toWhereClause(where)
+  const order = orderBy && Object.keys(orderBy).length > 0
+    ? ` ORDER BY ${Object.entries(orderBy)
+        .map(([field, direction]) => `${toColumn(field)} ${direction === 'asc' ? 'ASC' : 'DESC'}`)
+        .join(', ')}`
+    : ''
+  // SQLite only takes OFFSET after a LIMIT; -1 means no limit
+  const paging = limit || offset ? ' LIMIT ? OFFSET ?' : ''
+  const params = limit || offset ? [...clause.params, limit || -1, offset || 0] : clause.params
+  const result = await blink.db.sql<T>(`SELECT * FROM ${toColumn(table)}${clause.sql}${order}${paging}`, params)
+  return result.rows
+}
+
+export const countRows = async (table: string, where?: SqlCondition | null) => {
+  const clause = toWhereClause(where)
+  const result = await blink.db.sql<{ total: number | string }>(
+    `SELECT COUNT(*) AS total FROM ${toColumn(table)}${clause.sql}`,
+    clause.params
+  )
+  return Number(result.rows[0]?.total) || 0
+}
@@ -0,0 +1,86 @@
+import { blink } from '../blink/client'
+import { publishChange } from './liveUpdates'
+
+export type TaskEventType =
+  | 'created'
+  | 'status_changed'
+  | 'step_started'
+  | 'step_completed'
+  | 'step_failed'
+  | 'ai_call'
+  | 'error'
+  | 'user_action'
+
+// Who caused the event: `user:<id>`, `agent:<agentId>`, `dispatcher:<id>`, `scheduler`, `voice` or `system`
+export type TaskEventActor = string
+
+export interface TaskEvent {
+  id: string
+  taskId: string
+  userId: string
+  type: TaskEventType
+  actor: TaskEventActor
+  message: string
+  // Type-specific details, e.g. { status } or { stepId, prompt, response }
+  data: Record<string, any>
+  createdAt: string
+}
+
+export type NewTaskEvent = Omit<TaskEvent, 'id' | 'data' | 'createdAt'> & { data?: Record<string, any> }
+
+// Stored shape; data is a JSON string
+interface TaskEventRow extends Omit<TaskEvent, 'data'> {
+  data: string
+}
+
+const taskEventsTable = () => blink.db.table<TaskEventRow>('taskEvents')
+
+// Events recorded in the same millisecond in one tab still sort in the order they were written;
+// the random part keeps ids written by other tabs, or a dispatcher, from colliding
+let sequence = 0
+
+const toTaskEvent = (row: TaskEventRow): TaskEvent => {
+  let data: Record<string, any> = {}
+  try {
+    data = row.data ? JSON.parse(row.data) : {}
+  } catch {
+    data = {}
+  }
+  return { ...row, data }
+}
+
+export const userActor = (userId: string): TaskEventActor => `user:${userId}`
+export const agentActor = (agentId: string): TaskEventActor => `agent:${agentId}`
+
+// Events are only ever appended. A failed write is logged rather than thrown so that
+// the history can never be the reason a task fails. Every task write is followed by an
+// event, so this is also where open dashboards are told that the task changed.
+export const recordTaskEvent = async (event: NewTaskEvent): Promise<TaskEvent | null> => {
+  sequence = (sequence + 1) % 10000
+  const record: TaskEvent = {
+    ...event,
+    id: `evt_${Date.now()}_${String(sequence).padStart(4, '0')}_${crypto.randomUUID()}`,
+    data: event.data || {},
+    createdAt: new Date().toISOString()
+  }
+  let recorded: TaskEvent | null = record
+  try {
+    await taskEventsTable().create({ ...record, data: JSON.stringify(record.data) })
+  } catch (error) {
+    console.error(`Failed to record ${event.type} event for task ${event.taskId}:`, error)
+    recorded = null
+  }
+  // Not awaited: listeners only need to hear about it, the caller should not wait on them
+  publishChange(event.userId, 'tasks', event.taskId)
+  return recorded
+}
+
+export const listTaskEvents = async (taskId: string) => {
+  const rows = await taskEventsTable().list({
+    where: { taskId },
+    orderBy: { createdAt: 'asc' }
+  })
+  return rows
+    .map(toTaskEvent)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id))
+}
@@ -0,0 +1,450 @@
+import { blink } from '../blink/client'
+import type { Customer } from '../types/customer'
+import { sealProtectedValues } from './customers'
+import type { Task, TaskAgentType, TaskOutput, TaskStatus } from '../types/task'
+import { buildSearchText, buildSearchWhere } from './search'
+import { forEachPage, runMigrationOnce } from './migrations'
+import { countRows, escapeLike, listRows } from './sqlQuery'
+import { recordTaskEvent, userActor, type TaskEventActor } from './taskEvents'
+
+// Bumped when the stored shape changes; rows below it are rewritten by migrateLegacyTasks.
+// 2 added the search columns, 3 the customerId column, 4 sealed protected customer values,
+// 5 kept `%` and `_` in the search keys.
+export const TASK_SCHEMA_VERSION = 5
+
+// Stored shape; input and output are JSON strings
+interface TaskRow extends Omit<Task, 'input' | 'output'> {
+  inputData: string
+  outputData: string
+  schemaVersion: number
+  // Normalized task name, agent names and customer name, see buildTaskSearchText
+  searchText: string
+  // Normalized lastAction; kept apart because it changes on every step
+  lastActionSearch: string
+}
+
+export type NewTask = Pick<Task, 'userId' | 'agentType' | 'taskName' | 'language' | 'keigoMode'> &
+  Partial<Omit<Task, 'userId' | 'agentType' | 'taskName' | 'language' | 'keigoMode' | 'createdAt' | 'updatedAt'>>
+
+export type TaskChanges = Partial<Omit<Task, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>
+
+export type TaskSortField = 'createdAt' | 'updatedAt' | 'status' | 'agentType'
+
+export interface ListTasksOptions {
+  status?: TaskStatus | TaskStatus[]
+  customerId?: string
+  // Matches task name, last action, agent type and customer name, ignoring kana width and script
+  search?: string
+  sortBy?: TaskSortField
+  limit?: number
+  offset?: number
+  order?: 'asc' | 'desc'
+}
+
+const TASK_STATUSES: TaskStatus[] = ['pending', 'processing', 'completed', 'failed', 'cancelled']
+const AGENT_TYPES: TaskAgentType[] = ['onboard', 'followup', 'ops', 'voice_command', 'voice_agent']
+
+// Agent names the continuous voice interface used to write as agentType
+const LEGACY_VOICE_AGENTS: Record<string, TaskAgentType> = {
+  OnboardBot: 'onboard',
+  FollowUpAgent: 'followup',
+  OpsLogger: 'ops'
+}
+
+// Conversation types the autonomous voice agent used to write as taskType
+const VOICE_CONVERSATION_NAMES: Record<string, { ja: string; en: string }> = {
+  onboarding: { ja: 'オンボーディング会話', en: 'Onboarding conversation' },
+  followup: { ja: 'フォローアップ会話', en: 'Follow-up conversation' },
+  logging: { ja: '作業ログ会話', en: 'Field logging conversation' }
+}
+
+export const getVoiceConversationName = (conversationType: string, language: 'ja' | 'en') =>
+  VOICE_CONVERSATION_NAMES[conversationType]?.[language] || conversationType
+
+// Both names an agent is shown under, so operators can search in either language
+const AGENT_SEARCH_NAMES: Record<TaskAgentType, string[]> = {
+  onboard: ['OnboardBot', 'オンボードボット'],
+  followup: ['FollowUpAgent', 'フォローアップエージェント'],
+  ops: ['OpsLogger', 'オペレーションロガー'],
+  voice_command: ['Voice Command', '音声コマンド'],
+  voice_agent: ['Voice Agent', '音声エージェント']
+}
+
+const tasksTable = () => blink.db.table<TaskRow>('tasks')
+
+const parseJson = <T>(value: unknown): T | null => {
+  if (typeof value !== 'string' || !value) return null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+// Older writers stored Date objects and epoch numbers as well as ISO strings
+const toIso = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return ''
+  const date = new Date(value as string | number | Date)
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString()
+}
+
+const toKeigoMode = (value: unknown): 'formal' | 'casual' =>
+  // The voice agent stored a boolean "formal" flag
+  value === 'casual' || value === false || value === 0 || value === '0' || value === 'false' ? 'casual' : 'formal'
+
+// Reads any row ever written to the tasks table, including the pre-repository shapes
+const toTask = (raw: Record<string, any>): Task => {
+  let agentType: TaskAgentType = 'voice_command'
+  let input: Record<string, any> = parseJson<Record<string, any>>(raw.inputData) || {}
+  const language = raw.language === 'en' ? 'en' : 'ja'
+
+  if (AGENT_TYPES.includes(raw.agentType)) {
+    agentType = raw.agentType
+  } else if (raw.taskType) {
+    agentType = 'voice_agent'
+    input = { conversationType: raw.taskType, ...input }
+  } else if (LEGACY_VOICE_AGENTS[raw.agentType]) {
+    input = { transcript: raw.input, agent: LEGACY_VOICE_AGENTS[raw.agentType], ...input }
+  }
+
+  const status: TaskStatus = TASK_STATUSES.includes(raw.status)
+    ? raw.status
+    : raw.status === 'active' ? 'processing' : 'failed'
+  const createdAt = toIso(raw.createdAt) || toIso(raw.updatedAt) || new Date(0).toISOString()
+
+  return {
+    id: raw.id,
+    userId: raw.userId,
+    agentType,
+    taskName: raw.taskName ||
+      (input.conversationType ? getVoiceConversationName(input.conversationType, language) : '') ||
+      raw.lastAction ||
+      agentType,
+    status,
+    lastAction: raw.lastAction || '',
+    input,
+    customerId: raw.customerId || input.customerId || undefined,
+    output: parseJson<TaskOutput>(raw.outputData),
+    language,
+    keigoMode: toKeigoMode(raw.keigoMode),
+    currentStep: Number(raw.currentStep) || 0,
+    totalSteps: Number(raw.totalSteps) || 0,
+    progress: Number(raw.progress) || 0,
+    claimedBy: raw.claimedBy || undefined,
+    resumeFromStep: Number(raw.resumeFromStep) || 0,
+    createdAt,
+    updatedAt: toIso(raw.updatedAt) || createdAt
+  }
+}
+
+// Input and output carry copies of customer data, e.g. the loaded customer; protected values in
+// them are stored sealed and never opened again. Runs reveal what they need from the customer record.
+const toRowFields = async (task: Partial<Task>): Promise<Partial<TaskRow>> => {
+  const { input, output, ...rest } = task
+  return {
+    ...rest,
+    ...(input !== undefined ? { inputData: JSON.stringify(await sealProtectedValues(input)) } : {}),
+    ...(output !== undefined ? { outputData: output ? JSON.stringify(await sealProtectedValues(output)) : '' } : {}),
+    ...(rest.lastAction !== undefined ? { lastActionSearch: buildSearchText([rest.lastAction]) } : {})
+  }
+}
+
+// The customer is looked up once when the key is built; a failed lookup only makes the task
+// unsearchable by customer name
+const getTaskCustomer = async (customerId: string | undefined) => {
+  if (!customerId) return null
+  try {
+    return await blink.db.table<Customer>('customers').get(customerId)
+  } catch (error) {
+    console.error(`Failed to load customer ${customerId} for task search:`, error)
+    return null
+  }
+}
+
+const buildTaskSearchText = (task: Task, customer: Customer | null) =>
+  buildSearchText([
+    task.taskName,
+    task.agentType,
+    ...AGENT_SEARCH_NAMES[task.agentType],
+    customer?.name,
+    customer?.furigana
+  ])
+
+export const createTask = async (fields: NewTask, actor: TaskEventActor = userActor(fields.userId)): Promise<Task> => {
+  const now = new Date().toISOString()
+  const customerId = fields.customerId || fields.input?.customerId || undefined
+  const task: Task = {
+    status: 'pending',
+    lastAction: '',
+    input: {},
+    output: null,
+    currentStep: 0,
+    totalSteps: 0,
+    progress: 0,
+    ...fields,
+    ...(customerId ? { customerId, input: { ...fields.input, customerId } } : {}),
+    id: fields.id || `task_${fields.agentType}_${crypto.randomUUID()}`,
+    createdAt: now,
+    updatedAt: now
+  }
+  await tasksTable().create({
+    ...await toRowFields(task),
+    customerId: task.customerId || '',
+    searchText: buildTaskSearchText(task, await getTaskCustomer(task.customerId)),
+    schemaVersion: TASK_SCHEMA_VERSION
+  } as TaskRow)
+  await recordTaskEvent({
+    taskId: task.id,
+    userId: task.userId,
+    type: 'created',
+    actor,
+    message: task.lastAction || task.taskName,
+    data: { agentType: task.agentType, status: task.status }
+  })
+  return task
+}
+
+export const updateTask = async (id: string, changes: TaskChanges) => {
+  await tasksTable().update(id, { ...await toRowFields(changes), updatedAt: new Date().toISOString() })
+}
+
+// Moves a pending row to processing for one dispatcher in a single conditional write, so two
+// tabs polling the same queue cannot both run it and a cancelled row is never picked up.
+// Columns are snake_case in SQL. Returns whether this call made the change.
+export const claimPendingTask = async (id: string, userId: string, claimedBy: string, lastAction: string) => {
+  const now = new Date().toISOString()
+  const result = await blink.db.sql(
+    `UPDATE tasks
+        SET status = 'processing', claimed_by = ?, last_action = ?, last_action_search = ?, updated_at = ?
+      WHERE id = ? AND user_id = ? AND status = 'pending'`,
+    [claimedBy, lastAction, buildSearchText([lastAction]), now, id, userId]
+  )
+  return result.rowCount === 1
+}
+
+export const getTask = async (id: string) => {
+  const row = await tasksTable().get(id)
+  return row ? toTask(row) : null
+}
+
+const toTaskWhere = (userId: string, { status, customerId, search }: Pick<ListTasksOptions, 'status' | 'customerId' | 'search'>) => {
+  const conditions: Record<string, any>[] = [{ userId }]
+  if (customerId) conditions.push({ customerId })
+  if (status) conditions.push({ status: Array.isArray(status) ? { in: status } : status })
+  const searchWhere = search ? buildSearchWhere(search, ['searchText', 'lastActionSearch']) : null
+  if (searchWhere) conditions.push(searchWhere)
+  return { AND: conditions }
+}
+
+// Through SQL, since the filter nests the search terms under AND
+export const listTasks = async (userId: string, options: ListTasksOptions = {}) => {
+  const { sortBy = 'createdAt', limit, offset, order = 'desc' } = options
+  const rows = await listRows<TaskRow>('tasks', {
+    where: toTaskWhere(userId, options),
+    // Ties (same status or agent) keep newest first so pages do not shuffle between loads
+    orderBy: sortBy === 'createdAt' ? { createdAt: order } : { [sortBy]: order, createdAt: 'desc' },
+    ...(limit ? { limit } : {}),
+    ...(offset ? { offset } : {})
+  })
+  return rows.map(toTask)
+}
+
+export const countTasks = (userId: string, options: Pick<ListTasksOptions, 'status' | 'customerId' | 'search'> = {}) =>
+  countRows('tasks', toTaskWhere(userId, options))
+
+const RANGE_PAGE_SIZE = 500
+
+// Every task matching the filters, read in pages; used by exports of the current view
+export const listAllTasks = async (userId: string, options: Omit<ListTasksOptions, 'limit' | 'offset'> = {}) => {
+  const tasks: Task[] = []
+  for (let offset = 0; ; offset += RANGE_PAGE_SIZE) {
+    const page = await listTasks(userId, { ...options, limit: RANGE_PAGE_SIZE, offset })
+    tasks.push(...page)
+    if (page.length < RANGE_PAGE_SIZE) return tasks
+  }
+}
+
+// Every task created in [from, to), for reporting. Without a userId it covers all operators
+// the signed-in user is allowed to read. Through SQL, since REST keeps one bound of the range.
+export const listTasksCreatedBetween = async (from: string, to: string, userId?: string) => {
+  const where = { ...(userId ? { userId } : {}), createdAt: { gte: from, lt: to } }
+  const tasks: Task[] = []
+
+  for (let offset = 0; ; offset += RANGE_PAGE_SIZE) {
+    const rows = await listRows<TaskRow>('tasks', {
+      where,
+      orderBy: { createdAt: 'asc' },
+      limit: RANGE_PAGE_SIZE,
+      ...(offset ? { offset } : {})
+    })
+    tasks.push(...rows.map(toTask))
+    if (rows.length < RANGE_PAGE_SIZE) return tasks
+  }
+}
+
+// Points every task of one customer at another, e.g. when the two are merged
+export const moveCustomerTasks = async (userId: string, fromId: string, toId: string, actor: TaskEventActor) => {
+  // Rows not yet migrated only carry the id inside inputData. Two flat queries, combined here,
+  // since the SDK cuts nested OR filters short.
+  const [linked, unmigrated] = await Promise.all([
+    tasksTable().list({ where: { userId, customerId: fromId } }),
+    listRows<TaskRow>('tasks', { where: { userId, inputData: { like: `%"customerId":"${escapeLike(fromId)}"%` } } })
+  ])
+  const rows = [...new Map([...linked, ...unmigrated].map(row => [row.id, row])).values()]
+  // The id may also appear nested deeper in the input, so the match is confirmed on the parsed task
+  const tasks = rows.map(toTask).filter(task => task.customerId === fromId)
+
+  for (const task of tasks) {
+    await tasksTable().update(task.id, {
+      ...await toRowFields({ input: { ...task.input, customerId: toId }, customerId: toId }),
+      searchText: buildTaskSearchText(task, await getTaskCustomer(toId))
+    })
+    await recordTaskEvent({
+      taskId: task.id,
+      userId: task.userId,
+      type: 'user_action',
+      actor,
+      message: 'Customer merged',
+      data: { fromCustomerId: fromId, toCustomerId: toId }
+    })
+  }
+  return tasks.length
+}
+
+// Rewrites rows from before the repository existed into the canonical shape. Reads already
+// tolerate old rows; this makes them match the status, agentType and search filters queries use.
+// Runs once per schema version, reading the operator's rows in pages.
+export const migrateLegacyTasks = (userId: string) =>
+  runMigrationOnce('tasks', userId, TASK_SCHEMA_VERSION, async () => {
+    let migrated = 0
+    await forEachPage<TaskRow>(tasksTable(), { userId }, async rows => {
+      const legacy = rows.filter(row => Number(row.schemaVersion) !== TASK_SCHEMA_VERSION)
+      for (const row of legacy) {
+        const task = toTask(row)
+        await tasksTable().update(task.id, {
+          ...await toRowFields(task),
+          customerId: task.customerId || '',
+          searchText: buildTaskSearchText(task, await getTaskCustomer(task.customerId)),
+          lastActionSearch: buildSearchText([task.lastAction]),
+          schemaVersion: TASK_SCHEMA_VERSION
+        })
+      }
+      migrated += legacy.length
+    })
+    return migrated
+  })
+
+// A processing row that has not been touched for this long lost its runner (closed tab, crash)
+export const STALE_TASK_MS = 10 * 60 * 1000
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+export const canCancelTask = (task: Task) => task.status === 'pending' || task.status === 'processing'
+
+export const canRetryTask = (task: Task) => task.status === 'failed' || task.status === 'cancelled'
+
+// Resuming needs at least one finished step whose output was saved
+export const canResumeTask = (task: Task) =>
+  canRetryTask(task) && task.currentStep > 0 && !!task.output?.steps
+
+// Records a failure that happened outside a step, where the engine could not write it itself
+export const failTask = async (task: Pick<Task, 'id' | 'userId' | 'output'>, error: unknown, actor: TaskEventActor) => {
+  const message = getErrorMessage(error)
+  await updateTask(task.id, {
+    status: 'failed',
+    lastAction: `Failed: ${message}`,
+    output: {
+      ...task.output,
+      result: 'failed',
+      error: message,
+      failedAt: new Date().toISOString()
+    }
+  })
+  await recordTaskEvent({
+    taskId: task.id,
+    userId: task.userId,
+    type: 'error',
+    actor,
+    message,
+    data: { error: message, stack: error instanceof Error ? error.stack : undefined }
+  })
+  await recordTaskEvent({ taskId: task.id, userId: task.userId, type: 'status_changed', actor, message: 'failed', data: { status: 'failed' } })
+}
+
+// Pending tasks are never picked up; a running agent stops at its next step boundary
+export const cancelTask = async (task: Task, actor: TaskEventActor = userActor(task.userId)) => {
+  if (!canCancelTask(task)) return
+  await updateTask(task.id, { status: 'cancelled', lastAction: 'Cancelled' })
+  await recordTaskEvent({
+    taskId: task.id,
+    userId: task.userId,
+    type: 'user_action',
+    actor,
+    message: 'Cancelled',
+    data: { from: task.status, status: 'cancelled' }
+  })
+}
+
+// Queues the task again from the first step. Only dispatcher agent tasks are picked up.
+export const retryTask = async (task: Task, actor: TaskEventActor = userActor(task.userId)) => {
+  if (!canRetryTask(task)) return
+  await updateTask(task.id, {
+    status: 'pending',
+    lastAction: 'Queued for retry',
+    claimedBy: '',
+    currentStep: 0,
+    progress: 0,
+    resumeFromStep: 0,
+    output: null
+  })
+  await recordTaskEvent({
+    taskId: task.id,
+    userId: task.userId,
+    type: 'user_action',
+    actor,
+    message: 'Retry from the first step',
+    data: { from: task.status, status: 'pending' }
+  })
+}
+
+// Queues the task again from the step that failed or was interrupted, keeping earlier outputs
+export const resumeTask = async (task: Task, actor: TaskEventActor = userActor(task.userId)) => {
+  if (!canResumeTask(task)) return
+  await updateTask(task.id, {
+    status: 'pending',
+    lastAction: 'Queued to resume',
+    claimedBy: '',
+    resumeFromStep: task.currentStep,
+    output: { steps: task.output?.steps, ai: task.output?.ai }
+  })
+  await recordTaskEvent({
+    taskId: task.id,
+    userId: task.userId,
+    type: 'user_action',
+    actor,
+    message: `Resume from step ${task.currentStep + 1}`,
+    data: { from: task.status, status: 'pending', stepIndex: task.currentStep }
+  })
+}
+
+// Fails processing rows of the given agents nobody is advancing any more, so they stop holding
+// queue slots. Voice rows are left alone: a conversation may pause longer than the cutoff.
+export const sweepStaleTasks = async (
+  userId: string,
+  agentTypes: TaskAgentType[],
+  activeTaskIds: string[] = [],
+  now = Date.now()
+) => {
+  const processing = await listTasks(userId, { status: 'processing', order: 'asc' })
+  const stale = processing.filter(task =>
+    agentTypes.includes(task.agentType) &&
+    !activeTaskIds.includes(task.id) &&
+    now - new Date(task.updatedAt).getTime() > STALE_TASK_MS
+  )
+
+  for (const task of stale) {
+    await failTask(task, new Error(`No progress for ${STALE_TASK_MS / 60000} minutes; the run was interrupted`), 'system')
+  }
+  return stale
+}
@@ -0,0 +1,143 @@
+import { blink } from '../blink/client'
+import type { PartUsed, VisitLog } from '../types/visitLog'
+
+export type VisitLogDraft = Omit<VisitLog, 'id' | 'userId' | 'createdAt'>
+
+// Stored shape; list fields are JSON strings
+interface VisitLogRow extends Omit<VisitLog, 'equipmentSerials' | 'partsUsed'> {
+  equipmentSerials: string
+  partsUsed: string
+}
+
+// Fields the dictation extractor may fill
+export interface VisitLogDictation {
+  arrivalTime?: string
+  departureTime?: string
+  equipmentSerials?: string[]
+  workPerformed?: string
+  partsUsed?: PartUsed[]
+  signOffName?: string
+}
+
+const visitLogsTable = () => blink.db.table<VisitLogRow>('visitLogs')
+
+const parseList = <T>(value: string | undefined): T[] => {
+  try {
+    return value ? JSON.parse(value) : []
+  } catch {
+    return []
+  }
+}
+
+const toVisitLog = (row: VisitLogRow): VisitLog => ({
+  ...row,
+  equipmentSerials: parseList<string>(row.equipmentSerials),
+  partsUsed: parseList<PartUsed>(row.partsUsed),
+  latitude: row.latitude != null ? Number(row.latitude) : undefined,
+  longitude: row.longitude != null ? Number(row.longitude) : undefined
+})
+
+const toRowFields = (log: Partial<VisitLog>): Partial<VisitLogRow> => {
+  const { equipmentSerials, partsUsed, ...rest } = log
+  return {
+    ...rest,
+    ...(equipmentSerials ? { equipmentSerials: JSON.stringify(equipmentSerials) } : {}),
+    ...(partsUsed ? { partsUsed: JSON.stringify(partsUsed) } : {})
+  }
+}
+
+export const createVisitLog = async (userId: string, draft: VisitLogDraft): Promise<VisitLog> => {
+  const log: VisitLog = {
+    ...draft,
+    id: `visit_${Date.now()}`,
+    userId,
+    createdAt: new Date().toISOString()
+  }
+  await visitLogsTable().create(toRowFields(log) as VisitLogRow)
+  return log
+}
+
+export const updateVisitLog = async (id: string, updates: Partial<VisitLog>) => {
+  await visitLogsTable().update(id, toRowFields(updates))
+}
+
+export const getVisitLog = async (id: string) => {
+  const row = await visitLogsTable().get(id)
+  return row ? toVisitLog(row) : null
+}
+
+export const listVisitLogs = async (userId: string, options: { customerId?: string; limit?: number } = {}) => {
+  const rows = await visitLogsTable().list({
+    where: options.customerId ? { userId, customerId: options.customerId } : { userId },
+    orderBy: { arrivalTime: 'desc' },
+    limit: options.limit || 20
+  })
+  return rows.map(toVisitLog)
+}
+
+export const moveCustomerVisitLogs = async (userId: string, fromId: string, toId: string) => {
+  const rows = await visitLogsTable().list({ where: { userId, customerId: fromId } })
+  if (rows.length > 0) await visitLogsTable().updateMany(rows.map(row => ({ id: row.id, customerId: toId })))
+  return rows.length
+}
+
+// Turns one dictated utterance into form fields. Times come back as local
+// "YYYY-MM-DDTHH:mm" values so they can go straight into datetime-local inputs.
+export const extractVisitLogFields = async (
+  text: string,
+  language: 'ja' | 'en',
+  now = new Date()
+): Promise<VisitLogDictation> => {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const localNow = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}T${pad(now.getHours())}:${pad(now.getMinutes())}`
+
+  const { object } = await blink.ai.generateObject({
+    prompt: `A field technician dictated this note about a customer visit (${language === 'ja' ? 'Japanese' : 'English'}):
+"${text}"
+
+The current local time is ${localNow}. Extract only what is stated:
+- arrivalTime / departureTime as YYYY-MM-DDTHH:mm (resolve "14時に到着", "arrived at 2pm" against today)
+- equipmentSerials: serial numbers of devices, routers or SIMs mentioned
+- workPerformed: a short description of the work done, in the dictation's language
+- partsUsed: parts or consumables with quantities (default 1)
+- signOffName: the name the customer signed or confirmed with, if mentioned
+Leave out fields that are not mentioned.`,
+    schema: {
+      type: 'object',
+      properties: {
+        arrivalTime: { type: 'string' },
+        departureTime: { type: 'string' },
+        equipmentSerials: { type: 'array', items: { type: 'string' } },
+        workPerformed: { type: 'string' },
+        partsUsed: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              quantity: { type: 'number' }
+            },
+            required: ['name']
+          }
+        },
+        signOffName: { type: 'string' }
+      }
+    }
+  })
+
+  return object as VisitLogDictation
+}
+
+// Dictation adds to the form rather than replacing what the technician already entered
+export const mergeVisitLogDictation = (draft: VisitLogDraft, dictation: VisitLogDictation): VisitLogDraft => ({
+  ...draft,
+  arrivalTime: dictation.arrivalTime || draft.arrivalTime,
+  departureTime: dictation.departureTime || draft.departureTime,
+  equipmentSerials: Array.from(new Set([...draft.equipmentSerials, ...(dictation.equipmentSerials || [])])),
+  workPerformed: [draft.workPerformed, dictation.workPerformed].filter(Boolean).join('\n'),
+  partsUsed: [
+    ...draft.partsUsed,
+    ...(dictation.partsUsed || []).map(part => ({ name: part.name, quantity: Number(part.quantity) || 1 }))
+  ],
+  signOffName: dictation.signOffName || draft.signOffName
+})
@@ -0,0 +1,254 @@
+// Minimal XLSX writer for exported reports: one worksheet of strings and numbers.
+// The package is a ZIP with every part stored uncompressed, so no compression library
+// is needed; Excel, Numbers and LibreOffice all open it. Strings are written inline,
+// which keeps Japanese text as UTF-8 without a shared string table.
+// readXlsx does the reverse for imports, inflating parts with the built-in DecompressionStream.
+
+export type XlsxCell = string | number | null | undefined
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Characters XML 1.0 does not allow at all are dropped rather than escaped
+const escapeXml = (value: string) =>
+  value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const columnName = (index: number) => {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+const renderCell = (value: XlsxCell, ref: string) => {
+  if (value === null || value === undefined || value === '') return ''
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+}
+
+const renderSheet = (rows: XlsxCell[][]) => {
+  const body = rows
+    .map((row, rowIndex) =>
+      `<row r="${rowIndex + 1}">${row.map((value, column) => renderCell(value, `${columnName(column)}${rowIndex + 1}`)).join('')}</row>`
+    )
+    .join('')
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    // Keeps the header row in view while scrolling
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${body}</sheetData></worksheet>`
+}
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+const toSheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1'
+
+const writeUint16 = (view: DataView, offset: number, value: number) => view.setUint16(offset, value, true)
+const writeUint32 = (view: DataView, offset: number, value: number) => view.setUint32(offset, value, true)
+
+// DOS date for 1980-01-01 00:00; a fixed timestamp keeps the output deterministic
+const DOS_DATE = (0 << 9) | (1 << 5) | 1
+
+const createZip = (files: { name: string; data: Uint8Array }[]) => {
+  const chunks: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const crc = crc32(file.data)
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    writeUint32(localView, 0, 0x04034b50)
+    writeUint16(localView, 4, 20)
+    writeUint16(localView, 6, 0x0800) // UTF-8 file names
+    writeUint16(localView, 8, 0) // stored
+    writeUint16(localView, 10, 0)
+    writeUint16(localView, 12, DOS_DATE)
+    writeUint32(localView, 14, crc)
+    writeUint32(localView, 18, file.data.length)
+    writeUint32(localView, 22, file.data.length)
+    writeUint16(localView, 26, name.length)
+    local.set(name, 30)
+
+    const entry = new Uint8Array(46 + name.length)
+    const entryView = new DataView(entry.buffer)
+    writeUint32(entryView, 0, 0x02014b50)
+    writeUint16(entryView, 4, 20)
+    writeUint16(entryView, 6, 20)
+    writeUint16(entryView, 8, 0x0800)
+    writeUint16(entryView, 10, 0)
+    writeUint16(entryView, 12, 0)
+    writeUint16(entryView, 14, DOS_DATE)
+    writeUint32(entryView, 16, crc)
+    writeUint32(entryView, 20, file.data.length)
+    writeUint32(entryView, 24, file.data.length)
+    writeUint16(entryView, 28, name.length)
+    writeUint32(entryView, 42, offset)
+    entry.set(name, 46)
+
+    chunks.push(local, file.data)
+    central.push(entry)
+    offset += local.length + file.data.length
+  }
+
+  const centralSize = central.reduce((sum, entry) => sum + entry.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  writeUint32(endView, 0, 0x06054b50)
+  writeUint16(endView, 8, files.length)
+  writeUint16(endView, 10, files.length)
+  writeUint32(endView, 12, centralSize)
+  writeUint32(endView, 16, offset)
+
+  const parts = [...chunks, ...central, end]
+  const output = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  for (const part of parts) {
+    output.set(part, position)
+    position += part.length
+  }
+  return output
+}
+
+// The first row is treated as the header
+export const createXlsx = (rows: XlsxCell[][], sheetName = 'Sheet1'): Uint8Array => {
+  const files: Record<string, string> = {
+    '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml': renderSheet(rows)
+  }
+
+  return createZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })))
+}
+
+const readUint16 = (view: DataView, offset: number) => view.getUint16(offset, true)
+const readUint32 = (view: DataView, offset: number) => view.getUint32(offset, true)
+
+const inflate = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Every part of the package, decoded as text; only stored and deflated entries occur in XLSX
+const readZip = async (data: Uint8Array) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  let end = data.length - 22
+  while (end >= 0 && readUint32(view, end) !== 0x06054b50) end--
+  if (end < 0) throw new Error('Not an XLSX file')
+
+  const files = new Map<string, string>()
+  let entry = readUint32(view, end + 16)
+  for (let count = readUint16(view, end + 10); count > 0; count--) {
+    const method = readUint16(view, entry + 10)
+    const size = readUint32(view, entry + 20)
+    const nameLength = readUint16(view, entry + 28)
+    const extraLength = readUint16(view, entry + 30)
+    const commentLength = readUint16(view, entry + 32)
+    const local = readUint32(view, entry + 42)
+    const name = decoder.decode(data.subarray(entry + 46, entry + 46 + nameLength))
+
+    const start = local + 30 + readUint16(view, local + 26) + readUint16(view, local + 28)
+    const raw = data.subarray(start, start + size)
+    if (method === 0 || method === 8) files.set(name, decoder.decode(method === 8 ? await inflate(raw) : raw))
+    entry += 46 + nameLength + extraLength + commentLength
+  }
+  return files
+}
+
+const unescapeXml = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)))
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity.toLowerCase()] as string
+  })
+
+// Rich text runs are joined; phonetic guides (<rPh>) are not part of the value
+const readText = (xml: string) =>
+  unescapeXml(
+    [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)]
+      .map(match => match[1])
+      .join('')
+  )
+
+const getAttribute = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1]
+
+const columnIndex = (ref: string) =>
+  [...ref.replace(/\d+$/, '')].reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1
+
+// The first worksheet as rows of text. Numbers come back as written in the file, so a phone
+// number typed as a number has lost its leading zero; dates come back as serial numbers.
+export const readXlsx = async (data: Uint8Array): Promise<string[][]> => {
+  const files = await readZip(data)
+
+  const sharedStrings = [...(files.get('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => readText(match[1]))
+
+  const workbook = files.get('xl/workbook.xml') || ''
+  const sheetId = getAttribute(workbook.match(/<sheet\s[^>]*>/)?.[0] || '', 'r:id')
+  const relationships = files.get('xl/_rels/workbook.xml.rels') || ''
+  const relationship = [...relationships.matchAll(/<Relationship\s[^>]*>/g)]
+    .map(match => match[0])
+    .find(tag => getAttribute(tag, 'Id') === sheetId)
+  const target = (relationship && getAttribute(relationship, 'Target')) || 'worksheets/sheet1.xml'
+  const sheet = files.get(target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+  if (!sheet) throw new Error('The workbook has no worksheet')
+
+  const rows: string[][] = []
+  for (const [, rowAttributes, rowBody = ''] of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(getAttribute(rowAttributes, 'r')) || rows.length + 1
+    const row: string[] = []
+    for (const [, cellAttributes, cellBody = ''] of rowBody.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = getAttribute(cellAttributes, 'r')
+      const type = getAttribute(cellAttributes, 't')
+      const value = cellBody.match(/<v>([\s\S]*?)<\/v>/)?.[1] || ''
+      const text = type === 's'
+        ? sharedStrings[Number(value)] || ''
+        : type === 'inlineStr' ? readText(cellBody) : unescapeXml(value)
+      row[ref ? columnIndex(ref) : row.length] = text
+    }
+    rows[rowNumber - 1] = Array.from(row, cell => cell || '')
+  }
+  return Array.from(rows, row => row || [])
+}
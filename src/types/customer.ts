@@ -0,0 +1,30 @@
+export interface Customer {
+  id: string
+  name: string
+  // Katakana reading of the name (フリガナ)
+  furigana?: string
+  email?: string
+  phone?: string
+  postalCode?: string
+  address?: string
+  // Derived from phone and address on every save, see buildCustomerStructuredFields
+  phoneType?: string
+  prefecture?: string
+  municipality?: string
+  town?: string
+  addressLine?: string
+  building?: string
+  identificationType?: string
+  identificationNumber?: string
+  // Masked copies of the protected fields, e.g. ＊＊＊-＊＊＊＊-5678, written with them. Sealed
+  // values are shown through these until an operator reveals them.
+  identificationNumberMasked?: string
+  phoneMasked?: string
+  addressMasked?: string
+  birthDate?: string
+  residenceCardExpiry?: string
+  preferredLanguage: string
+  keigoPreference: string
+  createdAt: string
+  updatedAt?: string
+}
@@ -0,0 +1,50 @@
+export type TaskStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+// Agents run by the dispatcher plus the voice surfaces that only record what they did
+export type TaskAgentType = 'onboard' | 'followup' | 'ops' | 'voice_command' | 'voice_agent'
+
+// One model call made while running the task, kept so operators can explain the result
+export interface TaskAiExchange {
+  stepId?: string
+  prompt: string
+  response: string
+  createdAt: string
+}
+
+// What a run leaves behind; agent runs fill `steps`, voice commands fill `response`
+export interface TaskOutput {
+  result?: 'success' | 'failed'
+  failedStep?: string
+  error?: string
+  // Attempts made on the failed step, including retries
+  attempts?: number
+  failedAt?: string
+  // Outputs of finished agent steps, keyed by step id
+  steps?: Record<string, any>
+  response?: string
+  ai?: TaskAiExchange[]
+}
+
+export interface Task {
+  id: string
+  userId: string
+  agentType: TaskAgentType
+  taskName: string
+  status: TaskStatus
+  lastAction: string
+  input: Record<string, any>
+  // Customer the task was run for; also kept in input.customerId, which agents read
+  customerId?: string
+  output: TaskOutput | null
+  language: 'ja' | 'en'
+  keigoMode: 'formal' | 'casual'
+  currentStep: number
+  totalSteps: number
+  progress: number
+  // Dispatcher that owns the run, see TaskDispatcher.claim
+  claimedBy?: string
+  // Set by resumeTask; the next run starts at this step and reuses earlier outputs
+  resumeFromStep?: number
+  createdAt: string
+  updatedAt: string
+}
@@ -0,0 +1,24 @@
+export interface PartUsed {
+  name: string
+  quantity: number
+}
+
+export interface VisitLog {
+  id: string
+  userId: string
+  technician: string
+  customerId: string
+  arrivalTime: string
+  departureTime?: string
+  equipmentSerials: string[]
+  workPerformed: string
+  partsUsed: PartUsed[]
+  latitude?: number
+  longitude?: number
+  // Name the customer signed with; empty until they confirm the work
+  signOffName?: string
+  signedOffAt?: string
+  workReport?: string
+  taskId?: string
+  createdAt: string
+}
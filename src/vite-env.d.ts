@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Set to "memory" to keep outbound email/SMS in an in-memory sink instead of sending
+  readonly VITE_DELIVERY_SINK?: string
+  readonly VITE_SMS_GATEWAY_URL?: string
+  readonly VITE_SMS_SENDER?: string
+  // URL of the field-crypto edge function, which seals protected customer fields at rest
+  readonly VITE_FIELD_CRYPTO_URL?: string
+  // Comma-separated customer fields to protect besides identificationNumber, e.g. "phone,address"
+  readonly VITE_PROTECTED_CUSTOMER_FIELDS?: string
+}